@@ -1,83 +1,494 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Task, ViewMode, SplitViewConfig } from './types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Task, ViewMode, SplitViewConfig, DependencyLink, WorkingCalendar, CustomFieldDefinition, TeamMember, SavedView, TaskViewState } from './types';
 import { TaskForm } from './components/TaskForm';
 import { TaskList } from './components/TaskList';
 import { GanttChart } from './components/GanttChart';
 import { AiInteraction } from './components/AiInteraction';
 import { Modal } from './components/Modal';
-import { parseTasksFromYaml, stringifyTasksToYaml } from './services/yamlService';
+import { parseTasksFromYaml, stringifyTasksToYaml, validateTasksYaml, YamlValidationError } from './services/yamlService';
+import { TaskValidationError, removeInvalidCustomFieldValues } from './services/validationService';
+import { findDependencyCycles, formatCyclePath, isDefaultDependencyLink, withDependencies, wouldCreateCycle } from './services/dependencyService';
+import { HistoryState, createHistory, loadHistory, saveHistory, clearHistory, recordHistory, undoHistory, redoHistory } from './services/historyService';
+import {
+  ProjectData,
+  ProjectMeta,
+  ProjectSettings,
+  createStorageBackend,
+  createProjectData,
+  loadActiveProject
+} from './services/storageService';
+import { diffTaskFields } from './services/taskDiffService';
+import { applyImportedTask } from './services/calendarService';
+import { getDescendantIds, removeTaskWithSubtree, rollupSummaryTasks } from './services/hierarchyService';
+import { applyProgress } from './services/progressService';
+import { applyTaskOperation } from './services/taskOperationService';
+import { DEFAULT_WORKING_CALENDAR, normalizeWorkingCalendar } from './services/workingCalendarService';
+import { normalizeCustomFieldDefinitions } from './services/customFieldService';
+import { normalizeTeam, removeAssigneeFromTasks } from './services/teamService';
+import { getAllTags, normalizeTagColors } from './services/tagService';
+import { isEmptySearchQuery, matchesSearchQuery, parseSearchQuery } from './services/searchService';
+import { createSavedView, DEFAULT_VIEW_STATE, getDefaultSavedView, isSameViewState, normalizeSavedViews, normalizeViewState } from './services/viewService';
+import { SyncChannel, SyncMessage, TaskConflict, openSyncChannel, mergeRemoteTasks, mergeRemoteSettings, shouldRemoteWin, isSameTaskList, isSameSettings } from './services/syncService';
 import { APP_TITLE, INITIAL_TASKS_YAML } from './constants';
 import { 
   ListViewIcon, 
   GanttViewIcon, 
   AiViewIcon,
+  WorkloadViewIcon,
+  TeamIcon,
+  TagIcon,
   AddIcon,
   CloseIcon,
+  UndoIcon,
+  RedoIcon,
+  CalendarIcon,
+  SettingsIcon,
   iconSizes
 } from './components/icons';
 import { ResizablePanel } from './components/ResizablePanel';
+import { ProjectSwitcher } from './components/ProjectSwitcher';
+import { WorkingCalendarSettings } from './components/WorkingCalendarSettings';
+import { CustomFieldSettings } from './components/CustomFieldSettings';
+import { TeamSettings } from './components/TeamSettings';
+import { TagSettings } from './components/TagSettings';
+import { WorkloadView } from './components/WorkloadView';
+import { SearchBox } from './components/SearchBox';
+import { SavedViewControls } from './components/SavedViewSelector';
 import './styles/globals.css';
 
+const DEFAULT_SPLIT_VIEW_CONFIG: SplitViewConfig = {
+  leftPane: 'list',
+  rightPane: 'gantt',
+  splitDirection: 'horizontal',
+  leftSize: 50,
+  rightSize: 50
+};
+
 const App: React.FC = () => {
+  const [storage] = useState(createStorageBackend);
+  const [projects, setProjects] = useState<ProjectMeta[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  // 保存済みのプロジェクト全体（タスク・分割ビュー設定・各種設定）。部分的な変更をまとめて保存するために保持する
+  const projectRef = useRef<ProjectData | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [yamlString, setYamlString] = useState<string>('');
   const [currentView, setCurrentView] = useState<ViewMode>('list');
-  const [splitViewConfig, setSplitViewConfig] = useState<SplitViewConfig>({
-    leftPane: 'list',
-    rightPane: 'gantt',
-    splitDirection: 'horizontal',
-    leftSize: 50,
-    rightSize: 50
-  });
+  const [splitViewConfig, setSplitViewConfig] = useState<SplitViewConfig>(DEFAULT_SPLIT_VIEW_CONFIG);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [newTaskParentId, setNewTaskParentId] = useState<string | undefined>(undefined);
+  const [autoStatusFromProgress, setAutoStatusFromProgress] = useState(true);
+  const [workingCalendar, setWorkingCalendar] = useState<WorkingCalendar>(DEFAULT_WORKING_CALENDAR);
+  const [isCalendarSettingsOpen, setIsCalendarSettingsOpen] = useState(false);
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
+  const [isCustomFieldSettingsOpen, setIsCustomFieldSettingsOpen] = useState(false);
+  const [team, setTeam] = useState<TeamMember[]>([]);
+  const [isTeamSettingsOpen, setIsTeamSettingsOpen] = useState(false);
+  const [tagColors, setTagColors] = useState<Record<string, string>>({});
+  const [searchText, setSearchText] = useState('');
+  const searchQuery = useMemo(() => parseSearchQuery(searchText), [searchText]);
+  const searchMatchCount = useMemo(
+    () => (isEmptySearchQuery(searchQuery) ? undefined : tasks.filter(task => matchesSearchQuery(task, searchQuery, team)).length),
+    [tasks, searchQuery, team]
+  );
+  const [isTagSettingsOpen, setIsTagSettingsOpen] = useState(false);
+  // 一覧とガントチャートで共有する表示条件（ビューを切り替えても保つ）と保存ビュー
+  const [viewState, setViewState] = useState<TaskViewState>(DEFAULT_VIEW_STATE);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [defaultViewId, setDefaultViewId] = useState<string | undefined>(undefined);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [yamlErrors, setYamlErrors] = useState<TaskValidationError[]>([]);
+  const [yamlWarnings, setYamlWarnings] = useState<TaskValidationError[]>([]);
+  const [history, setHistory] = useState<HistoryState>(createHistory);
+
+  // 履歴に記録する「変更前」のタスク一覧。同じイベント内で続けて変更されても正しく記録できるよう ref で保持する
+  const tasksRef = useRef<Task[]>(tasks);
+  tasksRef.current = tasks;
+
+  // 別タブとの同期: 最後に他のタブと一致していたタスク一覧と設定（3方向マージの基準）と、このタブが最後に変更を送った時刻
+  const tabIdRef = useRef<string>(crypto.randomUUID());
+  const syncChannelRef = useRef<SyncChannel | null>(null);
+  const syncBaseTasksRef = useRef<Task[]>([]);
+  const syncBaseSettingsRef = useRef<ProjectSettings>({});
+  const lastBroadcastAtRef = useRef(0);
+  const [syncConflicts, setSyncConflicts] = useState<TaskConflict[]>([]);
+
+  useEffect(() => {
+    if (activeProjectId) saveHistory(history, activeProjectId);
+  }, [history, activeProjectId]);
+
+  // アクティブなプロジェクトへの変更を保存する（保存は非同期で行い、失敗した場合はエラーを表示）
+  const persistProject = useCallback((changes: Partial<Omit<ProjectData, 'meta'>>) => {
+    const current = projectRef.current;
+    if (!current) return;
+    const updated: ProjectData = { ...current, ...changes, meta: { ...current.meta, updatedAt: new Date().toISOString() } };
+    projectRef.current = updated;
+    storage.saveProject(updated).catch(e => {
+      setError(`プロジェクトの保存に失敗しました: ${(e as Error).message}`);
+    });
+
+    // 別タブへ変更を通知する
+    // マージの基準は他のタブも把握している状態にだけ進める（このタブだけの保存では進めない）
+    const timestamp = Date.now();
+    lastBroadcastAtRef.current = timestamp;
+    syncChannelRef.current?.post({
+      kind: 'project-updated',
+      sourceTabId: tabIdRef.current,
+      timestamp,
+      meta: updated.meta,
+      tasks: updated.tasks,
+      settings: updated.settings,
+      splitViewConfig: updated.splitViewConfig,
+    });
+  }, [storage]);
+
+  const notifyProjectsChanged = useCallback(() => {
+    syncChannelRef.current?.post({ kind: 'projects-changed', sourceTabId: tabIdRef.current, timestamp: Date.now() });
+  }, []);
+
+  // プロジェクトの内容を画面に反映する（履歴はプロジェクトごとに切り替える）
+  const openProject = useCallback((project: ProjectData) => {
+    projectRef.current = project;
+    tasksRef.current = project.tasks;
+    syncBaseTasksRef.current = project.tasks;
+    syncBaseSettingsRef.current = project.settings;
+    setSyncConflicts([]);
+    setActiveProjectId(project.meta.id);
+    setTasks(project.tasks);
+    setYamlString(stringifyTasksToYaml(project.tasks));
+    setYamlErrors([]);
+    setYamlWarnings([]);
+    setSplitViewConfig(project.splitViewConfig || DEFAULT_SPLIT_VIEW_CONFIG);
+    if (project.settings.currentView) setCurrentView(project.settings.currentView);
+    setAutoStatusFromProgress(project.settings.autoStatusFromProgress ?? true);
+    setWorkingCalendar(normalizeWorkingCalendar(project.settings.workingCalendar));
+    setCustomFields(normalizeCustomFieldDefinitions(project.settings.customFields));
+    setTeam(normalizeTeam(project.settings.team));
+    setTagColors(normalizeTagColors(project.settings.tagColors));
+    // 既定の保存ビューがあればその表示条件で開く
+    const views = normalizeSavedViews(project.settings.savedViews);
+    const defaultView = getDefaultSavedView(views, project.settings.defaultViewId);
+    setSavedViews(views);
+    setDefaultViewId(defaultView?.id);
+    setActiveViewId(defaultView?.id ?? null);
+    setViewState(defaultView?.state ?? DEFAULT_VIEW_STATE);
+    setHistory(loadHistory(project.meta.id));
+
+    // 既存データに循環が含まれていても読み込み、警告として表示する（Ganttで該当タスクを強調表示）
+    const cycles = findDependencyCycles(project.tasks);
+    setError(cycles.length > 0
+      ? `依存関係が循環しています: ${cycles.map(cycle => formatCyclePath(cycle, project.tasks)).join(' / ')}`
+      : null);
+  }, []);
 
-  // Load initial tasks from YAML constant or localStorage
+  // Load the active project (migrating legacy localStorage data on first load)
   useEffect(() => {
-    const storedYaml = localStorage.getItem('tasksYaml');
-    const initialYaml = storedYaml || INITIAL_TASKS_YAML;
-    setYamlString(initialYaml);
-    
-    // Load split view configuration from localStorage
-    const storedSplitConfig = localStorage.getItem('splitViewConfig');
-    if (storedSplitConfig) {
+    const initialize = async () => {
       try {
-        const parsedConfig = JSON.parse(storedSplitConfig);
-        setSplitViewConfig(parsedConfig);
+        const { project, warning } = await loadActiveProject(storage, () => parseTasksFromYaml(INITIAL_TASKS_YAML));
+        openProject(project);
+        setProjects(await storage.listProjects());
+        if (warning) setError(warning);
       } catch (e) {
-        console.error('Failed to parse stored split view config:', e);
+        setError(`Error loading initial tasks: ${(e as Error).message}`);
+        setTasks([]); // fallback to empty
+        setYamlString(stringifyTasksToYaml([]));
       }
+    };
+    initialize();
+  }, [storage, openProject]);
+
+  // 表示中のビューをプロジェクトの設定として保存する
+  useEffect(() => {
+    const project = projectRef.current;
+    if (project && project.settings.currentView !== currentView) {
+      persistProject({ settings: { ...project.settings, currentView } });
     }
-    
+  }, [currentView, persistProject]);
+
+  const handleAutoStatusFromProgressChange = useCallback((enabled: boolean) => {
+    setAutoStatusFromProgress(enabled);
+    const project = projectRef.current;
+    if (project) persistProject({ settings: { ...project.settings, autoStatusFromProgress: enabled } });
+  }, [persistProject]);
+
+  const handleWorkingCalendarChange = useCallback((calendar: WorkingCalendar) => {
+    setWorkingCalendar(calendar);
+    setIsCalendarSettingsOpen(false);
+    const project = projectRef.current;
+    if (project) persistProject({ settings: { ...project.settings, workingCalendar: calendar } });
+  }, [persistProject]);
+
+  const handleTagColorsChange = useCallback((colors: Record<string, string>) => {
+    setTagColors(colors);
+    setIsTagSettingsOpen(false);
+    const project = projectRef.current;
+    if (project) persistProject({ settings: { ...project.settings, tagColors: colors } });
+  }, [persistProject]);
+
+  const persistSavedViews = useCallback((views: SavedView[], newDefaultViewId: string | undefined) => {
+    setSavedViews(views);
+    setDefaultViewId(newDefaultViewId);
+    const project = projectRef.current;
+    if (project) persistProject({ settings: { ...project.settings, savedViews: views, defaultViewId: newDefaultViewId } });
+  }, [persistProject]);
+
+  const activeSavedView = savedViews.find(view => view.id === activeViewId);
+  const savedViewControls = useMemo((): SavedViewControls => ({
+    views: savedViews,
+    activeViewId: activeSavedView?.id ?? null,
+    defaultViewId,
+    isModified: !!activeSavedView && !isSameViewState(activeSavedView.state, viewState),
+    onSelect: (viewId) => {
+      const view = savedViews.find(v => v.id === viewId);
+      if (!view) return;
+      setActiveViewId(view.id);
+      setViewState(view.state);
+    },
+    onSaveAs: (name) => {
+      const view = createSavedView(name, viewState);
+      persistSavedViews([...savedViews, view], defaultViewId);
+      setActiveViewId(view.id);
+    },
+    onUpdate: () => {
+      if (!activeSavedView) return;
+      persistSavedViews(savedViews.map(view => (view.id === activeSavedView.id ? { ...view, state: normalizeViewState(viewState) } : view)), defaultViewId);
+    },
+    onRename: (name) => {
+      if (!activeSavedView) return;
+      persistSavedViews(savedViews.map(view => (view.id === activeSavedView.id ? { ...view, name } : view)), defaultViewId);
+    },
+    onDelete: () => {
+      if (!activeSavedView) return;
+      // 表示条件はそのまま残し、保存ビューの選択だけを外す
+      persistSavedViews(savedViews.filter(view => view.id !== activeSavedView.id), defaultViewId === activeSavedView.id ? undefined : defaultViewId);
+      setActiveViewId(null);
+    },
+    onSetDefault: (viewId) => persistSavedViews(savedViews, viewId),
+  }), [savedViews, activeSavedView, defaultViewId, viewState, persistSavedViews]);
+
+  const handleSwitchProject = useCallback(async (projectId: string) => {
+    if (projectId === projectRef.current?.meta.id) return;
     try {
-      const parsedTasks = parseTasksFromYaml(initialYaml);
-      setTasks(parsedTasks);
+      const project = await storage.loadProject(projectId);
+      if (!project) throw new Error(`Project "${projectId}" not found.`);
+      await storage.setActiveProjectId(projectId);
+      openProject(project);
     } catch (e) {
-      setError(`Error loading initial tasks: ${(e as Error).message}`);
-      setTasks([]); // fallback to empty
-      setYamlString(stringifyTasksToYaml([])); // clear yaml if parsing fails
+      setError(`プロジェクトを開けませんでした: ${(e as Error).message}`);
     }
-  }, []);
+  }, [storage, openProject]);
 
-  // Sync tasks to YAML string and localStorage whenever tasks change from GUI
+  const handleCreateProject = useCallback(async (name: string) => {
+    try {
+      const project = createProjectData(name, [], projectRef.current?.splitViewConfig);
+      await storage.saveProject(project);
+      await storage.setActiveProjectId(project.meta.id);
+      openProject(project);
+      setProjects(await storage.listProjects());
+      notifyProjectsChanged();
+    } catch (e) {
+      setError(`プロジェクトを作成できませんでした: ${(e as Error).message}`);
+    }
+  }, [storage, openProject, notifyProjectsChanged]);
+
+  const handleRenameProject = useCallback((name: string) => {
+    const current = projectRef.current;
+    if (!current) return;
+    const meta = { ...current.meta, name };
+    projectRef.current = { ...current, meta };
+    persistProject({});
+    setProjects(prev => prev.map(project => (project.id === meta.id ? meta : project)));
+  }, [persistProject]);
+
+  const handleDeleteProject = useCallback(async () => {
+    const current = projectRef.current;
+    if (!current || projects.length <= 1) return;
+    if (!window.confirm(`プロジェクト「${current.meta.name}」を削除してもよろしいですか？この操作は元に戻せません。`)) return;
+    try {
+      await storage.deleteProject(current.meta.id);
+      clearHistory(current.meta.id);
+      const remaining = await storage.listProjects();
+      setProjects(remaining);
+      notifyProjectsChanged();
+      const next = await storage.loadProject(remaining[0].id);
+      if (next) {
+        await storage.setActiveProjectId(next.meta.id);
+        openProject(next);
+      }
+    } catch (e) {
+      setError(`プロジェクトを削除できませんでした: ${(e as Error).message}`);
+    }
+  }, [storage, projects.length, openProject, notifyProjectsChanged]);
+
+  // 別タブで行われた変更を受け取り、このタブの状態にマージする
+  const handleSyncMessage = useCallback(async (message: SyncMessage) => {
+    if (message.kind === 'projects-changed') {
+      const remaining = await storage.listProjects();
+      setProjects(remaining);
+      // 開いているプロジェクトが別タブで削除された場合は、残っているプロジェクトに切り替える
+      if (projectRef.current && !remaining.some(project => project.id === projectRef.current!.meta.id) && remaining.length > 0) {
+        const next = await storage.loadProject(remaining[0].id);
+        if (next) openProject(next);
+      }
+      return;
+    }
+
+    setProjects(prev => prev.map(project => (project.id === message.meta.id ? message.meta : project)));
+    const current = projectRef.current;
+    if (!current || current.meta.id !== message.meta.id) return;
+
+    const remoteWins = shouldRemoteWin(lastBroadcastAtRef.current, tabIdRef.current, message.timestamp, message.sourceTabId);
+    const { tasks: mergedTasks, conflicts } = mergeRemoteTasks(syncBaseTasksRef.current, tasksRef.current, message.tasks, remoteWins);
+    const mergedSettings = mergeRemoteSettings(syncBaseSettingsRef.current, current.settings, message.settings, remoteWins);
+    const splitConfig = remoteWins ? message.splitViewConfig : current.splitViewConfig;
+
+    syncBaseTasksRef.current = mergedTasks;
+    syncBaseSettingsRef.current = mergedSettings;
+    projectRef.current = { ...current, meta: message.meta, tasks: mergedTasks, settings: mergedSettings, splitViewConfig: splitConfig };
+    // 別タブの変更も1つの操作として履歴に記録する（元に戻すと、それ以前の操作より先にこの変更が取り消される）
+    const before = tasksRef.current;
+    if (!isSameTaskList(mergedTasks, before)) {
+      setHistory(prev => recordHistory(prev, 'Apply changes from another tab', before, mergedTasks));
+    }
+    tasksRef.current = mergedTasks;
+    setTasks(mergedTasks);
+    setYamlString(stringifyTasksToYaml(mergedTasks));
+    if (splitConfig) setSplitViewConfig(splitConfig);
+    if (conflicts.length > 0) setSyncConflicts(conflicts);
+
+    // 別タブで変更された設定を反映する（表示中のビューと表示条件はこのタブのものを保つ）
+    if (!isSameSettings(mergedSettings, current.settings)) {
+      setAutoStatusFromProgress(mergedSettings.autoStatusFromProgress ?? true);
+      setWorkingCalendar(normalizeWorkingCalendar(mergedSettings.workingCalendar));
+      setCustomFields(normalizeCustomFieldDefinitions(mergedSettings.customFields));
+      setTeam(normalizeTeam(mergedSettings.team));
+      setTagColors(normalizeTagColors(mergedSettings.tagColors));
+      const views = normalizeSavedViews(mergedSettings.savedViews);
+      setSavedViews(views);
+      setDefaultViewId(mergedSettings.defaultViewId);
+      setActiveViewId(prev => (views.some(view => view.id === prev) ? prev : null));
+    }
+
+    // このタブの変更を残した場合は、マージ結果を保存して他のタブにも反映させる
+    if (!isSameTaskList(mergedTasks, message.tasks) || !isSameSettings(mergedSettings, message.settings)) {
+      persistProject({ tasks: mergedTasks });
+    }
+  }, [storage, openProject, persistProject]);
+
+  useEffect(() => {
+    const channel = openSyncChannel(tabIdRef.current, message => {
+      handleSyncMessage(message).catch(e => console.error('Failed to apply changes from another tab:', e));
+    });
+    syncChannelRef.current = channel;
+    return () => {
+      channel.close();
+      syncChannelRef.current = null;
+    };
+  }, [handleSyncMessage]);
+
+  // Sync tasks to YAML string and the active project whenever tasks change from GUI
   const syncTasksToYaml = useCallback((updatedTasks: Task[]) => {
     try {
       const newYaml = stringifyTasksToYaml(updatedTasks);
       setYamlString(newYaml);
-      localStorage.setItem('tasksYaml', newYaml);
+      persistProject({ tasks: updatedTasks });
+      setYamlErrors([]);
+      setYamlWarnings([]);
       setError(null); // Clear previous errors on successful sync
     } catch (e) {
        setError(`Error converting tasks to YAML: ${(e as Error).message}`);
     }
+  }, [persistProject]);
+
+  // 変更を履歴に記録する（元に戻す／やり直しの対象になる）
+  const recordChange = useCallback((label: string, newTasks: Task[]) => {
+    const before = tasksRef.current;
+    tasksRef.current = newTasks;
+    setHistory(prev => recordHistory(prev, label, before, newTasks));
   }, []);
 
+  // タスクの変更を履歴に記録したうえで反映し、YAMLとプロジェクトに同期する
+  // サマリータスクの日付・ステータスはここで子から集計し直す
+  const commitTasks = useCallback((newTasks: Task[], label: string) => {
+    const rolledUpTasks = rollupSummaryTasks(newTasks);
+    recordChange(label, rolledUpTasks);
+    setTasks(rolledUpTasks);
+    syncTasksToYaml(rolledUpTasks);
+  }, [recordChange, syncTasksToYaml]);
+
+  const handleTeamChange = useCallback((newTeam: TeamMember[]) => {
+    setTeam(newTeam);
+    setIsTeamSettingsOpen(false);
+    const project = projectRef.current;
+    if (project) persistProject({ settings: { ...project.settings, team: newTeam } });
+    // 名簿から外したメンバーはタスクの担当者からも外す
+    const removedIds = team.filter(member => !newTeam.some(m => m.id === member.id)).map(member => member.id);
+    const newTasks = removedIds.reduce(removeAssigneeFromTasks, tasks);
+    if (newTasks.some((task, i) => task !== tasks[i])) {
+      commitTasks(newTasks, `Remove ${removedIds.join(', ')} from assignees`);
+    }
+  }, [team, tasks, persistProject, commitTasks]);
+
+  const handleCustomFieldsChange = useCallback((fields: CustomFieldDefinition[]) => {
+    setCustomFields(fields);
+    setIsCustomFieldSettingsOpen(false);
+    const project = projectRef.current;
+    if (project) persistProject({ settings: { ...project.settings, customFields: fields } });
+    // 削除した選択肢など、新しい定義では不正になる値はタスクから取り除く
+    const newTasks = removeInvalidCustomFieldValues(tasks, fields);
+    if (newTasks.some((task, i) => task !== tasks[i])) {
+      commitTasks(newTasks, 'Remove custom field values that no longer match their definitions');
+    }
+  }, [tasks, persistProject, commitTasks]);
+
+  const restoreTasks = useCallback((snapshot: Task[]) => {
+    tasksRef.current = snapshot;
+    setTasks(snapshot);
+    syncTasksToYaml(snapshot);
+  }, [syncTasksToYaml]);
+
+  const handleUndo = useCallback(() => {
+    const result = undoHistory(history);
+    if (!result) return;
+    setHistory(result.history);
+    restoreTasks(result.entry.before);
+  }, [history, restoreTasks]);
+
+  const handleRedo = useCallback(() => {
+    const result = redoHistory(history);
+    if (!result) return;
+    setHistory(result.history);
+    restoreTasks(result.entry.after);
+  }, [history, restoreTasks]);
+
+  // Ctrl+Z / Ctrl+Shift+Z（Ctrl+Y）で元に戻す／やり直し。入力欄では各要素標準の取り消しを優先する
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
 
   const handleAddTask = (task: Task) => {
     const newTasks = [...tasks, task];
-    setTasks(newTasks);
-    syncTasksToYaml(newTasks);
+    commitTasks(newTasks, `Add task '${task.name}'`);
     setIsModalOpen(false);
   };
 
@@ -88,50 +499,83 @@ const App: React.FC = () => {
 
   const handleUpdateTask = (updatedTask: Task) => {
     const newTasks = tasks.map(task => (task.id === updatedTask.id ? updatedTask : task));
-    setTasks(newTasks);
-    syncTasksToYaml(newTasks);
+    commitTasks(newTasks, `Edit task '${updatedTask.name}'`);
     setIsModalOpen(false);
     setEditingTask(null);
   };
 
   const handleDeleteTask = (taskId: string) => {
-    if (window.confirm('このタスクを削除してもよろしいですか？依存するタスクに影響する可能性があります。')) {
-      const newTasks = tasks.filter(task => task.id !== taskId)
-        // Also remove this task from other tasks' dependencies
-        .map(t => ({
-            ...t,
-            dependencies: t.dependencies.filter(depId => depId !== taskId)
-        }));
-      setTasks(newTasks);
-      syncTasksToYaml(newTasks);
+    const subtaskCount = getDescendantIds(tasks, taskId).size;
+    const message = subtaskCount > 0
+      ? `このタスクと${subtaskCount}個のサブタスクを削除してもよろしいですか？依存するタスクに影響する可能性があります。`
+      : 'このタスクを削除してもよろしいですか？依存するタスクに影響する可能性があります。';
+    if (window.confirm(message)) {
+      // サブタスクも削除し、削除したタスクへの依存関係を取り除く
+      const newTasks = removeTaskWithSubtree(tasks, taskId);
+      const deletedTask = tasks.find(task => task.id === taskId);
+      commitTasks(newTasks, `Delete task '${deletedTask?.name || taskId}'`);
     }
   };
   
-  const handleYamlUpdateByAi = useCallback(async (newYamlFromAi: string) => {
+  const handleYamlUpdateByAi = useCallback(async (newYamlFromAi: string, historyLabel: string = 'Apply YAML edit') => {
     try {
-      const parsedTasks = parseTasksFromYaml(newYamlFromAi); // This can throw
-      setTasks(parsedTasks);
-      setYamlString(newYamlFromAi); // Update YAML state only if parsing is successful
-      localStorage.setItem('tasksYaml', newYamlFromAi);
+      const { tasks: parsedTasks, errors, warnings } = validateTasksYaml(newYamlFromAi, { customFields, team });
+      if (errors.length > 0) throw new YamlValidationError(errors);
+      const rolledUpTasks = rollupSummaryTasks(parsedTasks);
+      recordChange(historyLabel, rolledUpTasks);
+      setTasks(rolledUpTasks);
+      // Update YAML state only if parsing is successful (regenerated when summary tasks were rolled up)
+      setYamlString(rolledUpTasks.some((task, i) => task !== parsedTasks[i]) ? stringifyTasksToYaml(rolledUpTasks) : newYamlFromAi);
+      persistProject({ tasks: rolledUpTasks });
+      setYamlErrors([]);
+      setYamlWarnings(warnings);
       setError(null); // Clear error on success
     } catch (e) {
-      console.error("Failed to parse YAML from AI:", e);
-      setError(`AI returned invalid YAML or task structure: ${(e as Error).message}. Please check the YAML manually or try a different command.`);
-      // Optionally, do not update tasks or yamlString if parsing fails, keeping the last valid state.
-      // Or, set yamlString to newYamlFromAi to let user see the problematic YAML.
-      setYamlString(newYamlFromAi); // Show potentially problematic YAML for user debugging
+      console.error("Failed to parse YAML:", e);
+      setYamlWarnings([]);
+      if (e instanceof YamlValidationError) {
+        setYamlErrors(e.errors);
+        setError(`YAMLに${e.errors.length}件の問題があるため適用できませんでした。AIビューのYAMLエディタで該当行を確認してください。`);
+      } else {
+        setYamlErrors([]);
+        setError(`AI returned invalid YAML or task structure: ${(e as Error).message}. Please check the YAML manually or try a different command.`);
+      }
+      // Keep the last valid tasks, but show the problematic YAML so the user can fix it.
+      setYamlString(newYamlFromAi);
     }
-  }, []);
+  }, [recordChange, persistProject, customFields, team]);
 
   const handleBulkUpdate = useCallback((updatedTasks: Task[]) => {
-    setTasks(updatedTasks);
-    syncTasksToYaml(updatedTasks);
-  }, [syncTasksToYaml]);
+    const changedCount = updatedTasks.filter(task => !tasksRef.current.includes(task)).length;
+    commitTasks(updatedTasks, `Bulk update (${changedCount} tasks)`);
+  }, [commitTasks]);
 
   const handleReorderTasks = useCallback((reorderedTasks: Task[]) => {
-    setTasks(reorderedTasks);
-    syncTasksToYaml(reorderedTasks);
-  }, [syncTasksToYaml]);
+    commitTasks(reorderedTasks, 'Reorder tasks');
+  }, [commitTasks]);
+
+  // .ics から取り込んだタスクは同じIDのタスクを置き換え、新しいものは末尾に追加する
+  const handleImportTasks = useCallback((importedTasks: Task[]) => {
+    const importedById = new Map(importedTasks.map(task => [task.id, task]));
+    const merged = [
+      ...tasks.map(task => {
+        const imported = importedById.get(task.id);
+        return imported ? applyImportedTask(task, imported) : task;
+      }),
+      ...importedTasks.filter(task => !tasks.some(existing => existing.id === task.id)),
+    ];
+    // 取り込み先に存在しないタスクへの依存関係は外す
+    const taskIds = new Set(merged.map(task => task.id));
+    const updatedTasks = merged.map(task =>
+      withDependencies(task, task.dependencies.filter(depId => taskIds.has(depId) && depId !== task.id)));
+
+    const cycles = findDependencyCycles(updatedTasks);
+    if (cycles.length > 0) {
+      setError(`取り込むと依存関係が循環するため、.icsファイルを取り込めませんでした: ${cycles.map(cycle => formatCyclePath(cycle, updatedTasks)).join(' / ')}`);
+      return;
+    }
+    commitTasks(updatedTasks, `Import ${importedTasks.length} tasks from .ics`);
+  }, [tasks, commitTasks]);
 
   const handleTaskDateChange = useCallback((taskId: string, newStartDate: string, newEndDate: string) => {
     const updatedTasks = tasks.map(task => 
@@ -139,9 +583,16 @@ const App: React.FC = () => {
         ? { ...task, startDate: newStartDate, endDate: newEndDate }
         : task
     );
-    setTasks(updatedTasks);
-    syncTasksToYaml(updatedTasks);
-  }, [tasks, syncTasksToYaml]);
+    const movedTask = tasks.find(task => task.id === taskId);
+    commitTasks(updatedTasks, `Move '${movedTask?.name || taskId}'`);
+  }, [tasks, commitTasks]);
+
+  const handleTaskProgressChange = useCallback((taskId: string, progress: number) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+    const updatedTasks = tasks.map(t => (t.id === taskId ? applyProgress(t, progress, autoStatusFromProgress) : t));
+    commitTasks(updatedTasks, `Set progress of '${task.name}' to ${progress}%`);
+  }, [tasks, commitTasks, autoStatusFromProgress]);
 
   const handleMultipleTaskDateChange = useCallback((taskUpdates: Array<{taskId: string, newStartDate: string, newEndDate: string}>) => {
     const updatedTasks = tasks.map(task => {
@@ -150,34 +601,76 @@ const App: React.FC = () => {
         ? { ...task, startDate: update.newStartDate, endDate: update.newEndDate }
         : task;
     });
-    setTasks(updatedTasks);
-    syncTasksToYaml(updatedTasks);
-  }, [tasks, syncTasksToYaml]);
+    const label = taskUpdates.length === 1
+      ? `Move '${tasks.find(task => task.id === taskUpdates[0].taskId)?.name || taskUpdates[0].taskId}'`
+      : `Move ${taskUpdates.length} tasks`;
+    commitTasks(updatedTasks, label);
+  }, [tasks, commitTasks]);
+
+  // ガントチャート上で引いた依存関係を追加する（既にある依存関係なら種類とラグを更新する）
+  const handleAddDependency = useCallback((taskId: string, dependsOn: string, link?: DependencyLink) => {
+    const task = tasks.find(t => t.id === taskId);
+    const dependency = tasks.find(t => t.id === dependsOn);
+    if (!task || !dependency) return;
+    if (wouldCreateCycle(tasks, taskId, dependsOn)) {
+      setError(`「${task.name}」を「${dependency.name}」に依存させると依存関係が循環するため、追加できません。`);
+      return;
+    }
+    const updatedTasks = applyTaskOperation(tasks, {
+      type: 'addDependency',
+      taskId,
+      dependsOn,
+      ...(link && !isDefaultDependencyLink(link) ? { link } : {}),
+    });
+    if (updatedTasks === tasks) return;
+    commitTasks(updatedTasks, `Link '${dependency.name}' → '${task.name}'`);
+  }, [tasks, commitTasks]);
+
+  const handleRemoveDependency = useCallback((taskId: string, dependsOn: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task || !task.dependencies.includes(dependsOn)) return;
+    const updatedTasks = tasks.map(t => (t.id === taskId ? withDependencies(t, t.dependencies.filter(depId => depId !== dependsOn)) : t));
+    const dependencyName = tasks.find(t => t.id === dependsOn)?.name || dependsOn;
+    commitTasks(updatedTasks, `Unlink '${dependencyName}' → '${task.name}'`);
+  }, [tasks, commitTasks]);
 
 
   const openNewTaskModal = () => {
     setEditingTask(null);
+    setNewTaskParentId(undefined);
     setIsModalOpen(true);
   };
 
-  const renderSingleView = (viewType: 'list' | 'gantt' | 'ai', isInSplitView: boolean = false) => {
+  const openNewSubtaskModal = (parentId: string) => {
+    setEditingTask(null);
+    setNewTaskParentId(parentId);
+    setIsModalOpen(true);
+  };
+
+  const renderSingleView = (viewType: 'list' | 'gantt' | 'ai' | 'workload', isInSplitView: boolean = false) => {
     switch (viewType) {
       case 'list':
-        return <TaskList tasks={tasks} onEditTask={handleEditTask} onDeleteTask={handleDeleteTask} onBulkUpdate={handleBulkUpdate} onReorderTasks={handleReorderTasks} isInSplitView={isInSplitView} />;
+        return <TaskList tasks={tasks} onEditTask={handleEditTask} onDeleteTask={handleDeleteTask} onBulkUpdate={handleBulkUpdate} onReorderTasks={handleReorderTasks} onImportTasks={handleImportTasks} onAddSubtask={openNewSubtaskModal} customFields={customFields} team={team} tagColors={tagColors} searchQuery={searchQuery} viewState={viewState} onViewStateChange={setViewState} savedViewControls={savedViewControls} isInSplitView={isInSplitView} />;
       case 'gantt':
-        return <GanttChart tasks={tasks} onEditTask={handleEditTask} onTaskDateChange={handleTaskDateChange} onMultipleTaskDateChange={handleMultipleTaskDateChange} isInSplitView={isInSplitView} />;
+        return <GanttChart tasks={tasks} onEditTask={handleEditTask} onTaskDateChange={handleTaskDateChange} onMultipleTaskDateChange={handleMultipleTaskDateChange} onTaskProgressChange={handleTaskProgressChange} onAddDependency={handleAddDependency} onRemoveDependency={handleRemoveDependency} workingCalendar={workingCalendar} team={team} tagColors={tagColors} searchQuery={searchQuery} customFields={customFields} viewState={viewState} onViewStateChange={setViewState} savedViewControls={savedViewControls} isInSplitView={isInSplitView} />;
       case 'ai':
         return (
           <AiInteraction
             tasks={tasks}
             currentYaml={yamlString}
             onYamlUpdateByAi={handleYamlUpdateByAi}
+            yamlErrors={yamlErrors}
+            yamlWarnings={yamlWarnings}
+            customFields={customFields}
+            team={team}
             isLoading={isLoading}
             setIsLoading={setIsLoading}
             setError={setError}
             isInSplitView={isInSplitView}
           />
         );
+      case 'workload':
+        return <WorkloadView tasks={tasks} team={team} workingCalendar={workingCalendar} onOpenTeamSettings={() => setIsTeamSettingsOpen(true)} />;
       default:
         return null;
     }
@@ -210,7 +703,7 @@ const App: React.FC = () => {
           onResize={(newSize) => {
             const newConfig = { ...splitViewConfig, leftSize: newSize, rightSize: 100 - newSize };
             setSplitViewConfig(newConfig);
-            localStorage.setItem('splitViewConfig', JSON.stringify(newConfig));
+            persistProject({ splitViewConfig: newConfig });
           }}
           className="flex-shrink-0"
         >
@@ -240,22 +733,91 @@ const App: React.FC = () => {
       }
       return renderSplitView();
     }
-    return renderSingleView(currentView as 'list' | 'gantt' | 'ai');
+    return renderSingleView(currentView as 'list' | 'gantt' | 'ai' | 'workload');
   };
 
   return (
     <div className="h-screen flex flex-col bg-gradient-to-br from-slate-900 via-slate-900 to-slate-950 text-slate-100 overflow-hidden">
       <header className="bg-slate-800/60 backdrop-blur-md shadow-xl border-b border-slate-700/50 p-3 md:p-4 flex-shrink-0 z-40">
         <div className="w-full max-w-none px-4 md:px-8 flex flex-col sm:flex-row justify-between items-center">
-          <h1 className="text-3xl font-bold text-sky-400 tracking-tight drop-shadow-md">{APP_TITLE}</h1>
+          <div className="flex flex-col sm:flex-row items-center gap-2 sm:gap-4">
+            <h1 className="text-3xl font-bold text-sky-400 tracking-tight drop-shadow-md">{APP_TITLE}</h1>
+            <ProjectSwitcher
+              projects={projects}
+              activeProjectId={activeProjectId}
+              onSwitch={handleSwitchProject}
+              onCreate={handleCreateProject}
+              onRename={handleRenameProject}
+              onDelete={handleDeleteProject}
+            />
+            <button
+              type="button"
+              onClick={() => setIsCalendarSettingsOpen(true)}
+              title="稼働日カレンダー（稼働曜日・祝日・休日出勤）"
+              aria-label="稼働日カレンダー"
+              className="p-1.5 text-slate-300 rounded-md transition-colors hover:bg-slate-700/70 hover:text-white"
+            >
+              <CalendarIcon className={iconSizes.sm} />
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsCustomFieldSettingsOpen(true)}
+              title="カスタムフィールド（見積もり・チケットURLなどの独自の項目）"
+              aria-label="カスタムフィールド"
+              className="p-1.5 text-slate-300 rounded-md transition-colors hover:bg-slate-700/70 hover:text-white"
+            >
+              <SettingsIcon className={iconSizes.sm} />
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsTeamSettingsOpen(true)}
+              title="チーム（タスクの担当者の名簿）"
+              aria-label="チーム"
+              className="p-1.5 text-slate-300 rounded-md transition-colors hover:bg-slate-700/70 hover:text-white"
+            >
+              <TeamIcon className={iconSizes.sm} />
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsTagSettingsOpen(true)}
+              title="タグの色"
+              aria-label="タグ"
+              className="p-1.5 text-slate-300 rounded-md transition-colors hover:bg-slate-700/70 hover:text-white"
+            >
+              <TagIcon className={iconSizes.sm} />
+            </button>
+          </div>
           <nav className="mt-2 sm:mt-0 flex flex-wrap gap-2 sm:gap-3">
+            {/* Undo / Redo Buttons */}
+            <div className="flex items-center gap-1 mr-2 pr-2 border-r border-slate-600">
+              <button
+                onClick={handleUndo}
+                disabled={history.past.length === 0}
+                title={history.past.length > 0 ? `元に戻す: ${history.past[history.past.length - 1].label} (Ctrl+Z)` : '元に戻す操作はありません'}
+                aria-label="元に戻す"
+                className="p-2 text-slate-300 rounded-md transition-all duration-200 hover:bg-slate-700/70 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+              >
+                <UndoIcon className={iconSizes.sm} />
+              </button>
+              <button
+                onClick={handleRedo}
+                disabled={history.future.length === 0}
+                title={history.future.length > 0 ? `やり直し: ${history.future[history.future.length - 1].label} (Ctrl+Shift+Z)` : 'やり直す操作はありません'}
+                aria-label="やり直し"
+                className="p-2 text-slate-300 rounded-md transition-all duration-200 hover:bg-slate-700/70 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+              >
+                <RedoIcon className={iconSizes.sm} />
+              </button>
+            </div>
+
             {/* Single View Buttons */}
-            {(['list', 'gantt', 'ai'] as ViewMode[]).map(view => {
+            {(['list', 'gantt', 'ai', 'workload'] as ViewMode[]).map(view => {
               const getViewIcon = (viewType: ViewMode) => {
                 switch (viewType) {
                   case 'list': return <ListViewIcon className={iconSizes.sm} />;
                   case 'gantt': return <GanttViewIcon className={iconSizes.sm} />;
                   case 'ai': return <AiViewIcon className={iconSizes.sm} />;
+                  case 'workload': return <WorkloadViewIcon className={iconSizes.sm} />;
                 }
               };
 
@@ -312,6 +874,9 @@ const App: React.FC = () => {
             </div>
           </nav>
         </div>
+        <div className="w-full max-w-none px-4 md:px-8 mt-2 flex justify-center sm:justify-start">
+          <SearchBox value={searchText} query={searchQuery} onChange={setSearchText} matchCount={searchMatchCount} />
+        </div>
       </header>
 
       <main className="w-full px-4 md:px-8 pt-4 md:pt-6 flex-1 flex flex-col overflow-hidden">
@@ -337,6 +902,35 @@ const App: React.FC = () => {
               </button>
             </div>
           </div>
+        )}
+        {syncConflicts.length > 0 && (
+          <div className="mb-4 p-4 bg-amber-500/15 border border-amber-400/50 text-amber-100 rounded-lg shadow-lg" role="status">
+            <div className="flex items-start justify-between">
+              <div>
+                <h4 className="font-semibold text-amber-300">別のタブと同じタスクが同時に編集されました</h4>
+                <ul className="mt-1 space-y-0.5 text-sm">
+                  {syncConflicts.map(conflict => {
+                    const differingFields = conflict.localTask && conflict.remoteTask
+                      ? diffTaskFields(conflict.localTask, conflict.remoteTask).map(change => change.field).join(', ')
+                      : '削除';
+                    return (
+                      <li key={conflict.taskId}>
+                        「{conflict.taskName}」: {conflict.winner === 'local' ? 'このタブ' : '別のタブ'}の版を採用しました
+                        <span className="text-amber-300/80">（相違: {differingFields}）</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+              <button
+                onClick={() => setSyncConflicts([])}
+                className="text-amber-300 hover:text-amber-100 p-1 rounded-md hover:bg-amber-500/20 transition-colors"
+                aria-label="閉じる"
+              >
+                <CloseIcon className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
         )}
          {isLoading && currentView !== 'ai' && ( // Show general loading indicator if not in AI view (AI view has its own)
           <div className="fixed inset-0 bg-slate-900 bg-opacity-50 flex items-center justify-center z-50">
@@ -367,6 +961,46 @@ const App: React.FC = () => {
           onCancel={() => { setIsModalOpen(false); setEditingTask(null); }}
           existingTask={editingTask}
           allTasks={tasks}
+          defaultParentId={newTaskParentId}
+          autoStatusFromProgress={autoStatusFromProgress}
+          onAutoStatusFromProgressChange={handleAutoStatusFromProgressChange}
+          workingCalendar={workingCalendar}
+          customFields={customFields}
+          team={team}
+          tagColors={tagColors}
+        />
+      </Modal>
+
+      <Modal isOpen={isCalendarSettingsOpen} onClose={() => setIsCalendarSettingsOpen(false)} title="稼働日カレンダー">
+        <WorkingCalendarSettings
+          calendar={workingCalendar}
+          onSave={handleWorkingCalendarChange}
+          onCancel={() => setIsCalendarSettingsOpen(false)}
+        />
+      </Modal>
+
+      <Modal isOpen={isCustomFieldSettingsOpen} onClose={() => setIsCustomFieldSettingsOpen(false)} title="カスタムフィールド">
+        <CustomFieldSettings
+          fields={customFields}
+          onSave={handleCustomFieldsChange}
+          onCancel={() => setIsCustomFieldSettingsOpen(false)}
+        />
+      </Modal>
+
+      <Modal isOpen={isTeamSettingsOpen} onClose={() => setIsTeamSettingsOpen(false)} title="チーム">
+        <TeamSettings
+          team={team}
+          onSave={handleTeamChange}
+          onCancel={() => setIsTeamSettingsOpen(false)}
+        />
+      </Modal>
+
+      <Modal isOpen={isTagSettingsOpen} onClose={() => setIsTagSettingsOpen(false)} title="タグ">
+        <TagSettings
+          tags={getAllTags(tasks)}
+          tagColors={tagColors}
+          onSave={handleTagColorsChange}
+          onCancel={() => setIsTagSettingsOpen(false)}
         />
       </Modal>
       
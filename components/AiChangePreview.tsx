@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import { Task, TaskStatus, TaskPriority, DependencyLink, CustomFieldValue } from '../types';
+import { TaskChange } from '../services/taskDiffService';
+import { TaskValidationError, formatValidationError } from '../services/validationService';
+import { formatDependencyLink } from '../services/dependencyService';
+import { formatCustomFieldValue } from '../services/customFieldService';
+import { STATUS_TEXT_JP, PRIORITY_TEXT_JP } from '../constants';
+
+interface AiChangePreviewProps {
+  changes: TaskChange[];
+  allTasks: Task[];     // 依存関係のタスク名解決に使う（現在＋提案のタスク）
+  prompt?: string;
+  operations?: string[]; // AIが実行した操作の説明
+  conflicts?: TaskValidationError[]; // 選択した変更を適用しようとしたときの検証エラー
+  conflictTaskIds?: Set<string>;     // 検証エラーに関わる変更のタスクID
+  isLoading: boolean;
+  onApply: (acceptedTaskIds: Set<string>) => void;
+  onDiscard: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'タスク名',
+  description: '説明',
+  status: 'ステータス',
+  priority: '優先度',
+  startDate: '開始日',
+  endDate: '終了日',
+  milestone: 'マイルストーン',
+  progress: '進捗率',
+  dependencies: '依存関係',
+  dependencyLinks: '依存関係の種類',
+  parentId: '親タスク',
+  customFields: 'カスタムフィールド',
+  assignees: '担当者',
+  tags: 'タグ',
+};
+
+const CHANGE_STYLES: Record<TaskChange['type'], { label: string; className: string }> = {
+  added: { label: '追加', className: 'bg-green-500/20 text-green-300 border-green-500/40' },
+  removed: { label: '削除', className: 'bg-red-500/20 text-red-300 border-red-500/40' },
+  modified: { label: '変更', className: 'bg-amber-500/20 text-amber-300 border-amber-500/40' },
+};
+
+export const AiChangePreview: React.FC<AiChangePreviewProps> = ({
+  changes,
+  allTasks,
+  prompt,
+  operations = [],
+  conflicts = [],
+  conflictTaskIds,
+  isLoading,
+  onApply,
+  onDiscard
+}) => {
+  const [acceptedIds, setAcceptedIds] = useState<Set<string>>(() => new Set(changes.map(change => change.taskId)));
+
+  // 新しい提案を受け取ったら、すべての変更を承認した状態に戻す
+  useEffect(() => {
+    setAcceptedIds(new Set(changes.map(change => change.taskId)));
+  }, [changes]);
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '（なし）';
+    if (field === 'status') return STATUS_TEXT_JP[value as TaskStatus] || String(value);
+    if (field === 'priority') return PRIORITY_TEXT_JP[value as TaskPriority] || String(value);
+    if (field === 'dependencies' && Array.isArray(value)) {
+      if (value.length === 0) return '（なし）';
+      return value.map(id => allTasks.find(task => task.id === id)?.name || id).join(', ');
+    }
+    if (field === 'dependencyLinks' && typeof value === 'object') {
+      return Object.entries(value as Record<string, DependencyLink>)
+        .map(([id, link]) => `${allTasks.find(task => task.id === id)?.name || id}（${formatDependencyLink(link)}）`)
+        .join(', ');
+    }
+    if ((field === 'assignees' || field === 'tags') && Array.isArray(value)) {
+      return value.length === 0 ? '（なし）' : value.join(', ');
+    }
+    if (field === 'progress') return `${value}%`;
+    if (field === 'milestone') return value ? 'はい' : 'いいえ';
+    if (field === 'parentId') return allTasks.find(task => task.id === value)?.name || String(value);
+    if (field === 'customFields' && typeof value === 'object') {
+      return Object.entries(value as Record<string, CustomFieldValue>)
+        .map(([fieldId, fieldValue]) => `${fieldId}: ${formatCustomFieldValue(fieldValue)}`)
+        .join(', ');
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  };
+
+  const toggleChange = (taskId: string) => {
+    setAcceptedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
+
+  const allAccepted = acceptedIds.size === changes.length;
+  const toggleAll = () => {
+    setAcceptedIds(allAccepted ? new Set() : new Set(changes.map(change => change.taskId)));
+  };
+
+  return (
+    <div className="p-4 bg-slate-800 border border-sky-500/40 rounded-md shadow space-y-3" aria-label="AIの変更提案">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h4 className="text-lg font-semibold text-sky-300">AIの変更提案（{changes.length}件）</h4>
+          {prompt && <p className="text-xs text-slate-400 mt-0.5">指示: {prompt}</p>}
+        </div>
+        <label className="flex items-center gap-1 text-xs text-slate-300 cursor-pointer whitespace-nowrap">
+          <input type="checkbox" checked={allAccepted} onChange={toggleAll} disabled={isLoading} />
+          すべて選択
+        </label>
+      </div>
+
+      {operations.length > 0 && (
+        <details className="text-xs text-slate-300">
+          <summary className="cursor-pointer text-slate-400 hover:text-slate-200">AIが実行した操作（{operations.length}件）</summary>
+          <ol className="mt-1 ml-5 list-decimal space-y-0.5">
+            {operations.map((operation, i) => (
+              <li key={i}>{operation}</li>
+            ))}
+          </ol>
+        </details>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="p-2 bg-red-500/10 border border-red-400/40 rounded-md" role="alert">
+          <p className="text-xs font-semibold text-red-300">選択した変更を組み合わせると次の問題があります。問題のある変更の選択を外すか、提案を破棄してください。</p>
+          <ul className="mt-1 ml-4 list-disc space-y-0.5">
+            {conflicts.map((conflict, i) => (
+              <li key={i} className="text-xs text-red-200 font-mono">{formatValidationError(conflict)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <ul className="space-y-2 max-h-80 overflow-y-auto">
+        {changes.map(change => {
+          const task = change.after || change.before!;
+          const style = CHANGE_STYLES[change.type];
+          const accepted = acceptedIds.has(change.taskId);
+          const hasConflict = !!conflictTaskIds?.has(change.taskId);
+          return (
+            <li
+              key={change.taskId}
+              className={`p-2 rounded border ${hasConflict ? 'border-red-400/60 bg-red-500/10' : accepted ? 'border-slate-600 bg-slate-700/50' : 'border-slate-700 bg-slate-800 opacity-60'}`}
+            >
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={accepted}
+                  onChange={() => toggleChange(change.taskId)}
+                  disabled={isLoading}
+                  aria-label={`${task.name}の${style.label}を適用`}
+                />
+                <span className={`px-1.5 py-0.5 text-xs rounded border ${style.className}`}>{style.label}</span>
+                <span className={`text-sm text-slate-100 ${change.type === 'removed' ? 'line-through' : ''}`}>{task.name}</span>
+                <span className="text-xs text-slate-500">{change.taskId}</span>
+                {hasConflict && <span className="text-xs text-red-300">問題あり</span>}
+              </label>
+              {change.type === 'modified' && (
+                <ul className="mt-1 ml-6 space-y-0.5">
+                  {change.fieldChanges.map(fieldChange => (
+                    <li key={fieldChange.field} className="text-xs text-slate-300">
+                      <span className="text-slate-400">{FIELD_LABELS[fieldChange.field] || fieldChange.field}: </span>
+                      <span className="text-red-300 line-through">{formatValue(fieldChange.field, fieldChange.before)}</span>
+                      <span className="text-slate-500"> → </span>
+                      <span className="text-green-300">{formatValue(fieldChange.field, fieldChange.after)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {change.type === 'added' && (
+                <p className="mt-1 ml-6 text-xs text-slate-400">
+                  {task.startDate} 〜 {task.endDate} / {formatValue('status', task.status)} / 優先度 {formatValue('priority', task.priority)}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => onApply(acceptedIds)}
+          disabled={isLoading || acceptedIds.size === 0}
+          className="px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-900 focus:ring-green-500 disabled:opacity-50"
+        >
+          選択した変更を適用（{acceptedIds.size}件）
+        </button>
+        <button
+          type="button"
+          onClick={onDiscard}
+          disabled={isLoading}
+          className="px-4 py-2 text-sm font-medium text-slate-200 bg-slate-600 hover:bg-slate-500 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-900 focus:ring-slate-400 disabled:opacity-50"
+        >
+          破棄
+        </button>
+      </div>
+    </div>
+  );
+};
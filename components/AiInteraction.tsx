@@ -1,22 +1,46 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Task } from '../types';
-import { getAiTaskSummary, updateTasksViaAi } from '../services/geminiService';
-import { parseTasksFromYaml } from '../services/yamlService';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Task, CustomFieldDefinition, TeamMember } from '../types';
+import { getAiTaskSummary, getTaskOperationsViaAi } from '../services/geminiService';
+import { TaskValidationError, formatValidationError, validateTasks } from '../services/validationService';
+import { stringifyTasksToYaml } from '../services/yamlService';
+import { applyTaskOperations, describeTaskOperation } from '../services/taskOperationService';
+import { diffTasks, mergeTaskChanges, TaskChange } from '../services/taskDiffService';
+import { rollupSummaryTasks } from '../services/hierarchyService';
+import { findDependencyCycles } from '../services/dependencyService';
+import { AiChangePreview } from './AiChangePreview';
 
 interface AiInteractionProps {
   tasks: Task[];
   currentYaml: string;
-  onYamlUpdateByAi: (newYaml: string) => Promise<void>;
+  onYamlUpdateByAi: (newYaml: string, historyLabel?: string) => Promise<void>;
+  yamlErrors?: TaskValidationError[];
+  yamlWarnings?: TaskValidationError[]; // 適用はできたが確認が必要な点（名簿にない担当者など）
+  customFields?: CustomFieldDefinition[];
+  team?: TeamMember[];
   isLoading: boolean;
   setIsLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
   isInSplitView?: boolean;
 }
 
+// 適用前のAIの提案（差分プレビューで確認してから反映する）
+interface PendingAiProposal {
+  prompt: string;
+  proposedTasks: Task[];
+  changes: TaskChange[];
+  operations: string[]; // AIが実行した操作の説明（監査用）
+  conflicts?: TaskValidationError[]; // 選択した変更だけをマージした結果の検証エラー
+  conflictTaskIds?: Set<string>;     // 検証エラーに関わる、選択した変更のタスクID
+}
+
 export const AiInteraction: React.FC<AiInteractionProps> = ({
   tasks,
   currentYaml,
   onYamlUpdateByAi,
+  yamlErrors = [],
+  yamlWarnings = [],
+  customFields = [],
+  team = [],
   isLoading,
   setIsLoading,
   setError,
@@ -28,6 +52,10 @@ export const AiInteraction: React.FC<AiInteractionProps> = ({
   // It is initialized with `currentYaml` and updated whenever `currentYaml` changes
   // to ensure the editable state reflects the latest YAML data from the parent component.
   const [editableYaml, setEditableYaml] = useState<string>(currentYaml);
+  const yamlTextareaRef = useRef<HTMLTextAreaElement>(null);
+  const [pendingProposal, setPendingProposal] = useState<PendingAiProposal | null>(null);
+  // AIが変更不要と判断したときのお知らせ（エラーではない）
+  const [aiNotice, setAiNotice] = useState<string | null>(null);
 
   useEffect(() => {
     // Synchronize `editableYaml` with `currentYaml` whenever `currentYaml` changes.
@@ -64,9 +92,33 @@ export const AiInteraction: React.FC<AiInteractionProps> = ({
     }
     setIsLoading(true);
     setError(null);
+    setAiNotice(null);
     try {
-      const newYaml = await updateTasksViaAi(currentYaml, userPrompt);
-      await onYamlUpdateByAi(newYaml);
+      const prompt = userPrompt.trim();
+      const operations = await getTaskOperationsViaAi(tasks, prompt, { customFields, team });
+      if (operations.length === 0) {
+        setAiNotice('AIは変更の必要がないと判断しました。タスクは変更されていません。');
+        return;
+      }
+      // 操作をローカルで適用し、結果がタスクのスキーマ（日付・依存関係・循環など）を満たすか検証する
+      // サマリータスクの日付・ステータスは子から集計し直した結果をプレビューする
+      const proposedTasks = rollupSummaryTasks(applyTaskOperations(tasks, operations));
+      const { errors } = validateTasks(proposedTasks, undefined, { customFields, team });
+      if (errors.length > 0) {
+        setError(`AIの提案した操作に問題があるため適用できませんでした: ${errors.slice(0, 3).map(formatValidationError).join('; ')}`);
+        return;
+      }
+      const changes = diffTasks(tasks, proposedTasks);
+      if (changes.length === 0) {
+        setAiNotice('AIの提案にはタスクの変更が含まれていませんでした。');
+        return;
+      }
+      setPendingProposal({
+        prompt,
+        proposedTasks,
+        changes,
+        operations: operations.map(operation => describeTaskOperation(operation, [...tasks, ...proposedTasks])),
+      });
       setUserPrompt(''); // Clear prompt on success
     } catch (err) {
       setError((err as Error).message);
@@ -75,12 +127,40 @@ export const AiInteraction: React.FC<AiInteractionProps> = ({
     }
   };
 
+  // 承認された変更だけを現在のタスクにマージし、1回の更新として適用する
+  const handleApplyProposal = async (acceptedTaskIds: Set<string>) => {
+    if (!pendingProposal) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      // 一部の変更だけを選ぶと依存関係が循環することがあるため、適用前に検証し、問題があれば提案を開いたままにする
+      const mergedTasks = rollupSummaryTasks(mergeTaskChanges(tasks, pendingProposal.proposedTasks, acceptedTaskIds));
+      const { errors } = validateTasks(mergedTasks, undefined, { customFields, team });
+      if (errors.length > 0) {
+        const involvedIds = [...errors.flatMap(error => (error.taskId ? [error.taskId] : [])), ...findDependencyCycles(mergedTasks).flat()];
+        setPendingProposal({
+          ...pendingProposal,
+          conflicts: errors,
+          conflictTaskIds: new Set(involvedIds.filter(id => acceptedTaskIds.has(id))),
+        });
+        setError('選択した変更の組み合わせに問題があるため適用できませんでした。提案の一覧で問題のある変更を確認してください。');
+        return;
+      }
+      await onYamlUpdateByAi(stringifyTasksToYaml(mergedTasks), `AI update: '${pendingProposal.prompt}'`);
+      setPendingProposal(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleDirectYamlSubmit = async () => {
     setIsLoading(true);
     setError(null);
     try {
-      parseTasksFromYaml(editableYaml);
-      await onYamlUpdateByAi(editableYaml);
+      // 検証は onYamlUpdateByAi 側で行われ、問題があれば yamlErrors として返ってくる
+      await onYamlUpdateByAi(editableYaml, 'Apply YAML edit');
     } catch (err) {
       setError(`Invalid YAML format: ${(err as Error).message}. Please correct the YAML or use the AI to modify it.`);
     } finally {
@@ -88,6 +168,17 @@ export const AiInteraction: React.FC<AiInteractionProps> = ({
     }
   };
 
+  // エラー・警告の行をクリックしたとき、エディタ内の該当行を選択する
+  const handleJumpToError = (validationError: TaskValidationError) => {
+    const textarea = yamlTextareaRef.current;
+    if (!textarea || validationError.line === undefined) return;
+    const lines = editableYaml.split('\n');
+    const lineIndex = Math.min(validationError.line, lines.length) - 1;
+    const lineStart = lines.slice(0, lineIndex).reduce((sum, line) => sum + line.length + 1, 0);
+    textarea.focus();
+    textarea.setSelectionRange(lineStart, lineStart + lines[lineIndex].length);
+  };
+
   const yamlRows = isInSplitView ? 10 : 15;
   
   return (
@@ -110,7 +201,7 @@ export const AiInteraction: React.FC<AiInteractionProps> = ({
         </div>
 
         <div>
-          <h3 className="text-xl font-semibold text-sky-400 mb-2">Manage Tasks with AI (via YAML)</h3>
+          <h3 className="text-xl font-semibold text-sky-400 mb-2">Manage Tasks with AI</h3>
           <form onSubmit={handlePromptSubmit} className="space-y-3">
             <div>
               <label htmlFor="ai-prompt" className="block text-sm font-medium text-slate-300">
@@ -134,19 +225,77 @@ export const AiInteraction: React.FC<AiInteractionProps> = ({
               {isLoading ? 'Processing...' : 'Update Tasks with AI'}
             </button>
           </form>
+          {aiNotice && (
+            <p className="mt-3 p-3 text-sm text-sky-200 bg-sky-500/10 border border-sky-400/40 rounded-md" role="status">{aiNotice}</p>
+          )}
+          {pendingProposal && (
+            <div className="mt-4">
+              <AiChangePreview
+                changes={pendingProposal.changes}
+                allTasks={[...tasks, ...pendingProposal.proposedTasks]}
+                prompt={pendingProposal.prompt}
+                operations={pendingProposal.operations}
+                conflicts={pendingProposal.conflicts}
+                conflictTaskIds={pendingProposal.conflictTaskIds}
+                isLoading={isLoading}
+                onApply={handleApplyProposal}
+                onDiscard={() => setPendingProposal(null)}
+              />
+            </div>
+          )}
         </div>
 
         <div>
           <h3 className="text-xl font-semibold text-sky-400 mb-2">Current Tasks (YAML) - Edit or Paste Here</h3>
           <div className={`${isInSplitView ? 'flex-1' : ''}`}>
             <textarea
+              ref={yamlTextareaRef}
               value={editableYaml}
               onChange={(e) => setEditableYaml(e.target.value)}
               rows={yamlRows}
               className="w-full bg-slate-700 border-slate-600 text-slate-100 p-3 text-xs rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
               aria-label="Current tasks in YAML format, editable"
+              aria-invalid={yamlErrors.length > 0}
               disabled={isLoading}
             />
+            {yamlErrors.length > 0 && (
+              <div className="mt-2 p-3 bg-red-500/10 border border-red-400/40 rounded-md" role="alert">
+                <h4 className="text-sm font-semibold text-red-300 mb-1">YAMLの検証エラー（{yamlErrors.length}件）</h4>
+                <ul className="space-y-1 max-h-40 overflow-y-auto">
+                  {yamlErrors.map((validationError, i) => (
+                    <li key={i}>
+                      <button
+                        type="button"
+                        onClick={() => handleJumpToError(validationError)}
+                        disabled={validationError.line === undefined}
+                        className="w-full text-left text-xs text-red-200 font-mono hover:bg-red-500/20 rounded px-1 py-0.5 disabled:cursor-default disabled:hover:bg-transparent"
+                      >
+                        {formatValidationError(validationError)}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {yamlWarnings.length > 0 && (
+              <div className="mt-2 p-3 bg-amber-500/10 border border-amber-400/40 rounded-md" role="status">
+                <h4 className="text-sm font-semibold text-amber-300 mb-1">YAMLの警告（{yamlWarnings.length}件）</h4>
+                <ul className="space-y-1 max-h-40 overflow-y-auto">
+                  {yamlWarnings.map((validationWarning, i) => (
+                    <li key={i}>
+                      <button
+                        type="button"
+                        onClick={() => handleJumpToError(validationWarning)}
+                        disabled={validationWarning.line === undefined}
+                        className="w-full text-left text-xs text-amber-200 font-mono hover:bg-amber-500/20 rounded px-1 py-0.5 disabled:cursor-default disabled:hover:bg-transparent"
+                      >
+                        {formatValidationError(validationWarning)}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
             <button
               onClick={handleDirectYamlSubmit}
               disabled={isLoading}
@@ -0,0 +1,35 @@
+import React from 'react';
+import { TeamMember } from '../types';
+import { getMemberInitials } from '../services/teamService';
+
+interface AssigneeAvatarsProps {
+  members: TeamMember[];
+  size?: 'xs' | 'sm';
+  className?: string;
+}
+
+const SIZE_CLASSES = {
+  xs: 'w-4 h-4 text-[9px]',
+  sm: 'w-6 h-6 text-xs',
+};
+
+/**
+ * 担当者の頭文字を色付きの丸で重ねて表示する（名前はツールチップで表示）
+ */
+export const AssigneeAvatars: React.FC<AssigneeAvatarsProps> = ({ members, size = 'sm', className = '' }) => {
+  if (members.length === 0) return null;
+  return (
+    <span className={`inline-flex -space-x-1 flex-shrink-0 ${className}`} aria-label={`担当者: ${members.map(member => member.name).join(', ')}`}>
+      {members.map(member => (
+        <span
+          key={member.id}
+          title={member.name}
+          className={`inline-flex items-center justify-center rounded-full ring-1 ring-slate-900 font-semibold text-white ${SIZE_CLASSES[size]}`}
+          style={{ backgroundColor: member.color }}
+        >
+          {getMemberInitials(member.name)}
+        </span>
+      ))}
+    </span>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { CustomFieldDefinition, CustomFieldType } from '../types';
+import { CUSTOM_FIELD_TYPE_TEXT_JP } from '../constants';
+import { CUSTOM_FIELD_TYPES, hasCustomFieldOptions, isValidCustomFieldId, normalizeCustomFieldDefinitions } from '../services/customFieldService';
+import { AddIcon, DeleteIcon, iconSizes } from './icons';
+
+interface CustomFieldSettingsProps {
+  fields: CustomFieldDefinition[];
+  onSave: (fields: CustomFieldDefinition[]) => void;
+  onCancel: () => void;
+}
+
+// 編集中の項目（選択肢はカンマ区切りのテキストで編集する）
+interface DraftField {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  optionsText: string;
+}
+
+const inputClassName = 'bg-slate-700 border-slate-600 rounded-md shadow-sm py-1.5 px-2 focus:outline-none focus:ring-sky-500 focus:border-sky-500 text-sm text-slate-100';
+
+const toDraftField = (field: CustomFieldDefinition): DraftField => ({
+  id: field.id,
+  name: field.name,
+  type: field.type,
+  optionsText: (field.options ?? []).join(', '),
+});
+
+const toDefinition = (field: DraftField): CustomFieldDefinition => ({
+  id: field.id,
+  name: field.name,
+  type: field.type,
+  ...(hasCustomFieldOptions(field.type) ? { options: field.optionsText.split(/[,、]/) } : {}),
+});
+
+/**
+ * プロジェクト独自の項目（カスタムフィールド）の定義を編集するフォーム
+ * キーと種類は作成後に変更できない（既存のタスクの値と食い違わないようにするため）
+ */
+export const CustomFieldSettings: React.FC<CustomFieldSettingsProps> = ({ fields, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<DraftField[]>(() => fields.map(toDraftField));
+  const [newField, setNewField] = useState<DraftField>({ id: '', name: '', type: 'text', optionsText: '' });
+
+  const updateField = (id: string, changes: Partial<DraftField>) => {
+    setDraft(draft.map(field => (field.id === id ? { ...field, ...changes } : field)));
+  };
+
+  const newFieldId = newField.id.trim();
+  const newFieldIdError = newFieldId === ''
+    ? null
+    : !isValidCustomFieldId(newFieldId)
+      ? 'キーは英字で始まる半角英数字と _ で入力してください。'
+      : draft.some(field => field.id === newFieldId)
+        ? 'このキーは既に使われています。'
+        : null;
+  const canAddField = newFieldId !== '' && newField.name.trim() !== '' && !newFieldIdError;
+
+  const addField = () => {
+    if (!canAddField) return;
+    setDraft([...draft, { ...newField, id: newFieldId, name: newField.name.trim() }]);
+    setNewField({ id: '', name: '', type: 'text', optionsText: '' });
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave(normalizeCustomFieldDefinitions(draft.map(toDefinition)));
+      }}
+      className="space-y-5 text-sm text-slate-300"
+    >
+      <div>
+        <p className="text-xs text-slate-400 mb-2">
+          見積もり・コンポーネント・チケットURLなど、このプロジェクトのタスクに追加する項目。値は YAML の customFields にキーごとに保存されます。
+          項目を削除しても、タスクに入力済みの値は YAML に残ります。選択肢を削除すると、その選択肢を選んでいたタスクの値は取り消されます。
+        </p>
+        {draft.length === 0 ? (
+          <p className="text-slate-400 italic">カスタムフィールドはまだありません。</p>
+        ) : (
+          <ul className="space-y-2">
+            {draft.map(field => (
+              <li key={field.id} className="bg-slate-700/50 rounded px-2 py-2 space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={field.name}
+                    onChange={(e) => updateField(field.id, { name: e.target.value })}
+                    aria-label={`${field.id}の表示名`}
+                    className={`flex-1 min-w-0 ${inputClassName}`}
+                  />
+                  <code className="text-xs text-slate-400">{field.id}</code>
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-slate-600 text-slate-200">{CUSTOM_FIELD_TYPE_TEXT_JP[field.type]}</span>
+                  <button
+                    type="button"
+                    onClick={() => setDraft(draft.filter(f => f.id !== field.id))}
+                    aria-label={`${field.name || field.id}を削除`}
+                    className="p-1 text-slate-400 hover:text-red-400 rounded"
+                  >
+                    <DeleteIcon className={iconSizes.xs} />
+                  </button>
+                </div>
+                {hasCustomFieldOptions(field.type) && (
+                  <input
+                    type="text"
+                    value={field.optionsText}
+                    onChange={(e) => updateField(field.id, { optionsText: e.target.value })}
+                    placeholder="選択肢（カンマ区切り）"
+                    aria-label={`${field.name || field.id}の選択肢`}
+                    className={`w-full ${inputClassName}`}
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <fieldset className="space-y-2">
+        <legend className="block text-sm font-medium text-slate-300 mb-2">項目を追加</legend>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={newField.name}
+            onChange={(e) => setNewField({ ...newField, name: e.target.value })}
+            placeholder="表示名（例: 見積もり（h））"
+            aria-label="新しい項目の表示名"
+            className={`flex-1 min-w-0 ${inputClassName}`}
+          />
+          <input
+            type="text"
+            value={newField.id}
+            onChange={(e) => setNewField({ ...newField, id: e.target.value })}
+            placeholder="キー（例: estimate）"
+            aria-label="新しい項目のキー"
+            className={`w-36 ${inputClassName}`}
+          />
+          <select
+            value={newField.type}
+            onChange={(e) => setNewField({ ...newField, type: e.target.value as CustomFieldType })}
+            aria-label="新しい項目の種類"
+            className={inputClassName}
+          >
+            {CUSTOM_FIELD_TYPES.map(type => (
+              <option key={type} value={type}>{CUSTOM_FIELD_TYPE_TEXT_JP[type]}</option>
+            ))}
+          </select>
+          <button type="button" onClick={addField} disabled={!canAddField} aria-label="項目を追加" className="p-1.5 text-slate-300 rounded-md hover:bg-slate-700 disabled:opacity-40">
+            <AddIcon className={iconSizes.sm} />
+          </button>
+        </div>
+        {hasCustomFieldOptions(newField.type) && (
+          <input
+            type="text"
+            value={newField.optionsText}
+            onChange={(e) => setNewField({ ...newField, optionsText: e.target.value })}
+            placeholder="選択肢（カンマ区切り、例: フロントエンド, バックエンド）"
+            aria-label="新しい項目の選択肢"
+            className={`w-full ${inputClassName}`}
+          />
+        )}
+        {newFieldIdError && <p className="text-xs text-red-400">{newFieldIdError}</p>}
+      </fieldset>
+
+      <div className="flex justify-end space-x-3 pt-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-slate-300 bg-slate-600 hover:bg-slate-500 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-sky-500"
+        >
+          キャンセル
+        </button>
+        <button
+          type="submit"
+          className="px-4 py-2 text-sm font-medium text-white bg-sky-600 hover:bg-sky-700 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-sky-500"
+        >
+          保存
+        </button>
+      </div>
+    </form>
+  );
+};
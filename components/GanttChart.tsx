@@ -1,6 +1,56 @@
 import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
-import { Task } from '../types';
+import { Task, DependencyLink, WorkingCalendar, TeamMember, CustomFieldDefinition, GanttViewMode, TaskViewState } from '../types';
 import { PRIORITY_COLORS, STATUS_TEXT_JP, PRIORITY_TEXT_JP } from '../constants';
+import {
+  DependencyAnchor,
+  formatDependencyLink,
+  getDependencyAnchors,
+  getDependencyLink,
+  getDependencyTypeForAnchors,
+  getTasksInCycles,
+  isDefaultDependencyLink,
+  wouldCreateCycle
+} from '../services/dependencyService';
+import { flattenTaskTree, getAncestorIds, getDescendantIds, getRollupProgress, hasChildTasks } from '../services/hierarchyService';
+import { clampProgress, getTaskProgress } from '../services/progressService';
+import { levelResources, LevelingResult } from '../services/levelingService';
+import { getTaskAssignees } from '../services/teamService';
+import { AssigneeAvatars } from './AssigneeAvatars';
+import { SavedViewControls, SavedViewSelector } from './SavedViewSelector';
+import { TagChips } from './TagChips';
+import {
+  addDays,
+  addMonths,
+  diffDays,
+  diffMonths,
+  formatDate,
+  getEndOfMonth,
+  getEndOfWeek,
+  getIsoWeek,
+  getStartOfMonth,
+  getStartOfWeek,
+  getTodayDateString
+} from '../services/dateService';
+import {
+  DEFAULT_WORKING_CALENDAR,
+  countWorkingDays,
+  getEndDateForWorkingDays,
+  getNonWorkingDayName,
+  snapToWorkingDay
+} from '../services/workingCalendarService';
+import {
+  analyzeSchedule,
+  getDependencyKey,
+  getDurationDays,
+  propagateDateChanges,
+  findDependencyViolations,
+  applyDateUpdates,
+  TaskScheduleInfo,
+  TaskDateUpdate,
+  DependencyViolation
+} from '../services/scheduleService';
+import { isEmptySearchQuery, matchesSearchQuery, SearchQuery } from '../services/searchService';
+import { DEFAULT_TASK_FILTERS, DEFAULT_VIEW_STATE, getTaskComparator, hasActiveFilters, matchesTaskFilters, MAX_GANTT_ZOOM, MIN_GANTT_ZOOM } from '../services/viewService';
 import { 
   StatusNotStartedIcon, 
   StatusInProgressIcon, 
@@ -8,6 +58,7 @@ import {
   ZoomInIcon,
   ZoomOutIcon,
   ResetIcon,
+  MilestoneIcon,
   iconSizes
 } from './icons';
 
@@ -16,6 +67,17 @@ interface GanttChartProps {
   onEditTask: (task: Task) => void;
   onTaskDateChange?: (taskId: string, newStartDate: string, newEndDate: string) => void;
   onMultipleTaskDateChange?: (taskUpdates: Array<{taskId: string, newStartDate: string, newEndDate: string}>) => void;
+  onTaskProgressChange?: (taskId: string, progress: number) => void;
+  onAddDependency?: (taskId: string, dependsOn: string, link?: DependencyLink) => void;
+  onRemoveDependency?: (taskId: string, dependsOn: string) => void;
+  workingCalendar?: WorkingCalendar; // 休みの日の網掛けと、ドラッグ時の稼働日への吸着に使う
+  team?: TeamMember[]; // 担当者の表示に使う名簿
+  tagColors?: Record<string, string>; // プロジェクトで設定したタグの色
+  searchQuery?: SearchQuery; // 全体の検索ボックスの条件（一致しないタスクは薄く表示する）
+  customFields?: CustomFieldDefinition[]; // カスタムフィールドでの絞り込み・並べ替えに使う定義
+  viewState?: TaskViewState; // 絞り込み・並べ替え・表示単位・ズーム（渡さなければチャートの中だけで持つ）
+  onViewStateChange?: (viewState: TaskViewState) => void;
+  savedViewControls?: SavedViewControls; // 渡すと保存ビューを選べるようにする
   isInSplitView?: boolean;
 }
 
@@ -25,33 +87,102 @@ const CHART_PADDING = 20;
 const MIN_LABEL_WIDTH = 80; // ラベルの最小幅
 const MAX_LABEL_WIDTH = 400; // ラベルの最大幅
 
-type GanttViewMode = 'day' | 'week' | 'month'; // ビューモードの型定義
+type BarDragMode = 'move' | 'resize-start' | 'resize-end'; // バー全体の移動、または開始日・終了日だけの変更
+
+interface DragTooltipData {
+  x: number;
+  y: number;
+  startDate: string;
+  endDate: string;
+  deltaUnits: number;
+  mode: BarDragMode;
+  resizedTaskCount: number; // リサイズで日付が変わるタスクの数（サマリータスクとマイルストーンを除く）
+  durationDays: number; // 変更後の期間（最初のタスク）
+  workingDays: number;  // 変更後の期間のうち稼働日の日数
+  cascadeTaskIds: string[]; // 自動スケジュールで連動して移動するタスク
+  violations: DependencyViolation[]; // 自動スケジュールオフ時の制約違反
+}
+
+interface ProgressDragData {
+  taskId: string;
+  barLeft: number;  // 進捗ハンドルが動く範囲（バーの両端のリサイズハンドルを除く）の画面上の左端（px）
+  barWidth: number; // 進捗ハンドルが動く範囲の幅（px）
+  progress: number; // ドラッグ中の進捗率（確定前）
+}
+
+// 依存線（dependencyId → taskId）の参照
+interface DependencyRef {
+  dependencyId: string;
+  taskId: string;
+}
+
+interface LinkDragData {
+  fromTaskId: string;
+  fromAnchor: DependencyAnchor; // ドラッグを始めたバーの端
+  x: number; // ポインタの位置（依存線SVGの座標系）
+  y: number;
+  target?: { taskId: string; anchor: DependencyAnchor }; // ポインタ下のタスクバーと、ポインタに近い方の端
+}
+
+interface DependencyMenuData extends DependencyRef {
+  x: number;
+  y: number;
+}
 
 interface TooltipData {
   task: Task;
   x: number;
   y: number;
+  schedule?: TaskScheduleInfo; // 余裕日数・クリティカル判定の表示用
 }
 
-export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTaskDateChange, onMultipleTaskDateChange, isInSplitView = false }) => {
+export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTaskDateChange, onMultipleTaskDateChange, onTaskProgressChange, onAddDependency, onRemoveDependency, workingCalendar = DEFAULT_WORKING_CALENDAR, team = [], tagColors, searchQuery, customFields = [], viewState: viewStateProp, onViewStateChange, savedViewControls, isInSplitView = false }) => {
   const [labelWidth, setLabelWidth] = useState(150); // 初期値を150に設定
   const [isResizing, setIsResizing] = useState(false);
   const [tooltipData, setTooltipData] = useState<TooltipData | null>(null); // ツールチップ用state
-  const [viewMode, setViewMode] = useState<GanttViewMode>('day'); // ビューモードstate
+  const [localViewState, setLocalViewState] = useState<TaskViewState>(DEFAULT_VIEW_STATE); // 表示条件（一覧と共有しない場合）
   const [rowHeight, setRowHeight] = useState(40); // 行の高さをstate管理する
-  const [zoomLevel, setZoomLevel] = useState(1); // ズームレベル
   const [draggingTask, setDraggingTask] = useState<string | null>(null); // ドラッグ中のタスクID
+  const [barDragMode, setBarDragMode] = useState<BarDragMode>('move'); // ドラッグ中の操作（移動・リサイズ）
   const [dragStartX, setDragStartX] = useState(0); // ドラッグ開始位置
   const [originalTaskData, setOriginalTaskData] = useState<{startDate: string, endDate: string} | null>(null);
   const [selectedTaskIds, setSelectedTaskIds] = useState<Set<string>>(new Set()); // 複数選択されたタスクID
   const [isMultiSelectMode, setIsMultiSelectMode] = useState(false); // 複数選択モード
   const [originalMultiTaskData, setOriginalMultiTaskData] = useState<Map<string, {startDate: string, endDate: string}>>(new Map());
-  const [hasDragged, setHasDragged] = useState(false); // 実際にドラッグが発生したか
   const [dragStartPosition, setDragStartPosition] = useState({ x: 0, y: 0 }); // ドラッグ開始位置
   const [preventClick, setPreventClick] = useState(false); // クリック抑制フラグ
-  const [dragTooltip, setDragTooltip] = useState<{x: number, y: number, startDate: string, endDate: string, deltaUnits: number} | null>(null); // ドラッグ中のツールチップ
+  const [dragTooltip, setDragTooltip] = useState<DragTooltipData | null>(null); // ドラッグ中のツールチップ
+  const [dragPreview, setDragPreview] = useState<Map<string, TaskDateUpdate>>(new Map()); // ドラッグ中の日付プレビュー（確定前）
+  // ドラッグ中に更新する値はリスナーから ref で読み、リスナーをドラッグごとに1回だけ登録する
+  const hasDraggedRef = useRef(false); // 実際にドラッグが発生したか
+  const dragPreviewRef = useRef<Map<string, TaskDateUpdate>>(new Map());
+  const dragViolationsRef = useRef<DependencyViolation[]>([]);
+  const [isAutoScheduling, setIsAutoScheduling] = useState(false); // 後続タスクの自動スケジュール
+  const [constraintViolations, setConstraintViolations] = useState<DependencyViolation[]>([]); // 直近のドラッグで生じた制約違反
+  const [progressDrag, setProgressDrag] = useState<ProgressDragData | null>(null); // 進捗ハンドルのドラッグ
+  const progressDragRef = useRef<ProgressDragData | null>(null);
+  const [showCriticalPath, setShowCriticalPath] = useState(false); // クリティカルパスの強調表示
+  const [linkDrag, setLinkDrag] = useState<LinkDragData | null>(null); // 接続ハンドルからの依存線のドラッグ
+  const linkDragRef = useRef<LinkDragData | null>(null);
+  const [linkError, setLinkError] = useState<string | null>(null); // 依存関係を追加できなかった理由
+  const [hoveredDependency, setHoveredDependency] = useState<string | null>(null); // ホバー中の依存線のキー
+  const [selectedDependency, setSelectedDependency] = useState<DependencyRef | null>(null); // 削除対象として選択中の依存線
+  const [dependencyMenu, setDependencyMenu] = useState<DependencyMenuData | null>(null); // 依存線の右クリックメニュー
+  const [levelingPreview, setLevelingPreview] = useState<LevelingResult | null>(null); // 負荷の平準化の提案（確定前）
+
+  // ビューモード（日・週・月）とズームは保存ビューに含める
+  const viewState = viewStateProp ?? localViewState;
+  const { ganttViewMode: viewMode, ganttZoom: zoomLevel } = viewState;
+  const updateViewState = (changes: Partial<TaskViewState>) => {
+    const next = { ...viewState, ...changes };
+    if (onViewStateChange) onViewStateChange(next);
+    else setLocalViewState(next);
+  };
+  const setViewMode = (mode: GanttViewMode) => updateViewState({ ganttViewMode: mode });
+  const setZoomLevel = (zoom: number) => updateViewState({ ganttZoom: zoom });
   const resizeHandleRef = useRef<HTMLDivElement>(null);
   const chartContainerRef = useRef<HTMLDivElement>(null); // チャート全体のコンテナ参照用
+  const chartContentRef = useRef<HTMLDivElement>(null); // 依存線SVGと同じ座標系を持つスクロール内容の参照用
   
   // ドラッグ判定の閾値（ピクセル）
   const DRAG_THRESHOLD = 5;
@@ -91,11 +222,176 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
     };
   }, [isResizing]);
 
+  // ドラッグ中の値は ref にも保持し、リスナーはドラッグごとに1回だけ登録する
+  const updateProgressDrag = (drag: ProgressDragData | null) => {
+    progressDragRef.current = drag;
+    setProgressDrag(drag);
+  };
+  const updateLinkDrag = (drag: LinkDragData | null) => {
+    linkDragRef.current = drag;
+    setLinkDrag(drag);
+  };
+  const isProgressDragging = progressDrag !== null;
+  const isLinkDragging = linkDrag !== null;
+
+  // 進捗ハンドルのドラッグ中はプレビューのみ更新し、マウスアップ時に確定する
+  useEffect(() => {
+    if (!isProgressDragging) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const drag = progressDragRef.current;
+      if (!drag) return;
+      const progress = clampProgress(((e.clientX - drag.barLeft) / drag.barWidth) * 100);
+      if (progress !== drag.progress) updateProgressDrag({ ...drag, progress });
+    };
+
+    const handleMouseUp = () => {
+      const drag = progressDragRef.current;
+      const task = drag && tasks.find(t => t.id === drag.taskId);
+      if (drag && task && onTaskProgressChange && drag.progress !== getTaskProgress(task)) {
+        onTaskProgressChange(drag.taskId, drag.progress);
+      }
+      updateProgressDrag(null);
+      // マウスアップ後にバーのクリック（編集）が発生しないようにする
+      setPreventClick(true);
+      setTimeout(() => setPreventClick(false), 100);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isProgressDragging, tasks, onTaskProgressChange]);
+
+  // 接続ハンドルから別のタスクバーへドラッグして依存関係を追加する
+  // ドロップ先のバーの左半分なら開始端、右半分なら終了端につなぎ、両端の組み合わせで種類（FS/SS/FF/SF）を決める
+  useEffect(() => {
+    if (!isLinkDragging) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const drag = linkDragRef.current;
+      const contentRect = chartContentRef.current?.getBoundingClientRect();
+      if (!drag || !contentRect) return;
+      const barElement = (e.target as Element | null)?.closest?.('[data-gantt-task-id]') as HTMLElement | null;
+      const targetTaskId = barElement?.dataset.ganttTaskId;
+      let target: LinkDragData['target'];
+      if (barElement && targetTaskId && targetTaskId !== drag.fromTaskId) {
+        const barRect = barElement.getBoundingClientRect();
+        target = { taskId: targetTaskId, anchor: e.clientX < barRect.left + barRect.width / 2 ? 'start' : 'finish' };
+      }
+      updateLinkDrag({ ...drag, x: e.clientX - contentRect.left, y: e.clientY - contentRect.top, target });
+    };
+
+    const handleMouseUp = () => {
+      const drag = linkDragRef.current;
+      const target = drag?.target;
+      const targetTask = target && tasks.find(t => t.id === target.taskId);
+      if (drag && target && targetTask && onAddDependency) {
+        const { fromTaskId, fromAnchor } = drag;
+        if (wouldCreateCycle(tasks, target.taskId, fromTaskId)) {
+          const fromName = tasks.find(t => t.id === fromTaskId)?.name || fromTaskId;
+          setLinkError(`「${targetTask.name}」を「${fromName}」に依存させると依存関係が循環するため、追加できません。`);
+        } else {
+          // 既にある依存関係を引き直した場合はラグを保つ
+          const lag = targetTask.dependencies.includes(fromTaskId) ? getDependencyLink(targetTask, fromTaskId).lag : 0;
+          onAddDependency(target.taskId, fromTaskId, { type: getDependencyTypeForAnchors(fromAnchor, target.anchor), lag });
+          setLinkError(null);
+        }
+      }
+      updateLinkDrag(null);
+      // マウスアップ後にバーのクリック（編集）が発生しないようにする
+      setPreventClick(true);
+      setTimeout(() => setPreventClick(false), 100);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isLinkDragging, tasks, onAddDependency]);
+
+  const removeDependency = useCallback((dependency: DependencyRef) => {
+    onRemoveDependency?.(dependency.taskId, dependency.dependencyId);
+    setSelectedDependency(null);
+    setDependencyMenu(null);
+  }, [onRemoveDependency]);
+
+  // 選択中の依存線は Delete / Backspace キーで削除し、Escape キーや依存線以外のクリックで選択を解除する
+  useEffect(() => {
+    if (!selectedDependency) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) {
+        return;
+      }
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        removeDependency(selectedDependency);
+      } else if (e.key === 'Escape') {
+        setSelectedDependency(null);
+        setDependencyMenu(null);
+      }
+    };
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if ((e.target as Element | null)?.closest?.('[data-dependency-hit], [data-dependency-menu]')) return;
+      setSelectedDependency(null);
+      setDependencyMenu(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('mousedown', handleMouseDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('mousedown', handleMouseDown);
+    };
+  }, [selectedDependency, removeDependency]);
+
+  // 依存関係の循環に含まれるタスク（強調表示用）
+  const cyclicTaskIds = useMemo(() => getTasksInCycles(tasks), [tasks]);
+  // スケジュール解析（最早・最遅日程、フロート、クリティカルパス）
+  const scheduleAnalysis = useMemo(() => analyzeSchedule(tasks, workingCalendar), [tasks, workingCalendar]);
+  // 平準化の提案はタスクが変わった時点で古くなるため破棄する
+  useEffect(() => {
+    setLevelingPreview(null);
+  }, [tasks]);
+  const levelingUpdates = useMemo(
+    () => new Map((levelingPreview?.updates ?? []).map(update => [update.taskId, update])),
+    [levelingPreview]
+  );
+
+  const applyLeveling = () => {
+    if (levelingPreview && onMultipleTaskDateChange && levelingPreview.updates.length > 0) {
+      onMultipleTaskDateChange(levelingPreview.updates);
+    }
+    setLevelingPreview(null);
+  };
+
   if (tasks.length === 0) {
     return <p className="text-center text-slate-400 py-8">No tasks to display in Gantt chart.</p>;
   }
 
-  const sortedTasks = [...tasks].sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+  // 絞り込みに一致したタスクとその親を、親の直後にサブタスクが並ぶ階層順に表示する（兄弟の中では並べ替えの条件の順）
+  const isFiltered = hasActiveFilters(viewState.filters);
+  const filteredTasks = isFiltered ? tasks.filter(task => matchesTaskFilters(task, viewState.filters, customFields)) : tasks;
+  const displayedIds = new Set(filteredTasks.flatMap(task => [task.id, ...getAncestorIds(tasks, task.id)]));
+  const taskTreeRows = flattenTaskTree(
+    tasks.filter(task => displayedIds.has(task.id)),
+    new Set(),
+    getTaskComparator(viewState.sortKey, viewState.sortOrder, customFields)
+  );
+  const sortedTasks = taskTreeRows.map(row => row.task);
+  const taskDepths = new Map(taskTreeRows.map(row => [row.task.id, row.depth]));
+  const summaryTaskIds = new Set(taskTreeRows.filter(row => row.hasChildren).map(row => row.task.id));
+  // 検索中は行を隠さず（依存線と日程の文脈を保つため）一致しないタスクを薄くする
+  const searchMissIds = new Set(searchQuery && !isEmptySearchQuery(searchQuery)
+    ? tasks.filter(task => !matchesSearchQuery(task, searchQuery, team)).map(task => task.id)
+    : []);
 
   // ビューモードに応じた設定（ズームレベルを適用）
   const getChartSettings = () => {
@@ -127,11 +423,11 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
 
   // ズーム制御関数
   const handleZoomIn = () => {
-    setZoomLevel(prev => Math.min(prev * 1.2, 3)); // 最大3倍まで
+    setZoomLevel(Math.min(zoomLevel * 1.2, MAX_GANTT_ZOOM));
   };
 
   const handleZoomOut = () => {
-    setZoomLevel(prev => Math.max(prev / 1.2, 0.3)); // 最小0.3倍まで
+    setZoomLevel(Math.max(zoomLevel / 1.2, MIN_GANTT_ZOOM));
   };
 
   const resetZoom = () => {
@@ -180,8 +476,8 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
     }
   };
 
-  // タスクバーのドラッグ開始
-  const handleTaskMouseDown = useCallback((e: React.MouseEvent, task: Task) => {
+  // タスクバーのドラッグ開始（mode でバー全体の移動か、開始端・終了端のリサイズかを指定）
+  const handleTaskMouseDown = useCallback((e: React.MouseEvent, task: Task, mode: BarDragMode = 'move') => {
     if (!onTaskDateChange) return;
     
     e.preventDefault();
@@ -190,16 +486,24 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
     // ドラッグ開始位置を記録
     setDragStartPosition({ x: e.clientX, y: e.clientY });
     setDragStartX(e.clientX);
-    setHasDragged(false);
+    hasDraggedRef.current = false;
+    dragPreviewRef.current = new Map();
+    dragViolationsRef.current = [];
     setPreventClick(false);
+    setBarDragMode(mode);
     
-    // 複数選択されている場合のドラッグ準備
-    if (selectedTaskIds.size > 1 && selectedTaskIds.has(task.id)) {
+    // 複数選択されている場合、またはサマリータスクの場合（サブタスクも一緒に移動する）のドラッグ準備
+    // リサイズは日付を子から集計するサマリータスクとマイルストーンを除いた、選択中のタスクに同じ量だけ適用する
+    const draggedIds = selectedTaskIds.size > 1 && selectedTaskIds.has(task.id) ? Array.from(selectedTaskIds) : [task.id];
+    const idsWithSubtasks = mode === 'move'
+      ? new Set(draggedIds.flatMap(taskId => [taskId, ...getDescendantIds(tasks, taskId)]))
+      : new Set(draggedIds.filter(taskId => taskId === task.id || (!tasks.find(t => t.id === taskId)?.milestone && !hasChildTasks(tasks, taskId))));
+    if (idsWithSubtasks.size > 1) {
       setDraggingTask(task.id);
       
       // 複数タスクの元データを保存
       const multiTaskData = new Map<string, {startDate: string, endDate: string}>();
-      selectedTaskIds.forEach(taskId => {
+      idsWithSubtasks.forEach(taskId => {
         const targetTask = tasks.find(t => t.id === taskId);
         if (targetTask) {
           multiTaskData.set(taskId, {
@@ -219,13 +523,46 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
     }
   }, [onTaskDateChange, selectedTaskIds, tasks]);
 
+  // ドラッグ量（単位数）に応じて日付文字列をずらす
+  const shiftDateByUnits = (dateString: string, deltaUnits: number): string => {
+    if (timeUnit === 'week') return addDays(dateString, deltaUnits * 7);
+    if (timeUnit === 'month') return addMonths(dateString, deltaUnits);
+    return addDays(dateString, deltaUnits);
+  };
+
+  // ドラッグ量（単位数）に応じた新しい日付。動かした端はドラッグの向きにある稼働日に寄せる
+  // 移動では稼働日数を保ち、リサイズでは片方の端だけを動かして終了日が開始日より前にならないようにする
+  const getDraggedDates = (data: {startDate: string, endDate: string}, deltaUnits: number): { newStartDate: string; newEndDate: string } => {
+    const direction = deltaUnits < 0 ? -1 : 1;
+    const shiftToWorkingDay = (date: string) => snapToWorkingDay(shiftDateByUnits(date, deltaUnits), workingCalendar, direction);
+    if (barDragMode === 'resize-start') {
+      const newStartDate = shiftToWorkingDay(data.startDate);
+      return { newStartDate: newStartDate > data.endDate ? data.endDate : newStartDate, newEndDate: data.endDate };
+    }
+    if (barDragMode === 'resize-end') {
+      const newEndDate = shiftToWorkingDay(data.endDate);
+      return { newStartDate: data.startDate, newEndDate: newEndDate < data.startDate ? data.startDate : newEndDate };
+    }
+    const workingDays = countWorkingDays(data.startDate, data.endDate, workingCalendar);
+    if (workingDays === 0) {
+      // 休みの日だけに置かれたタスクは暦日のまま移動する
+      return {
+        newStartDate: shiftDateByUnits(data.startDate, deltaUnits),
+        newEndDate: shiftDateByUnits(data.endDate, deltaUnits)
+      };
+    }
+    const newStartDate = shiftToWorkingDay(data.startDate);
+    return { newStartDate, newEndDate: getEndDateForWorkingDays(newStartDate, workingDays, workingCalendar) };
+  };
+
   // タスクバーのドラッグ中とドラッグ終了の処理
+  // ドラッグ中はプレビュー（dragPreview）のみ更新し、マウスアップ時に一括で確定する
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
       if (!draggingTask || !onTaskDateChange) return;
 
       // ドラッグ閾値の判定
-      if (!hasDragged) {
+      if (!hasDraggedRef.current) {
         const deltaX = e.clientX - dragStartPosition.x;
         const deltaY = e.clientY - dragStartPosition.y;
         const distance = Math.sqrt(deltaX * deltaX + deltaY * deltaY);
@@ -233,7 +570,7 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
         if (distance < DRAG_THRESHOLD) return;
         
         // 閾値を超えた場合、ドラッグ開始
-        setHasDragged(true);
+        hasDraggedRef.current = true;
         setPreventClick(true);
       }
 
@@ -241,7 +578,7 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
       const deltaUnits = Math.round(deltaX / unitWidth);
 
       // 自動スクロール機能
-      if (chartContainerRef.current && hasDragged) {
+      if (chartContainerRef.current && hasDraggedRef.current) {
         const scrollContainer = chartContainerRef.current.querySelector('.overflow-auto') as HTMLElement;
         if (scrollContainer) {
           const containerRect = scrollContainer.getBoundingClientRect();
@@ -262,164 +599,76 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
         }
       }
 
-      if (deltaUnits === 0) return;
+      if (deltaUnits === 0) {
+        dragPreviewRef.current = new Map();
+        dragViolationsRef.current = [];
+        setDragPreview(dragPreviewRef.current);
+        return;
+      }
 
-      // ドラッグ中のツールチップ情報を更新
-      if (originalTaskData) {
-        const originalStart = new Date(originalTaskData.startDate);
-        const originalEnd = new Date(originalTaskData.endDate);
-        
-        let newStartDate = new Date(originalStart);
-        let newEndDate = new Date(originalEnd);
-
-        if (timeUnit === 'day') {
-          newStartDate.setDate(originalStart.getDate() + deltaUnits);
-          newEndDate.setDate(originalEnd.getDate() + deltaUnits);
-        } else if (timeUnit === 'week') {
-          newStartDate.setDate(originalStart.getDate() + (deltaUnits * 7));
-          newEndDate.setDate(originalEnd.getDate() + (deltaUnits * 7));
-        } else if (timeUnit === 'month') {
-          newStartDate.setMonth(originalStart.getMonth() + deltaUnits);
-          newEndDate.setMonth(originalEnd.getMonth() + deltaUnits);
-        }
+      // 移動対象（複数選択時は選択中の全タスク）の新しい日付を計算
+      const originalEntries = originalMultiTaskData.size > 0
+        ? Array.from(originalMultiTaskData.entries())
+        : originalTaskData ? [[draggingTask, originalTaskData] as [string, {startDate: string, endDate: string}]] : [];
+      if (originalEntries.length === 0) return;
 
-        setDragTooltip({
-          x: e.clientX,
-          y: e.clientY - 80,
-          startDate: newStartDate.toLocaleDateString('ja-JP'),
-          endDate: newEndDate.toLocaleDateString('ja-JP'),
-          deltaUnits
-        });
-      } else if (originalMultiTaskData.size > 0) {
-        // 複数タスクの場合は最初のタスクの情報を表示
-        const firstTaskData = Array.from(originalMultiTaskData.values())[0];
-        const originalStart = new Date(firstTaskData.startDate);
-        const originalEnd = new Date(firstTaskData.endDate);
-        
-        let newStartDate = new Date(originalStart);
-        let newEndDate = new Date(originalEnd);
-
-        if (timeUnit === 'day') {
-          newStartDate.setDate(originalStart.getDate() + deltaUnits);
-          newEndDate.setDate(originalEnd.getDate() + deltaUnits);
-        } else if (timeUnit === 'week') {
-          newStartDate.setDate(originalStart.getDate() + (deltaUnits * 7));
-          newEndDate.setDate(originalEnd.getDate() + (deltaUnits * 7));
-        } else if (timeUnit === 'month') {
-          newStartDate.setMonth(originalStart.getMonth() + deltaUnits);
-          newEndDate.setMonth(originalEnd.getMonth() + deltaUnits);
-        }
+      const movedUpdates: TaskDateUpdate[] = originalEntries.map(([taskId, data]) => ({ taskId, ...getDraggedDates(data, deltaUnits) }));
 
-        setDragTooltip({
-          x: e.clientX,
-          y: e.clientY - 80,
-          startDate: newStartDate.toLocaleDateString('ja-JP'),
-          endDate: newEndDate.toLocaleDateString('ja-JP'),
-          deltaUnits
-        });
-      }
+      // 自動スケジュール時は後続タスクを連鎖的に後ろ倒し、オフ時は制約違反を検出
+      const cascadeUpdates = isAutoScheduling ? propagateDateChanges(tasks, movedUpdates, workingCalendar) : [];
+      const violations = isAutoScheduling
+        ? []
+        : findDependencyViolations(applyDateUpdates(tasks, movedUpdates), new Set(movedUpdates.map(u => u.taskId)), workingCalendar);
 
-      // 複数タスクの移動処理
-      if (originalMultiTaskData.size > 0) {
-        if (onMultipleTaskDateChange) {
-          // 複数タスクの日付変更を一括処理
-          const taskUpdates: Array<{taskId: string, newStartDate: string, newEndDate: string}> = [];
-          
-          originalMultiTaskData.forEach((data, taskId) => {
-            const originalStart = new Date(data.startDate);
-            const originalEnd = new Date(data.endDate);
-            
-            let newStartDate = new Date(originalStart);
-            let newEndDate = new Date(originalEnd);
-
-            if (timeUnit === 'day') {
-              newStartDate.setDate(originalStart.getDate() + deltaUnits);
-              newEndDate.setDate(originalEnd.getDate() + deltaUnits);
-            } else if (timeUnit === 'week') {
-              newStartDate.setDate(originalStart.getDate() + (deltaUnits * 7));
-              newEndDate.setDate(originalEnd.getDate() + (deltaUnits * 7));
-            } else if (timeUnit === 'month') {
-              newStartDate.setMonth(originalStart.getMonth() + deltaUnits);
-              newEndDate.setMonth(originalEnd.getMonth() + deltaUnits);
-            }
+      dragPreviewRef.current = new Map([...movedUpdates, ...cascadeUpdates].map(update => [update.taskId, update]));
+      dragViolationsRef.current = violations;
+      setDragPreview(dragPreviewRef.current);
 
-            const newStartStr = newStartDate.toISOString().split('T')[0];
-            const newEndStr = newEndDate.toISOString().split('T')[0];
-            
-            taskUpdates.push({
-              taskId,
-              newStartDate: newStartStr,
-              newEndDate: newEndStr
-            });
-          });
-          
-          // 一括で複数タスクの日付を更新
-          onMultipleTaskDateChange(taskUpdates);
+      // ドラッグ中のツールチップ情報を更新（複数タスクの場合は最初のタスクの情報を表示）
+      const firstUpdate = movedUpdates[0];
+      setDragTooltip({
+        x: e.clientX,
+        y: e.clientY - 80,
+        startDate: formatDate(firstUpdate.newStartDate, { year: 'numeric', month: 'numeric', day: 'numeric' }, 'ja-JP'),
+        endDate: formatDate(firstUpdate.newEndDate, { year: 'numeric', month: 'numeric', day: 'numeric' }, 'ja-JP'),
+        deltaUnits,
+        mode: barDragMode,
+        resizedTaskCount: movedUpdates.length,
+        durationDays: getDurationDays(firstUpdate.newStartDate, firstUpdate.newEndDate),
+        workingDays: countWorkingDays(firstUpdate.newStartDate, firstUpdate.newEndDate, workingCalendar),
+        cascadeTaskIds: cascadeUpdates.map(update => update.taskId),
+        violations
+      });
+    };
+
+    const handleMouseUp = () => {
+      const hadDraggedBefore = hasDraggedRef.current;
+
+      // プレビュー中の変更を一括で確定
+      const updates = Array.from(dragPreviewRef.current.values());
+      if (hadDraggedBefore && updates.length > 0) {
+        if (onMultipleTaskDateChange) {
+          onMultipleTaskDateChange(updates);
         } else {
           // フォールバック: 従来の方法（個別更新）
-          originalMultiTaskData.forEach((data, taskId) => {
-            const originalStart = new Date(data.startDate);
-            const originalEnd = new Date(data.endDate);
-            
-            let newStartDate = new Date(originalStart);
-            let newEndDate = new Date(originalEnd);
-
-            if (timeUnit === 'day') {
-              newStartDate.setDate(originalStart.getDate() + deltaUnits);
-              newEndDate.setDate(originalEnd.getDate() + deltaUnits);
-            } else if (timeUnit === 'week') {
-              newStartDate.setDate(originalStart.getDate() + (deltaUnits * 7));
-              newEndDate.setDate(originalEnd.getDate() + (deltaUnits * 7));
-            } else if (timeUnit === 'month') {
-              newStartDate.setMonth(originalStart.getMonth() + deltaUnits);
-              newEndDate.setMonth(originalEnd.getMonth() + deltaUnits);
-            }
-
-            const newStartStr = newStartDate.toISOString().split('T')[0];
-            const newEndStr = newEndDate.toISOString().split('T')[0];
-            
-            onTaskDateChange && onTaskDateChange(taskId, newStartStr, newEndStr);
-          });
+          updates.forEach(update => onTaskDateChange && onTaskDateChange(update.taskId, update.newStartDate, update.newEndDate));
         }
-      } else if (originalTaskData) {
-        // 単一タスクの移動処理
-        const task = tasks.find(t => t.id === draggingTask);
-        if (!task) return;
-
-        const originalStart = new Date(originalTaskData.startDate);
-        const originalEnd = new Date(originalTaskData.endDate);
-        
-        let newStartDate = new Date(originalStart);
-        let newEndDate = new Date(originalEnd);
-
-        if (timeUnit === 'day') {
-          newStartDate.setDate(originalStart.getDate() + deltaUnits);
-          newEndDate.setDate(originalEnd.getDate() + deltaUnits);
-        } else if (timeUnit === 'week') {
-          newStartDate.setDate(originalStart.getDate() + (deltaUnits * 7));
-          newEndDate.setDate(originalEnd.getDate() + (deltaUnits * 7));
-        } else if (timeUnit === 'month') {
-          newStartDate.setMonth(originalStart.getMonth() + deltaUnits);
-          newEndDate.setMonth(originalEnd.getMonth() + deltaUnits);
+        if (dragViolationsRef.current.length > 0) {
+          setConstraintViolations(dragViolationsRef.current);
         }
-
-        const newStartStr = newStartDate.toISOString().split('T')[0];
-        const newEndStr = newEndDate.toISOString().split('T')[0];
-        
-        onTaskDateChange(draggingTask, newStartStr, newEndStr);
       }
-    };
-
-    const handleMouseUp = () => {
-      const hadDraggedBefore = hasDragged;
       
       setDraggingTask(null);
+      setBarDragMode('move');
       setDragStartX(0);
       setOriginalTaskData(null);
       setOriginalMultiTaskData(new Map());
-      setHasDragged(false);
+      hasDraggedRef.current = false;
+      dragPreviewRef.current = new Map();
+      dragViolationsRef.current = [];
       setDragStartPosition({ x: 0, y: 0 });
       setDragTooltip(null); // ドラッグ終了時にツールチップを非表示
+      setDragPreview(new Map());
       
       // ドラッグが発生した場合、短時間クリックを抑制
       if (hadDraggedBefore) {
@@ -439,98 +688,103 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [draggingTask, dragStartX, originalTaskData, originalMultiTaskData, onTaskDateChange, unitWidth, timeUnit, tasks]);
+  }, [draggingTask, dragStartX, dragStartPosition, originalTaskData, originalMultiTaskData, barDragMode, workingCalendar, isAutoScheduling, onTaskDateChange, onMultipleTaskDateChange, unitWidth, timeUnit, tasks]);
 
-  // 期間の開始日と終了日を決定
+  // ドラッグ中はプレビューの日付を優先して表示
+  const getDisplayDates = (task: Task): { startDate: string; endDate: string } => {
+    const preview = dragPreview.get(task.id);
+    return preview
+      ? { startDate: preview.newStartDate, endDate: preview.newEndDate }
+      : { startDate: task.startDate, endDate: task.endDate };
+  };
+
+  // 期間の開始日と終了日を決定（YYYY-MM-DD）
   const { chartMinDate, chartMaxDate } = useMemo(() => {
     if (sortedTasks.length === 0) {
-      const today = new Date();
+      const today = getTodayDateString();
       return { chartMinDate: today, chartMaxDate: today };
     }
-    let minD = new Date(sortedTasks[0].startDate);
-    let maxD = new Date(sortedTasks[0].endDate);
+    let minD = sortedTasks[0].startDate;
+    let maxD = sortedTasks[0].endDate;
     sortedTasks.forEach(task => {
-      const start = new Date(task.startDate);
-      const end = new Date(task.endDate);
-      if (start < minD) minD = start;
-      if (end > maxD) maxD = end;
+      if (task.startDate < minD) minD = task.startDate;
+      if (task.endDate > maxD) maxD = task.endDate;
+    });
+    // 平準化の提案で後ろ倒しにした位置まで表示する
+    levelingUpdates.forEach(update => {
+      if (update.newEndDate > maxD) maxD = update.newEndDate;
     });
 
     // ビューモードによって表示範囲を調整 (例: 月表示なら月の初めから終わりまで)
     if (timeUnit === 'month') {
-        minD = new Date(minD.getFullYear(), minD.getMonth(), 1);
-        maxD = new Date(maxD.getFullYear(), maxD.getMonth() + 1, 0); // 月末
+        minD = getStartOfMonth(minD);
+        maxD = getEndOfMonth(maxD);
     } else if (timeUnit === 'week') {
-        const dayOfWeekMin = minD.getDay();
-        minD.setDate(minD.getDate() - dayOfWeekMin + (dayOfWeekMin === 0 ? -6 : 1)); // 週の開始(月曜)
-        const dayOfWeekMax = maxD.getDay();
-        maxD.setDate(maxD.getDate() + (7 - dayOfWeekMax + (dayOfWeekMax === 0 ? -6 : 1) -1)); // 週の終わり(日曜)
+        minD = getStartOfWeek(minD); // 週の開始(月曜)
+        maxD = getEndOfWeek(maxD); // 週の終わり(日曜)
     }
     return { chartMinDate: minD, chartMaxDate: maxD };
-  }, [sortedTasks, timeUnit]);
+  }, [sortedTasks, timeUnit, levelingUpdates]);
   
-  // 表示単位の計算 (日、週、月)
+  // 表示単位の計算 (日、週、月)。各単位の初日を返す
   const getDateUnits = () => {
-    const units = [];
-    let currentDate = new Date(chartMinDate);
-    currentDate.setHours(0,0,0,0); // 時間をリセットして日付のみで比較
-
-    while (currentDate <= chartMaxDate) {
-      units.push(new Date(currentDate));
-      if (timeUnit === 'day') {
-        currentDate.setDate(currentDate.getDate() + 1);
-      } else if (timeUnit === 'week') {
-        currentDate.setDate(currentDate.getDate() + 7);
-      } else if (timeUnit === 'month') {
-        currentDate.setMonth(currentDate.getMonth() + 1);
-      }
+    const units: string[] = [];
+    for (let currentDate = chartMinDate; currentDate <= chartMaxDate; currentDate = shiftDateByUnits(currentDate, 1)) {
+      units.push(currentDate);
     }
     return units;
   };
   const dateUnits = getDateUnits();
   const totalUnits = dateUnits.length;
+  // 日表示では休みの日（土日・祝日など）の列を網掛けする。稼働日は null
+  const nonWorkingDayNames = timeUnit === 'day'
+    ? dateUnits.map(unitDate => getNonWorkingDayName(unitDate, workingCalendar))
+    : [];
+
+  // 指定された日付を含む単位が、チャート開始日から何単位目か（範囲外でも外挿する）
+  const getUnitIndex = (date: string): number => {
+    if (timeUnit === 'week') return Math.floor(diffDays(chartMinDate, date) / 7);
+    if (timeUnit === 'month') return diffMonths(chartMinDate, date);
+    return diffDays(chartMinDate, date);
+  };
 
   // 指定された日付がチャート開始日から何単位目かを取得
-  const getOffsetUnits = (date: Date): number => {
-    const targetDate = new Date(date);
-    targetDate.setHours(0,0,0,0);
-    let count = 0;
-    for (const unitStartDate of dateUnits) {
-        if (timeUnit === 'day') {
-            if (targetDate < new Date(unitStartDate.getFullYear(), unitStartDate.getMonth(), unitStartDate.getDate() + 1)) break;
-        } else if (timeUnit === 'week') {
-            if (targetDate < new Date(unitStartDate.getFullYear(), unitStartDate.getMonth(), unitStartDate.getDate() + 7)) break;
-        } else if (timeUnit === 'month') {
-            const nextMonth = new Date(unitStartDate.getFullYear(), unitStartDate.getMonth() + 1, 1);
-            if (targetDate < nextMonth) break;
-        }
-        count++;
+  const getOffsetUnits = (date: string): number => Math.max(0, getUnitIndex(date));
+
+  // タスクの期間を単位数で取得（開始日と終了日を含む単位の数）
+  const getTaskDurationInUnits = (startDate: string, endDate: string): number =>
+    Math.max(1, getUnitIndex(endDate) - getUnitIndex(startDate) + 1);
+
+  // タスクバーの位置と幅、依存線をつなぐ開始端・終了端のX座標（px、タイムラインエリア内の相対座標）
+  // マイルストーンは日付の単位の中央に置いたひし形（45度回転した正方形）として描き、左右の頂点を端とする
+  const getBarGeometry = (task: Task, dates = getDisplayDates(task)): { left: number; width: number; startX: number; finishX: number } => {
+    const { startDate, endDate } = dates;
+    const startOffsetPx = getOffsetUnits(startDate) * unitWidth;
+    if (task.milestone) {
+      const size = rowHeight * 0.5;
+      const center = startOffsetPx + unitWidth / 2;
+      const halfDiagonal = (size * Math.SQRT2) / 2;
+      return { left: center - size / 2, width: size, startX: center - halfDiagonal, finishX: center + halfDiagonal };
     }
-    return Math.max(0, count -1); // 0-indexedに近くするため
+    const width = getTaskDurationInUnits(startDate, endDate) * unitWidth - 2; // -2 for small gap
+    return { left: startOffsetPx, width, startX: startOffsetPx, finishX: startOffsetPx + width };
   };
 
-  // タスクの期間を単位数で取得
-  const getTaskDurationInUnits = (startDate: Date, endDate: Date): number => {
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    start.setHours(0,0,0,0);
-    end.setHours(0,0,0,0);
+  // 依存線SVGの座標系での、タスク行の中央のY座標
+  // SVGの(0,0)はスクロール内容の左上。タスク行は日付ヘッダーの高さ + CHART_PADDING の後に始まる
+  const getRowCenterY = (rowIndex: number): number =>
+    rowHeight + CHART_PADDING + rowIndex * (rowHeight + 4) + rowHeight / 2;
 
-    let duration = 0;
-    if (timeUnit === 'day') {
-      duration = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-    } else if (timeUnit === 'week') {
-      // 週の最終日までを考慮
-      const endOfWeekForStart = new Date(start);
-      endOfWeekForStart.setDate(start.getDate() + (6 - start.getDay())); 
-      if (end <= endOfWeekForStart) return 1; // 同週内なら1
-      duration = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24 * 7));
-    } else if (timeUnit === 'month') {
-      duration = (end.getFullYear() - start.getFullYear()) * 12 + (end.getMonth() - start.getMonth()) + 1;
-    }
-    return Math.max(1, duration);
+  // 依存線SVGの座標系での、タスクバーの開始端・終了端のX座標
+  const getAnchorX = (task: Task, anchor: DependencyAnchor): number => {
+    const geometry = getBarGeometry(task);
+    return (anchor === 'start' ? geometry.startX : geometry.finishX) + labelWidth + 8;
   };
 
+  // 依存線ドラッグのプレビュー（ドロップすると循環する場合は赤で表示）
+  const linkDragFromIndex = linkDrag ? sortedTasks.findIndex(t => t.id === linkDrag.fromTaskId) : -1;
+  const isLinkDragInvalid = !!linkDrag?.target && wouldCreateCycle(tasks, linkDrag.target.taskId, linkDrag.fromTaskId);
+
   return (
     <div className={`bg-slate-800 p-4 rounded-lg shadow-lg relative ${isInSplitView ? 'h-full flex flex-col' : ''}`} ref={chartContainerRef}>
       <div className={`flex justify-between items-center mb-4 ${isInSplitView ? 'flex-shrink-0' : ''}`}>
@@ -562,6 +816,44 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
               </div>
             )}
           </div>
+          {/* Critical Path Toggle */}
+          <button
+            onClick={() => setShowCriticalPath(!showCriticalPath)}
+            className={`px-3 py-1.5 text-xs font-medium rounded-md transition-colors ${
+              showCriticalPath
+                ? 'bg-orange-600 text-white shadow-sm'
+                : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            }`}
+            title="プロジェクトの終了日を決めているタスクの連鎖を強調表示"
+          >
+            クリティカルパス
+          </button>
+          {/* Auto Scheduling Toggle */}
+          <button
+            onClick={() => setIsAutoScheduling(!isAutoScheduling)}
+            className={`px-3 py-1.5 text-xs font-medium rounded-md transition-colors ${
+              isAutoScheduling
+                ? 'bg-sky-600 text-white shadow-sm'
+                : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            }`}
+            title="タスクを移動したとき、依存している後続タスクを自動で後ろ倒しにする"
+          >
+            {isAutoScheduling ? '自動スケジュール: ON' : '自動スケジュール: OFF'}
+          </button>
+          {/* Resource Leveling */}
+          {team.length > 0 && onMultipleTaskDateChange && (
+            <button
+              onClick={() => setLevelingPreview(levelingPreview ? null : levelResources(tasks, team, workingCalendar))}
+              className={`px-3 py-1.5 text-xs font-medium rounded-md transition-colors ${
+                levelingPreview
+                  ? 'bg-emerald-600 text-white shadow-sm'
+                  : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+              }`}
+              title="担当者の負荷が稼働できる日数を超えないよう、優先度の低い未着手のタスクから後ろ倒しにする案を表示"
+            >
+              負荷の平準化
+            </button>
+          )}
           {/* Zoom Controls */}
           <div className="flex items-center space-x-2">
             <label className="text-sm text-slate-300 whitespace-nowrap">ズーム:</label>
@@ -593,8 +885,7 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
             <button
               onClick={() => {
                 // 今日の日付に自動スクロール
-                const today = new Date();
-                today.setHours(0, 0, 0, 0);
+                const today = getTodayDateString();
                 
                 if (today >= chartMinDate && today <= chartMaxDate && chartContainerRef.current) {
                   const todayOffsetUnits = getOffsetUnits(today);
@@ -643,8 +934,104 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
           </div>
         </div>
       </div>
+      {(savedViewControls || isFiltered) && (
+        <div className={`flex flex-wrap items-center justify-between gap-3 mb-3 ${isInSplitView ? 'flex-shrink-0' : ''}`}>
+          {savedViewControls ? <SavedViewSelector {...savedViewControls} /> : <span />}
+          {isFiltered && (
+            <div className="flex items-center gap-2 text-xs text-slate-400">
+              <span>絞り込み中: {filteredTasks.length}/{tasks.length}件のタスクを表示</span>
+              <button
+                type="button"
+                onClick={() => updateViewState({ filters: DEFAULT_TASK_FILTERS })}
+                className="px-2 py-1 text-slate-300 bg-slate-700 hover:bg-slate-600 rounded-md transition-colors"
+              >
+                絞り込みを解除
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+      {levelingPreview && (
+        <div className={`mb-3 p-3 bg-emerald-500/10 border border-emerald-400/50 text-emerald-100 rounded-md text-xs flex items-start justify-between gap-3 ${isInSplitView ? 'flex-shrink-0' : ''}`} role="status">
+          <div>
+            {levelingPreview.updates.length > 0 ? (
+              <>
+                <p className="font-semibold text-emerald-300 mb-1">負荷の平準化の提案: {levelingPreview.updates.length}件のタスクを後ろ倒しにします（点線が移動後の位置）</p>
+                <ul className="space-y-0.5">
+                  {levelingPreview.updates.map(update => {
+                    const task = tasks.find(t => t.id === update.taskId);
+                    return (
+                      <li key={update.taskId}>
+                        {task?.name || update.taskId}: {task?.startDate} → {update.newStartDate}（+{task ? diffDays(task.startDate, update.newStartDate) : 0}日）
+                      </li>
+                    );
+                  })}
+                </ul>
+              </>
+            ) : (
+              <p className="font-semibold text-emerald-300">後ろ倒しが必要なタスクはありません。</p>
+            )}
+            {levelingPreview.unresolvedTaskIds.length > 0 && (
+              <p className="mt-1 text-amber-300">
+                ⚠ 後ろ倒ししても担当者の稼働できる日数に収まらないタスク: {levelingPreview.unresolvedTaskIds.map(id => tasks.find(t => t.id === id)?.name || id).join('、')}
+              </p>
+            )}
+          </div>
+          <div className="flex gap-2 flex-shrink-0">
+            {levelingPreview.updates.length > 0 && (
+              <button
+                onClick={applyLeveling}
+                className="px-2 py-1 bg-emerald-600 hover:bg-emerald-700 text-white rounded transition-colors"
+              >
+                適用
+              </button>
+            )}
+            <button
+              onClick={() => setLevelingPreview(null)}
+              className="px-2 py-1 bg-slate-700 hover:bg-slate-600 text-slate-300 rounded transition-colors"
+            >
+              {levelingPreview.updates.length > 0 ? '取り消し' : '閉じる'}
+            </button>
+          </div>
+        </div>
+      )}
+      {constraintViolations.length > 0 && (
+        <div className={`mb-3 p-3 bg-amber-500/15 border border-amber-400/50 text-amber-200 rounded-md text-xs flex items-start justify-between gap-3 ${isInSplitView ? 'flex-shrink-0' : ''}`} role="alert">
+          <div>
+            <p className="font-semibold text-amber-300 mb-1">⚠ 依存関係の制約違反（依存関係の種類・ラグを満たしていません）</p>
+            <ul className="space-y-0.5">
+              {constraintViolations.map(violation => {
+                const successor = tasks.find(t => t.id === violation.taskId);
+                return (
+                  <li key={getDependencyKey(violation.dependencyId, violation.taskId)}>
+                    {tasks.find(t => t.id === violation.dependencyId)?.name || violation.dependencyId} → {successor?.name || violation.taskId}
+                    {successor && <span className="ml-1 text-amber-300/80">（{formatDependencyLink(getDependencyLink(successor, violation.dependencyId))}）</span>}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+          <button
+            onClick={() => setConstraintViolations([])}
+            className="px-2 py-1 bg-slate-700 hover:bg-slate-600 text-slate-300 rounded transition-colors flex-shrink-0"
+          >
+            閉じる
+          </button>
+        </div>
+      )}
+      {linkError && (
+        <div className={`mb-3 p-3 bg-red-500/15 border border-red-400/50 text-red-200 rounded-md text-xs flex items-start justify-between gap-3 ${isInSplitView ? 'flex-shrink-0' : ''}`} role="alert">
+          <p>⚠ {linkError}</p>
+          <button
+            onClick={() => setLinkError(null)}
+            className="px-2 py-1 bg-slate-700 hover:bg-slate-600 text-slate-300 rounded transition-colors flex-shrink-0"
+          >
+            閉じる
+          </button>
+        </div>
+      )}
       <div className={`overflow-auto ${isInSplitView ? 'flex-1' : ''}`} style={{ height: isInSplitView ? undefined : '75vh' }}>
-        <div style={{ width: totalUnits * unitWidth + labelWidth + 8, minHeight: (tasks.length + 2) * rowHeight + CHART_PADDING*2 }} className={`relative ${isMultiSelectMode ? 'bg-purple-900/10' : ''}`}>
+        <div ref={chartContentRef} style={{ width: totalUnits * unitWidth + labelWidth + 8, minHeight: (tasks.length + 2) * rowHeight + CHART_PADDING*2 }} className={`relative ${isMultiSelectMode ? 'bg-purple-900/10' : ''}`}>
           {/* Multi-select mode indicator */}
           {isMultiSelectMode && (
             <div className="absolute top-0 left-0 w-full h-full bg-purple-500/5 pointer-events-none z-0">
@@ -684,10 +1071,11 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
             <div className="flex">
               {dateUnits.map((unitDate, i) => {
                 let displayContent;
+                let title = nonWorkingDayNames[i] || undefined;
                 if (timeUnit === 'day') {
-                  const day = unitDate.toLocaleDateString(undefined, { day: 'numeric' });
-                  const month = unitDate.toLocaleDateString(undefined, { month: 'short' });
-                  const weekday = unitDate.toLocaleDateString(undefined, { weekday: 'short' });
+                  const day = formatDate(unitDate, { day: 'numeric' });
+                  const month = formatDate(unitDate, { month: 'short' });
+                  const weekday = formatDate(unitDate, { weekday: 'short' });
                   displayContent = (
                     <div className="flex flex-col items-center justify-center h-full leading-tight whitespace-nowrap">
                       <span className="text-xs">{month} {day}</span>
@@ -695,19 +1083,20 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
                     </div>
                   );
                 } else if (timeUnit === 'week') {
-                  const weekEnd = new Date(unitDate);
-                  weekEnd.setDate(unitDate.getDate() + 6);
-                  const displayDate = `${unitDate.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} - ${weekEnd.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`;
+                  const displayDate = `${formatDate(unitDate, { month: 'short', day: 'numeric' })} - ${formatDate(addDays(unitDate, 6), { month: 'short', day: 'numeric' })}`;
                   displayContent = displayDate;
+                  const isoWeek = getIsoWeek(unitDate);
+                  title = `${isoWeek.year}年 第${isoWeek.week}週`;
                 } else { // month
-                  const displayDate = unitDate.toLocaleDateString(undefined, { year: 'numeric', month: 'long' });
+                  const displayDate = formatDate(unitDate, { year: 'numeric', month: 'long' });
                   displayContent = displayDate;
                 }
                 return (
                   <div
                     key={i}
                     style={{ width: unitWidth }}
-                    className="flex-shrink-0 border-r border-slate-700 text-xs text-slate-400 flex items-center justify-center px-1 text-center h-full"
+                    className={`flex-shrink-0 border-r border-slate-700 text-xs flex items-center justify-center px-1 text-center h-full ${nonWorkingDayNames[i] ? 'bg-slate-700/60 text-slate-500' : 'text-slate-400'}`}
+                    title={title}
                   >
                     {displayContent}
                   </div>
@@ -716,24 +1105,34 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
             </div>
           </div>
 
+          {/* Non-working Day Shading */}
+          {nonWorkingDayNames.map((holidayName, i) => holidayName && (
+            <div
+              key={`non-working-${i}`}
+              className="absolute bottom-0 bg-slate-700/25 pointer-events-none"
+              style={{ left: labelWidth + 8 + i * unitWidth, top: rowHeight, width: unitWidth }}
+            />
+          ))}
           {/* Task Rows */}
           <div style={{paddingTop: CHART_PADDING}}>
           {sortedTasks.map((task) => {
-            const taskStart = new Date(task.startDate);
-            const taskEnd = new Date(task.endDate);
+            const isCascadePreview = dragPreview.has(task.id) && !(task.id === draggingTask || originalMultiTaskData.has(task.id));
 
-            const startOffsetUnits = getOffsetUnits(taskStart);
-            const durationUnits = getTaskDurationInUnits(taskStart, taskEnd);
-            
-            const taskStartOffsetPx = startOffsetUnits * unitWidth;
-            const taskWidthPx = durationUnits * unitWidth - 2; // -2 for small gap
+            const { left: taskStartOffsetPx, width: taskWidthPx } = getBarGeometry(task);
+            const isMilestone = !!task.milestone;
+            const isCriticalHighlighted = showCriticalPath && !!scheduleAnalysis.tasks.get(task.id)?.isCritical;
+            const isSummary = summaryTaskIds.has(task.id);
+            const isSearchMiss = searchMissIds.has(task.id);
+            const progress = isSummary
+              ? getRollupProgress(tasks, task.id)
+              : progressDrag?.taskId === task.id ? progressDrag.progress : getTaskProgress(task);
 
             return (
-              <div key={task.id} className="flex items-center" style={{ height: rowHeight, marginBottom: '4px' }}> {/* Use rowHeight here */}
+              <div key={task.id} className="group flex items-center" style={{ height: rowHeight, marginBottom: '4px' }}> {/* Use rowHeight here */}
                 {/* Sticky Task Name Column */}
                 <div 
-                  style={{ width: labelWidth, flexShrink: 0, left:0 }} // left:0 を追加
-                  className={`sticky z-10 bg-slate-800 text-sm text-slate-300 pr-2 border-r border-slate-700 flex items-center ${task.status === 'Completed' ? 'opacity-60 line-through' : ''} ${task.status === 'In Progress' ? 'text-sky-300' : ''}`}
+                  style={{ width: labelWidth, flexShrink: 0, left:0, paddingLeft: (taskDepths.get(task.id) || 0) * 12 }} // left:0 を追加
+                  className={`sticky z-10 bg-slate-800 text-sm text-slate-300 pr-2 border-r border-slate-700 flex items-center ${task.status === 'Completed' ? 'opacity-60 line-through' : ''} ${task.status === 'In Progress' ? 'text-sky-300' : ''} ${isSummary ? 'font-semibold' : ''}`}
                   title={task.name}
                 >
                   {/* Status Icon for Label Column */}
@@ -746,20 +1145,41 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
                   {task.status === 'Completed' && (
                     <StatusCompletedIcon className="w-4 h-4 mr-1.5 text-green-500 flex-shrink-0" />
                   )}
-                  <span className="truncate">{task.name}</span>
+                  {isMilestone && (
+                    <MilestoneIcon className="w-3.5 h-3.5 mr-1 text-amber-400 fill-amber-400/30 flex-shrink-0" aria-label="マイルストーン" />
+                  )}
+                  <span className={`truncate ${isSearchMiss ? 'opacity-40' : ''}`}>{task.name}</span>
+                  {cyclicTaskIds.has(task.id) && (
+                    <span className="ml-1 text-red-400 flex-shrink-0" title="依存関係が循環しています">⚠</span>
+                  )}
                 </div>
                 {/* Sticky Resize Handle Placeholder - This follows the task name column */}
                 <div style={{ width: '8px', flexShrink: 0, left: labelWidth }} className="sticky z-10 bg-slate-800 border-r border-slate-700 h-full"></div> {/* left: labelWidth, z-10, bg-slate-800 を追加*/}
                 <div className="relative h-full" style={{ width: totalUnits * unitWidth }}>
+                  {/* Leveling Ghost Bar: proposed position before the change is applied */}
+                  {levelingUpdates.has(task.id) && (() => {
+                    const update = levelingUpdates.get(task.id)!;
+                    const ghost = getBarGeometry(task, { startDate: update.newStartDate, endDate: update.newEndDate });
+                    const ghostHeight = isMilestone ? ghost.width : rowHeight * 0.7;
+                    return (
+                      <div
+                        data-leveling-ghost={task.id}
+                        className={`absolute border-2 border-dashed border-emerald-300 bg-emerald-400/20 pointer-events-none ${isMilestone ? 'rotate-45 rounded-sm' : 'rounded'}`}
+                        style={{ left: ghost.left, width: ghost.width, height: ghostHeight, top: (rowHeight - ghostHeight) / 2 }}
+                      />
+                    );
+                  })()}
                   <div
                     style={{
                       left: taskStartOffsetPx,
                       width: taskWidthPx,
-                      height: rowHeight * 0.7, // Use rowHeight here
-                      top: rowHeight * 0.15,  // Use rowHeight here
+                      height: isMilestone ? taskWidthPx : rowHeight * (isSummary ? 0.45 : 0.7), // Use rowHeight here
+                      top: isMilestone ? (rowHeight - taskWidthPx) / 2 : rowHeight * (isSummary ? 0.275 : 0.15),  // Use rowHeight here
                       cursor: onTaskDateChange ? 'grab' : 'pointer',
                     }}
-                    className={`absolute rounded ${PRIORITY_COLORS[task.priority]} text-white text-xs flex items-center px-1.5 overflow-hidden shadow-md hover:brightness-125 transition-all ${task.status === 'Completed' ? 'opacity-60' : ''} ${task.status === 'In Progress' ? 'brightness-110' : ''} ${draggingTask === task.id ? 'opacity-80 scale-105' : ''} ${selectedTaskIds.has(task.id) ? 'ring-2 ring-purple-400 ring-offset-2 ring-offset-slate-800' : ''} ${isMultiSelectMode ? 'cursor-pointer' : ''}`}
+                    data-milestone={isMilestone || undefined}
+                    data-gantt-task-id={task.id}
+                    className={`absolute ${isMilestone ? 'rotate-45 rounded-sm border-2 border-amber-200 bg-amber-500' : `rounded ${isSummary ? 'bg-slate-600 border-x-4 border-slate-300' : PRIORITY_COLORS[task.priority]}`} text-white text-xs flex items-center px-1.5 overflow-hidden shadow-md hover:brightness-125 transition-all ${task.status === 'Completed' ? 'opacity-60' : ''} ${task.status === 'In Progress' ? 'brightness-110' : ''} ${draggingTask === task.id ? 'opacity-80 scale-105' : ''} ${selectedTaskIds.has(task.id) ? 'ring-2 ring-purple-400 ring-offset-2 ring-offset-slate-800' : ''} ${cyclicTaskIds.has(task.id) ? 'outline outline-2 outline-red-500 outline-offset-1' : isCriticalHighlighted ? 'outline outline-2 outline-orange-400 outline-offset-1 shadow-orange-500/40' : ''} ${showCriticalPath && !isCriticalHighlighted ? 'opacity-50' : ''} ${isCascadePreview ? 'outline-dashed outline-2 outline-sky-300 outline-offset-1 opacity-80' : ''} ${levelingUpdates.has(task.id) ? 'opacity-40' : ''} ${isSearchMiss ? 'opacity-25 saturate-50' : ''} ${isMultiSelectMode ? 'cursor-pointer' : ''}`}
                     onClick={(e) => {
                       // ドラッグ後のクリック抑制
                       if (preventClick) {
@@ -798,16 +1218,17 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
                       }
                     }}
                     onMouseEnter={(e) => {
-                      if (!draggingTask) {
+                      if (!draggingTask && !linkDrag) {
                         setTooltipData({ 
                           task,
                           x: e.clientX,
-                          y: e.clientY
+                          y: e.clientY,
+                          schedule: scheduleAnalysis.tasks.get(task.id)
                         });
                       }
                     }}
                     onMouseMove={(e) => {
-                      if (tooltipData && !draggingTask) {
+                      if (tooltipData && !draggingTask && !linkDrag) {
                         setTooltipData({ 
                           ...tooltipData, 
                           x: e.clientX,
@@ -821,18 +1242,89 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
                       }
                     }}
                   >
+                    {/* Progress Fill (summary bars are rolled up from subtasks) */}
+                    {progress > 0 && !isMilestone && (
+                      <div
+                        className={`absolute inset-y-0 left-0 pointer-events-none ${isSummary ? 'bg-sky-500/70' : 'bg-white/25'}`}
+                        style={{ width: `${progress}%` }}
+                      />
+                    )}
+                    {/* Progress Drag Handle (placed on a track inset from the resize handles so it can be grabbed at 0% and 100%) */}
+                    {!isSummary && !isMilestone && onTaskProgressChange && !isMultiSelectMode && (
+                      <div className="absolute inset-y-0 left-2 right-2 pointer-events-none">
+                        <div
+                          className="absolute inset-y-0 w-1.5 -ml-[3px] bg-white/70 hover:bg-white cursor-ew-resize pointer-events-auto z-30"
+                          style={{ left: `${progress}%` }}
+                          title={`進捗 ${progress}%（ドラッグで変更）`}
+                          onMouseDown={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            const trackRect = (e.currentTarget.parentElement as HTMLElement).getBoundingClientRect();
+                            setTooltipData(null);
+                            updateProgressDrag({ taskId: task.id, barLeft: trackRect.left, barWidth: Math.max(trackRect.width, 1), progress });
+                          }}
+                        />
+                      </div>
+                    )}
+                    {/* Resize Handles (change only the start or end date) */}
+                    {!isSummary && !isMilestone && onTaskDateChange && (['resize-start', 'resize-end'] as BarDragMode[]).map(mode => (
+                      <div
+                        key={mode}
+                        className={`absolute inset-y-0 w-2 ${mode === 'resize-start' ? 'left-0' : 'right-0'} cursor-col-resize hover:bg-white/40 z-20`}
+                        title={mode === 'resize-start' ? 'ドラッグで開始日を変更' : 'ドラッグで終了日を変更'}
+                        onMouseDown={(e) => handleTaskMouseDown(e, task, mode)}
+                      />
+                    ))}
                     {/* Status Icon for Task Bar */}
-                    {task.status === 'Not Started' && (
-                      <StatusNotStartedIcon className="w-3 h-3 mr-1 text-white opacity-70 flex-shrink-0" />
+                    {!isMilestone && task.status === 'Not Started' && (
+                      <StatusNotStartedIcon className="relative w-3 h-3 mr-1 text-white opacity-70 flex-shrink-0" />
+                    )}
+                    {!isMilestone && task.status === 'In Progress' && (
+                      <StatusInProgressIcon className="relative w-3 h-3 mr-1 text-white opacity-90 flex-shrink-0" />
+                    )}
+                    {!isMilestone && task.status === 'Completed' && (
+                      <StatusCompletedIcon className="relative w-3.5 h-3.5 mr-1 text-white flex-shrink-0" />
                     )}
-                    {task.status === 'In Progress' && (
-                      <StatusInProgressIcon className="w-3 h-3 mr-1 text-white opacity-90 flex-shrink-0" />
+                    {!isMilestone && (
+                      <span className={`relative truncate ${task.status === 'Completed' ? 'line-through' : ''}`}>{task.name}</span>
                     )}
-                    {task.status === 'Completed' && (
-                      <StatusCompletedIcon className="w-3.5 h-3.5 mr-1 text-white flex-shrink-0" />
+                    {!isMilestone && task.tags && (
+                      <TagChips tags={task.tags} tagColors={tagColors} size="xs" className="relative ml-1 flex-nowrap flex-shrink-0" />
+                    )}
+                    {progressDrag?.taskId === task.id ? (
+                      <span className="relative ml-auto pl-1 font-semibold flex-shrink-0">{progress}%</span>
+                    ) : !isMilestone && (
+                      <AssigneeAvatars members={getTaskAssignees(task, team)} size="xs" className="relative ml-auto pl-1" />
                     )}
-                   <span className={`truncate ${task.status === 'Completed' ? 'line-through' : ''}`}>{task.name}</span>
                   </div>
+                  {/* Milestone Label (shown beside the diamond) */}
+                  {isMilestone && (
+                    <span
+                      className={`absolute text-xs text-amber-200 whitespace-nowrap pointer-events-none ${task.status === 'Completed' ? 'line-through opacity-60' : ''}`}
+                      style={{ left: getBarGeometry(task).finishX + 6, top: 0, lineHeight: `${rowHeight}px` }}
+                    >
+                      {task.name}
+                      <AssigneeAvatars members={getTaskAssignees(task, team)} size="xs" className="ml-1 align-middle" />
+                    </span>
+                  )}
+                  {/* Connector Handles: drag from a bar end onto another bar to add a dependency */}
+                  {onAddDependency && !isMultiSelectMode && !draggingTask && (['start', 'finish'] as DependencyAnchor[]).map(anchor => (
+                    <div
+                      key={anchor}
+                      className={`absolute w-2.5 h-2.5 -ml-[5px] rounded-full bg-sky-300 border border-slate-900 cursor-crosshair z-10 transition-opacity ${linkDrag?.fromTaskId === task.id && linkDrag.fromAnchor === anchor ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+                      style={{ left: anchor === 'start' ? getBarGeometry(task).startX - 6 : getBarGeometry(task).finishX + 6, top: rowHeight / 2 - 5 }}
+                      title={anchor === 'start' ? '開始端から依存線を引く' : '終了端から依存線を引く'}
+                      onMouseDown={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        const contentRect = chartContentRef.current?.getBoundingClientRect();
+                        if (!contentRect) return;
+                        setTooltipData(null);
+                        setLinkError(null);
+                        updateLinkDrag({ fromTaskId: task.id, fromAnchor: anchor, x: e.clientX - contentRect.left, y: e.clientY - contentRect.top });
+                      }}
+                    />
+                  ))}
                 </div>
               </div>
             );
@@ -841,8 +1333,7 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
           
           {/* Today's Date Line */}
           {(() => {
-            const today = new Date();
-            today.setHours(0, 0, 0, 0);
+            const today = getTodayDateString();
             
             // 今日の日付がチャート範囲内にあるかチェック
             if (today >= chartMinDate && today <= chartMaxDate) {
@@ -877,70 +1368,138 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
                       if (dependentTaskIndex === -1) return null;
 
                       const depTask = sortedTasks[dependentTaskIndex];
-                      
-                      // Y座標の計算修正:
-                      // SVGの(0,0)は日付ヘッダーの真下に来るようにする。
-                      // タスク行はCHART_PADDING後に始まる。
-                      // 各タスク行の中央を指すようにする。
-                      const yOffset = rowHeight + CHART_PADDING; // Use rowHeight here // 日付ヘッダー高さ + タスク行コンテナのpaddingTop
-
-                      const depLineY = yOffset + (dependentTaskIndex * (rowHeight + 4)) + (rowHeight / 2); // Use rowHeight here
-                      const taskLineY = yOffset + (taskIndex * (rowHeight + 4)) + (rowHeight / 2); // Use rowHeight here
-
-                      // X座標 (変更なし)
-                      const depTaskStartUnits = getOffsetUnits(new Date(depTask.startDate));
-                      const depTaskDurationUnits = getTaskDurationInUnits(new Date(depTask.startDate), new Date(depTask.endDate));
-                      const depTaskVisualRightEdgePx = (depTaskStartUnits * unitWidth) + (depTaskDurationUnits * unitWidth - 2); // タイムラインエリア内での相対X
-                      const depLineX = depTaskVisualRightEdgePx + labelWidth + 8; // SVG全体座標系でのX
-
-                      // 依存先タスク (task) のバーの視覚的な左端X座標
-                      const taskStartUnits = getOffsetUnits(new Date(task.startDate));
-                      const taskVisualLeftEdgePx = taskStartUnits * unitWidth; // タイムラインエリア内での相対X
-                      const taskLineX = taskVisualLeftEdgePx + labelWidth + 8; // SVG全体座標系でのX
+                      // 各タスク行の中央を指すようにする
+                      const depLineY = getRowCenterY(dependentTaskIndex);
+                      const taskLineY = getRowCenterY(taskIndex);
+                      // X座標: 依存関係の種類に応じて、依存先・依存元それぞれのバーの開始端か終了端を結ぶ
+                      // （FS は依存先の右端 → 依存元の左端。マイルストーンはひし形の頂点）
+                      const link = getDependencyLink(task, depId);
+                      const anchors = getDependencyAnchors(link.type);
+                      const depLineX = getAnchorX(depTask, anchors.from);
+                      const taskLineX = getAnchorX(task, anchors.to);
                       
                       // 制御点のオフセット距離 (線の長さの一定割合)
-                      const controlPointOffset = Math.abs(taskLineX - depLineX) * 0.3;
+                      const controlPointOffset = Math.max(12, Math.abs(taskLineX - depLineX) * 0.3);
 
-                      // Y座標が同じ場合は、直線でつなぐか、わずかにカーブさせる。
-                      // 異なる場合は、少し複雑なS字になる。
-                      // この分岐では、従来の角ばった線の方が、予期せぬ描画を防げる可能性が高いです。
-                      // 要望は「曲線」なので、3次ベジェで試みます。
-                      // ただし、始点と終点が非常に近い、またはX座標が逆転している場合、制御点の計算によっては不自然なループを描く可能性あり。
-                      
-                      // もしXが逆転しているなら、制御点のX方向も反転させるイメージ
-                      // depLineX > taskLineX の場合
-                      const dx1 = depLineX > taskLineX ? -controlPointOffset : controlPointOffset;
-                      const dx2 = depLineX > taskLineX ? controlPointOffset : -controlPointOffset;
+                      // 3次ベジェ曲線で結ぶ。終了端からは右へ、開始端からは左へ線を出し、
+                      // 開始端には左から、終了端には右から矢印が入るよう制御点の向きを決める
+                      const dx1 = anchors.from === 'finish' ? controlPointOffset : -controlPointOffset;
+                      const dx2 = anchors.to === 'start' ? -controlPointOffset : controlPointOffset;
 
+                      // 循環に含まれる依存線は赤で表示
+                      const isCyclic = cyclicTaskIds.has(task.id) && cyclicTaskIds.has(depId);
+                      // クリティカルパス表示時は、クリティカルな依存線をオレンジで表示
+                      const isCritical = showCriticalPath && scheduleAnalysis.criticalDependencies.has(getDependencyKey(depId, task.id));
+                      // 削除対象として選択中の依存線はピンクで表示
+                      const dependencyKey = getDependencyKey(depId, task.id);
+                      const isSelected = selectedDependency?.dependencyId === depId && selectedDependency.taskId === task.id;
+                      const isHovered = hoveredDependency === dependencyKey;
+                      const lineColor = isSelected ? '#f472b6' : isCyclic ? '#ef4444' : isCritical ? '#fb923c' : '#60a5fa';
+                      const hoverColor = isSelected ? '#ec4899' : isCyclic ? '#dc2626' : isCritical ? '#f97316' : '#3b82f6';
+                      const pathData = `M ${depLineX} ${depLineY} C ${depLineX + dx1} ${depLineY}, ${taskLineX + dx2} ${taskLineY}, ${taskLineX} ${taskLineY}`;
                       return (
+                        <g key={`${depId}-${task.id}`}>
                           <path
-                              key={`${depId}-${task.id}`}
-                              d={`M ${depLineX} ${depLineY} C ${depLineX + dx1} ${depLineY}, ${taskLineX + dx2} ${taskLineY}, ${taskLineX} ${taskLineY}`}
-                              stroke="#60a5fa" 
-                              strokeWidth="2"
+                              d={pathData}
+                              stroke={isHovered ? hoverColor : lineColor}
+                              strokeWidth={isSelected || isHovered ? 3 : 2}
+                              strokeDasharray={isCyclic ? '6 3' : undefined}
                               fill="none"
-                              markerEnd="url(#arrowhead)"
+                              markerEnd={isSelected ? 'url(#arrowhead-selected)' : isCyclic ? 'url(#arrowhead-cycle)' : isCritical ? 'url(#arrowhead-critical)' : 'url(#arrowhead)'}
+                              opacity={showCriticalPath && !isCritical && !isCyclic && !isSelected ? 0.4 : 1}
                               className="dependency-line"
                               style={{
                                 filter: 'drop-shadow(0 1px 2px rgba(0,0,0,0.3))',
                                 transition: 'stroke-width 0.2s ease'
                               }}
-                              onMouseEnter={(e) => {
-                                e.currentTarget.style.strokeWidth = '3';
-                                e.currentTarget.style.stroke = '#3b82f6';
+                          />
+                          {/* 細い線でもクリックしやすいよう、透明な太い線で当たり判定を取る */}
+                          {onRemoveDependency && !linkDrag && (
+                            <path
+                              d={pathData}
+                              stroke="transparent"
+                              strokeWidth="10"
+                              fill="none"
+                              data-dependency-hit
+                              className="cursor-pointer"
+                              style={{ pointerEvents: 'stroke' }}
+                              onMouseEnter={() => setHoveredDependency(dependencyKey)}
+                              onMouseLeave={() => setHoveredDependency(null)}
+                              onClick={() => {
+                                setSelectedDependency({ dependencyId: depId, taskId: task.id });
+                                setDependencyMenu(null);
                               }}
-                              onMouseLeave={(e) => {
-                                e.currentTarget.style.strokeWidth = '2';
-                                e.currentTarget.style.stroke = '#60a5fa';
+                              onContextMenu={(e) => {
+                                e.preventDefault();
+                                setSelectedDependency({ dependencyId: depId, taskId: task.id });
+                                setDependencyMenu({ dependencyId: depId, taskId: task.id, x: e.clientX, y: e.clientY });
                               }}
-                          />
+                            >
+                              <title>{`${depTask.name} → ${task.name}（クリックで選択し、Delete キーまたは右クリックで削除）`}</title>
+                            </path>
+                          )}
+                          {/* FS・ラグ0 以外は種類とラグを線の中央に表示 */}
+                          {!isDefaultDependencyLink(link) && (
+                            <text
+                              x={(depLineX + taskLineX) / 2}
+                              y={(depLineY + taskLineY) / 2 - 4}
+                              textAnchor="middle"
+                              fontSize="10"
+                              fill={lineColor}
+                              className="dependency-label"
+                            >
+                              {formatDependencyLink(link)}
+                            </text>
+                          )}
+                        </g>
                       );
                   }).filter(Boolean)
               )}
+              {/* Link Drag Preview */}
+              {linkDrag && linkDragFromIndex !== -1 && (() => {
+                const fromX = getAnchorX(sortedTasks[linkDragFromIndex], linkDrag.fromAnchor);
+                const fromY = getRowCenterY(linkDragFromIndex);
+                const targetIndex = linkDrag.target ? sortedTasks.findIndex(t => t.id === linkDrag.target!.taskId) : -1;
+                // ドロップ先のバーがある場合は、つなぐ端に吸着させる
+                const toX = targetIndex !== -1 ? getAnchorX(sortedTasks[targetIndex], linkDrag.target!.anchor) : linkDrag.x;
+                const toY = targetIndex !== -1 ? getRowCenterY(targetIndex) : linkDrag.y;
+                const color = isLinkDragInvalid ? '#ef4444' : '#a78bfa';
+                return (
+                  <g>
+                    <path
+                      d={`M ${fromX} ${fromY} L ${toX} ${toY}`}
+                      stroke={color}
+                      strokeWidth="2"
+                      strokeDasharray="4 3"
+                      fill="none"
+                      markerEnd={isLinkDragInvalid ? 'url(#arrowhead-cycle)' : 'url(#arrowhead-link)'}
+                    />
+                    {linkDrag.target && (
+                      <text x={toX} y={toY - 10} textAnchor="middle" fontSize="10" fill={color} className="dependency-label">
+                        {isLinkDragInvalid
+                          ? '循環するため追加できません'
+                          : getDependencyTypeForAnchors(linkDrag.fromAnchor, linkDrag.target.anchor)}
+                      </text>
+                    )}
+                  </g>
+                );
+              })()}
               <defs>
                   <marker id="arrowhead" markerWidth="8" markerHeight="6" refX="7" refY="3" orient="auto">
                       <polygon points="0 0, 8 3, 0 6" fill="#60a5fa" stroke="#60a5fa" strokeWidth="0.5" />
                   </marker>
+                  <marker id="arrowhead-cycle" markerWidth="8" markerHeight="6" refX="7" refY="3" orient="auto">
+                      <polygon points="0 0, 8 3, 0 6" fill="#ef4444" stroke="#ef4444" strokeWidth="0.5" />
+                  </marker>
+                  <marker id="arrowhead-critical" markerWidth="8" markerHeight="6" refX="7" refY="3" orient="auto">
+                      <polygon points="0 0, 8 3, 0 6" fill="#fb923c" stroke="#fb923c" strokeWidth="0.5" />
+                  </marker>
+                  <marker id="arrowhead-selected" markerWidth="8" markerHeight="6" refX="7" refY="3" orient="auto">
+                      <polygon points="0 0, 8 3, 0 6" fill="#f472b6" stroke="#f472b6" strokeWidth="0.5" />
+                  </marker>
+                  <marker id="arrowhead-link" markerWidth="8" markerHeight="6" refX="7" refY="3" orient="auto">
+                      <polygon points="0 0, 8 3, 0 6" fill="#a78bfa" stroke="#a78bfa" strokeWidth="0.5" />
+                  </marker>
                   <filter id="glow">
                       <feGaussianBlur stdDeviation="3" result="coloredBlur"/>
                       <feMerge> 
@@ -979,12 +1538,62 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
           <div className="text-slate-300 space-y-1">
             <p><span className="font-semibold text-slate-400 w-16 inline-block">ステータス:</span> {STATUS_TEXT_JP[tooltipData.task.status]}</p>
             <p><span className="font-semibold text-slate-400 w-16 inline-block">優先度:</span> {PRIORITY_TEXT_JP[tooltipData.task.priority]}</p>
-            <p><span className="font-semibold text-slate-400 w-16 inline-block">開始日:</span> {tooltipData.task.startDate}</p>
-            <p><span className="font-semibold text-slate-400 w-16 inline-block">終了日:</span> {tooltipData.task.endDate}</p>
+            {tooltipData.task.milestone ? (
+              <p><span className="font-semibold text-slate-400 w-16 inline-block">日付:</span> {tooltipData.task.startDate}（マイルストーン）</p>
+            ) : (
+              <>
+                <p><span className="font-semibold text-slate-400 w-16 inline-block">開始日:</span> {tooltipData.task.startDate}</p>
+                <p><span className="font-semibold text-slate-400 w-16 inline-block">終了日:</span> {tooltipData.task.endDate}</p>
+                <p><span className="font-semibold text-slate-400 w-16 inline-block">期間:</span> {countWorkingDays(tooltipData.task.startDate, tooltipData.task.endDate, workingCalendar)}稼働日（{getDurationDays(tooltipData.task.startDate, tooltipData.task.endDate)}日間）</p>
+              </>
+            )}
+            {tooltipData.task.tags?.length ? (
+              <p><span className="font-semibold text-slate-400 w-16 inline-block">タグ:</span> {tooltipData.task.tags.join(', ')}</p>
+            ) : null}
+            {tooltipData.task.assignees?.length ? (
+              <p><span className="font-semibold text-slate-400 w-16 inline-block">担当者:</span> {getTaskAssignees(tooltipData.task, team).map(member => member.name).join(', ')}</p>
+            ) : null}
+            {summaryTaskIds.has(tooltipData.task.id) ? (
+              <p><span className="font-semibold text-slate-400 w-16 inline-block">進捗:</span> {getRollupProgress(tasks, tooltipData.task.id)}%（サブタスクから集計）</p>
+            ) : (
+              <p><span className="font-semibold text-slate-400 w-16 inline-block">進捗:</span> {getTaskProgress(tooltipData.task)}%</p>
+            )}
+            {tooltipData.schedule && (
+              <>
+                <p><span className="font-semibold text-slate-400 w-16 inline-block">余裕日数:</span> {tooltipData.schedule.totalFloat}稼働日</p>
+                <p><span className="font-semibold text-slate-400 w-16 inline-block">最遅開始:</span> {tooltipData.schedule.latestStart}</p>
+                {tooltipData.schedule.isCritical && (
+                  <p className="text-orange-400 font-medium">● クリティカルパス上のタスク</p>
+                )}
+              </>
+            )}
+            {cyclicTaskIds.has(tooltipData.task.id) && (
+              <p className="text-red-400 font-medium">⚠ 依存関係が循環しています</p>
+            )}
           </div>
         </div>
       )}
       
+      {/* Dependency Context Menu */}
+      {dependencyMenu && (
+        <div
+          data-dependency-menu
+          className="fixed z-[120] min-w-[160px] bg-slate-900 border border-slate-600 rounded-md shadow-lg py-1 text-xs text-slate-200"
+          style={{ left: dependencyMenu.x, top: dependencyMenu.y }}
+          role="menu"
+        >
+          <div className="px-3 py-1.5 text-slate-400 border-b border-slate-700 whitespace-nowrap">
+            {tasks.find(t => t.id === dependencyMenu.dependencyId)?.name || dependencyMenu.dependencyId} → {tasks.find(t => t.id === dependencyMenu.taskId)?.name || dependencyMenu.taskId}
+          </div>
+          <button
+            role="menuitem"
+            onClick={() => removeDependency(dependencyMenu)}
+            className="w-full text-left px-3 py-1.5 text-red-300 hover:bg-slate-700 transition-colors"
+          >
+            依存関係を削除
+          </button>
+        </div>
+      )}
       {/* Drag Tooltip */}
       {dragTooltip && (
         <div 
@@ -1006,13 +1615,35 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onEditTask, onTas
           }}
         >
           <div className="font-medium mb-1">
-            {selectedTaskIds.size > 1 ? `${selectedTaskIds.size}件のタスクを移動中` : 'タスクを移動中'}
+            {dragTooltip.mode === 'move'
+              ? (selectedTaskIds.size > 1 ? `${selectedTaskIds.size}件のタスクを移動中` : 'タスクを移動中')
+              : `${dragTooltip.resizedTaskCount > 1 ? `${dragTooltip.resizedTaskCount}件のタスクの` : ''}${dragTooltip.mode === 'resize-start' ? '開始日' : '終了日'}を変更中`}
           </div>
           <div>開始: {dragTooltip.startDate}</div>
           <div>終了: {dragTooltip.endDate}</div>
+          <div>期間: {dragTooltip.workingDays}稼働日（{dragTooltip.durationDays}日間）</div>
           <div className="text-xs opacity-80 mt-1">
-            {dragTooltip.deltaUnits > 0 ? '+' : ''}{dragTooltip.deltaUnits}{timeUnit === 'day' ? '日' : timeUnit === 'week' ? '週' : 'ヶ月'}移動
+            {dragTooltip.deltaUnits > 0 ? '+' : ''}{dragTooltip.deltaUnits}{timeUnit === 'day' ? '日' : timeUnit === 'week' ? '週' : 'ヶ月'}{dragTooltip.mode === 'move' ? '移動' : '変更'}
           </div>
+          {dragTooltip.cascadeTaskIds.length > 0 && (
+            <div className="mt-1 pt-1 border-t border-white/20">
+              <div className="font-medium">後続タスクも移動 ({dragTooltip.cascadeTaskIds.length}件)</div>
+              {dragTooltip.cascadeTaskIds.slice(0, 5).map(taskId => {
+                const preview = dragPreview.get(taskId);
+                return (
+                  <div key={taskId} className="opacity-90">
+                    {tasks.find(t => t.id === taskId)?.name}: {preview?.newStartDate} 〜 {preview?.newEndDate}
+                  </div>
+                );
+              })}
+              {dragTooltip.cascadeTaskIds.length > 5 && <div className="opacity-80">他{dragTooltip.cascadeTaskIds.length - 5}件</div>}
+            </div>
+          )}
+          {dragTooltip.violations.length > 0 && (
+            <div className="mt-1 pt-1 border-t border-white/20 text-amber-200 font-medium">
+              ⚠ 制約違反: {dragTooltip.violations.length}件の依存関係が崩れます
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,18 @@
+import React from 'react';
+import { SearchTerm, splitByHighlights } from '../services/searchService';
+
+interface HighlightedTextProps {
+  text: string;
+  terms?: SearchTerm[];
+}
+
+/**
+ * テキストのうち検索語句に一致する部分を <mark> で強調表示する
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms = [] }) => (
+  <>
+    {splitByHighlights(text, terms).map((segment, index) => (segment.isMatch
+      ? <mark key={index} className="bg-amber-400/30 text-inherit rounded-sm px-0.5 -mx-0.5">{segment.text}</mark>
+      : <React.Fragment key={index}>{segment.text}</React.Fragment>))}
+  </>
+);
@@ -0,0 +1,68 @@
+import React from 'react';
+import { ProjectMeta } from '../services/storageService';
+import { AddIcon, EditIcon, DeleteIcon, iconSizes } from './icons';
+
+interface ProjectSwitcherProps {
+  projects: ProjectMeta[];
+  activeProjectId: string | null;
+  onSwitch: (projectId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}
+
+export const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({
+  projects,
+  activeProjectId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDelete
+}) => {
+  const activeProject = projects.find(project => project.id === activeProjectId);
+
+  const handleCreate = () => {
+    const name = window.prompt('新しいプロジェクトの名前を入力してください', '新しいプロジェクト');
+    if (name && name.trim()) onCreate(name.trim());
+  };
+
+  const handleRename = () => {
+    if (!activeProject) return;
+    const name = window.prompt('プロジェクトの名前を入力してください', activeProject.name);
+    if (name && name.trim() && name.trim() !== activeProject.name) onRename(name.trim());
+  };
+
+  const buttonClassName = 'p-1.5 text-slate-300 rounded-md transition-colors hover:bg-slate-700/70 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent';
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        value={activeProjectId || ''}
+        onChange={(e) => onSwitch(e.target.value)}
+        disabled={projects.length === 0}
+        aria-label="プロジェクトを選択"
+        className="max-w-[12rem] bg-slate-700 border border-slate-600 rounded-md py-1.5 px-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-sky-500"
+      >
+        {projects.map(project => (
+          <option key={project.id} value={project.id}>{project.name}</option>
+        ))}
+      </select>
+      <button type="button" onClick={handleCreate} title="新しいプロジェクト" aria-label="新しいプロジェクト" className={buttonClassName}>
+        <AddIcon className={iconSizes.sm} />
+      </button>
+      <button type="button" onClick={handleRename} disabled={!activeProject} title="プロジェクト名を変更" aria-label="プロジェクト名を変更" className={buttonClassName}>
+        <EditIcon className={iconSizes.sm} />
+      </button>
+      <button
+        type="button"
+        onClick={onDelete}
+        disabled={!activeProject || projects.length <= 1}
+        title={projects.length <= 1 ? '最後のプロジェクトは削除できません' : 'プロジェクトを削除'}
+        aria-label="プロジェクトを削除"
+        className={buttonClassName}
+      >
+        <DeleteIcon className={iconSizes.sm} />
+      </button>
+    </div>
+  );
+};
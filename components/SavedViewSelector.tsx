@@ -0,0 +1,97 @@
+import React from 'react';
+import { SavedView } from '../types';
+import { AddIcon, EditIcon, DeleteIcon, iconSizes } from './icons';
+
+export interface SavedViewControls {
+  views: SavedView[];
+  activeViewId: string | null; // 選択中の保存ビュー（どれも選んでいなければ null）
+  defaultViewId?: string; // プロジェクトを開いたときに使う保存ビュー
+  isModified: boolean; // 選択中の保存ビューから表示条件を変えたかどうか
+  onSelect: (viewId: string) => void;
+  onSaveAs: (name: string) => void;
+  onUpdate: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  onSetDefault: (viewId: string | undefined) => void;
+}
+
+/**
+ * 保存ビュー（名前を付けて保存した絞り込み・並べ替え・グループ化・ガントの表示）の選択と保存・削除
+ * 一覧とガントチャートで同じ保存ビューを使う
+ */
+export const SavedViewSelector: React.FC<SavedViewControls> = ({
+  views,
+  activeViewId,
+  defaultViewId,
+  isModified,
+  onSelect,
+  onSaveAs,
+  onUpdate,
+  onRename,
+  onDelete,
+  onSetDefault
+}) => {
+  const activeView = views.find(view => view.id === activeViewId);
+  const isDefault = !!activeView && activeView.id === defaultViewId;
+
+  const handleSaveAs = () => {
+    const name = window.prompt('ビューの名前を入力してください', activeView ? `${activeView.name}のコピー` : '新しいビュー');
+    if (name && name.trim()) onSaveAs(name.trim());
+  };
+
+  const handleRename = () => {
+    if (!activeView) return;
+    const name = window.prompt('ビューの名前を入力してください', activeView.name);
+    if (name && name.trim() && name.trim() !== activeView.name) onRename(name.trim());
+  };
+
+  const handleDelete = () => {
+    if (activeView && window.confirm(`ビュー「${activeView.name}」を削除してもよろしいですか？`)) onDelete();
+  };
+
+  const buttonClassName = 'p-1.5 text-slate-300 rounded-md transition-colors hover:bg-slate-700/70 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent';
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <label htmlFor="saved-view-select" className="text-sm font-medium text-slate-300 mr-1">ビュー:</label>
+      <select
+        id="saved-view-select"
+        value={activeView?.id ?? ''}
+        onChange={(e) => onSelect(e.target.value)}
+        className="max-w-[14rem] bg-slate-700 border border-slate-600 rounded-md py-1.5 px-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-sky-500"
+      >
+        {!activeView && <option value="" disabled>保存していない表示</option>}
+        {views.map(view => (
+          <option key={view.id} value={view.id}>{view.id === defaultViewId ? `★ ${view.name}` : view.name}</option>
+        ))}
+      </select>
+      {activeView && isModified && (
+        <>
+          <span className="text-xs text-amber-300 px-1" title="保存ビューから絞り込みや並べ替えを変えています">変更あり</span>
+          <button type="button" onClick={onUpdate} className="px-2 py-1 text-xs font-medium text-white bg-sky-600 hover:bg-sky-700 rounded-md">
+            上書き保存
+          </button>
+        </>
+      )}
+      <button type="button" onClick={handleSaveAs} title="今の表示を名前を付けて保存" aria-label="名前を付けてビューを保存" className={buttonClassName}>
+        <AddIcon className={iconSizes.sm} />
+      </button>
+      <button type="button" onClick={handleRename} disabled={!activeView} title="ビューの名前を変更" aria-label="ビューの名前を変更" className={buttonClassName}>
+        <EditIcon className={iconSizes.sm} />
+      </button>
+      <button
+        type="button"
+        onClick={() => onSetDefault(isDefault ? undefined : activeView?.id)}
+        disabled={!activeView}
+        aria-pressed={isDefault}
+        title={isDefault ? '既定のビューの指定を外す' : 'プロジェクトを開いたときにこのビューを使う'}
+        className={`px-2 py-1 text-xs font-medium rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${isDefault ? 'bg-amber-500/20 text-amber-200' : 'text-slate-300 hover:bg-slate-700/70'}`}
+      >
+        {isDefault ? '★ 既定' : '☆ 既定にする'}
+      </button>
+      <button type="button" onClick={handleDelete} disabled={!activeView} title="ビューを削除" aria-label="ビューを削除" className={buttonClassName}>
+        <DeleteIcon className={iconSizes.sm} />
+      </button>
+    </div>
+  );
+};
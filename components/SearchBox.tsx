@@ -0,0 +1,57 @@
+import React from 'react';
+import { SearchQuery } from '../services/searchService';
+import { CloseIcon, SearchIcon, iconSizes } from './icons';
+
+interface SearchBoxProps {
+  value: string;
+  query: SearchQuery;
+  onChange: (value: string) => void;
+  matchCount?: number;
+}
+
+const SEARCH_HELP = [
+  '語句はタスク名と説明から探します（"login page" のように引用符で囲むと空白を含められます）',
+  'status:"In Progress" / priority:high / tag:backend / assignee:aiko',
+  'due:<2026-11-01 / start:>=today / is:milestone / is:overdue',
+  '先頭に - を付けると否定（-tag:blocked）。条件はすべて AND で組み合わせます',
+].join('\n');
+
+/**
+ * すべてのビューに効く検索ボックス。解釈できなかった条件はボックスの下に表示する
+ */
+export const SearchBox: React.FC<SearchBoxProps> = ({ value, query, onChange, matchCount }) => (
+  <div className="w-full sm:w-96">
+    <div className="relative">
+      <SearchIcon className={`${iconSizes.sm} absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none`} />
+      <input
+        type="search"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onChange('');
+        }}
+        placeholder='検索（例: status:"In Progress" tag:backend "login page"）'
+        title={SEARCH_HELP}
+        aria-label="タスクを検索"
+        aria-invalid={query.errors.length > 0}
+        className="w-full bg-slate-700/70 border border-slate-600 rounded-md py-1.5 pl-8 pr-8 text-sm text-slate-100 placeholder-slate-400 focus:outline-none focus:ring-1 focus:ring-sky-500 focus:border-sky-500"
+      />
+      {value && (
+        <button
+          type="button"
+          onClick={() => onChange('')}
+          aria-label="検索をクリア"
+          className="absolute right-1.5 top-1/2 -translate-y-1/2 p-1 text-slate-400 hover:text-white rounded"
+        >
+          <CloseIcon className={iconSizes.xs} />
+        </button>
+      )}
+    </div>
+    {(query.errors.length > 0 || matchCount !== undefined) && (
+      <div className="mt-1 text-xs space-y-0.5">
+        {query.errors.map(error => <p key={error} className="text-amber-300">{error}</p>)}
+        {matchCount !== undefined && <p className="text-slate-400">{matchCount}件のタスクが一致</p>}
+      </div>
+    )}
+  </div>
+);
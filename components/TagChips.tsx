@@ -0,0 +1,40 @@
+import React from 'react';
+import { getTagColor } from '../services/tagService';
+
+interface TagChipsProps {
+  tags: string[];
+  tagColors?: Record<string, string>;
+  size?: 'xs' | 'sm';
+  onRemove?: (tag: string) => void; // 指定すると各タグに外すボタンを表示する
+  className?: string;
+}
+
+const SIZE_CLASSES = {
+  xs: 'px-1.5 text-[10px] leading-4',
+  sm: 'px-2 py-0.5 text-xs',
+};
+
+/**
+ * タグをプロジェクトで設定した色のチップとして並べる
+ */
+export const TagChips: React.FC<TagChipsProps> = ({ tags, tagColors, size = 'sm', onRemove, className = '' }) => {
+  if (tags.length === 0) return null;
+  return (
+    <span className={`inline-flex flex-wrap gap-1 ${className}`}>
+      {tags.map(tag => (
+        <span
+          key={tag}
+          className={`inline-flex items-center gap-1 rounded-full font-medium text-white whitespace-nowrap ${SIZE_CLASSES[size]}`}
+          style={{ backgroundColor: getTagColor(tag, tagColors) }}
+        >
+          {tag}
+          {onRemove && (
+            <button type="button" onClick={() => onRemove(tag)} aria-label={`タグ「${tag}」を外す`} className="opacity-70 hover:opacity-100">
+              ×
+            </button>
+          )}
+        </span>
+      ))}
+    </span>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { getTagColor, normalizeTagColors } from '../services/tagService';
+import { TagChips } from './TagChips';
+
+interface TagSettingsProps {
+  tags: string[]; // タスクで使われているタグ
+  tagColors: Record<string, string>;
+  onSave: (tagColors: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+/**
+ * プロジェクトのタグの色の設定フォーム
+ */
+export const TagSettings: React.FC<TagSettingsProps> = ({ tags, tagColors, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<Record<string, string>>(tagColors);
+
+  const resetColor = (tag: string) => {
+    const { [tag]: _removed, ...rest } = draft;
+    setDraft(rest);
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        // 使われなくなったタグの色は残さない
+        onSave(normalizeTagColors(Object.fromEntries(Object.entries(draft).filter(([tag]) => tags.includes(tag)))));
+      }}
+      className="space-y-5 text-sm text-slate-300"
+    >
+      <p className="text-xs text-slate-400">
+        タグはタスクの編集フォームで自由に付けられます。色を設定していないタグには、タグ名から決まった色を使います。
+      </p>
+      {tags.length === 0 ? (
+        <p className="text-slate-400 italic">タグの付いたタスクはまだありません。</p>
+      ) : (
+        <ul className="space-y-2">
+          {tags.map(tag => (
+            <li key={tag} className="flex items-center gap-3 bg-slate-700/50 rounded px-2 py-1.5">
+              <TagChips tags={[tag]} tagColors={draft} className="flex-1 min-w-0" />
+              <input
+                type="color"
+                value={getTagColor(tag, draft)}
+                onChange={(e) => setDraft({ ...draft, [tag]: e.target.value })}
+                aria-label={`タグ「${tag}」の色`}
+                className="h-7 w-8 bg-transparent border-0 p-0 cursor-pointer"
+              />
+              <button
+                type="button"
+                onClick={() => resetColor(tag)}
+                disabled={!draft[tag]}
+                className="px-2 py-1 text-xs text-slate-300 rounded hover:bg-slate-600 disabled:opacity-40"
+              >
+                既定の色
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end space-x-3 pt-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-slate-300 bg-slate-600 hover:bg-slate-500 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-sky-500"
+        >
+          キャンセル
+        </button>
+        <button
+          type="submit"
+          className="px-4 py-2 text-sm font-medium text-white bg-sky-600 hover:bg-sky-700 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-sky-500"
+        >
+          保存
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -1,25 +1,67 @@
 import React, { useState, useEffect } from 'react';
-import { Task, TaskStatus, TaskPriority } from '../types';
-import { DEFAULT_TASK_STATUS, DEFAULT_TASK_PRIORITY } from '../constants';
+import { Task, TaskStatus, TaskPriority, DependencyLink, DependencyType, WorkingCalendar, CustomFieldDefinition, CustomFieldValue, TeamMember } from '../types';
+import { DEFAULT_TASK_STATUS, DEFAULT_TASK_PRIORITY, DEPENDENCY_TYPE_TEXT_JP } from '../constants';
+import { mergeCustomFieldValues } from '../services/customFieldService';
+import { getTodayDateString } from '../services/dateService';
+import { findDependencyCycles, formatCyclePath, formatDependencyLink, getDependencyLink, withDependencies, wouldCreateCycle } from '../services/dependencyService';
+import { flattenTaskTree, hasChildTasks, wouldCreateParentCycle } from '../services/hierarchyService';
+import { clampProgress, deriveStatusFromProgress, getTaskProgress } from '../services/progressService';
+import { getDependencyStartConstraints, getDurationDays } from '../services/scheduleService';
+import { matchesSearchQuery, parseSearchQuery } from '../services/searchService';
+import { getAllTags, suggestTags, withTags } from '../services/tagService';
+import { getTaskAssignees, withAssignees } from '../services/teamService';
+import { isValidDateString } from '../services/validationService';
+import { EVERY_DAY_CALENDAR, countWorkingDays, getEndDateForWorkingDays, getNonWorkingDayName, snapToWorkingDay } from '../services/workingCalendarService';
+import { AssigneeAvatars } from './AssigneeAvatars';
+import { TagChips } from './TagChips';
 
 interface TaskFormProps {
   onSubmit: (task: Task) => void;
   onCancel: () => void;
   existingTask?: Task | null;
   allTasks: Task[]; // For dependency selection
+  defaultParentId?: string; // サブタスクとして追加する場合の親タスク
+  autoStatusFromProgress?: boolean; // 進捗率からステータスを自動で決める
+  onAutoStatusFromProgressChange?: (enabled: boolean) => void;
+  workingCalendar?: WorkingCalendar; // 期間を稼働日数で表示するためのプロジェクトのカレンダー
+  customFields?: CustomFieldDefinition[]; // プロジェクト独自の項目の定義
+  team?: TeamMember[]; // 担当者として選べるメンバー
+  tagColors?: Record<string, string>; // プロジェクトで設定したタグの色
 }
 
-const getDefaultDate = (): string => new Date().toISOString().split('T')[0];
-
-export const TaskForm: React.FC<TaskFormProps> = ({ onSubmit, onCancel, existingTask, allTasks }) => {
+export const TaskForm: React.FC<TaskFormProps> = ({
+  onSubmit,
+  onCancel,
+  existingTask,
+  allTasks,
+  defaultParentId,
+  autoStatusFromProgress = false,
+  onAutoStatusFromProgressChange,
+  workingCalendar,
+  customFields = [],
+  team = [],
+  tagColors = {}
+}) => {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [status, setStatus] = useState<TaskStatus>(DEFAULT_TASK_STATUS);
   const [priority, setPriority] = useState<TaskPriority>(DEFAULT_TASK_PRIORITY);
-  const [startDate, setStartDate] = useState(getDefaultDate());
-  const [endDate, setEndDate] = useState(getDefaultDate());
+  const [startDate, setStartDate] = useState(getTodayDateString());
+  const [endDate, setEndDate] = useState(getTodayDateString());
+  const [isMilestone, setIsMilestone] = useState(false);
   const [dependencies, setDependencies] = useState<string[]>([]);
+  const [dependencyLinks, setDependencyLinks] = useState<Record<string, DependencyLink>>({}); // 依存関係の種類とラグ
+  const [lagInputs, setLagInputs] = useState<Record<string, string>>({}); // 入力中のラグ（「-」など数値になる前の文字列も保つ）
+  const [parentId, setParentId] = useState('');
+  const [progress, setProgress] = useState<number | undefined>(undefined); // 未設定ならステータスから推定
   const [dependencySearchTerm, setDependencySearchTerm] = useState('');
+  const [startAfterDependencies, setStartAfterDependencies] = useState(false); // 依存先の後、できるだけ早く開始する
+  const [customFieldValues, setCustomFieldValues] = useState<Record<string, CustomFieldValue>>({}); // 定義が削除された項目の値もそのまま保つ
+  const [assignees, setAssignees] = useState<string[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState(''); // 入力中のタグ（Enter・カンマで確定）
+  const [isTagInputFocused, setIsTagInputFocused] = useState(false);
+  const [activeTagSuggestion, setActiveTagSuggestion] = useState(-1); // 矢印キーで選んでいる候補
 
   useEffect(() => {
     if (existingTask) {
@@ -29,18 +71,94 @@ export const TaskForm: React.FC<TaskFormProps> = ({ onSubmit, onCancel, existing
       setPriority(existingTask.priority);
       setStartDate(existingTask.startDate);
       setEndDate(existingTask.endDate);
+      setIsMilestone(!!existingTask.milestone);
       setDependencies(existingTask.dependencies || []);
+      setDependencyLinks(existingTask.dependencyLinks || {});
+      setParentId(existingTask.parentId || '');
+      setProgress(existingTask.progress);
+      setStartAfterDependencies(false);
+      setCustomFieldValues(existingTask.customFields || {});
+      setAssignees(existingTask.assignees || []);
+      setTags(existingTask.tags || []);
     } else {
       // Reset for new task
       setName('');
       setDescription('');
       setStatus(DEFAULT_TASK_STATUS);
       setPriority(DEFAULT_TASK_PRIORITY);
-      setStartDate(getDefaultDate());
-      setEndDate(getDefaultDate());
+      setStartDate(getTodayDateString());
+      setEndDate(getTodayDateString());
+      setIsMilestone(false);
       setDependencies([]);
+      setDependencyLinks({});
+      setParentId(defaultParentId || '');
+      setProgress(undefined);
+      setStartAfterDependencies(false);
+      setCustomFieldValues({});
+      setAssignees([]);
+      setTags([]);
     }
-  }, [existingTask]);
+    setTagInput('');
+  }, [existingTask, defaultParentId]);
+
+  // 子を持つタスクの日付とステータスはサブタスクから集計されるため編集できない
+  const isSummaryTask = !!existingTask && hasChildTasks(allTasks, existingTask.id);
+  const displayedProgress = getTaskProgress({ status, progress });
+  const hasValidDates = isValidDateString(startDate) && isValidDateString(endDate) && startDate <= endDate;
+  // 開始日・終了日が休みの日に当たる場合は注意として表示する
+  const nonWorkingDateNotes = workingCalendar
+    ? (isMilestone ? [['日付', startDate]] : [['開始日', startDate], ['終了日', endDate]])
+        .filter(([, date]) => isValidDateString(date))
+        .flatMap(([label, date]) => {
+          const holidayName = getNonWorkingDayName(date, workingCalendar);
+          return holidayName ? [`${label}は休み（${holidayName}）です`] : [];
+        })
+    : [];
+  // 期間は稼働日数で入力する（カレンダーがなければすべての日を稼働日として数える）
+  const durationCalendar = workingCalendar || EVERY_DAY_CALENDAR;
+  const durationDays = hasValidDates ? countWorkingDays(startDate, endDate, durationCalendar) : undefined;
+  const dependencyConstraints = isValidDateString(startDate) && (isMilestone || isValidDateString(endDate))
+    ? getDependencyStartConstraints({ startDate, endDate: isMilestone ? startDate : endDate, dependencies, dependencyLinks }, allTasks, workingCalendar)
+    : [];
+  const dependencyWarnings = dependencyConstraints
+    .filter(constraint => constraint.requiredStartDate > startDate)
+    .map(({ dependencyId, requiredStartDate }) => {
+      const dependencyName = allTasks.find(t => t.id === dependencyId)?.name || dependencyId;
+      const link = formatDependencyLink(getDependencyLink({ dependencyLinks }, dependencyId));
+      return `「${dependencyName}」（${link}）の制約により、${requiredStartDate} 以降に開始する必要があります`;
+    });
+
+  // 開始日を変えても期間（稼働日数）は保ち、終了日を合わせて動かす
+  const handleStartDateChange = (value: string) => {
+    if (!isMilestone && durationDays !== undefined && isValidDateString(value)) {
+      setEndDate(getEndDateForWorkingDays(value, durationDays, durationCalendar));
+    }
+    setStartDate(value);
+  };
+
+  const handleDurationChange = (value: number) => {
+    if (!isValidDateString(startDate) || !Number.isFinite(value) || value < 1) return;
+    setEndDate(getEndDateForWorkingDays(startDate, Math.trunc(value), durationCalendar));
+  };
+
+  // 依存先の後にできるだけ早く開始する場合は、依存関係の制約のうち最も遅い日（休みなら次の稼働日）を開始日にする
+  // 開始日を動かすと FF・SF の制約も変わるため、依存関係を変えたときだけ計算し直す
+  useEffect(() => {
+    if (!startAfterDependencies || dependencyConstraints.length === 0) return;
+    const earliestStart = dependencyConstraints.reduce(
+      (max, constraint) => (constraint.requiredStartDate > max ? constraint.requiredStartDate : max),
+      dependencyConstraints[0].requiredStartDate
+    );
+    const nextStart = snapToWorkingDay(earliestStart, durationCalendar);
+    if (nextStart !== startDate) handleStartDateChange(nextStart);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [startAfterDependencies, dependencies, dependencyLinks, allTasks, workingCalendar]);
+
+  const handleProgressChange = (value: number) => {
+    const nextProgress = clampProgress(value);
+    setProgress(nextProgress);
+    if (autoStatusFromProgress) setStatus(deriveStatusFromProgress(nextProgress));
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -48,21 +166,36 @@ export const TaskForm: React.FC<TaskFormProps> = ({ onSubmit, onCancel, existing
       alert("タスク名は空にできません。");
       return;
     }
-    if (new Date(startDate) > new Date(endDate)) {
+    if (!isMilestone && startDate > endDate) {
       alert("開始日は終了日より後に設定できません。");
       return;
     }
     
-    const taskData: Task = {
+    const taskCustomFields = mergeCustomFieldValues(undefined, customFieldValues);
+    const taskData: Task = withTags(withAssignees(withDependencies({
       id: existingTask ? existingTask.id : `task-${crypto.randomUUID()}`,
       name,
       description,
       status,
       priority,
       startDate,
-      endDate,
+      // マイルストーンは1日のみ
+      endDate: isMilestone ? startDate : endDate,
+      ...(isMilestone ? { milestone: true } : {}),
+      ...(progress !== undefined && !isSummaryTask ? { progress } : {}),
       dependencies,
-    };
+      ...(parentId ? { parentId } : {}),
+      ...(taskCustomFields ? { customFields: taskCustomFields } : {}),
+    }, dependencies, dependencyLinks), assignees), [...tags, tagInput]); // 確定していない入力中のタグも付ける
+
+    const nextTasks = existingTask
+      ? allTasks.map(t => (t.id === taskData.id ? taskData : t))
+      : [...allTasks, taskData];
+    const cycle = findDependencyCycles(nextTasks).find(c => c.includes(taskData.id));
+    if (cycle) {
+      alert(`依存関係が循環しています: ${formatCyclePath(cycle, nextTasks)}`);
+      return;
+    }
     onSubmit(taskData);
   };
 
@@ -74,13 +207,130 @@ export const TaskForm: React.FC<TaskFormProps> = ({ onSubmit, onCancel, existing
     );
   };
 
-  const availableDependencies = allTasks.filter(t => 
-    existingTask ? t.id !== existingTask.id : true
-  );
+  const handleCustomFieldChange = (fieldId: string, value: CustomFieldValue) => {
+    setCustomFieldValues(prev => ({ ...prev, [fieldId]: value }));
+  };
+
+  const handleCustomFieldOptionToggle = (fieldId: string, option: string) => {
+    const current = customFieldValues[fieldId];
+    const selected = Array.isArray(current) ? current : [];
+    handleCustomFieldChange(fieldId, selected.includes(option) ? selected.filter(o => o !== option) : [...selected, option]);
+  };
+
+  const tagSuggestions = isTagInputFocused ? suggestTags(tagInput, getAllTags(allTasks), tags) : [];
+
+  const addTag = (tag: string) => {
+    const trimmed = tag.trim();
+    if (trimmed && !tags.includes(trimmed)) setTags([...tags, trimmed]);
+    setTagInput('');
+    setActiveTagSuggestion(-1);
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (tagSuggestions.length === 0) return;
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveTagSuggestion((activeTagSuggestion + step + tagSuggestions.length) % tagSuggestions.length);
+    } else if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(activeTagSuggestion >= 0 ? tagSuggestions[activeTagSuggestion] : tagInput);
+    } else if (e.key === 'Backspace' && tagInput === '' && tags.length > 0) {
+      setTags(tags.slice(0, -1));
+    } else if (e.key === 'Escape') {
+      setActiveTagSuggestion(-1);
+    }
+  };
+
+  const handleAssigneeToggle = (memberId: string) => {
+    setAssignees(prev => (prev.includes(memberId) ? prev.filter(id => id !== memberId) : [...prev, memberId]));
+  };
+
+  // 名簿から外れたメンバーが担当者に残っている場合も選択肢に出し、外せるようにする
+  const assigneeOptions = [...team, ...getTaskAssignees({ assignees }, team).filter(member => !team.some(m => m.id === member.id))];
+
+  const renderCustomFieldInput = (field: CustomFieldDefinition) => {
+    const value = customFieldValues[field.id];
+    const inputId = `task-custom-${field.id}`;
+    const inputClassName = 'mt-1 block w-full bg-slate-700 border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-sky-500 focus:border-sky-500 sm:text-sm text-slate-100';
+    switch (field.type) {
+      case 'select':
+        return (
+          <select id={inputId} value={typeof value === 'string' ? value : ''} onChange={(e) => handleCustomFieldChange(field.id, e.target.value)} className={inputClassName}>
+            <option value="">未設定</option>
+            {(field.options ?? []).map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        );
+      case 'multiSelect':
+        return (
+          <div id={inputId} role="group" aria-label={field.name} className="mt-1 flex flex-wrap gap-x-3 gap-y-1 text-sm">
+            {(field.options ?? []).map(option => (
+              <label key={option} className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={Array.isArray(value) && value.includes(option)}
+                  onChange={() => handleCustomFieldOptionToggle(field.id, option)}
+                  className="form-checkbox h-4 w-4 text-sky-600 bg-slate-800 border-slate-500 rounded focus:ring-sky-500"
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        );
+      case 'number':
+        return (
+          <input
+            type="number"
+            id={inputId}
+            step="any"
+            value={typeof value === 'number' ? value : ''}
+            onChange={(e) => handleCustomFieldChange(field.id, e.target.value === '' ? '' : Number(e.target.value))}
+            className={inputClassName}
+          />
+        );
+      default:
+        return (
+          <input
+            type={field.type === 'date' ? 'date' : field.type === 'url' ? 'url' : 'text'}
+            id={inputId}
+            value={typeof value === 'string' ? value : value !== undefined ? String(value) : ''}
+            onChange={(e) => handleCustomFieldChange(field.id, e.target.value)}
+            placeholder={field.type === 'url' ? 'https://' : undefined}
+            className={inputClassName}
+          />
+        );
+    }
+  };
+
+  const handleDependencyLinkChange = (taskId: string, changes: Partial<DependencyLink>) => {
+    setDependencyLinks(prev => ({ ...prev, [taskId]: { ...getDependencyLink({ dependencyLinks: prev }, taskId), ...changes } }));
+  };
+
+  // ラグは入力した文字列のまま保ち、整数として読めるときだけ反映する（フォーカスを外すと反映済みの値の表示に戻す）
+  const handleLagInputChange = (taskId: string, value: string) => {
+    setLagInputs(prev => ({ ...prev, [taskId]: value }));
+    if (/^\s*[-+]?\d+\s*$/.test(value)) handleDependencyLinkChange(taskId, { lag: Number(value) });
+  };
+
+  const handleLagInputBlur = (taskId: string) => {
+    setLagInputs(({ [taskId]: _removed, ...rest }) => rest);
+  };
+
+  // 循環を生む候補は除外する（既に選択済みのものは解除できるよう残し、警告表示する）
+  const availableDependencies = allTasks.filter(t => {
+    if (!existingTask) return true;
+    if (t.id === existingTask.id) return false;
+    return dependencies.includes(t.id) || !wouldCreateCycle(allTasks, existingTask.id, t.id);
+  });
   
-  const filteredAvailableDependencies = availableDependencies.filter(task => 
-    task.name.toLowerCase().includes(dependencySearchTerm.toLowerCase())
-  );
+  // 自分自身と自分の子孫、マイルストーンは親にできない
+  const parentOptions = flattenTaskTree(allTasks)
+    .filter(row => !row.task.milestone)
+    .filter(row => !existingTask || !wouldCreateParentCycle(allTasks, existingTask.id, row.task.id));
+
+  // 依存先の絞り込みにも検索クエリ（tag:backend など）を使える
+  const dependencySearchQuery = parseSearchQuery(dependencySearchTerm);
+  const filteredAvailableDependencies = availableDependencies.filter(task => matchesSearchQuery(task, dependencySearchQuery, team));
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4 text-slate-300">
@@ -105,6 +355,51 @@ export const TaskForm: React.FC<TaskFormProps> = ({ onSubmit, onCancel, existing
           className="mt-1 block w-full bg-slate-700 border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-sky-500 focus:border-sky-500 sm:text-sm text-slate-100"
         />
       </div>
+      <div>
+        <label htmlFor="task-tags" className="block text-sm font-medium text-slate-300">タグ</label>
+        <div className="relative mt-1">
+          <div className="flex flex-wrap items-center gap-1 bg-slate-700 border border-slate-600 rounded-md shadow-sm py-1.5 px-2 focus-within:ring-1 focus-within:ring-sky-500">
+            <TagChips tags={tags} tagColors={tagColors} onRemove={(tag) => setTags(tags.filter(t => t !== tag))} />
+            <input
+              id="task-tags"
+              type="text"
+              value={tagInput}
+              onChange={(e) => {
+                setTagInput(e.target.value);
+                setActiveTagSuggestion(-1);
+              }}
+              onKeyDown={handleTagKeyDown}
+              onFocus={() => setIsTagInputFocused(true)}
+              onBlur={() => setIsTagInputFocused(false)}
+              placeholder={tags.length === 0 ? '例: backend, blocked（Enter で追加）' : ''}
+              role="combobox"
+              aria-autocomplete="list"
+              aria-expanded={tagSuggestions.length > 0}
+              aria-controls="task-tag-suggestions"
+              className="flex-1 min-w-[8rem] bg-transparent border-0 p-0.5 focus:outline-none focus:ring-0 sm:text-sm text-slate-100"
+            />
+          </div>
+          {tagSuggestions.length > 0 && (
+            <ul id="task-tag-suggestions" role="listbox" className="absolute z-10 mt-1 w-full max-h-48 overflow-y-auto bg-slate-700 border border-slate-600 rounded-md shadow-lg py-1">
+              {tagSuggestions.map((tag, index) => (
+                <li
+                  key={tag}
+                  role="option"
+                  aria-selected={index === activeTagSuggestion}
+                  // 入力欄のフォーカスが外れる前に追加する
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    addTag(tag);
+                  }}
+                  className={`px-3 py-1 cursor-pointer ${index === activeTagSuggestion ? 'bg-slate-600' : 'hover:bg-slate-600'}`}
+                >
+                  <TagChips tags={[tag]} tagColors={tagColors} />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
           <label htmlFor="task-status" className="block text-sm font-medium text-slate-300">ステータス</label>
@@ -112,6 +407,7 @@ export const TaskForm: React.FC<TaskFormProps> = ({ onSubmit, onCancel, existing
             id="task-status"
             value={status}
             onChange={(e) => setStatus(e.target.value as TaskStatus)}
+            disabled={isSummaryTask || (autoStatusFromProgress && progress !== undefined)}
             className="mt-1 block w-full bg-slate-700 border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-sky-500 focus:border-sky-500 sm:text-sm text-slate-100"
           >
             {Object.values(TaskStatus).map(s => <option key={s} value={s}>{s}</option>)}
@@ -129,18 +425,31 @@ export const TaskForm: React.FC<TaskFormProps> = ({ onSubmit, onCancel, existing
           </select>
         </div>
       </div>
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {!isSummaryTask && (
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={isMilestone}
+            onChange={(e) => setIsMilestone(e.target.checked)}
+            className="form-checkbox h-4 w-4 text-sky-600 bg-slate-800 border-slate-500 rounded focus:ring-sky-500"
+          />
+          マイルストーン（リリース日やレビューなど、期間を持たない節目）
+        </label>
+      )}
+      <div className={`grid grid-cols-1 gap-4 ${isMilestone ? '' : 'md:grid-cols-3'}`}>
         <div>
-          <label htmlFor="task-start-date" className="block text-sm font-medium text-slate-300">開始日</label>
+          <label htmlFor="task-start-date" className="block text-sm font-medium text-slate-300">{isMilestone ? '日付' : '開始日'}</label>
           <input
             type="date"
             id="task-start-date"
             value={startDate}
-            onChange={(e) => setStartDate(e.target.value)}
+            onChange={(e) => handleStartDateChange(e.target.value)}
+            disabled={isSummaryTask || (startAfterDependencies && dependencyConstraints.length > 0)}
             className="mt-1 block w-full bg-slate-700 border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-sky-500 focus:border-sky-500 sm:text-sm text-slate-100"
             required
           />
         </div>
+        {!isMilestone && (
         <div>
           <label htmlFor="task-end-date" className="block text-sm font-medium text-slate-300">終了日</label>
           <input
@@ -148,10 +457,135 @@ export const TaskForm: React.FC<TaskFormProps> = ({ onSubmit, onCancel, existing
             id="task-end-date"
             value={endDate}
             onChange={(e) => setEndDate(e.target.value)}
+            disabled={isSummaryTask}
             className="mt-1 block w-full bg-slate-700 border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-sky-500 focus:border-sky-500 sm:text-sm text-slate-100"
             required
           />
         </div>
+        )}
+        {!isMilestone && (
+        <div>
+          <label htmlFor="task-duration" className="block text-sm font-medium text-slate-300">{workingCalendar ? '期間（稼働日）' : '期間（日）'}</label>
+          <input
+            type="number"
+            id="task-duration"
+            min={1}
+            step={1}
+            value={durationDays ?? ''}
+            onChange={(e) => handleDurationChange(Number(e.target.value))}
+            disabled={isSummaryTask}
+            className="mt-1 block w-full bg-slate-700 border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-sky-500 focus:border-sky-500 sm:text-sm text-slate-100"
+          />
+        </div>
+        )}
+      </div>
+      {!isSummaryTask && dependencies.length > 0 && (
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={startAfterDependencies}
+            onChange={(e) => setStartAfterDependencies(e.target.checked)}
+            className="form-checkbox h-4 w-4 text-sky-600 bg-slate-800 border-slate-500 rounded focus:ring-sky-500"
+          />
+          依存先の後、できるだけ早く開始する（開始日を依存関係から自動で決める）
+        </label>
+      )}
+      {dependencyWarnings.length > 0 && (
+        <ul className="-mt-2 space-y-0.5 text-xs text-amber-300">
+          {dependencyWarnings.map(warning => <li key={warning}>⚠ {warning}</li>)}
+        </ul>
+      )}
+      {workingCalendar && (hasValidDates || nonWorkingDateNotes.length > 0) && (
+        <p className="-mt-2 text-xs text-slate-400">
+          {!isMilestone && hasValidDates && `期間: ${countWorkingDays(startDate, endDate, workingCalendar)}稼働日（${getDurationDays(startDate, endDate)}日間）`}
+          {nonWorkingDateNotes.length > 0 && (
+            <span className="ml-2 text-amber-300">⚠ {nonWorkingDateNotes.join('、')}</span>
+          )}
+        </p>
+      )}
+      {!isSummaryTask && (
+        <div>
+          <label htmlFor="task-progress" className="block text-sm font-medium text-slate-300">進捗率</label>
+          <div className="mt-1 flex items-center gap-3">
+            <input
+              type="range"
+              id="task-progress"
+              min={0}
+              max={100}
+              step={5}
+              value={displayedProgress}
+              onChange={(e) => handleProgressChange(Number(e.target.value))}
+              className="flex-1 accent-sky-500"
+            />
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={displayedProgress}
+              onChange={(e) => handleProgressChange(Number(e.target.value))}
+              aria-label="進捗率（%）"
+              className="w-20 bg-slate-700 border-slate-600 rounded-md shadow-sm py-1.5 px-2 focus:outline-none focus:ring-sky-500 focus:border-sky-500 sm:text-sm text-slate-100"
+            />
+            <span className="text-sm text-slate-400">%</span>
+          </div>
+          {onAutoStatusFromProgressChange && (
+            <label className="mt-2 flex items-center gap-2 text-xs text-slate-400">
+              <input
+                type="checkbox"
+                checked={autoStatusFromProgress}
+                onChange={(e) => onAutoStatusFromProgressChange(e.target.checked)}
+                className="form-checkbox h-4 w-4 text-sky-600 bg-slate-800 border-slate-500 rounded focus:ring-sky-500"
+              />
+              進捗率からステータスを自動で決める（0% → 未着手、100% → 完了、それ以外 → 進行中）
+            </label>
+          )}
+        </div>
+      )}
+      {isSummaryTask && (
+        <p className="text-xs text-slate-400">サブタスクがあるため、日付・ステータス・進捗率はサブタスクから自動で集計されます。</p>
+      )}
+      {assigneeOptions.length > 0 && (
+        <fieldset>
+          <legend className="block text-sm font-medium text-slate-300">担当者</legend>
+          <div className="mt-1 flex flex-wrap gap-x-4 gap-y-2">
+            {assigneeOptions.map(member => (
+              <label key={member.id} className="flex items-center gap-2 text-sm text-slate-200 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={assignees.includes(member.id)}
+                  onChange={() => handleAssigneeToggle(member.id)}
+                  className="form-checkbox h-4 w-4 text-sky-600 bg-slate-800 border-slate-500 rounded focus:ring-sky-500"
+                />
+                <AssigneeAvatars members={[member]} size="xs" />
+                {member.name}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+      {customFields.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {customFields.map(field => (
+            <div key={field.id}>
+              <label htmlFor={`task-custom-${field.id}`} className="block text-sm font-medium text-slate-300">{field.name}</label>
+              {renderCustomFieldInput(field)}
+            </div>
+          ))}
+        </div>
+      )}
+      <div>
+        <label htmlFor="task-parent" className="block text-sm font-medium text-slate-300">親タスク</label>
+        <select
+          id="task-parent"
+          value={parentId}
+          onChange={(e) => setParentId(e.target.value)}
+          className="mt-1 block w-full bg-slate-700 border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-sky-500 focus:border-sky-500 sm:text-sm text-slate-100"
+        >
+          <option value="" label="なし（トップレベル）" />
+          {parentOptions.map(({ task, depth }) => (
+            <option key={task.id} value={task.id} label={`${'　'.repeat(depth)}${task.name}`} />
+          ))}
+        </select>
       </div>
       <div>
         <label htmlFor="task-dependencies" className="block text-sm font-medium text-slate-300">依存関係</label>
@@ -168,21 +602,52 @@ export const TaskForm: React.FC<TaskFormProps> = ({ onSubmit, onCancel, existing
         >
           {filteredAvailableDependencies.length > 0 ? (
             filteredAvailableDependencies.map(task => (
-            <label key={task.id} className="flex items-center space-x-2 p-1.5 rounded hover:bg-slate-600 cursor-pointer">
-              <input 
-                type="checkbox"
-                checked={dependencies.includes(task.id)}
-                onChange={() => handleDependencyToggle(task.id)}
-                className="form-checkbox h-4 w-4 text-sky-600 bg-slate-800 border-slate-500 rounded focus:ring-sky-500"
-              />
-              <span>{task.name}</span>
-            </label>
+            <div key={task.id} className="flex items-center gap-2 p-1.5 rounded hover:bg-slate-600">
+              <label className="flex flex-1 min-w-0 items-center space-x-2 cursor-pointer">
+                <input 
+                  type="checkbox"
+                  checked={dependencies.includes(task.id)}
+                  onChange={() => handleDependencyToggle(task.id)}
+                  className="form-checkbox h-4 w-4 text-sky-600 bg-slate-800 border-slate-500 rounded focus:ring-sky-500"
+                />
+                <span className="truncate">{task.name}</span>
+                {existingTask && wouldCreateCycle(allTasks, existingTask.id, task.id) && (
+                  <span className="text-xs text-red-400">（循環）</span>
+                )}
+              </label>
+              {dependencies.includes(task.id) && (
+                <>
+                  <select
+                    value={getDependencyLink({ dependencyLinks }, task.id).type}
+                    onChange={(e) => handleDependencyLinkChange(task.id, { type: e.target.value as DependencyType })}
+                    aria-label={`${task.name} との依存関係の種類`}
+                    className="bg-slate-800 border-slate-500 rounded py-0.5 px-1 text-xs text-slate-100"
+                  >
+                    {Object.values(DependencyType).map(type => (
+                      <option key={type} value={type} label={`${type}（${DEPENDENCY_TYPE_TEXT_JP[type]}）`} />
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={lagInputs[task.id] ?? String(getDependencyLink({ dependencyLinks }, task.id).lag)}
+                    onChange={(e) => handleLagInputChange(task.id, e.target.value)}
+                    onBlur={() => handleLagInputBlur(task.id)}
+                    aria-label={`${task.name} との依存関係のラグ（日）`}
+                    title={workingCalendar ? 'ラグ（稼働日）。マイナスはリード' : 'ラグ（日）。マイナスはリード'}
+                    className="w-14 bg-slate-800 border-slate-500 rounded py-0.5 px-1 text-xs text-slate-100"
+                  />
+                  <span className="text-xs text-slate-400">日</span>
+                </>
+              )}
+            </div>
           ))
         ) : (
           <p className="text-xs text-slate-400 text-center py-4">一致するタスクが見つからないか、他のタスクがありません。</p>
         )}
         </div>
-        <p className="mt-1 text-xs text-slate-400">自分自身は選択できません。検索してタスクを絞り込みます。</p>
+        <p className="mt-1 text-xs text-slate-400">自分自身や、このタスクに依存しているタスク（循環になるもの）は選択できません。検索してタスクを絞り込みます。</p>
+        <p className="mt-1 text-xs text-slate-400">種類: FS=依存先の終了後に開始、SS=依存先の開始以降に開始、FF=依存先の終了以降に終了、SF=依存先の開始以降に終了。ラグはその日数{workingCalendar ? '（稼働日）' : ''}だけ遅らせます（マイナスは前倒し）。</p>
       </div>
       <div className="flex justify-end space-x-3 pt-2">
         <button
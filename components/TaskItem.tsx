@@ -1,7 +1,16 @@
 import React from 'react';
-import { Task } from '../types';
+import { Task, CustomFieldDefinition, TeamMember } from '../types';
 import { PRIORITY_COLORS, STATUS_COLORS, STATUS_TEXT_JP, PRIORITY_TEXT_JP } from '../constants';
-import { exportTaskToGoogleCalendar } from '../services/calendarService';
+import { exportTaskToGoogleCalendar, downloadTasksAsIcs } from '../services/calendarService';
+import { getTaskProgress } from '../services/progressService';
+import { formatDependencyLink } from '../services/dependencyService';
+import { formatDate } from '../services/dateService';
+import { formatCustomFieldValue } from '../services/customFieldService';
+import { getTaskAssignees } from '../services/teamService';
+import { AssigneeAvatars } from './AssigneeAvatars';
+import { TagChips } from './TagChips';
+import { HighlightedText } from './HighlightedText';
+import { SearchTerm } from '../services/searchService';
 import { 
   StatusNotStartedIcon, 
   StatusInProgressIcon, 
@@ -9,6 +18,11 @@ import {
   EditIcon,
   DeleteIcon,
   CalendarIcon,
+  DownloadIcon,
+  AddIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  MilestoneIcon,
   iconSizes
 } from './icons';
 
@@ -20,25 +34,60 @@ interface TaskItemProps {
   isSelectionMode?: boolean;
   isSelected?: boolean;
   onSelectionChange?: (taskId: string, isSelected: boolean) => void;
+  hasSubtasks?: boolean;
+  isCollapsed?: boolean;
+  onToggleCollapse?: (taskId: string) => void;
+  rollupProgress?: number; // サブタスクから集計した進捗率（%）
+  onAddSubtask?: (parentId: string) => void;
+  customFields?: CustomFieldDefinition[]; // プロジェクト独自の項目の定義（値のある項目だけ表示する）
+  team?: TeamMember[]; // 担当者の名前と色を引くための名簿
+  tagColors?: Record<string, string>; // プロジェクトで設定したタグの色
+  highlightTerms?: SearchTerm[]; // 名前と説明の中で強調表示する検索語句
 }
 
-const formatDate = (dateString: string): string => {
-  const options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' };
-  return new Date(dateString).toLocaleDateString(undefined, options);
-};
+const formatTaskDate = (dateString: string): string =>
+  formatDate(dateString, { year: 'numeric', month: 'short', day: 'numeric' });
 
-export const TaskItem: React.FC<TaskItemProps> = ({ task, onEdit, onDelete, allTasks, isSelectionMode, isSelected, onSelectionChange }) => {
+export const TaskItem: React.FC<TaskItemProps> = ({
+  task,
+  onEdit,
+  onDelete,
+  allTasks,
+  isSelectionMode,
+  isSelected,
+  onSelectionChange,
+  hasSubtasks,
+  isCollapsed,
+  onToggleCollapse,
+  rollupProgress,
+  onAddSubtask,
+  customFields = [],
+  team = [],
+  tagColors,
+  highlightTerms
+}) => {
   const getDependencyNames = (dependencyIds: string[]): string => {
     if (!dependencyIds || dependencyIds.length === 0) return 'None';
     return dependencyIds
-      .map(id => allTasks.find(t => t.id === id)?.name || 'Unknown Task')
+      .map(id => {
+        const name = allTasks.find(t => t.id === id)?.name || 'Unknown Task';
+        // 終了-開始・ラグ0 以外の依存関係は種類とラグを併記する
+        const link = task.dependencyLinks?.[id];
+        return link ? `${name}（${formatDependencyLink(link)}）` : name;
+      })
       .join(', ');
   };
 
+  const progress = hasSubtasks && rollupProgress !== undefined ? rollupProgress : getTaskProgress(task);
+
   const handleExportToCalendar = () => {
     exportTaskToGoogleCalendar(task);
   };
 
+  const handleDownloadIcs = () => {
+    downloadTasksAsIcs([task], allTasks, `${task.id}.ics`);
+  };
+
   const handleSelectionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (onSelectionChange) {
       onSelectionChange(task.id, e.target.checked);
@@ -57,7 +106,22 @@ export const TaskItem: React.FC<TaskItemProps> = ({ task, onEdit, onDelete, allT
               className="form-checkbox h-4 w-4 text-purple-600 bg-slate-800 border-slate-600 rounded"
             />
           )}
-          <h3 className="text-xl font-semibold text-sky-400">{task.name}</h3>
+          {hasSubtasks && onToggleCollapse && (
+            <button
+              onClick={() => onToggleCollapse(task.id)}
+              className="p-0.5 text-slate-400 hover:text-white rounded transition-colors"
+              title={isCollapsed ? 'サブタスクを表示' : 'サブタスクを折りたたむ'}
+              aria-label={isCollapsed ? 'サブタスクを表示' : 'サブタスクを折りたたむ'}
+              aria-expanded={!isCollapsed}
+            >
+              {isCollapsed ? <ChevronRightIcon className={iconSizes.sm} /> : <ChevronDownIcon className={iconSizes.sm} />}
+            </button>
+          )}
+          {task.milestone && (
+            <MilestoneIcon className={`${iconSizes.sm} text-amber-400 fill-amber-400/30 flex-shrink-0`} aria-label="マイルストーン" />
+          )}
+          <h3 className="text-xl font-semibold text-sky-400"><HighlightedText text={task.name} terms={highlightTerms} /></h3>
+          <AssigneeAvatars members={getTaskAssignees(task, team)} />
         </div>
         <div className="flex space-x-2">
            <span className={`px-2 py-1 text-xs font-semibold text-white rounded-full ${PRIORITY_COLORS[task.priority]}`}>
@@ -68,10 +132,48 @@ export const TaskItem: React.FC<TaskItemProps> = ({ task, onEdit, onDelete, allT
           </span>
         </div>
       </div>
-      {task.description && <p className="text-slate-400 text-sm mb-3">{task.description}</p>}
+      {task.tags && <TagChips tags={task.tags} tagColors={tagColors} className="mb-2" />}
+      {task.description && <p className="text-slate-400 text-sm mb-3"><HighlightedText text={task.description} terms={highlightTerms} /></p>}
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-sm mb-3">
-        <p className="text-slate-400"><strong className="text-slate-300">開始日:</strong> {formatDate(task.startDate)}</p>
-        <p className="text-slate-400"><strong className="text-slate-300">終了日:</strong> {formatDate(task.endDate)}</p>
+        {task.milestone ? (
+          <p className="text-slate-400"><strong className="text-slate-300">日付:</strong> {formatTaskDate(task.startDate)}</p>
+        ) : (
+          <>
+            <p className="text-slate-400"><strong className="text-slate-300">開始日:</strong> {formatTaskDate(task.startDate)}</p>
+            <p className="text-slate-400"><strong className="text-slate-300">終了日:</strong> {formatTaskDate(task.endDate)}</p>
+          </>
+        )}
+        {customFields.filter(field => task.customFields?.[field.id] !== undefined).map(field => {
+          const value = task.customFields![field.id];
+          return (
+            <p key={field.id} className="text-slate-400 truncate">
+              <strong className="text-slate-300">{field.name}:</strong>{' '}
+              {field.type === 'url' && typeof value === 'string' ? (
+                <a href={value} target="_blank" rel="noopener noreferrer" className="text-sky-400 hover:underline">{value}</a>
+              ) : field.type === 'date' && typeof value === 'string' ? (
+                formatTaskDate(value)
+              ) : (
+                formatCustomFieldValue(value)
+              )}
+            </p>
+          );
+        })}
+      </div>
+      <div className="mb-3">
+        <div className="flex justify-between text-xs text-slate-400 mb-1">
+          <span>{hasSubtasks ? 'サブタスクの進捗' : '進捗'}</span>
+          <span>{progress}%</span>
+        </div>
+        <div
+          className="h-1.5 bg-slate-700 rounded-full overflow-hidden"
+          role="progressbar"
+          aria-valuenow={progress}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-label={`${task.name}の進捗`}
+        >
+          <div className="h-full bg-sky-500 rounded-full" style={{ width: `${progress}%` }} />
+        </div>
       </div>
        <div className="text-sm mb-4">
         <p className="text-slate-400"><strong className="text-slate-300">依存先:</strong> {getDependencyNames(task.dependencies)}</p>
@@ -85,6 +187,24 @@ export const TaskItem: React.FC<TaskItemProps> = ({ task, onEdit, onDelete, allT
           <CalendarIcon className={iconSizes.sm} />
           <span className="hidden sm:inline">カレンダー</span>
         </button>
+        {onAddSubtask && !task.milestone && (
+          <button
+            onClick={() => onAddSubtask(task.id)}
+            className="flex items-center justify-center gap-1.5 px-3 py-1.5 text-sm font-medium text-slate-300 bg-slate-700/50 hover:bg-slate-600/70 rounded-md transition-all border border-slate-600/50 hover:border-slate-500 hover:shadow-md min-h-[36px]"
+            title="サブタスクを追加"
+          >
+            <AddIcon className={iconSizes.sm} />
+            <span className="hidden sm:inline">サブタスク</span>
+          </button>
+        )}
+        <button
+          onClick={handleDownloadIcs}
+          className="flex items-center justify-center gap-1.5 px-3 py-1.5 text-sm font-medium text-slate-300 bg-slate-700/50 hover:bg-slate-600/70 rounded-md transition-all border border-slate-600/50 hover:border-slate-500 hover:shadow-md min-h-[36px]"
+          title=".icsファイルとしてダウンロード"
+        >
+          <DownloadIcon className={iconSizes.sm} />
+          <span className="hidden sm:inline">.ics</span>
+        </button>
         <button
           onClick={() => onEdit(task)}
           className="flex items-center justify-center gap-1.5 px-3 py-1.5 text-sm font-medium text-sky-400 bg-sky-900/50 hover:bg-sky-800/70 rounded-md transition-all border border-sky-700/50 hover:border-sky-600 hover:shadow-md min-h-[36px]"
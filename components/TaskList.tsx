@@ -1,14 +1,22 @@
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
-import { Task, TaskStatus, TaskPriority } from '../types';
+import { Task, TaskStatus, TaskPriority, CustomFieldDefinition, TeamMember, TaskFilters, TaskGroupBy, TaskSortKey, TaskViewState } from '../types';
 import { TaskItem } from './TaskItem';
-import { exportMultipleTasksToGoogleCalendar } from '../services/calendarService';
+import { SavedViewControls, SavedViewSelector } from './SavedViewSelector';
+import { flattenTaskTree, getAncestorIds, getRollupProgress } from '../services/hierarchyService';
+import { hasCustomFieldOptions } from '../services/customFieldService';
+import { getAllTags, getTagColor, TagMatchMode } from '../services/tagService';
+import { matchesSearchQuery, SearchQuery } from '../services/searchService';
+import { BUILT_IN_SORT_KEYS, DEFAULT_VIEW_STATE, getTaskComparator, groupTasks, GROUP_BY_LABELS, matchesTaskFilters } from '../services/viewService';
+import { exportMultipleTasksToGoogleCalendar, downloadTasksAsIcs, parseIcs, IcsComponentType } from '../services/calendarService';
 import { 
   ChevronUpIcon, 
   ChevronDownIcon, 
   CalendarIcon,
   CheckIcon,
   DeleteIcon,
+  DownloadIcon,
+  UploadIcon,
   iconSizes
 } from './icons';
 
@@ -18,42 +26,55 @@ interface TaskListProps {
   onDeleteTask: (taskId: string) => void;
   onBulkUpdate?: (tasks: Task[]) => void;
   onReorderTasks?: (reorderedTasks: Task[]) => void;
+  onImportTasks?: (importedTasks: Task[]) => void;
+  onAddSubtask?: (parentId: string) => void;
+  customFields?: CustomFieldDefinition[];
+  team?: TeamMember[];
+  tagColors?: Record<string, string>;
+  searchQuery?: SearchQuery; // 全体の検索ボックスの条件（一致する語句は強調表示する）
+  viewState?: TaskViewState; // 絞り込み・並べ替え・グループ化（渡さなければ一覧の中だけで持つ）
+  onViewStateChange?: (viewState: TaskViewState) => void;
+  savedViewControls?: SavedViewControls; // 渡すと保存ビューを選べるようにする
   isInSplitView?: boolean;
 }
 
-type SortKey = 'startDate' | 'endDate' | 'priority' | 'status';
-type SortOrder = 'asc' | 'desc';
-
-interface FilterState {
-  status: TaskStatus | 'all';
-  priority: TaskPriority | 'all';
-  dateRange: 'all' | 'today' | 'thisWeek' | 'thisMonth';
-}
-
-const SORT_LABELS: { [key in SortKey]: string } = {
+const SORT_LABELS: Record<string, string> = {
   startDate: '開始日',
   endDate: '終了日',
   priority: '優先度',
   status: 'ステータス',
 };
 
-export const TaskList: React.FC<TaskListProps> = ({ tasks, onEditTask, onDeleteTask, onBulkUpdate, onReorderTasks, isInSplitView = false }) => {
-  const [sortKey, setSortKey] = useState<SortKey>('startDate');
-  const [sortOrder, setSortOrder] = useState<SortOrder>('asc');
+export const TaskList: React.FC<TaskListProps> = ({ tasks, onEditTask, onDeleteTask, onBulkUpdate, onReorderTasks, onImportTasks, onAddSubtask, customFields = [], team = [], tagColors = {}, searchQuery, viewState: viewStateProp, onViewStateChange, savedViewControls, isInSplitView = false }) => {
+  const [localViewState, setLocalViewState] = useState<TaskViewState>(DEFAULT_VIEW_STATE);
   const [selectedTasks, setSelectedTasks] = useState<Set<string>>(new Set());
   const [isSelectionMode, setIsSelectionMode] = useState(false);
-  const [filters, setFilters] = useState<FilterState>({
-    status: 'all',
-    priority: 'all',
-    dateRange: 'all'
-  });
+  const [collapsedTaskIds, setCollapsedTaskIds] = useState<Set<string>>(new Set());
+  const [icsComponent, setIcsComponent] = useState<IcsComponentType>('VEVENT');
+  const icsFileInputRef = useRef<HTMLInputElement>(null);
+  const viewState = viewStateProp ?? localViewState;
+  const { filters, sortKey, sortOrder, groupBy } = viewState;
+
+  const updateViewState = (changes: Partial<TaskViewState>) => {
+    const next = { ...viewState, ...changes };
+    if (onViewStateChange) onViewStateChange(next);
+    else setLocalViewState(next);
+  };
+  const setFilters = (next: TaskFilters) => updateViewState({ filters: next });
+  const allTags = getAllTags(tasks);
+
+  const toggleTagFilter = (tag: string) => {
+    setFilters({ ...filters, tags: filters.tags.includes(tag) ? filters.tags.filter(t => t !== tag) : [...filters.tags, tag] });
+  };
+
+  const findSortField = (key: TaskSortKey) => customFields.find(field => key === `custom:${field.id}`);
+  const filterField = customFields.find(field => field.id === filters.customFieldId);
 
-  const handleSort = (key: SortKey) => {
+  const handleSort = (key: TaskSortKey) => {
     if (sortKey === key) {
-      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+      updateViewState({ sortOrder: sortOrder === 'asc' ? 'desc' : 'asc' });
     } else {
-      setSortKey(key);
-      setSortOrder('asc');
+      updateViewState({ sortKey: key, sortOrder: 'asc' });
     }
   };
 
@@ -61,6 +82,31 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, onEditTask, onDeleteT
     exportMultipleTasksToGoogleCalendar(tasks);
   };
 
+  const handleExportAllToIcs = () => {
+    downloadTasksAsIcs(tasks, tasks, 'tasks.ics', { component: icsComponent });
+  };
+
+  const handleExportSelectedToIcs = () => {
+    const selected = tasks.filter(task => selectedTasks.has(task.id));
+    downloadTasksAsIcs(selected, tasks, 'selected-tasks.ics', { component: icsComponent });
+  };
+
+  const handleImportIcs = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // 同じファイルを続けて選択できるようにする
+    if (!file || !onImportTasks) return;
+
+    const { tasks: importedTasks, errors } = parseIcs(await file.text());
+    if (errors.length > 0) {
+      alert(`取り込めなかった予定があります:\n${errors.join('\n')}`);
+    }
+    if (importedTasks.length === 0) {
+      if (errors.length === 0) alert('ファイルに取り込める予定（VEVENT / VTODO）がありませんでした。');
+      return;
+    }
+    onImportTasks(importedTasks);
+  };
+
   const handleTaskSelection = (taskId: string, isSelected: boolean) => {
     const newSelectedTasks = new Set(selectedTasks);
     if (isSelected) {
@@ -98,6 +144,18 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, onEditTask, onDeleteT
     setIsSelectionMode(false);
   };
 
+  const handleToggleCollapse = (taskId: string) => {
+    setCollapsedTaskIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
+
   const toggleSelectionMode = () => {
     setIsSelectionMode(!isSelectionMode);
     if (isSelectionMode) {
@@ -105,99 +163,46 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, onEditTask, onDeleteT
     }
   };
 
-  const applyFilters = (tasks: Task[]): Task[] => {
-    return tasks.filter(task => {
-      // Status filter
-      if (filters.status !== 'all' && task.status !== filters.status) {
-        return false;
-      }
-      
-      // Priority filter
-      if (filters.priority !== 'all' && task.priority !== filters.priority) {
-        return false;
-      }
-      
-      // Date range filter
-      if (filters.dateRange !== 'all') {
-        const taskDate = new Date(task.startDate);
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        
-        switch (filters.dateRange) {
-          case 'today':
-            const todayEnd = new Date(today);
-            todayEnd.setHours(23, 59, 59, 999);
-            if (taskDate < today || taskDate > todayEnd) return false;
-            break;
-          case 'thisWeek':
-            const weekStart = new Date(today);
-            weekStart.setDate(today.getDate() - today.getDay());
-            const weekEnd = new Date(weekStart);
-            weekEnd.setDate(weekStart.getDate() + 6);
-            weekEnd.setHours(23, 59, 59, 999);
-            if (taskDate < weekStart || taskDate > weekEnd) return false;
-            break;
-          case 'thisMonth':
-            const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
-            const monthEnd = new Date(today.getFullYear(), today.getMonth() + 1, 0);
-            monthEnd.setHours(23, 59, 59, 999);
-            if (taskDate < monthStart || taskDate > monthEnd) return false;
-            break;
-        }
-      }
-      
-      return true;
-    });
-  };
+  const applyFilters = (tasks: Task[]): Task[] =>
+    tasks.filter(task => matchesTaskFilters(task, filters, customFields) && (!searchQuery || matchesSearchQuery(task, searchQuery, team)));
 
   const handleDragEnd = (result: DropResult) => {
     if (!result.destination || !onReorderTasks) {
       return;
     }
 
-    const items = Array.from(sortedTasks);
+    const items = treeRows.map(row => row.task);
     const [reorderedItem] = items.splice(result.source.index, 1);
     items.splice(result.destination.index, 0, reorderedItem);
 
-    onReorderTasks(items);
+    // 折りたたみやフィルタで表示されていないタスクも失わないよう末尾に残す（表示時は親の下に並ぶ）
+    const visibleIds = new Set(items.map(task => task.id));
+    onReorderTasks([...items, ...tasks.filter(task => !visibleIds.has(task.id))]);
   };
 
+  const compareTasks = getTaskComparator(sortKey, sortOrder, customFields);
+
+  // 条件に一致したタスクの親も階層の文脈として表示し、兄弟の中で並べ替える
   const filteredTasks = applyFilters(tasks);
-  const sortedTasks = [...filteredTasks].sort((a, b) => {
-    let aValue: any = a[sortKey];
-    let bValue: any = b[sortKey];
-    if (sortKey === 'priority') {
-      // High > Medium > Low
-      const order = { High: 3, Medium: 2, Low: 1 };
-      aValue = order[a.priority];
-      bValue = order[b.priority];
-    } else if (sortKey === 'status') {
-      // In Progress > Not Started > Completed
-      const order = { 'In Progress': 2, 'Not Started': 1, 'Completed': 0 };
-      aValue = order[a.status];
-      bValue = order[b.status];
-    } else if (sortKey === 'startDate' || sortKey === 'endDate') {
-      aValue = new Date(aValue).getTime();
-      bValue = new Date(bValue).getTime();
-    }
-    if (aValue < bValue) return sortOrder === 'asc' ? -1 : 1;
-    if (aValue > bValue) return sortOrder === 'asc' ? 1 : -1;
-    return 0;
-  });
+  const displayedIds = new Set(filteredTasks.flatMap(task => [task.id, ...getAncestorIds(tasks, task.id)]));
+  const treeRows = flattenTaskTree(tasks.filter(task => displayedIds.has(task.id)), collapsedTaskIds, compareTasks);
+  // グループ化するときは階層ではなく、一致したタスクだけを並べ替えて各グループに並べる
+  const taskGroups = groupBy === 'none' ? [] : groupTasks([...filteredTasks].sort(compareTasks), groupBy, team);
 
   if (tasks.length === 0) {
     return <p className="text-center text-slate-400 py-8">No tasks yet. Add one to get started!</p>;
   }
 
-  if (filteredTasks.length === 0) {
-    return <p className="text-center text-slate-400 py-8">フィルタ条件に一致するタスクがありません。</p>;
-  }
-
   return (
     <div className={`${isInSplitView ? 'h-full overflow-hidden' : ''} flex flex-col`}>
       <div className={`${isInSplitView ? 'flex-shrink-0' : ''} space-y-4`}>
         {/* Filter Controls */}
         <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700/50 shadow-sm">
+          {savedViewControls && (
+            <div className="mb-4 pb-3 border-b border-slate-700/50">
+              <SavedViewSelector {...savedViewControls} />
+            </div>
+          )}
           <div className="flex flex-col sm:flex-row flex-wrap gap-4 mb-4">
             <div className="flex items-center gap-2">
               <label className="text-sm font-medium text-slate-300">ステータス:</label>
@@ -229,7 +234,7 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, onEditTask, onDeleteT
               <label className="text-sm font-medium text-slate-300">期間:</label>
               <select
                 value={filters.dateRange}
-                onChange={(e) => setFilters({...filters, dateRange: e.target.value as FilterState['dateRange']})}
+                onChange={(e) => setFilters({...filters, dateRange: e.target.value as TaskFilters['dateRange']})}
                 className="bg-slate-700 border-slate-600 text-slate-100 text-sm rounded px-3 py-1.5 min-w-[120px] focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
               >
                 <option value="all">すべて</option>
@@ -238,13 +243,97 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, onEditTask, onDeleteT
                 <option value="thisMonth">今月</option>
               </select>
             </div>
+            {team.length > 0 && (
+              <div className="flex items-center gap-2">
+                <label className="text-sm font-medium text-slate-300">担当者:</label>
+                <select
+                  value={filters.assignee}
+                  onChange={(e) => setFilters({...filters, assignee: e.target.value})}
+                  className="bg-slate-700 border-slate-600 text-slate-100 text-sm rounded px-3 py-1.5 min-w-[120px] focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                >
+                  <option value="all">すべて</option>
+                  <option value="unassigned">担当者なし</option>
+                  {team.map(member => (
+                    <option key={member.id} value={member.id}>{member.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {customFields.length > 0 && (
+              <div className="flex items-center gap-2">
+                <select
+                  value={filters.customFieldId}
+                  onChange={(e) => setFilters({...filters, customFieldId: e.target.value, customFieldValue: ''})}
+                  aria-label="絞り込む項目"
+                  className="bg-slate-700 border-slate-600 text-slate-100 text-sm rounded px-3 py-1.5 min-w-[120px] focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                >
+                  <option value="">項目を選択</option>
+                  {customFields.map(field => (
+                    <option key={field.id} value={field.id}>{field.name}</option>
+                  ))}
+                </select>
+                {filterField && (hasCustomFieldOptions(filterField.type) ? (
+                  <select
+                    value={filters.customFieldValue}
+                    onChange={(e) => setFilters({...filters, customFieldValue: e.target.value})}
+                    aria-label={`${filterField.name}の値`}
+                    className="bg-slate-700 border-slate-600 text-slate-100 text-sm rounded px-3 py-1.5 min-w-[120px] focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                  >
+                    <option value="">すべて</option>
+                    {(filterField.options ?? []).map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type="text"
+                    value={filters.customFieldValue}
+                    onChange={(e) => setFilters({...filters, customFieldValue: e.target.value})}
+                    placeholder="含む文字"
+                    aria-label={`${filterField.name}の値`}
+                    className="bg-slate-700 border-slate-600 text-slate-100 text-sm rounded px-3 py-1.5 w-32 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                  />
+                ))}
+              </div>
+            )}
+            {allTags.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <label className="text-sm font-medium text-slate-300">タグ:</label>
+                {allTags.map(tag => {
+                  const isSelected = filters.tags.includes(tag);
+                  return (
+                    <button
+                      key={tag}
+                      type="button"
+                      onClick={() => toggleTagFilter(tag)}
+                      aria-pressed={isSelected}
+                      className={`px-2 py-0.5 text-xs font-medium rounded-full transition-colors ${isSelected ? 'text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                      style={isSelected ? { backgroundColor: getTagColor(tag, tagColors) } : undefined}
+                    >
+                      {tag}
+                    </button>
+                  );
+                })}
+                {filters.tags.length > 1 && (
+                  <select
+                    value={filters.tagMatch}
+                    onChange={(e) => setFilters({...filters, tagMatch: e.target.value as TagMatchMode})}
+                    aria-label="タグの条件"
+                    className="bg-slate-700 border-slate-600 text-slate-100 text-sm rounded px-2 py-1 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                  >
+                    <option value="any">いずれかを含む（OR）</option>
+                    <option value="all">すべてを含む（AND）</option>
+                  </select>
+                )}
+              </div>
+            )}
           </div>
         </div>
 
         {/* Sort and Bulk Actions */}
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-4">
           <div className="flex flex-wrap gap-2">
-            {(['startDate', 'endDate', 'priority', 'status'] as SortKey[]).map(key => {
+            {[...BUILT_IN_SORT_KEYS, ...customFields.map(field => `custom:${field.id}` as TaskSortKey)].map(key => {
               const isActive = sortKey === key;
               let activeClass = '';
               if (isActive) {
@@ -260,7 +349,7 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, onEditTask, onDeleteT
                   onClick={() => handleSort(key)}
                   className={`flex items-center gap-1 px-3 py-1 text-xs rounded border transition-colors font-medium ${activeClass}`}
                 >
-                  <span>{SORT_LABELS[key]}</span>
+                  <span>{findSortField(key)?.name ?? SORT_LABELS[key]}</span>
                   {isActive && (
                     sortOrder === 'asc' 
                       ? <ChevronUpIcon className={iconSizes.xs} /> 
@@ -269,6 +358,16 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, onEditTask, onDeleteT
                 </button>
               );
             })}
+            <select
+              value={groupBy}
+              onChange={(e) => updateViewState({ groupBy: e.target.value as TaskGroupBy })}
+              aria-label="グループ化"
+              className="bg-slate-700 border border-slate-600 text-slate-100 text-xs rounded px-2 py-1 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+            >
+              {(Object.keys(GROUP_BY_LABELS) as TaskGroupBy[]).map(key => (
+                <option key={key} value={key}>グループ: {GROUP_BY_LABELS[key]}</option>
+              ))}
+            </select>
           </div>
           
           <div className="flex flex-wrap gap-2">
@@ -293,6 +392,49 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, onEditTask, onDeleteT
                 全タスクをカレンダーに追加
               </button>
             )}
+
+            <div className="flex items-center gap-1">
+              <select
+                value={icsComponent}
+                onChange={(e) => setIcsComponent(e.target.value as IcsComponentType)}
+                aria-label=".ics の形式"
+                title="予定（VEVENT）として書き出すか、ToDo（VTODO）として書き出すか"
+                className="bg-slate-700 border border-slate-600 rounded-md py-2 px-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-sky-500"
+              >
+                <option value="VEVENT">予定</option>
+                <option value="VTODO">ToDo</option>
+              </select>
+              {tasks.length > 0 && (
+                <button
+                  onClick={handleExportAllToIcs}
+                  className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-300 bg-slate-700 hover:bg-slate-600 rounded-md transition-colors border border-slate-600"
+                  title="全タスクを.icsファイルとしてダウンロード"
+                >
+                  <DownloadIcon className={iconSizes.sm} />
+                  .ics
+                </button>
+              )}
+              {onImportTasks && (
+                <>
+                  <button
+                    onClick={() => icsFileInputRef.current?.click()}
+                    className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-300 bg-slate-700 hover:bg-slate-600 rounded-md transition-colors border border-slate-600"
+                    title=".icsファイルからタスクを取り込む"
+                  >
+                    <UploadIcon className={iconSizes.sm} />
+                    取り込み
+                  </button>
+                  <input
+                    ref={icsFileInputRef}
+                    type="file"
+                    accept=".ics,text/calendar"
+                    onChange={handleImportIcs}
+                    className="hidden"
+                    data-testid="ics-file-input"
+                  />
+                </>
+              )}
+            </div>
           </div>
         </div>
 
@@ -327,6 +469,14 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, onEditTask, onDeleteT
                   <CheckIcon className={iconSizes.xs} />
                   完了に変更
                 </button>
+                <button
+                  onClick={handleExportSelectedToIcs}
+                  className="flex items-center gap-1 px-3 py-1 text-xs font-medium bg-slate-600 hover:bg-slate-500 text-white rounded transition-colors"
+                  title="選択したタスクを.icsファイルとしてダウンロード"
+                >
+                  <DownloadIcon className={iconSizes.xs} />
+                  .ics書き出し
+                </button>
                 <button
                   onClick={handleBulkDelete}
                   className="flex items-center gap-1 px-3 py-1 text-xs font-medium bg-red-600 hover:bg-red-700 text-white rounded transition-colors"
@@ -342,46 +492,87 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, onEditTask, onDeleteT
 
       {/* Task List with Drag and Drop */}
       <div className={`${isInSplitView ? 'flex-1 overflow-auto mt-4' : 'mt-4'}`}>
-        <DragDropContext onDragEnd={handleDragEnd}>
-          <Droppable droppableId="tasks">
-            {(provided) => (
-              <div
-                {...provided.droppableProps}
-                ref={provided.innerRef}
-                className="space-y-3"
-              >
-                {sortedTasks.map((task, index) => (
-                  <Draggable 
-                    key={task.id} 
-                    draggableId={task.id} 
-                    index={index}
-                    isDragDisabled={isSelectionMode}
-                  >
-                    {(provided, snapshot) => (
-                      <div
-                        ref={provided.innerRef}
-                        {...provided.draggableProps}
-                        {...provided.dragHandleProps}
-                        className={`${snapshot.isDragging ? 'opacity-75 rotate-1' : ''}`}
-                      >
-                        <TaskItem
-                          task={task}
-                          onEdit={onEditTask}
-                          onDelete={onDeleteTask}
-                          allTasks={tasks}
-                          isSelectionMode={isSelectionMode}
-                          isSelected={selectedTasks.has(task.id)}
-                          onSelectionChange={handleTaskSelection}
-                        />
-                      </div>
-                    )}
-                  </Draggable>
+        {filteredTasks.length === 0 ? (
+          <p className="text-center text-slate-400 py-8">フィルタ条件に一致するタスクがありません。</p>
+        ) : groupBy !== 'none' ? (
+          <div className="space-y-6">
+            {taskGroups.map(group => (
+              <section key={group.key} aria-label={`${GROUP_BY_LABELS[groupBy]}: ${group.label}`} className="space-y-3">
+                <h3 className="text-sm font-semibold text-slate-300 border-b border-slate-700/50 pb-1">
+                  {group.label} <span className="text-xs font-normal text-slate-500">{group.tasks.length}件</span>
+                </h3>
+                {group.tasks.map(task => (
+                  <TaskItem
+                    key={task.id}
+                    task={task}
+                    onEdit={onEditTask}
+                    onDelete={onDeleteTask}
+                    allTasks={tasks}
+                    isSelectionMode={isSelectionMode}
+                    isSelected={selectedTasks.has(task.id)}
+                    onSelectionChange={handleTaskSelection}
+                    onAddSubtask={onAddSubtask}
+                    customFields={customFields}
+                    team={team}
+                    tagColors={tagColors}
+                    highlightTerms={searchQuery?.terms}
+                  />
                 ))}
-                {provided.placeholder}
-              </div>
-            )}
-          </Droppable>
-        </DragDropContext>
+              </section>
+            ))}
+          </div>
+        ) : (
+          <DragDropContext onDragEnd={handleDragEnd}>
+            <Droppable droppableId="tasks">
+              {(provided) => (
+                <div
+                  {...provided.droppableProps}
+                  ref={provided.innerRef}
+                  className="space-y-3"
+                >
+                  {treeRows.map(({ task, depth, hasChildren }, index) => (
+                    <Draggable 
+                      key={task.id} 
+                      draggableId={task.id} 
+                      index={index}
+                      isDragDisabled={isSelectionMode}
+                    >
+                      {(provided, snapshot) => (
+                        <div
+                          ref={provided.innerRef}
+                          {...provided.draggableProps}
+                          {...provided.dragHandleProps}
+                          className={`${snapshot.isDragging ? 'opacity-75 rotate-1' : ''}`}
+                          style={{ ...provided.draggableProps.style, marginLeft: depth > 0 ? `${depth * 1.5}rem` : undefined }}
+                        >
+                          <TaskItem
+                            task={task}
+                            onEdit={onEditTask}
+                            onDelete={onDeleteTask}
+                            allTasks={tasks}
+                            isSelectionMode={isSelectionMode}
+                            isSelected={selectedTasks.has(task.id)}
+                            onSelectionChange={handleTaskSelection}
+                            hasSubtasks={hasChildren}
+                            isCollapsed={collapsedTaskIds.has(task.id)}
+                            onToggleCollapse={handleToggleCollapse}
+                            rollupProgress={hasChildren ? getRollupProgress(tasks, task.id) : undefined}
+                            onAddSubtask={onAddSubtask}
+                            customFields={customFields}
+                            team={team}
+                            tagColors={tagColors}
+                            highlightTerms={searchQuery?.terms}
+                          />
+                        </div>
+                      )}
+                    </Draggable>
+                  ))}
+                  {provided.placeholder}
+                </div>
+              )}
+            </Droppable>
+          </DragDropContext>
+        )}
       </div>
     </div>
   );
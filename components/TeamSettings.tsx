@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { TeamMember } from '../types';
+import { createTeamMember, normalizeTeam } from '../services/teamService';
+import { AssigneeAvatars } from './AssigneeAvatars';
+import { AddIcon, DeleteIcon, iconSizes } from './icons';
+
+interface TeamSettingsProps {
+  team: TeamMember[];
+  onSave: (team: TeamMember[]) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = 'bg-slate-700 border-slate-600 rounded-md shadow-sm py-1.5 px-2 focus:outline-none focus:ring-sky-500 focus:border-sky-500 text-sm text-slate-100';
+
+/**
+ * プロジェクトのチームの名簿（タスクの担当者として選べるメンバー）の設定フォーム
+ */
+export const TeamSettings: React.FC<TeamSettingsProps> = ({ team, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<TeamMember[]>(team);
+  const [newMemberName, setNewMemberName] = useState('');
+
+  const updateMember = (id: string, changes: Partial<TeamMember>) => {
+    setDraft(draft.map(member => (member.id === id ? { ...member, ...changes } : member)));
+  };
+
+  const addMember = () => {
+    if (!newMemberName.trim()) return;
+    setDraft([...draft, createTeamMember(newMemberName, draft)]);
+    setNewMemberName('');
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave(normalizeTeam(draft));
+      }}
+      className="space-y-5 text-sm text-slate-300"
+    >
+      <div>
+        <p className="text-xs text-slate-400 mb-2">
+          タスクの担当者として選べるメンバー。YAML の assignees にはメンバーの ID を書きます。
+          稼働率は1日のうちこのプロジェクトに使える割合で、負荷ビューで超過の判定に使います。名簿から外したメンバーはタスクの担当者からも外れます。
+        </p>
+        {draft.length === 0 ? (
+          <p className="text-slate-400 italic">メンバーはまだいません。</p>
+        ) : (
+          <ul className="space-y-2">
+            {draft.map(member => (
+              <li key={member.id} className="flex items-center gap-2 bg-slate-700/50 rounded px-2 py-1.5">
+                <AssigneeAvatars members={[member]} />
+                <input
+                  type="text"
+                  value={member.name}
+                  onChange={(e) => updateMember(member.id, { name: e.target.value })}
+                  aria-label={`${member.id}の名前`}
+                  className={`flex-1 min-w-0 ${inputClassName}`}
+                />
+                <code className="text-xs text-slate-400">{member.id}</code>
+                <input
+                  type="color"
+                  value={member.color}
+                  onChange={(e) => updateMember(member.id, { color: e.target.value })}
+                  aria-label={`${member.name}の色`}
+                  className="h-7 w-8 bg-transparent border-0 p-0 cursor-pointer"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={10}
+                  value={Math.round((member.capacity ?? 1) * 100)}
+                  onChange={(e) => updateMember(member.id, { capacity: Number(e.target.value) / 100 })}
+                  aria-label={`${member.name}の稼働率（%）`}
+                  className={`w-16 ${inputClassName}`}
+                />
+                <span className="text-xs text-slate-400">%</span>
+                <button
+                  type="button"
+                  onClick={() => setDraft(draft.filter(m => m.id !== member.id))}
+                  aria-label={`${member.name}を名簿から外す`}
+                  className="p-1 text-slate-400 hover:text-red-400 rounded"
+                >
+                  <DeleteIcon className={iconSizes.xs} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={newMemberName}
+          onChange={(e) => setNewMemberName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addMember();
+            }
+          }}
+          placeholder="名前（例: Aiko Tanaka）"
+          aria-label="追加するメンバーの名前"
+          className={`flex-1 min-w-0 ${inputClassName}`}
+        />
+        <button type="button" onClick={addMember} disabled={!newMemberName.trim()} aria-label="メンバーを追加" className="p-1.5 text-slate-300 rounded-md hover:bg-slate-700 disabled:opacity-40">
+          <AddIcon className={iconSizes.sm} />
+        </button>
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-slate-300 bg-slate-600 hover:bg-slate-500 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-sky-500"
+        >
+          キャンセル
+        </button>
+        <button
+          type="submit"
+          className="px-4 py-2 text-sm font-medium text-white bg-sky-600 hover:bg-sky-700 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-sky-500"
+        >
+          保存
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { WorkingCalendar } from '../types';
+import { WEEKDAY_TEXT_JP } from '../constants';
+import { getJapaneseHolidays } from '../services/workingCalendarService';
+import { isValidDateString } from '../services/validationService';
+import { getTodayDateString } from '../services/dateService';
+import { AddIcon, DeleteIcon, iconSizes } from './icons';
+
+interface WorkingCalendarSettingsProps {
+  calendar: WorkingCalendar;
+  onSave: (calendar: WorkingCalendar) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = 'bg-slate-700 border-slate-600 rounded-md shadow-sm py-1.5 px-2 focus:outline-none focus:ring-sky-500 focus:border-sky-500 text-sm text-slate-100';
+
+/**
+ * プロジェクトの稼働日カレンダー（稼働曜日・祝日・休日の例外）の設定フォーム
+ */
+export const WorkingCalendarSettings: React.FC<WorkingCalendarSettingsProps> = ({ calendar, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<WorkingCalendar>(calendar);
+  const [holidayDate, setHolidayDate] = useState('');
+  const [holidayName, setHolidayName] = useState('');
+  const [workingDate, setWorkingDate] = useState('');
+
+  const toggleWeekday = (weekday: number) => {
+    const workWeek = draft.workWeek.includes(weekday)
+      ? draft.workWeek.filter(day => day !== weekday)
+      : [...draft.workWeek, weekday].sort((a, b) => a - b);
+    setDraft({ ...draft, workWeek });
+  };
+
+  const addHoliday = () => {
+    if (!isValidDateString(holidayDate) || draft.holidays.some(h => h.date === holidayDate)) return;
+    const holidays = [...draft.holidays, { date: holidayDate, name: holidayName.trim() || '休日' }]
+      .sort((a, b) => a.date.localeCompare(b.date));
+    setDraft({ ...draft, holidays });
+    setHolidayDate('');
+    setHolidayName('');
+  };
+
+  const addWorkingDay = () => {
+    if (!isValidDateString(workingDate) || draft.workingDays.includes(workingDate)) return;
+    setDraft({ ...draft, workingDays: [...draft.workingDays, workingDate].sort() });
+    setWorkingDate('');
+  };
+
+  const currentYear = Number(getTodayDateString().slice(0, 4));
+  const upcomingJapaneseHolidays = [...getJapaneseHolidays(currentYear), ...getJapaneseHolidays(currentYear + 1)];
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave(draft);
+      }}
+      className="space-y-5 text-sm text-slate-300"
+    >
+      <fieldset>
+        <legend className="block text-sm font-medium text-slate-300 mb-2">稼働曜日</legend>
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAY_TEXT_JP.map((label, weekday) => (
+            <label key={label} className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={draft.workWeek.includes(weekday)}
+                onChange={() => toggleWeekday(weekday)}
+                className="form-checkbox h-4 w-4 text-sky-600 bg-slate-800 border-slate-500 rounded focus:ring-sky-500"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        {draft.workWeek.length === 0 && (
+          <p className="mt-1 text-xs text-amber-300">稼働曜日がない場合は、すべての曜日を稼働日として扱います。</p>
+        )}
+      </fieldset>
+
+      <div>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={draft.useJapaneseHolidays}
+            onChange={(e) => setDraft({ ...draft, useJapaneseHolidays: e.target.checked })}
+            className="form-checkbox h-4 w-4 text-sky-600 bg-slate-800 border-slate-500 rounded focus:ring-sky-500"
+          />
+          日本の祝日を休みにする（振替休日・国民の休日を含む）
+        </label>
+        {draft.useJapaneseHolidays && (
+          <details className="mt-1 ml-6 text-xs text-slate-400">
+            <summary className="cursor-pointer">{currentYear}〜{currentYear + 1}年の祝日を表示</summary>
+            <ul className="mt-1 max-h-32 overflow-y-auto space-y-0.5">
+              {upcomingJapaneseHolidays.map(holiday => (
+                <li key={holiday.date}>{holiday.date} {holiday.name}</li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </div>
+
+      <div>
+        <p className="block text-sm font-medium text-slate-300 mb-1">プロジェクトの休日</p>
+        <p className="text-xs text-slate-400 mb-2">会社の休業日など、このプロジェクトで作業しない日。</p>
+        <ul className="space-y-1 mb-2">
+          {draft.holidays.map(holiday => (
+            <li key={holiday.date} className="flex items-center justify-between bg-slate-700/50 rounded px-2 py-1">
+              <span>{holiday.date} {holiday.name}</span>
+              <button
+                type="button"
+                onClick={() => setDraft({ ...draft, holidays: draft.holidays.filter(h => h.date !== holiday.date) })}
+                aria-label={`${holiday.date}を休日から外す`}
+                className="p-1 text-slate-400 hover:text-red-400 rounded"
+              >
+                <DeleteIcon className={iconSizes.xs} />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex items-center gap-2">
+          <input type="date" value={holidayDate} onChange={(e) => setHolidayDate(e.target.value)} aria-label="休日の日付" className={inputClassName} />
+          <input type="text" value={holidayName} onChange={(e) => setHolidayName(e.target.value)} placeholder="名前（例: 夏季休業）" aria-label="休日の名前" className={`flex-1 min-w-0 ${inputClassName}`} />
+          <button type="button" onClick={addHoliday} disabled={!isValidDateString(holidayDate)} aria-label="休日を追加" className="p-1.5 text-slate-300 rounded-md hover:bg-slate-700 disabled:opacity-40">
+            <AddIcon className={iconSizes.sm} />
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <p className="block text-sm font-medium text-slate-300 mb-1">休日出勤（例外の稼働日）</p>
+        <p className="text-xs text-slate-400 mb-2">土日や祝日でも作業する日。休日の設定より優先されます。</p>
+        <ul className="space-y-1 mb-2">
+          {draft.workingDays.map(date => (
+            <li key={date} className="flex items-center justify-between bg-slate-700/50 rounded px-2 py-1">
+              <span>{date}</span>
+              <button
+                type="button"
+                onClick={() => setDraft({ ...draft, workingDays: draft.workingDays.filter(d => d !== date) })}
+                aria-label={`${date}を稼働日から外す`}
+                className="p-1 text-slate-400 hover:text-red-400 rounded"
+              >
+                <DeleteIcon className={iconSizes.xs} />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex items-center gap-2">
+          <input type="date" value={workingDate} onChange={(e) => setWorkingDate(e.target.value)} aria-label="稼働日にする日付" className={inputClassName} />
+          <button type="button" onClick={addWorkingDay} disabled={!isValidDateString(workingDate)} aria-label="稼働日を追加" className="p-1.5 text-slate-300 rounded-md hover:bg-slate-700 disabled:opacity-40">
+            <AddIcon className={iconSizes.sm} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-slate-300 bg-slate-600 hover:bg-slate-500 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-sky-500"
+        >
+          キャンセル
+        </button>
+        <button
+          type="submit"
+          className="px-4 py-2 text-sm font-medium text-white bg-sky-600 hover:bg-sky-700 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-sky-500"
+        >
+          保存
+        </button>
+      </div>
+    </form>
+  );
+};
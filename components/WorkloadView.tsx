@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Task, TeamMember, WorkingCalendar } from '../types';
+import { addDays, formatDate, getStartOfWeek, getTodayDateString } from '../services/dateService';
+import { calculateWorkload, getWeekStarts, isWorkloadTask, WeeklyWorkload } from '../services/workloadService';
+import { DEFAULT_WORKING_CALENDAR } from '../services/workingCalendarService';
+import { AssigneeAvatars } from './AssigneeAvatars';
+import { ChevronRightIcon, iconSizes } from './icons';
+
+interface WorkloadViewProps {
+  tasks: Task[];
+  team: TeamMember[];
+  workingCalendar?: WorkingCalendar;
+  onOpenTeamSettings?: () => void;
+}
+
+const WEEK_COUNT = 8;
+
+const formatDays = (days: number): string => String(Math.round(days * 10) / 10);
+
+const getCellClassName = (week: WeeklyWorkload): string => {
+  if (week.isOverAllocated) return 'bg-red-500/30 text-red-100 font-semibold';
+  if (week.allocatedDays === 0) return 'text-slate-500';
+  if (week.allocatedDays >= week.capacityDays * 0.8) return 'bg-amber-500/20 text-amber-100';
+  return 'bg-sky-500/15 text-sky-100';
+};
+
+/**
+ * メンバーごとの週単位の負荷（割り当て稼働日数 / 稼働可能日数）を表で表示し、超過している週を強調する
+ */
+export const WorkloadView: React.FC<WorkloadViewProps> = ({ tasks, team, workingCalendar = DEFAULT_WORKING_CALENDAR, onOpenTeamSettings }) => {
+  const thisWeek = getStartOfWeek(getTodayDateString());
+  const [firstWeek, setFirstWeek] = useState(thisWeek);
+
+  if (team.length === 0) {
+    return (
+      <div className="text-center text-slate-400 py-8 space-y-3">
+        <p>チームのメンバーがいません。メンバーを追加して、タスクに担当者を割り当てると負荷を確認できます。</p>
+        {onOpenTeamSettings && (
+          <button type="button" onClick={onOpenTeamSettings} className="px-4 py-2 text-sm font-medium text-white bg-sky-600 hover:bg-sky-700 rounded-md">
+            チームを設定
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const weekStarts = getWeekStarts(firstWeek, WEEK_COUNT);
+  const workloads = calculateWorkload(tasks, team, workingCalendar, weekStarts);
+  const overAllocatedMembers = workloads.filter(workload => workload.weeks.some(week => week.isOverAllocated));
+  const unassignedCount = tasks.filter(task => isWorkloadTask(task, tasks) && !task.assignees?.length).length;
+  const taskName = (taskId: string) => tasks.find(task => task.id === taskId)?.name || taskId;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm">
+          {overAllocatedMembers.length > 0 ? (
+            <p className="text-red-300">⚠ 負荷が超過しているメンバー: {overAllocatedMembers.map(workload => workload.member.name).join('、')}</p>
+          ) : (
+            <p className="text-slate-400">表示中の期間に負荷が超過しているメンバーはいません。</p>
+          )}
+          {unassignedCount > 0 && <p className="text-slate-400">担当者のいない未完了のタスク: {unassignedCount}件</p>}
+        </div>
+        <div className="flex items-center gap-1">
+          <button type="button" onClick={() => setFirstWeek(addDays(firstWeek, -7 * WEEK_COUNT))} aria-label="前の期間" className="p-1.5 text-slate-300 rounded-md hover:bg-slate-700">
+            <ChevronRightIcon className={`${iconSizes.sm} rotate-180`} />
+          </button>
+          <button type="button" onClick={() => setFirstWeek(thisWeek)} className="px-2 py-1 text-xs text-slate-300 rounded-md hover:bg-slate-700">今週</button>
+          <button type="button" onClick={() => setFirstWeek(addDays(firstWeek, 7 * WEEK_COUNT))} aria-label="次の期間" className="p-1.5 text-slate-300 rounded-md hover:bg-slate-700">
+            <ChevronRightIcon className={iconSizes.sm} />
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="text-slate-400 text-xs">
+              <th className="text-left font-medium py-2 pr-3">メンバー</th>
+              {weekStarts.map(weekStart => (
+                <th
+                  key={weekStart}
+                  className={`font-medium py-2 px-2 text-center whitespace-nowrap ${weekStart === thisWeek ? 'text-sky-300' : ''}`}
+                  title={`${weekStart} 〜 ${addDays(weekStart, 6)}`}
+                >
+                  {formatDate(weekStart, { month: 'numeric', day: 'numeric' }, 'ja-JP')}〜
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {workloads.map(({ member, weeks }) => (
+              <tr key={member.id} className="border-t border-slate-700/50">
+                <th scope="row" className="text-left font-normal py-2 pr-3 whitespace-nowrap">
+                  <span className="flex items-center gap-2">
+                    <AssigneeAvatars members={[member]} />
+                    <span className="text-slate-200">{member.name}</span>
+                    {member.capacity !== undefined && <span className="text-xs text-slate-500">{Math.round(member.capacity * 100)}%</span>}
+                  </span>
+                </th>
+                {weeks.map(week => (
+                  <td
+                    key={week.weekStart}
+                    className={`py-2 px-2 text-center rounded ${getCellClassName(week)}`}
+                    title={week.taskIds.length > 0 ? week.taskIds.map(taskName).join('\n') : undefined}
+                  >
+                    {formatDays(week.allocatedDays)}/{formatDays(week.capacityDays)}日
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-400">
+        各週の「担当タスクの稼働日数の合計 / 稼働できる日数（稼働日 × 稼働率）」。並行するタスクはそれぞれ数え、完了したタスク・マイルストーン・サブタスクを持つタスクは含めません。
+      </p>
+    </div>
+  );
+};
@@ -17,6 +17,7 @@ import {
   X,
   ChevronUp,
   ChevronDown,
+  ChevronRight,
   Grip,
   ZoomIn,
   ZoomOut,
@@ -25,7 +26,15 @@ import {
   Search,
   Settings,
   MoreHorizontal,
-  ExternalLink
+  ExternalLink,
+  Undo2,
+  Redo2,
+  Download,
+  Upload,
+  Diamond,
+  Users,
+  Gauge,
+  Tag
 } from 'lucide-react';
 import type { LucideProps } from 'lucide-react';
 
@@ -74,10 +83,12 @@ export const CloseIcon = (props: LucideProps) => <X {...props} />;
 export const ListViewIcon = (props: LucideProps) => <List {...props} />;
 export const GanttViewIcon = (props: LucideProps) => <BarChart3 {...props} />;
 export const AiViewIcon = (props: LucideProps) => <Brain {...props} />;
+export const WorkloadViewIcon = (props: LucideProps) => <Gauge {...props} />;
 
 // Utility Icons
 export const ChevronUpIcon = (props: LucideProps) => <ChevronUp {...props} />;
 export const ChevronDownIcon = (props: LucideProps) => <ChevronDown {...props} />;
+export const ChevronRightIcon = (props: LucideProps) => <ChevronRight {...props} />;
 export const GripIcon = (props: LucideProps) => <Grip {...props} />;
 export const ZoomInIcon = (props: LucideProps) => <ZoomIn {...props} />;
 export const ZoomOutIcon = (props: LucideProps) => <ZoomOut {...props} />;
@@ -87,6 +98,13 @@ export const SearchIcon = (props: LucideProps) => <Search {...props} />;
 export const SettingsIcon = (props: LucideProps) => <Settings {...props} />;
 export const MoreIcon = (props: LucideProps) => <MoreHorizontal {...props} />;
 export const ExternalLinkIcon = (props: LucideProps) => <ExternalLink {...props} />;
+export const UndoIcon = (props: LucideProps) => <Undo2 {...props} />;
+export const RedoIcon = (props: LucideProps) => <Redo2 {...props} />;
+export const DownloadIcon = (props: LucideProps) => <Download {...props} />;
+export const UploadIcon = (props: LucideProps) => <Upload {...props} />;
+export const MilestoneIcon = (props: LucideProps) => <Diamond {...props} />;
+export const TeamIcon = (props: LucideProps) => <Users {...props} />;
+export const TagIcon = (props: LucideProps) => <Tag {...props} />;
 
 // Icon size presets
 export const iconSizes = {
@@ -1,4 +1,4 @@
-import { TaskPriority, TaskStatus } from './types';
+import { CustomFieldType, DependencyType, TaskPriority, TaskStatus } from './types';
 
 export const APP_TITLE = "AI Powered TODO App";
 
@@ -29,6 +29,31 @@ export const PRIORITY_TEXT_JP: { [key in TaskPriority]: string } = {
   "Low": "低",
 };
 
+export const DEPENDENCY_TYPE_TEXT_JP: { [key in DependencyType]: string } = {
+  "FS": "終了→開始",
+  "SS": "開始→開始",
+  "FF": "終了→終了",
+  "SF": "開始→終了",
+};
+
+export const CUSTOM_FIELD_TYPE_TEXT_JP: { [key in CustomFieldType]: string } = {
+  "text": "テキスト",
+  "number": "数値",
+  "date": "日付",
+  "select": "選択",
+  "multiSelect": "複数選択",
+  "url": "URL",
+};
+
+// チームメンバーのアバターの色（追加した順に割り当てる）
+export const MEMBER_COLORS = ['#0ea5e9', '#f97316', '#22c55e', '#a855f7', '#ec4899', '#eab308', '#14b8a6', '#ef4444'];
+
+// 色を設定していないタグの色（タグ名から決める）
+export const TAG_COLORS = ['#0284c7', '#7c3aed', '#059669', '#d97706', '#db2777', '#4f46e5', '#0d9488', '#dc2626'];
+
+// 曜日（0 = 日曜日 ... 6 = 土曜日）
+export const WEEKDAY_TEXT_JP = ['日', '月', '火', '水', '木', '金', '土'];
+
 export const GEMINI_TEXT_MODEL = 'gemini-2.5-flash-preview-04-17';
 
 export const INITIAL_TASKS_YAML = `
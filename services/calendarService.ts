@@ -1,4 +1,7 @@
-import { Task } from '../types';
+import { Task, TaskStatus, TaskPriority, DependencyLink, DependencyType } from '../types';
+import { clampProgress, getTaskProgress } from './progressService';
+import { withDependencies } from './dependencyService';
+import { addDays, getLocalTimeZone } from './dateService';
 
 /**
  * Google Calendar URL スキームを使用してタスクをカレンダーイベントとしてエクスポートするサービス
@@ -10,37 +13,20 @@ interface GoogleCalendarEventParams {
   startDate: string;
   endDate: string;
   timezone?: string;
+  allDay?: boolean; // true の場合、同じ日でも終日イベントにする（マイルストーン）
 }
 
 /**
  * 日付文字列をGoogle Calendar用のフォーマット（YYYYMMDD）に変換
  */
-const formatDateForGoogleCalendar = (dateString: string): string => {
-  const date = new Date(dateString);
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}${month}${day}`;
-};
+const formatDateForGoogleCalendar = (dateString: string): string => dateString.replace(/-/g, '');
 
 /**
- * 日付文字列をGoogle Calendar用の日時フォーマット（YYYYMMDDTHHMMSSZ）に変換
- * 開始時刻を9:00、終了時刻を18:00にデフォルト設定
+ * 日付文字列をGoogle Calendar用の日時フォーマット（YYYYMMDDTHHMMSS）に変換
+ * 開始時刻を9:00、終了時刻を18:00にデフォルト設定（時刻は ctz で指定したタイムゾーンで解釈される）
  */
-const formatDateTimeForGoogleCalendar = (dateString: string, isEndDate: boolean = false): string => {
-  const date = new Date(dateString);
-  // JSTのタイムゾーンオフセットを考慮（UTC+9）
-  date.setHours(isEndDate ? 18 : 9, 0, 0, 0); // 開始: 9:00, 終了: 18:00
-  
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  const hours = String(date.getHours()).padStart(2, '0');
-  const minutes = String(date.getMinutes()).padStart(2, '0');
-  const seconds = String(date.getSeconds()).padStart(2, '0');
-  
-  return `${year}${month}${day}T${hours}${minutes}${seconds}`;
-};
+const formatDateTimeForGoogleCalendar = (dateString: string, isEndDate: boolean = false): string =>
+  `${formatDateForGoogleCalendar(dateString)}T${isEndDate ? '180000' : '090000'}`;
 
 /**
  * タスクの説明文を生成
@@ -80,22 +66,18 @@ const createGoogleCalendarUrl = (params: GoogleCalendarEventParams): string => {
     urlParams.append('details', params.description);
   }
   
-  // 同じ日の場合は終日イベント、異なる日の場合は期間イベント
-  const startDate = new Date(params.startDate);
-  const endDate = new Date(params.endDate);
-  
-  if (startDate.toDateString() === endDate.toDateString()) {
+  // 同じ日の場合は時間指定イベント、異なる日の場合は期間イベント
+  if (params.startDate === params.endDate && !params.allDay) {
     // 同じ日の場合：時間指定イベント
     urlParams.append('dates', `${formatDateTimeForGoogleCalendar(params.startDate)}/${formatDateTimeForGoogleCalendar(params.endDate, true)}`);
   } else {
-    // 異なる日の場合：複数日イベント
-    const endDatePlusOne = new Date(endDate);
-    endDatePlusOne.setDate(endDatePlusOne.getDate() + 1); // Google Calendarの仕様で終了日に1日加算
-    urlParams.append('dates', `${formatDateForGoogleCalendar(params.startDate)}/${formatDateForGoogleCalendar(endDatePlusOne.toISOString().split('T')[0])}`);
+    // 異なる日の場合・マイルストーンの場合：終日イベント
+    // Google Calendarの仕様で終了日に1日加算
+    urlParams.append('dates', `${formatDateForGoogleCalendar(params.startDate)}/${formatDateForGoogleCalendar(addDays(params.endDate, 1))}`);
   }
   
-  // 日本のタイムゾーンを設定
-  urlParams.append('ctz', 'Asia/Tokyo');
+  // 時間指定イベントの時刻を解釈するタイムゾーン（既定は利用者の環境のタイムゾーン）
+  urlParams.append('ctz', params.timezone || getLocalTimeZone());
   
   return `${baseUrl}?${urlParams.toString()}`;
 };
@@ -109,7 +91,8 @@ export const exportTaskToGoogleCalendar = (task: Task): void => {
     description: generateTaskDescription(task),
     startDate: task.startDate,
     endDate: task.endDate,
-    timezone: 'Asia/Tokyo'
+    timezone: getLocalTimeZone(),
+    allDay: task.milestone
   };
   
   const url = createGoogleCalendarUrl(params);
@@ -161,8 +144,347 @@ export const getGoogleCalendarUrlForTask = (task: Task): string => {
     description: generateTaskDescription(task),
     startDate: task.startDate,
     endDate: task.endDate,
-    timezone: 'Asia/Tokyo'
+    timezone: getLocalTimeZone(),
+    allDay: task.milestone
   };
   
   return createGoogleCalendarUrl(params);
-};
\ No newline at end of file
+};
+/**
+ * iCalendar（RFC 5545）形式でのエクスポート・インポート
+ * Outlook や Apple カレンダーなど Google Calendar 以外でも取り込めるよう .ics ファイルを生成する
+ */
+
+export type IcsComponentType = 'VEVENT' | 'VTODO';
+
+export interface IcsExportOptions {
+  component?: IcsComponentType;
+  calendarName?: string;
+}
+
+export interface IcsImportResult {
+  tasks: Task[];
+  errors: string[];
+}
+
+const ICS_PRODUCT_ID = '-//AI Powered TODO App//Tasks//JA';
+const ICS_UID_SUFFIX = '@ai-todo-app';
+const ICS_TASK_STATUS_PROPERTY = 'X-AI-TODO-STATUS';
+const ICS_MILESTONE_PROPERTY = 'X-AI-TODO-MILESTONE';
+// RELATED-TO に付ける依存関係の種類とラグのパラメータ（FS・ラグ0 の場合は省略）
+const ICS_DEPENDENCY_TYPE_PARAM = 'X-AI-TODO-TYPE';
+const ICS_DEPENDENCY_LAG_PARAM = 'X-AI-TODO-LAG';
+const ICS_DEPENDENCY_LABEL = '依存関係: ';
+
+const ICS_TODO_STATUS: Record<TaskStatus, string> = {
+  [TaskStatus.NOT_STARTED]: 'NEEDS-ACTION',
+  [TaskStatus.IN_PROGRESS]: 'IN-PROCESS',
+  [TaskStatus.COMPLETED]: 'COMPLETED',
+};
+
+// RFC 5545: 1〜4 が高、5 が中、6〜9 が低
+const ICS_PRIORITY: Record<TaskPriority, number> = {
+  [TaskPriority.HIGH]: 1,
+  [TaskPriority.MEDIUM]: 5,
+  [TaskPriority.LOW]: 9,
+};
+
+const escapeIcsText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeIcsText = (text: string): string =>
+  text.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+/**
+ * 1行を75オクテット以内に折り返す（UTF-8の文字の途中では折り返さない）
+ */
+const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // 継続行は先頭の空白1オクテットを含めて75
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toIcsDate = (date: string): string => date.replace(/-/g, '');
+
+const toIcsTimestamp = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const toIcsUid = (taskId: string): string => `${taskId}${ICS_UID_SUFFIX}`;
+
+const fromIcsUid = (uid: string): string => (uid.endsWith(ICS_UID_SUFFIX) ? uid.slice(0, -ICS_UID_SUFFIX.length) : uid);
+
+const buildIcsComponent = (task: Task, allTasks: Task[], requestedComponent: IcsComponentType, timestamp: string): string[] => {
+  // マイルストーンは ToDo 形式の書き出しでも終日の予定として書き出す
+  const component = task.milestone ? 'VEVENT' : requestedComponent;
+  const dependencyNames = task.dependencies
+    .map(depId => allTasks.find(t => t.id === depId)?.name || depId);
+  const description = [
+    task.description || '',
+    dependencyNames.length > 0 ? `${ICS_DEPENDENCY_LABEL}${dependencyNames.join(', ')}` : '',
+  ].filter(Boolean).join('\n\n');
+
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${toIcsUid(task.id)}`,
+    `DTSTAMP:${timestamp}`,
+    `SUMMARY:${escapeIcsText(task.name)}`,
+    `DTSTART;VALUE=DATE:${toIcsDate(task.startDate)}`,
+  ];
+  if (component === 'VEVENT') {
+    // 終日イベントの DTEND は翌日（排他的）
+    lines.push(`DTEND;VALUE=DATE:${toIcsDate(addDays(task.endDate, 1))}`);
+    lines.push('STATUS:CONFIRMED');
+  } else {
+    lines.push(`DUE;VALUE=DATE:${toIcsDate(task.endDate)}`);
+    lines.push(`STATUS:${ICS_TODO_STATUS[task.status]}`);
+    if (task.progress !== undefined || task.status === TaskStatus.COMPLETED) {
+      lines.push(`PERCENT-COMPLETE:${getTaskProgress(task)}`);
+    }
+  }
+  lines.push(`PRIORITY:${ICS_PRIORITY[task.priority]}`);
+  lines.push(`${ICS_TASK_STATUS_PROPERTY}:${task.status}`);
+  if (task.milestone) lines.push(`${ICS_MILESTONE_PROPERTY}:TRUE`);
+  if (description) lines.push(`DESCRIPTION:${escapeIcsText(description)}`);
+  task.dependencies.forEach(depId => {
+    const link = task.dependencyLinks?.[depId];
+    const linkParams = link ? `;${ICS_DEPENDENCY_TYPE_PARAM}=${link.type};${ICS_DEPENDENCY_LAG_PARAM}=${link.lag}` : '';
+    lines.push(`RELATED-TO;RELTYPE=DEPENDS-ON${linkParams}:${toIcsUid(depId)}`);
+  });
+  lines.push(`END:${component}`);
+  return lines;
+};
+
+/**
+ * タスクを iCalendar 形式の文字列に変換する
+ * 依存関係は RELATED-TO（RELTYPE=DEPENDS-ON）と DESCRIPTION の両方に含める
+ */
+export const generateIcs = (tasks: Task[], allTasks: Task[] = tasks, options: IcsExportOptions = {}): string => {
+  const component = options.component || 'VEVENT';
+  const timestamp = toIcsTimestamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(options.calendarName ? [`X-WR-CALNAME:${escapeIcsText(options.calendarName)}`] : []),
+    ...tasks.flatMap(task => buildIcsComponent(task, allTasks, component, timestamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * タスクを .ics ファイルとしてダウンロードする
+ */
+export const downloadTasksAsIcs = (tasks: Task[], allTasks: Task[], filename: string, options: IcsExportOptions = {}): void => {
+  if (tasks.length === 0) {
+    alert('エクスポートするタスクがありません。');
+    return;
+  }
+  const blob = new Blob([generateIcs(tasks, allTasks, options)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename.endsWith('.ics') ? filename : `${filename}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const parseIcsProperty = (line: string): IcsProperty | null => {
+  // 引用符で囲まれたパラメータ値の中のコロンは区切りとみなさない
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, separator).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+};
+
+/**
+ * DATE（YYYYMMDD）または DATE-TIME（YYYYMMDDTHHMMSS[Z]）を YYYY-MM-DD に変換する
+ */
+const parseIcsDate = (value: string): { date: string; isDateOnly: boolean; isMidnight: boolean } | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds] = match;
+  return {
+    date: `${year}-${month}-${day}`,
+    isDateOnly: hours === undefined,
+    isMidnight: hours === undefined || `${hours}${minutes}${seconds}` === '000000',
+  };
+};
+
+const parseIcsPriority = (value: string | undefined): TaskPriority => {
+  const priority = Number(value);
+  if (!priority) return TaskPriority.MEDIUM; // 0 または未指定は「指定なし」
+  if (priority <= 4) return TaskPriority.HIGH;
+  if (priority === 5) return TaskPriority.MEDIUM;
+  return TaskPriority.LOW;
+};
+
+const parseIcsStatus = (properties: IcsProperty[]): TaskStatus => {
+  const appStatus = properties.find(p => p.name === ICS_TASK_STATUS_PROPERTY)?.value;
+  if (appStatus && (Object.values(TaskStatus) as string[]).includes(appStatus)) return appStatus as TaskStatus;
+  switch (properties.find(p => p.name === 'STATUS')?.value.toUpperCase()) {
+    case 'IN-PROCESS':
+      return TaskStatus.IN_PROGRESS;
+    case 'COMPLETED':
+      return TaskStatus.COMPLETED;
+    default:
+      return TaskStatus.NOT_STARTED;
+  }
+};
+
+/**
+ * iCalendar 形式の文字列から VEVENT / VTODO を読み取り、タスクに変換する
+ * 開始日のないコンポーネントは取り込まずにエラーとして返す
+ */
+export const parseIcs = (icsText: string): IcsImportResult => {
+  // 折り返された行（CRLF + 空白/タブ）を元に戻す
+  const lines = icsText.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const tasks: Task[] = [];
+  const errors: string[] = [];
+
+  let component: IcsComponentType | null = null;
+  let properties: IcsProperty[] = [];
+  let componentIndex = 0;
+  let nestedDepth = 0; // VALARM など、タスクの中に入れ子になったコンポーネントの深さ
+
+  const finishComponent = (type: IcsComponentType) => {
+    componentIndex++;
+    const get = (name: string) => properties.find(p => p.name === name);
+    const label = `${type} #${componentIndex}`;
+
+    const start = parseIcsDate(get('DTSTART')?.value || '');
+    if (!start) {
+      errors.push(`${label}: DTSTART is missing or invalid.`);
+      return;
+    }
+
+    let endDate = start.date;
+    const end = parseIcsDate(get(type === 'VEVENT' ? 'DTEND' : 'DUE')?.value || '');
+    if (end) {
+      // 終日イベントの DTEND（および 0:00 ちょうどの終了時刻）は排他的なので前日を終了日とする
+      const isExclusive = type === 'VEVENT' && end.isMidnight && end.date > start.date;
+      endDate = isExclusive ? addDays(end.date, -1) : end.date;
+    }
+    const isMilestone = (get(ICS_MILESTONE_PROPERTY)?.value || '').toUpperCase() === 'TRUE';
+    if (endDate < start.date || isMilestone) endDate = start.date;
+
+    const uid = get('UID')?.value;
+    let description = unescapeIcsText(get('DESCRIPTION')?.value || '');
+    // エクスポート時に追記した依存関係の行は RELATED-TO から復元するため取り除く
+    const dependencyLineIndex = description.lastIndexOf(ICS_DEPENDENCY_LABEL);
+    if (dependencyLineIndex !== -1 && !description.slice(dependencyLineIndex).includes('\n')) {
+      description = description.slice(0, dependencyLineIndex).trim();
+    }
+
+    const percentComplete = Number(get('PERCENT-COMPLETE')?.value);
+
+    const dependencyProperties = properties
+      .filter(p => p.name === 'RELATED-TO' && (p.params.RELTYPE || '').toUpperCase() === 'DEPENDS-ON');
+    const dependencyLinks: Record<string, DependencyLink> = {};
+    dependencyProperties.forEach(p => {
+      const type = p.params[ICS_DEPENDENCY_TYPE_PARAM] as DependencyType;
+      const lag = Number(p.params[ICS_DEPENDENCY_LAG_PARAM] || 0);
+      if (Object.values(DependencyType).includes(type) && Number.isInteger(lag)) {
+        dependencyLinks[fromIcsUid(p.value)] = { type, lag };
+      }
+    });
+
+    tasks.push(withDependencies({
+      id: uid ? fromIcsUid(uid) : `task-${crypto.randomUUID()}`,
+      name: unescapeIcsText(get('SUMMARY')?.value || '') || '(無題)',
+      ...(description ? { description } : {}),
+      status: parseIcsStatus(properties),
+      priority: parseIcsPriority(get('PRIORITY')?.value),
+      startDate: start.date,
+      endDate,
+      ...(isMilestone ? { milestone: true } : {}),
+      ...(get('PERCENT-COMPLETE') && Number.isFinite(percentComplete) ? { progress: clampProgress(percentComplete) } : {}),
+      dependencies: [],
+    }, dependencyProperties.map(p => fromIcsUid(p.value)), dependencyLinks));
+  };
+
+  lines.forEach(line => {
+    if (!line.trim()) return;
+    const property = parseIcsProperty(line);
+    if (!property) return;
+
+    if (!component) {
+      if (property.name === 'BEGIN' && (property.value === 'VEVENT' || property.value === 'VTODO')) {
+        component = property.value;
+        properties = [];
+        nestedDepth = 0;
+      }
+    } else if (property.name === 'BEGIN') {
+      nestedDepth++;
+    } else if (property.name === 'END' && nestedDepth > 0) {
+      nestedDepth--;
+    } else if (property.name === 'END' && property.value === component) {
+      finishComponent(component);
+      component = null;
+    } else if (nestedDepth === 0) {
+      // 入れ子のコンポーネントのプロパティ（アラームの DESCRIPTION など）はタスクのものとして扱わない
+      properties.push(property);
+    }
+  });
+
+  return { tasks, errors };
+};
+
+/**
+ * 取り込んだタスクの内容を同じIDの既存タスクに反映する
+ * .ics に含まれない項目（親タスク・担当者・タグ・独自項目など）と、PERCENT-COMPLETE がない場合の進捗率は既存の値を残す
+ */
+export const applyImportedTask = (existing: Task, imported: Task): Task => {
+  const { description, milestone, progress, dependencies, dependencyLinks, ...carried } = imported;
+  const {
+    description: _description,
+    milestone: _milestone,
+    progress: existingProgress,
+    ...rest
+  } = existing;
+  const updatedProgress = progress ?? existingProgress;
+  return withDependencies({
+    ...rest,
+    ...carried,
+    ...(description ? { description } : {}),
+    ...(milestone ? { milestone } : {}),
+    ...(updatedProgress !== undefined ? { progress: updatedProgress } : {}),
+  }, dependencies, dependencyLinks || {});
+};
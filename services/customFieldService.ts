@@ -0,0 +1,99 @@
+import { CustomFieldDefinition, CustomFieldType, CustomFieldValue } from '../types';
+
+/**
+ * プロジェクト独自の項目（カスタムフィールド）の定義と値を扱うサービス
+ * 値の型の検証は validationService の validateCustomFieldValue で行う
+ */
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = ['text', 'number', 'date', 'select', 'multiSelect', 'url'];
+
+// YAML のキーとしてそのまま書ける形式（例: estimate, ticket_url）
+const FIELD_ID_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+export const isValidCustomFieldId = (id: string): boolean => FIELD_ID_PATTERN.test(id);
+
+/**
+ * 選択肢を持つ種類（選択・複数選択）かどうか
+ */
+export const hasCustomFieldOptions = (type: CustomFieldType): boolean => type === 'select' || type === 'multiSelect';
+
+/**
+ * 未設定として扱う値（null・空文字・空の配列）かどうか
+ */
+export const isEmptyCustomFieldValue = (value: unknown): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * 保存されている定義のうち形式の正しいものだけを残す（ID の重複は最初の定義を使う）
+ */
+export const normalizeCustomFieldDefinitions = (definitions?: CustomFieldDefinition[]): CustomFieldDefinition[] => {
+  const seen = new Set<string>();
+  return (definitions ?? []).filter(definition => {
+    if (!definition || !isValidCustomFieldId(definition.id) || !CUSTOM_FIELD_TYPES.includes(definition.type) || seen.has(definition.id)) {
+      return false;
+    }
+    seen.add(definition.id);
+    return true;
+  }).map(definition => ({
+    id: definition.id,
+    name: definition.name?.trim() || definition.id,
+    type: definition.type,
+    ...(hasCustomFieldOptions(definition.type)
+      ? { options: [...new Set((definition.options ?? []).map(option => String(option).trim()).filter(Boolean))] }
+      : {}),
+  }));
+};
+
+/**
+ * 現在の値に変更を反映する。空の値を指定した項目は取り除き、値が1つも残らなければ undefined を返す
+ */
+export const mergeCustomFieldValues = (
+  current: Record<string, CustomFieldValue> | undefined,
+  updates: Record<string, CustomFieldValue>
+): Record<string, CustomFieldValue> | undefined => {
+  const merged = { ...current, ...updates };
+  Object.keys(merged).forEach(fieldId => {
+    if (isEmptyCustomFieldValue(merged[fieldId])) delete merged[fieldId];
+  });
+  return Object.keys(merged).length > 0 ? merged : undefined;
+};
+
+/**
+ * 値を表示用の文字列にする（未設定は空文字）
+ */
+export const formatCustomFieldValue = (value: CustomFieldValue | undefined): string => {
+  if (value === undefined) return '';
+  return Array.isArray(value) ? value.join(', ') : String(value);
+};
+
+/**
+ * 並べ替え用の比較。数値は大小、それ以外は表示用の文字列で比べ、未設定は最も小さい値として扱う
+ */
+export const compareCustomFieldValues = (
+  definition: CustomFieldDefinition,
+  a: CustomFieldValue | undefined,
+  b: CustomFieldValue | undefined
+): number => {
+  const aEmpty = isEmptyCustomFieldValue(a);
+  const bEmpty = isEmptyCustomFieldValue(b);
+  if (aEmpty || bEmpty) return aEmpty === bEmpty ? 0 : aEmpty ? -1 : 1;
+  if (definition.type === 'number' && typeof a === 'number' && typeof b === 'number') return a - b;
+  return formatCustomFieldValue(a).localeCompare(formatCustomFieldValue(b), 'ja');
+};
+
+/**
+ * 絞り込みの条件に一致するかどうか
+ * 選択・複数選択は選択肢の完全一致、それ以外は大文字小文字を区別しない部分一致（条件が空ならすべて一致）
+ */
+export const matchesCustomFieldFilter = (
+  definition: CustomFieldDefinition,
+  value: CustomFieldValue | undefined,
+  filter: string
+): boolean => {
+  const keyword = filter.trim();
+  if (keyword === '') return true;
+  if (value === undefined) return false;
+  if (definition.type === 'select') return value === keyword;
+  if (definition.type === 'multiSelect') return Array.isArray(value) && value.includes(keyword);
+  return formatCustomFieldValue(value).toLowerCase().includes(keyword.toLowerCase());
+};
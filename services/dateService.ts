@@ -0,0 +1,111 @@
+/**
+ * 日付（YYYY-MM-DD 形式の暦日、時刻なし）を扱う共通のサービス
+ * 日付の計算は 1970-01-01 からの日数（日番号）で行い、実行環境のタイムゾーンに左右されないようにする
+ * 実行環境のタイムゾーンを使うのは「今日」の判定とタイムゾーン名の取得だけ
+ */
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * 年・月（1〜12）・日から YYYY-MM-DD 形式の日付を作る
+ */
+export const toDateString = (year: number, month: number, day: number): string =>
+  `${year}-${pad(month)}-${pad(day)}`;
+
+const parseDate = (date: string): { year: number; month: number; day: number } => {
+  const [year, month, day] = date.split('-').map(Number);
+  return { year, month, day };
+};
+
+export const toDayNumber = (date: string): number => {
+  const { year, month, day } = parseDate(date);
+  return Math.round(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+};
+
+export const fromDayNumber = (dayNumber: number): string =>
+  new Date(dayNumber * MS_PER_DAY).toISOString().split('T')[0];
+
+/**
+ * date から days 日後（負の値なら前）の日付
+ */
+export const addDays = (date: string, days: number): string => fromDayNumber(toDayNumber(date) + days);
+
+/**
+ * date から months か月後の同じ日。その月に同じ日がなければ月末（例: 1/31 の1か月後は 2/28）
+ */
+export const addMonths = (date: string, months: number): string => {
+  const { year, month, day } = parseDate(date);
+  const monthIndex = year * 12 + (month - 1) + months;
+  const targetYear = Math.floor(monthIndex / 12);
+  const targetMonth = monthIndex - targetYear * 12 + 1;
+  return toDateString(targetYear, targetMonth, Math.min(day, getDaysInMonth(targetYear, targetMonth)));
+};
+
+/**
+ * from から to までの日数（to が前なら負の値）
+ */
+export const diffDays = (from: string, to: string): number => toDayNumber(to) - toDayNumber(from);
+
+/**
+ * from の月から to の月までの月数（日は無視する）
+ */
+export const diffMonths = (from: string, to: string): number => {
+  const a = parseDate(from);
+  const b = parseDate(to);
+  return (b.year - a.year) * 12 + (b.month - a.month);
+};
+
+export const getDaysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * 曜日（0: 日曜日 〜 6: 土曜日）
+ */
+export const getWeekday = (date: string): number => (((toDayNumber(date) + 4) % 7) + 7) % 7; // 1970-01-01 は木曜日
+
+/**
+ * date を含む週の初日。weekStartsOn は週の始まりの曜日（0: 日曜日、1: 月曜日）
+ */
+export const getStartOfWeek = (date: string, weekStartsOn: 0 | 1 = 1): string =>
+  addDays(date, -((getWeekday(date) - weekStartsOn + 7) % 7));
+
+export const getEndOfWeek = (date: string, weekStartsOn: 0 | 1 = 1): string =>
+  addDays(getStartOfWeek(date, weekStartsOn), 6);
+
+export const getStartOfMonth = (date: string): string => `${date.slice(0, 7)}-01`;
+
+export const getEndOfMonth = (date: string): string => {
+  const { year, month } = parseDate(date);
+  return toDateString(year, month, getDaysInMonth(year, month));
+};
+
+/**
+ * ISO 8601 の週番号（月曜始まり、その年の最初の木曜日を含む週が第1週）と、週が属する年
+ */
+export const getIsoWeek = (date: string): { year: number; week: number } => {
+  // 同じ週の木曜日が属する年がその週の年になる
+  const thursday = addDays(date, 3 - ((getWeekday(date) + 6) % 7));
+  const year = parseDate(thursday).year;
+  return { year, week: Math.floor(diffDays(toDateString(year, 1, 1), thursday) / 7) + 1 };
+};
+
+/**
+ * 日付をロケールに合わせて表示用の文字列にする（locale を省略すると実行環境の言語）
+ * 暦日のまま UTC で整形するため、実行環境のタイムゾーンによって日付がずれない
+ */
+export const formatDate = (date: string, options: Intl.DateTimeFormatOptions, locale?: string): string =>
+  new Intl.DateTimeFormat(locale, { ...options, timeZone: 'UTC' }).format(new Date(toDayNumber(date) * MS_PER_DAY));
+
+/**
+ * 実行環境のタイムゾーンでの今日の日付
+ */
+export const getTodayDateString = (now: Date = new Date()): string =>
+  toDateString(now.getFullYear(), now.getMonth() + 1, now.getDate());
+
+/**
+ * 実行環境のタイムゾーン名（IANA 形式、例: Asia/Tokyo）
+ */
+export const getLocalTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
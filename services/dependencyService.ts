@@ -0,0 +1,209 @@
+import { Task, DependencyLink, DependencyType } from '../types';
+
+/**
+ * タスクの依存関係グラフ（タスク → 依存先タスク）を扱うサービス
+ * 循環の検出と、循環を生む依存先候補の判定、依存関係の種類（FS/SS/FF/SF）とラグの扱いを提供する
+ */
+
+export type DependencyAnchor = 'start' | 'finish';
+
+export const DEFAULT_DEPENDENCY_LINK: DependencyLink = { type: DependencyType.FINISH_TO_START, lag: 0 };
+
+type DependencyGraph = Map<string, string[]>;
+
+/**
+ * 存在しないタスクへの参照を除いた隣接リストを構築
+ */
+const buildGraph = (tasks: Pick<Task, 'id' | 'dependencies'>[]): DependencyGraph => {
+  const ids = new Set(tasks.map(task => task.id));
+  const graph: DependencyGraph = new Map();
+  tasks.forEach(task => {
+    graph.set(task.id, (task.dependencies || []).filter(depId => ids.has(depId)));
+  });
+  return graph;
+};
+
+/**
+ * 強連結成分を求める（Tarjan法）
+ */
+const findStronglyConnectedComponents = (graph: DependencyGraph): string[][] => {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+
+  const visit = (node: string) => {
+    indices.set(node, index);
+    lowLinks.set(node, index);
+    index++;
+    stack.push(node);
+    onStack.add(node);
+
+    for (const next of graph.get(node) || []) {
+      if (!indices.has(next)) {
+        visit(next);
+        lowLinks.set(node, Math.min(lowLinks.get(node)!, lowLinks.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLinks.set(node, Math.min(lowLinks.get(node)!, indices.get(next)!));
+      }
+    }
+
+    if (lowLinks.get(node) === indices.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      components.push(component);
+    }
+  };
+
+  graph.forEach((_deps, node) => {
+    if (!indices.has(node)) visit(node);
+  });
+  return components;
+};
+
+/**
+ * 強連結成分内で start から start へ戻る経路を1つ求める
+ */
+const findCyclePathInComponent = (graph: DependencyGraph, component: Set<string>, start: string): string[] => {
+  const visited = new Set<string>();
+  const path: string[] = [start];
+
+  const walk = (node: string): boolean => {
+    for (const next of graph.get(node) || []) {
+      if (!component.has(next)) continue;
+      if (next === start) {
+        path.push(start);
+        return true;
+      }
+      if (visited.has(next)) continue;
+      visited.add(next);
+      path.push(next);
+      if (walk(next)) return true;
+      path.pop();
+    }
+    return false;
+  };
+
+  walk(start);
+  return path;
+};
+
+/**
+ * 依存関係の循環を検出する
+ * 各循環は始点に戻る閉路として返す（例: ['task-1', 'task-2', 'task-1']）
+ */
+export const findDependencyCycles = (tasks: Pick<Task, 'id' | 'dependencies'>[]): string[][] => {
+  const graph = buildGraph(tasks);
+  const order = tasks.map(task => task.id);
+
+  return findStronglyConnectedComponents(graph)
+    .filter(component => component.length > 1 || (graph.get(component[0]) || []).includes(component[0]))
+    .map(component => {
+      // 元のタスク順で最初に現れるタスクを始点にして、結果を安定させる
+      const start = [...component].sort((a, b) => order.indexOf(a) - order.indexOf(b))[0];
+      return findCyclePathInComponent(graph, new Set(component), start);
+    })
+    .sort((a, b) => order.indexOf(a[0]) - order.indexOf(b[0]));
+};
+
+/**
+ * いずれかの循環に含まれるタスクIDの集合を返す
+ */
+export const getTasksInCycles = (tasks: Pick<Task, 'id' | 'dependencies'>[]): Set<string> => {
+  const cyclic = new Set<string>();
+  findDependencyCycles(tasks).forEach(cycle => cycle.forEach(id => cyclic.add(id)));
+  return cyclic;
+};
+
+/**
+ * 指定タスクに（直接・間接に）依存しているタスクIDの集合を返す
+ */
+export const getTransitiveDependents = (tasks: Pick<Task, 'id' | 'dependencies'>[], taskId: string): Set<string> => {
+  const dependents = new Map<string, string[]>();
+  tasks.forEach(task => {
+    (task.dependencies || []).forEach(depId => {
+      dependents.set(depId, [...(dependents.get(depId) || []), task.id]);
+    });
+  });
+
+  const result = new Set<string>();
+  const queue = [...(dependents.get(taskId) || [])];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (result.has(id)) continue;
+    result.add(id);
+    queue.push(...(dependents.get(id) || []));
+  }
+  return result;
+};
+
+/**
+ * taskId が candidateId に依存すると循環が生まれるかどうかを判定
+ * （candidateId が既に taskId に依存している、または自分自身の場合）
+ */
+export const wouldCreateCycle = (tasks: Pick<Task, 'id' | 'dependencies'>[], taskId: string, candidateId: string): boolean => {
+  if (taskId === candidateId) return true;
+  return getTransitiveDependents(tasks, taskId).has(candidateId);
+};
+
+/**
+ * 循環をタスク名で表記する（例: "設計 → 実装 → 設計"）
+ */
+export const formatCyclePath = (cycle: string[], tasks: Pick<Task, 'id' | 'name'>[]): string =>
+  cycle.map(id => tasks.find(task => task.id === id)?.name || id).join(' → ');
+
+/**
+ * 依存関係の種類とラグを返す（指定がなければ終了-開始・ラグ0）
+ */
+export const getDependencyLink = (task: Pick<Task, 'dependencyLinks'>, dependencyId: string): DependencyLink =>
+  task.dependencyLinks?.[dependencyId] || DEFAULT_DEPENDENCY_LINK;
+
+export const isDefaultDependencyLink = (link: DependencyLink): boolean =>
+  link.type === DependencyType.FINISH_TO_START && link.lag === 0;
+
+/**
+ * 依存関係の種類ごとに、依存先（from）と依存元（to）のどちらの端を結ぶかを返す
+ * 例: SS は依存先の開始 → 依存元の開始、SF は依存先の開始 → 依存元の終了
+ */
+export const getDependencyAnchors = (type: DependencyType): { from: DependencyAnchor; to: DependencyAnchor } => ({
+  from: type === DependencyType.START_TO_START || type === DependencyType.START_TO_FINISH ? 'start' : 'finish',
+  to: type === DependencyType.FINISH_TO_FINISH || type === DependencyType.START_TO_FINISH ? 'finish' : 'start',
+});
+
+/**
+ * 依存先（from）と依存元（to）で結ぶ端から依存関係の種類を決める（getDependencyAnchors の逆）
+ */
+export const getDependencyTypeForAnchors = (from: DependencyAnchor, to: DependencyAnchor): DependencyType => {
+  if (from === 'finish') return to === 'start' ? DependencyType.FINISH_TO_START : DependencyType.FINISH_TO_FINISH;
+  return to === 'start' ? DependencyType.START_TO_START : DependencyType.START_TO_FINISH;
+};
+
+/**
+ * 依存関係を短く表記する（例: "FS"、"SS+2日"、"FF-1日"）
+ */
+export const formatDependencyLink = (link: DependencyLink): string =>
+  `${link.type}${link.lag > 0 ? `+${link.lag}日` : link.lag < 0 ? `${link.lag}日` : ''}`;
+
+/**
+ * 依存先を差し替えたタスクを返す。種類とラグは残った依存先のうち既定値以外のものだけを保持する
+ */
+export const withDependencies = (
+  task: Task,
+  dependencies: string[],
+  links: Record<string, DependencyLink> = task.dependencyLinks || {}
+): Task => {
+  const { dependencyLinks: _dependencyLinks, ...rest } = task;
+  const keptLinks = Object.fromEntries(
+    dependencies
+      .filter(depId => links[depId] && !isDefaultDependencyLink(links[depId]))
+      .map(depId => [depId, links[depId]])
+  );
+  return { ...rest, dependencies, ...(Object.keys(keptLinks).length > 0 ? { dependencyLinks: keptLinks } : {}) };
+};
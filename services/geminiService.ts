@@ -1,6 +1,8 @@
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { GoogleGenAI, GenerateContentResponse, FunctionDeclaration, FunctionCallingConfigMode, Schema, Type } from "@google/genai";
 import { GEMINI_TEXT_MODEL } from '../constants';
-import { Task } from "../types";
+import { Task, TaskStatus, TaskPriority, DependencyType, CustomFieldDefinition, TeamMember } from "../types";
+import { TaskOperation, TaskOperationError, parseTaskOperation } from './taskOperationService';
+import { getTodayDateString } from './dateService';
 
 // セキュリティ強化: APIキーの安全な管理
 class SecureApiKeyManager {
@@ -137,22 +139,152 @@ Focus on overdue tasks, high priority items, and overall progress.
   }
 };
 
-export const updateTasksViaAi = async (currentYaml: string, userInstruction: string): Promise<string> => {
+// AIが呼び出せるタスク操作の関数定義（引数は Task の型に対応）
+const TASK_FIELD_PROPERTIES: Record<string, Schema> = {
+  name: { type: Type.STRING, description: 'Task name.' },
+  description: { type: Type.STRING, description: 'Task description.' },
+  status: { type: Type.STRING, enum: Object.values(TaskStatus), description: 'Task status.' },
+  priority: { type: Type.STRING, enum: Object.values(TaskPriority), description: 'Task priority.' },
+  startDate: { type: Type.STRING, description: 'Start date in YYYY-MM-DD format.' },
+  endDate: { type: Type.STRING, description: 'End date in YYYY-MM-DD format (not before startDate). Omit for milestones.' },
+  milestone: { type: Type.BOOLEAN, description: 'True for a milestone: a single-date marker such as a release or review gate.' },
+  progress: { type: Type.NUMBER, description: 'Percent complete from 0 to 100.' },
+  dependencies: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'IDs of the tasks this task depends on.' },
+  parentId: { type: Type.STRING, description: 'ID of the parent task when this task is a subtask. Use an empty string to move it to the top level.' },
+  tags: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Free-form labels such as "backend" or "blocked". Replaces the current tags; use an empty list to remove all tags.' },
+};
+
+// カスタムフィールドの種類ごとの値のスキーマ
+const getCustomFieldSchema = (field: CustomFieldDefinition): Schema => {
+  const description = `${field.name}.`;
+  switch (field.type) {
+    case 'number':
+      return { type: Type.NUMBER, description };
+    case 'date':
+      return { type: Type.STRING, description: `${field.name} in YYYY-MM-DD format.` };
+    case 'url':
+      return { type: Type.STRING, description: `${field.name} (an http:// or https:// URL).` };
+    case 'select':
+      return { type: Type.STRING, description, ...(field.options?.length ? { enum: field.options } : {}) };
+    case 'multiSelect':
+      return { type: Type.ARRAY, items: { type: Type.STRING, ...(field.options?.length ? { enum: field.options } : {}) }, description };
+    default:
+      return { type: Type.STRING, description };
+  }
+};
+
+/**
+ * AIに渡すプロジェクトの設定（カスタムフィールドの定義・チームの名簿）
+ */
+export interface AiProjectContext {
+  customFields?: CustomFieldDefinition[];
+  team?: TeamMember[];
+}
+
+/**
+ * タスク操作の関数定義（プロジェクトにカスタムフィールドやチームがあれば customFields・assignees 引数を加える）
+ */
+const getTaskOperationDeclarations = ({ customFields = [], team = [] }: AiProjectContext): FunctionDeclaration[] => {
+  const fieldProperties: Record<string, Schema> = { ...TASK_FIELD_PROPERTIES };
+  if (customFields.length > 0) {
+    fieldProperties.customFields = {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(customFields.map(field => [field.id, getCustomFieldSchema(field)])),
+      description: 'Values of project-specific custom fields keyed by field id. Only include the fields that change; use an empty string to clear a value.',
+    };
+  }
+  if (team.length > 0) {
+    fieldProperties.assignees = {
+      type: Type.ARRAY,
+      items: { type: Type.STRING, enum: team.map(member => member.id) },
+      description: 'IDs of the team members assigned to the task. Replaces the current assignees; use an empty list to unassign.',
+    };
+  }
+  return [
+    {
+      name: 'createTask',
+      description: 'Create a new task. Provide an id (e.g. "task-<timestamp>") only if later operations need to reference it.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: { id: { type: Type.STRING, description: 'Optional unique ID for the new task.' }, ...fieldProperties },
+        required: ['name', 'startDate'],
+      },
+    },
+    {
+      name: 'updateTask',
+      description: 'Change one or more fields of an existing task. Only include the fields that change.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: { taskId: { type: Type.STRING, description: 'ID of the task to update.' }, ...fieldProperties },
+        required: ['taskId'],
+      },
+    },
+    {
+      name: 'deleteTask',
+      description: 'Delete a task together with all of its subtasks. References to them are removed from other tasks\' dependencies.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: { taskId: { type: Type.STRING, description: 'ID of the task to delete.' } },
+        required: ['taskId'],
+      },
+    },
+    {
+      name: 'addDependency',
+      description: 'Make a task depend on another task, or change the type and lag of an existing dependency. By default the task starts after dependsOn finishes (FS).',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          taskId: { type: Type.STRING, description: 'ID of the dependent task.' },
+          dependsOn: { type: Type.STRING, description: 'ID of the task it depends on.' },
+          dependencyType: {
+            type: Type.STRING,
+            enum: Object.values(DependencyType),
+            description: 'FS: start after dependsOn finishes. SS: start no earlier than dependsOn starts. FF: finish no earlier than dependsOn finishes. SF: finish no earlier than dependsOn starts.',
+          },
+          lag: { type: Type.INTEGER, description: 'Days of delay after the dependsOn date (negative for lead time). Defaults to 0.' },
+        },
+        required: ['taskId', 'dependsOn'],
+      },
+    },
+    {
+      name: 'shiftDates',
+      description: 'Move the start and end dates of tasks by a number of days, keeping their durations. Subtasks of the given tasks move with them.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          taskIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'IDs of the tasks to move.' },
+          days: { type: Type.INTEGER, description: 'Number of days to move (negative moves earlier).' },
+        },
+        required: ['taskIds', 'days'],
+      },
+    },
+  ];
+};
+
+/**
+ * ユーザーの指示を、タスクに対する操作の一覧としてAIに提案させる
+ * YAML全体を再生成させず関数呼び出しで操作を受け取るため、大きなプロジェクトでも欠落や並び替えが起きない
+ */
+export const getTaskOperationsViaAi = async (
+  tasks: Task[],
+  userInstruction: string,
+  context: AiProjectContext = {}
+): Promise<TaskOperation[]> => {
   // セキュリティ: APIキーの存在確認
   if (!apiKeyManager.hasApiKey()) {
     return Promise.reject(new Error("API Key not configured. Cannot update tasks via AI."));
   }
 
   // セキュリティ: 入力検証
-  if (!currentYaml || typeof currentYaml !== 'string') {
-    return Promise.reject(new Error("Invalid YAML input."));
+  if (!Array.isArray(tasks)) {
+    return Promise.reject(new Error("Invalid task list input."));
   }
 
   if (!userInstruction || typeof userInstruction !== 'string') {
     return Promise.reject(new Error("Invalid instruction input."));
   }
 
-  if (!validateRequest({ currentYaml, userInstruction })) {
+  if (!validateRequest({ tasks, userInstruction })) {
     return Promise.reject(new Error("Invalid input detected. Cannot process request."));
   }
 
@@ -163,62 +295,64 @@ export const updateTasksViaAi = async (currentYaml: string, userInstruction: str
 
   // セキュリティ: 入力のサニタイズ
   const sanitizedInstruction = userInstruction.replace(/[<>]/g, '').substring(0, 500);
-  const sanitizedYaml = currentYaml.substring(0, 10000); // YAML サイズ制限
-
-  const currentDate = new Date().toISOString().split('T')[0];
-
-  const systemInstruction = `You are an AI assistant that modifies a list of tasks defined in YAML format based on user instructions.
-The tasks have the following fields: id (string, unique, do not change existing IDs unless asked to delete/create), name (string), description (string, optional), status (string: "Not Started", "In Progress", "Completed"), priority (string: "High", "Medium", "Low"), startDate (string: "YYYY-MM-DD"), endDate (string: "YYYY-MM-DD"), dependencies (array of task IDs).
-Your response MUST ONLY be the complete, valid YAML content of the updated task list, enclosed in triple backticks with a yaml label (e.g., \`\`\`yaml ... \`\`\`).
-Do not add any explanations, apologies, or conversational text outside the YAML block.
-If creating a new task, generate a new UUID-like string for its id (e.g., "task-" + new Date().getTime()).
+  const currentDate = getTodayDateString();
+  const customFieldList = (context.customFields ?? [])
+    .map(field => `- ${field.id}: ${field.name} (${field.type}${field.options?.length ? `; options: ${field.options.join(', ')}` : ''})`)
+    .join('\n');
+  const teamList = (context.team ?? []).map(member => `- ${member.id}: ${member.name}`).join('\n');
+
+  const systemInstruction = `You are an AI assistant that edits a list of project tasks based on user instructions.
+Make changes only by calling the provided functions (createTask, updateTask, deleteTask, addDependency, shiftDates), once per change, in the order they should be applied.
+Refer to existing tasks by their exact id. Never invent ids for tasks that do not exist.
 If the user asks to set a date like "tomorrow" or "next week", calculate the actual date based on the current date.
-Preserve YAML comments if any.
-Ensure dates are in YYYY-MM-DD format.
+Ensure dates are in YYYY-MM-DD format and endDate is not before startDate.
+dependencyLinks lists the type (FS, SS, FF, SF) and lag in days of dependencies that are not plain finish-to-start; use addDependency with dependencyType and lag to set them.
+Never create circular dependencies (a task must not depend, directly or indirectly, on itself); updates containing cycles are rejected.
+Tasks form a hierarchy through parentId: a task with subtasks is a summary task (e.g. an epic) whose startDate, endDate and status are calculated from its subtasks, so change the subtasks instead of the summary task.
+To break a task down, create subtasks with parentId set to its id. A task must not be its own ancestor.
+Releases, deadlines and review gates are milestones: set milestone to true and give only startDate (a milestone has no duration and cannot have subtasks).
+Use progress (0-100) for partial completion; keep status consistent with it (0 is Not Started, 100 is Completed).
+Tags are free-form labels in tags (e.g. "backend", "blocked", "customer-A"). Reuse the spelling of existing tags, and to add or remove one tag, pass the task's full updated list.
+${customFieldList ? `This project defines the following custom fields, stored in customFields keyed by field id. Set them with createTask or updateTask (multiSelect values are lists of options):
+${customFieldList}
+` : ''}${teamList ? `Tasks are assigned to team members through assignees, a list of member ids. When the user refers to a person by name (e.g. "assign the design tasks to Aiko"), use the id of the matching member:
+${teamList}
+` : ''}If no change is needed, call no functions.
 Current Date for relative calculations: ${currentDate}
 `;
 
   const prompt = `
-${systemInstruction}
-
-Current YAML:
-\`\`\`yaml
-${sanitizedYaml}
-\`\`\`
+Current tasks (JSON):
+${JSON.stringify(tasks)}
 
 User Instruction: ${sanitizedInstruction}
-
-Updated YAML:
 `;
 
   try {
     const response: GenerateContentResponse = await ai.models.generateContent({
       model: GEMINI_TEXT_MODEL,
       contents: prompt,
+      config: {
+        systemInstruction,
+        tools: [{ functionDeclarations: getTaskOperationDeclarations(context) }],
+        toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.AUTO } },
+      },
     });
 
-    let newYaml = (response.text || "").trim();
-    
-    // セキュリティ: レスポンスの検証
-    if (!newYaml) {
-      throw new Error("Empty response from AI service.");
-    }
+    const functionCalls = response.functionCalls || [];
 
-    // YAML フェンスの処理
-    const fenceRegex = /^```(?:yaml)?\s*\n?(.*?)\n?\s*```$/s;
-    const match = newYaml.match(fenceRegex);
-    if (match && match[1]) {
-      newYaml = match[1].trim();
-    } else if (newYaml.startsWith("```") && newYaml.endsWith("```")) {
-      newYaml = newYaml.substring(3, newYaml.length - 3).trim();
-    }
-    
     // セキュリティ: 出力の検証
-    if (!validateRequest({ yaml: newYaml })) {
+    if (!validateRequest({ functionCalls })) {
       throw new Error("Invalid response from AI service.");
     }
-    
-    return newYaml;
+
+    return functionCalls.map((call, index) => {
+      try {
+        return parseTaskOperation(call.name, call.args);
+      } catch (error) {
+        throw new TaskOperationError((error as Error).message, index);
+      }
+    });
 
   } catch (error) {
     console.error("Error updating tasks via AI:", error);
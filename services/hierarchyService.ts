@@ -0,0 +1,197 @@
+import { Task, TaskStatus } from '../types';
+import { getTaskProgress } from './progressService';
+import { withDependencies } from './dependencyService';
+
+/**
+ * parentId による親子関係（作業分解構成）を扱うサービス
+ * 子を持つタスク（サマリータスク）の日付・ステータス・進捗は子から集計する
+ */
+
+export interface TaskTreeRow {
+  task: Task;
+  depth: number;
+  hasChildren: boolean;
+}
+
+/**
+ * 親ID → 子タスク一覧（元の並び順）の対応表を作る。存在しない親を指すタスクはルート扱い
+ */
+const buildChildrenMap = (tasks: Task[]): Map<string | undefined, Task[]> => {
+  const ids = new Set(tasks.map(task => task.id));
+  const children = new Map<string | undefined, Task[]>();
+  tasks.forEach(task => {
+    const parentId = task.parentId && ids.has(task.parentId) && task.parentId !== task.id ? task.parentId : undefined;
+    children.set(parentId, [...(children.get(parentId) || []), task]);
+  });
+  return children;
+};
+
+export const hasChildTasks = (tasks: Task[], taskId: string): boolean =>
+  tasks.some(task => task.parentId === taskId && task.id !== taskId);
+
+/**
+ * 子孫タスクのIDをすべて返す（自分自身は含まない）
+ */
+export const getDescendantIds = (tasks: Task[], taskId: string): Set<string> => {
+  const children = buildChildrenMap(tasks);
+  const descendants = new Set<string>();
+  const stack = [taskId];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    (children.get(current) || []).forEach(child => {
+      if (!descendants.has(child.id) && child.id !== taskId) {
+        descendants.add(child.id);
+        stack.push(child.id);
+      }
+    });
+  }
+  return descendants;
+};
+
+/**
+ * 祖先タスクのIDを近い順に返す（親の参照が循環している場合は循環の手前で止める）
+ */
+export const getAncestorIds = (tasks: Task[], taskId: string): string[] => {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const ancestors: string[] = [];
+  let parentId = byId.get(taskId)?.parentId;
+  while (parentId && byId.has(parentId) && parentId !== taskId && !ancestors.includes(parentId)) {
+    ancestors.push(parentId);
+    parentId = byId.get(parentId)!.parentId;
+  }
+  return ancestors;
+};
+
+/**
+ * taskId の親を candidateParentId にすると親子関係が循環するかどうかを判定
+ */
+export const wouldCreateParentCycle = (tasks: Task[], taskId: string, candidateParentId: string): boolean =>
+  taskId === candidateParentId || getDescendantIds(tasks, taskId).has(candidateParentId);
+
+/**
+ * 親子関係の循環に含まれるタスクIDを返す（例: A の親が B、B の親が A）
+ */
+export const findParentCycles = (tasks: Pick<Task, 'id' | 'parentId'>[]): string[][] => {
+  const parentById = new Map(tasks.map(task => [task.id, task.parentId]));
+  const reported = new Set<string>();
+  const cycles: string[][] = [];
+
+  tasks.forEach(task => {
+    const path: string[] = [];
+    let current: string | undefined = task.id;
+    while (current && parentById.has(current) && !path.includes(current) && !reported.has(current)) {
+      path.push(current);
+      current = parentById.get(current);
+    }
+    if (current && path.includes(current)) {
+      const cycle = path.slice(path.indexOf(current));
+      cycle.forEach(id => reported.add(id));
+      cycles.push([...cycle, current]);
+    }
+    path.forEach(id => reported.add(id));
+  });
+  return cycles;
+};
+
+/**
+ * ツリー表示用に、親の直後に子が並ぶ順序で行を返す
+ * collapsedIds に含まれるタスクの子孫は省略する。siblingOrder を渡すと兄弟間の並び順に使う
+ */
+export const flattenTaskTree = (
+  tasks: Task[],
+  collapsedIds: Set<string> = new Set(),
+  siblingOrder?: (a: Task, b: Task) => number
+): TaskTreeRow[] => {
+  const children = buildChildrenMap(tasks);
+  const rows: TaskTreeRow[] = [];
+  const visited = new Set<string>();
+
+  const visit = (task: Task, depth: number) => {
+    if (visited.has(task.id)) return;
+    visited.add(task.id);
+    const taskChildren = children.get(task.id) || [];
+    rows.push({ task, depth, hasChildren: taskChildren.length > 0 });
+    if (collapsedIds.has(task.id)) {
+      getDescendantIds(tasks, task.id).forEach(id => visited.add(id));
+      return;
+    }
+    const ordered = siblingOrder ? [...taskChildren].sort(siblingOrder) : taskChildren;
+    ordered.forEach(child => visit(child, depth + 1));
+  };
+
+  const roots = children.get(undefined) || [];
+  (siblingOrder ? [...roots].sort(siblingOrder) : roots).forEach(root => visit(root, 0));
+  // 親子関係が循環しているタスクはどのルートからも辿れないため、末尾にルートとして表示する
+  tasks.forEach(task => visit(task, 0));
+  return rows;
+};
+
+/**
+ * 子孫の末端タスク（子を持たないタスク）を返す
+ */
+const getLeafDescendants = (tasks: Task[], taskId: string): Task[] => {
+  const descendantIds = getDescendantIds(tasks, taskId);
+  return tasks.filter(task => descendantIds.has(task.id) && !hasChildTasks(tasks, task.id));
+};
+
+/**
+ * 子孫の末端タスクの進捗率（0〜100）の平均を集計する。子がなければ自身の進捗率を返す
+ */
+export const getRollupProgress = (tasks: Task[], taskId: string): number => {
+  const task = tasks.find(t => t.id === taskId);
+  if (!task) return 0;
+  const leaves = getLeafDescendants(tasks, taskId);
+  if (leaves.length === 0) return getTaskProgress(task);
+  const total = leaves.reduce((sum, leaf) => sum + getTaskProgress(leaf), 0);
+  return Math.round(total / leaves.length);
+};
+
+const rollupStatus = (childStatuses: TaskStatus[]): TaskStatus => {
+  if (childStatuses.every(status => status === TaskStatus.COMPLETED)) return TaskStatus.COMPLETED;
+  if (childStatuses.every(status => status === TaskStatus.NOT_STARTED)) return TaskStatus.NOT_STARTED;
+  return TaskStatus.IN_PROGRESS;
+};
+
+/**
+ * サマリータスクの開始日・終了日・ステータスを子から集計し直したタスク一覧を返す
+ * 変更のないタスクは同じオブジェクトのまま返す
+ */
+export const rollupSummaryTasks = (tasks: Task[]): Task[] => {
+  const children = buildChildrenMap(tasks);
+  const rolledUp = new Map<string, Task>();
+  const visiting = new Set<string>();
+
+  const resolve = (task: Task): Task => {
+    if (rolledUp.has(task.id)) return rolledUp.get(task.id)!;
+    const taskChildren = children.get(task.id) || [];
+    if (taskChildren.length === 0 || visiting.has(task.id)) return task;
+
+    visiting.add(task.id);
+    const resolvedChildren = taskChildren.map(resolve);
+    visiting.delete(task.id);
+
+    const startDate = resolvedChildren.reduce((min, child) => (child.startDate < min ? child.startDate : min), resolvedChildren[0].startDate);
+    const endDate = resolvedChildren.reduce((max, child) => (child.endDate > max ? child.endDate : max), resolvedChildren[0].endDate);
+    const status = rollupStatus(resolvedChildren.map(child => child.status));
+    const result = task.startDate === startDate && task.endDate === endDate && task.status === status
+      ? task
+      : { ...task, startDate, endDate, status };
+    rolledUp.set(task.id, result);
+    return result;
+  };
+
+  return tasks.map(resolve);
+};
+
+/**
+ * タスクとその子孫をまとめて削除し、削除したタスクへの依存関係も取り除く
+ */
+export const removeTaskWithSubtree = (tasks: Task[], taskId: string): Task[] => {
+  const removedIds = getDescendantIds(tasks, taskId);
+  removedIds.add(taskId);
+  return tasks
+    .filter(task => !removedIds.has(task.id))
+    .map(task => (task.dependencies.some(depId => removedIds.has(depId))
+      ? withDependencies(task, task.dependencies.filter(depId => !removedIds.has(depId)))
+      : task));
+};
@@ -0,0 +1,97 @@
+import { Task } from '../types';
+
+/**
+ * タスク変更の履歴（元に戻す／やり直し）を管理するサービス
+ * 各操作の前後のタスク一覧をスナップショットとして保持する
+ */
+
+export interface HistoryEntry {
+  label: string;   // 操作の説明（例: "AI update: 'move design to next week'"）
+  before: Task[];
+  after: Task[];
+  timestamp: number;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];   // 古い順。末尾が直近の操作
+  future: HistoryEntry[]; // やり直し可能な操作。末尾が次にやり直す操作
+}
+
+export const HISTORY_LIMIT = 50;
+const HISTORY_STORAGE_KEY = 'taskHistory';
+
+// 履歴はプロジェクトごとに別のキーへ保存する
+const getStorageKey = (projectId?: string): string => (projectId ? `${HISTORY_STORAGE_KEY}:${projectId}` : HISTORY_STORAGE_KEY);
+
+export const createHistory = (): HistoryState => ({ past: [], future: [] });
+
+/**
+ * 新しい操作を記録する（やり直しスタックは破棄され、上限を超えた古い履歴は削除される）
+ */
+export const recordHistory = (
+  history: HistoryState,
+  label: string,
+  before: Task[],
+  after: Task[],
+  limit: number = HISTORY_LIMIT
+): HistoryState => {
+  const entry: HistoryEntry = { label, before, after, timestamp: Date.now() };
+  return {
+    past: [...history.past, entry].slice(-limit),
+    future: [],
+  };
+};
+
+/**
+ * 直近の操作を取り消す。取り消せない場合は null を返す
+ */
+export const undoHistory = (history: HistoryState): { history: HistoryState; entry: HistoryEntry } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [...history.future, entry] },
+    entry,
+  };
+};
+
+/**
+ * 取り消した操作をやり直す。やり直せない場合は null を返す
+ */
+export const redoHistory = (history: HistoryState): { history: HistoryState; entry: HistoryEntry } | null => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, entry], future: history.future.slice(0, -1) },
+    entry,
+  };
+};
+
+/**
+ * セッション内のリロードで履歴を引き継ぐため sessionStorage から復元する
+ */
+export const loadHistory = (projectId?: string): HistoryState => {
+  try {
+    const stored = sessionStorage.getItem(getStorageKey(projectId));
+    if (!stored) return createHistory();
+    const parsed = JSON.parse(stored);
+    if (Array.isArray(parsed?.past) && Array.isArray(parsed?.future)) {
+      return { past: parsed.past, future: parsed.future };
+    }
+  } catch (e) {
+    console.error('Failed to load task history:', e);
+  }
+  return createHistory();
+};
+
+export const saveHistory = (history: HistoryState, projectId?: string): void => {
+  try {
+    sessionStorage.setItem(getStorageKey(projectId), JSON.stringify(history));
+  } catch (e) {
+    // 容量超過などで保存できない場合は履歴の永続化のみ諦める
+    console.error('Failed to save task history:', e);
+  }
+};
+
+export const clearHistory = (projectId?: string): void => {
+  sessionStorage.removeItem(getStorageKey(projectId));
+};
@@ -0,0 +1,114 @@
+import { Task, TaskPriority, TaskStatus, TeamMember, WorkingCalendar } from '../types';
+import { addDays } from './dateService';
+import { hasChildTasks } from './hierarchyService';
+import { getDependencyStartConstraints, getDurationDays, TaskDateUpdate } from './scheduleService';
+import { getWeeklyCapacity, getWorkingDaysByWeek, isWorkloadTask } from './workloadService';
+import { countWorkingDays, getEndDateForWorkingDays, snapToWorkingDay } from './workingCalendarService';
+
+/**
+ * 担当者の負荷の超過を、タスクの開始を後ろ倒しにして解消するサービス（リソースの平準化）
+ * 優先度の高いタスクから順に、依存関係を満たし、担当者の週ごとの稼働可能日数に収まる最も早い日に置く
+ * 動かすのは未着手のタスクだけで、前倒しはしない。期間は稼働日数を保つ
+ */
+
+export interface LevelingResult {
+  updates: TaskDateUpdate[]; // 後ろ倒しするタスクの新しい日付
+  unresolvedTaskIds: string[]; // 探索した範囲では超過を解消できなかったタスク（依存関係だけを満たす日に置く）
+}
+
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  [TaskPriority.HIGH]: 0,
+  [TaskPriority.MEDIUM]: 1,
+  [TaskPriority.LOW]: 2,
+};
+
+// 超過しない開始日を探す範囲（依存関係を満たす最も早い開始日からの日数）
+const MAX_DELAY_DAYS = 366;
+
+/**
+ * 負荷が稼働可能日数を超えないよう、未着手のタスクの開始日を後ろ倒しにする案を求める
+ * 名簿にない担当者の負荷は数えない。依存関係が循環しているタスクは動かさない
+ */
+export const levelResources = (tasks: Task[], team: TeamMember[], calendar: WorkingCalendar): LevelingResult => {
+  const memberById = new Map(team.map(member => [member.id, member]));
+  const taskIds = new Set(tasks.map(task => task.id));
+  const placed = new Map<string, Task>(); // 日付を決めたタスク
+  const load = new Map<string, Map<string, number>>(); // メンバー → 週の初日 → 割り当て稼働日数
+  const unresolvedTaskIds: string[] = [];
+
+  const getMembers = (task: Task): TeamMember[] => (isWorkloadTask(task, tasks)
+    ? (task.assignees ?? []).flatMap(id => memberById.get(id) ?? [])
+    : []);
+
+  const fits = (members: TeamMember[], daysByWeek: Map<string, number>): boolean =>
+    members.every(member => [...daysByWeek].every(([weekStart, days]) =>
+      (load.get(member.id)?.get(weekStart) ?? 0) + days <= getWeeklyCapacity(member, weekStart, calendar)));
+
+  const place = (task: Task) => {
+    placed.set(task.id, task);
+    const daysByWeek = getWorkingDaysByWeek(task.startDate, task.endDate, calendar);
+    getMembers(task).forEach(member => {
+      const memberLoad = load.get(member.id) ?? new Map<string, number>();
+      daysByWeek.forEach((days, weekStart) => memberLoad.set(weekStart, (memberLoad.get(weekStart) ?? 0) + days));
+      load.set(member.id, memberLoad);
+    });
+  };
+
+  // 着手済み・完了・サマリータスクは今の日付のまま先に負荷に数える
+  const isMovable = (task: Task) => task.status === TaskStatus.NOT_STARTED && !hasChildTasks(tasks, task.id);
+  tasks.filter(task => !isMovable(task)).forEach(place);
+
+  const pending = tasks.filter(isMovable);
+  const isReady = (task: Task) =>
+    (task.dependencies ?? []).every(depId => depId === task.id || !taskIds.has(depId) || placed.has(depId));
+  const compareTasks = (a: Task, b: Task) =>
+    PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.startDate.localeCompare(b.startDate);
+
+  while (pending.length > 0) {
+    // 依存先の日付が決まったタスクのうち、優先度が高く開始の早いものから置く（同じなら一覧の順）
+    const ready = pending.filter(isReady).sort(compareTasks);
+    if (ready.length === 0) break;
+    const task = ready[0];
+    pending.splice(pending.indexOf(task), 1);
+
+    const workingDays = countWorkingDays(task.startDate, task.endDate, calendar);
+    const getDates = (startDate: string): Pick<Task, 'startDate' | 'endDate'> => {
+      if (startDate === task.startDate) return { startDate, endDate: task.endDate };
+      // 休みの日だけに置かれたタスクは暦日の期間を保つ
+      const endDate = workingDays > 0
+        ? getEndDateForWorkingDays(startDate, workingDays, calendar)
+        : addDays(startDate, getDurationDays(task.startDate, task.endDate) - 1);
+      return { startDate, endDate };
+    };
+
+    const earliestStart = getDependencyStartConstraints(task, [...placed.values()], calendar)
+      .reduce((latest, constraint) => (constraint.requiredStartDate > latest ? constraint.requiredStartDate : latest), task.startDate);
+    const firstCandidate = earliestStart > task.startDate ? snapToWorkingDay(earliestStart, calendar) : task.startDate;
+
+    let startDate = firstCandidate;
+    const members = getMembers(task);
+    if (members.length > 0) {
+      const limit = addDays(firstCandidate, MAX_DELAY_DAYS);
+      const fitsAt = (candidate: string) => {
+        const { startDate: from, endDate: to } = getDates(candidate);
+        return fits(members, getWorkingDaysByWeek(from, to, calendar));
+      };
+      while (startDate <= limit && !fitsAt(startDate)) {
+        startDate = snapToWorkingDay(addDays(startDate, 1), calendar);
+      }
+      if (startDate > limit) {
+        startDate = firstCandidate;
+        unresolvedTaskIds.push(task.id);
+      }
+    }
+    place({ ...task, ...getDates(startDate) });
+  }
+
+  const updates = tasks.flatMap(task => {
+    const leveled = placed.get(task.id);
+    return leveled && leveled.startDate !== task.startDate
+      ? [{ taskId: task.id, newStartDate: leveled.startDate, newEndDate: leveled.endDate }]
+      : [];
+  });
+  return { updates, unresolvedTaskIds };
+};
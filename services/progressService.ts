@@ -0,0 +1,46 @@
+import { Task, TaskStatus } from '../types';
+
+/**
+ * タスクの進捗率（0〜100%）を扱うサービス
+ * progress が未設定のタスクはステータスから進捗率を推定する
+ */
+
+// progress が未設定の場合に使う、各ステータスの進捗率（%）
+const STATUS_PROGRESS: Record<TaskStatus, number> = {
+  [TaskStatus.NOT_STARTED]: 0,
+  [TaskStatus.IN_PROGRESS]: 50,
+  [TaskStatus.COMPLETED]: 100,
+};
+
+/**
+ * 0〜100 の整数に丸める
+ */
+export const clampProgress = (value: number): number =>
+  Number.isFinite(value) ? Math.min(100, Math.max(0, Math.round(value))) : 0;
+
+/**
+ * タスクの進捗率を返す（未設定ならステータスから推定）
+ */
+export const getTaskProgress = (task: Pick<Task, 'status' | 'progress'>): number =>
+  task.progress !== undefined ? clampProgress(task.progress) : STATUS_PROGRESS[task.status];
+
+/**
+ * 進捗率に対応するステータス（0% → 未着手、100% → 完了、それ以外 → 進行中）
+ */
+export const deriveStatusFromProgress = (progress: number): TaskStatus => {
+  if (progress <= 0) return TaskStatus.NOT_STARTED;
+  if (progress >= 100) return TaskStatus.COMPLETED;
+  return TaskStatus.IN_PROGRESS;
+};
+
+/**
+ * 進捗率を更新したタスクを返す。deriveStatus が true ならステータスも進捗率に合わせる
+ */
+export const applyProgress = (task: Task, progress: number, deriveStatus: boolean): Task => {
+  const clamped = clampProgress(progress);
+  return {
+    ...task,
+    progress: clamped,
+    ...(deriveStatus ? { status: deriveStatusFromProgress(clamped) } : {}),
+  };
+};
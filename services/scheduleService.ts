@@ -0,0 +1,365 @@
+import { Task, DependencyLink, WorkingCalendar } from '../types';
+import { fromDayNumber, toDayNumber } from './dateService';
+import { DependencyAnchor, getDependencyAnchors, getDependencyLink } from './dependencyService';
+import { addWorkingDays, countWorkingDays, snapToWorkingDay } from './workingCalendarService';
+
+/**
+ * タスクの日付と依存関係からスケジュールを解析するサービス（クリティカルパス法）
+ * 依存関係の種類（FS/SS/FF/SF）とラグを考慮し、日付は終日単位で計算する
+ * 稼働日カレンダーを渡すと、期間・ラグ・フロートを稼働日で数え、開始日と終了日を稼働日に置く
+ */
+
+export interface TaskScheduleInfo {
+  taskId: string;
+  earliestStart: string;  // 最早開始日 (YYYY-MM-DD)
+  earliestFinish: string; // 最早終了日
+  latestStart: string;    // 最遅開始日
+  latestFinish: string;   // 最遅終了日
+  totalFloat: number;     // トータルフロート（余裕日数。カレンダーを渡した場合は稼働日数）
+  isCritical: boolean;
+}
+
+export interface ScheduleAnalysis {
+  tasks: Map<string, TaskScheduleInfo>;
+  criticalPath: string[];            // クリティカルなタスクIDを最早開始日順に並べたもの
+  criticalDependencies: Set<string>; // getDependencyKey で作るキーの集合
+  projectStart: string | null;
+  projectEnd: string | null;
+}
+
+/**
+ * 日付と計算上の日の位置の対応。カレンダーがなければ日番号、あればある稼働日から数えた稼働日の番号を使う
+ */
+interface DayScale {
+  toStart: (date: string) => number;  // 開始日の位置（休みなら次の稼働日）
+  toFinish: (date: string) => number; // 終了日の位置（休みなら前の稼働日）
+  toDate: (day: number) => string;
+}
+
+const createDayScale = (calendar?: WorkingCalendar): DayScale => {
+  if (!calendar) return { toStart: toDayNumber, toFinish: toDayNumber, toDate: fromDayNumber };
+
+  // 最初に変換した日付の稼働日を 0 とし、変換結果は使い回す
+  let origin: string | null = null;
+  const positions = new Map<string, number>();
+  const dates = new Map<number, string>();
+  const toPosition = (workingDate: string): number => {
+    if (origin === null) origin = workingDate;
+    const cached = positions.get(workingDate);
+    if (cached !== undefined) return cached;
+    const position = workingDate >= origin
+      ? countWorkingDays(origin, workingDate, calendar) - 1
+      : 1 - countWorkingDays(workingDate, origin, calendar);
+    positions.set(workingDate, position);
+    return position;
+  };
+  return {
+    toStart: date => toPosition(snapToWorkingDay(date, calendar, 1)),
+    toFinish: date => toPosition(snapToWorkingDay(date, calendar, -1)),
+    toDate: day => {
+      if (origin === null) return fromDayNumber(day);
+      if (!dates.has(day)) dates.set(day, addWorkingDays(origin, day, calendar));
+      return dates.get(day)!;
+    },
+  };
+};
+
+/**
+ * タスクの期間（開始と終了の位置の差。最低1日）
+ */
+const getScaledDuration = (scale: DayScale, task: Pick<Task, 'startDate' | 'endDate'>): number =>
+  Math.max(1, scale.toFinish(task.endDate) - scale.toStart(task.startDate) + 1);
+
+/**
+ * タスクの端の位置（日の位置）。開始は開始日、終了は終了日の翌日（終了日を含むため）
+ */
+const anchorDay = (anchor: DependencyAnchor, startDay: number, finishDay: number): number =>
+  anchor === 'start' ? startDay : finishDay + 1;
+
+/**
+ * 依存関係の制約を満たす依存元タスクの最も早い開始日（日の位置）
+ * 制約: 依存元の端 >= 依存先の端 + ラグ
+ */
+const getRequiredStartDay = (link: DependencyLink, depStartDay: number, depFinishDay: number, duration: number): number => {
+  const { from, to } = getDependencyAnchors(link.type);
+  const required = anchorDay(from, depStartDay, depFinishDay) + link.lag;
+  return to === 'start' ? required : required - duration;
+};
+
+/**
+ * 開始日から終了日までの日数（両端を含む）
+ */
+export const getDurationDays = (startDate: string, endDate: string): number =>
+  toDayNumber(endDate) - toDayNumber(startDate) + 1;
+
+/**
+ * 依存線（依存先 → 依存元）を識別するキー
+ */
+export const getDependencyKey = (dependencyId: string, taskId: string): string => `${dependencyId}->${taskId}`;
+
+/**
+ * 依存関係のトポロジカル順序を求める（循環に含まれるタスクは末尾に元の順序で追加）
+ */
+const getTopologicalOrder = (tasks: Task[], predecessors: Map<string, string[]>, successors: Map<string, string[]>): { order: string[]; acyclic: Set<string> } => {
+  const inDegree = new Map<string, number>();
+  tasks.forEach(task => inDegree.set(task.id, predecessors.get(task.id)!.length));
+
+  const queue = tasks.filter(task => inDegree.get(task.id) === 0).map(task => task.id);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    successors.get(id)!.forEach(succId => {
+      inDegree.set(succId, inDegree.get(succId)! - 1);
+      if (inDegree.get(succId) === 0) queue.push(succId);
+    });
+  }
+
+  const acyclic = new Set(order);
+  tasks.forEach(task => {
+    if (!acyclic.has(task.id)) order.push(task.id);
+  });
+  return { order, acyclic };
+};
+
+/**
+ * 最早・最遅日程、トータルフロート、クリティカルパスを計算する
+ * 各タスクの startDate は「これより前には開始しない」制約として扱う
+ * 依存関係が循環しているタスクは解析対象外（フロート0・非クリティカル）とする
+ */
+export const analyzeSchedule = (tasks: Task[], calendar?: WorkingCalendar): ScheduleAnalysis => {
+  const result: ScheduleAnalysis = {
+    tasks: new Map(),
+    criticalPath: [],
+    criticalDependencies: new Set(),
+    projectStart: null,
+    projectEnd: null,
+  };
+  if (tasks.length === 0) return result;
+
+  const ids = new Set(tasks.map(task => task.id));
+  const taskById = new Map(tasks.map(task => [task.id, task]));
+  const predecessors = new Map<string, string[]>();
+  const successors = new Map<string, string[]>();
+  tasks.forEach(task => {
+    predecessors.set(task.id, []);
+    successors.set(task.id, []);
+  });
+  tasks.forEach(task => {
+    (task.dependencies || []).forEach(depId => {
+      if (!ids.has(depId) || depId === task.id) return;
+      predecessors.get(task.id)!.push(depId);
+      successors.get(depId)!.push(task.id);
+    });
+  });
+
+  const { order, acyclic } = getTopologicalOrder(tasks, predecessors, successors);
+  const scale = createDayScale(calendar);
+  const duration = (id: string) => getScaledDuration(scale, taskById.get(id)!);
+
+  const linkOf = (id: string, predId: string) => getDependencyLink(taskById.get(id)!, predId);
+
+  // 前進計算: 最早開始 = max(計画開始日, 各依存関係の制約から決まる開始日)
+  // FS・ラグ0 の場合は先行タスクの最早終了 + 1
+  const earliestStart = new Map<string, number>();
+  const earliestFinish = new Map<string, number>();
+  order.forEach(id => {
+    let es = scale.toStart(taskById.get(id)!.startDate);
+    if (acyclic.has(id)) {
+      predecessors.get(id)!.forEach(predId => {
+        es = Math.max(es, getRequiredStartDay(linkOf(id, predId), earliestStart.get(predId)!, earliestFinish.get(predId)!, duration(id)));
+      });
+    }
+    earliestStart.set(id, es);
+    earliestFinish.set(id, es + duration(id) - 1);
+  });
+
+  const projectStart = Math.min(...earliestStart.values());
+  const projectEnd = Math.max(...earliestFinish.values());
+
+  // 後退計算: 最遅終了 = min(各後続タスクの最遅日程から逆算した終了日)、後続がなければプロジェクト終了日
+  // FS・ラグ0 の場合は後続タスクの最遅開始 - 1
+  const latestStart = new Map<string, number>();
+  const latestFinish = new Map<string, number>();
+  [...order].reverse().forEach(id => {
+    let lf = projectEnd;
+    if (acyclic.has(id)) {
+      successors.get(id)!.forEach(succId => {
+        if (!latestStart.has(succId)) return;
+        const link = linkOf(succId, id);
+        const { from, to } = getDependencyAnchors(link.type);
+        const latestAnchor = anchorDay(to, latestStart.get(succId)!, latestFinish.get(succId)!) - link.lag;
+        lf = Math.min(lf, from === 'start' ? latestAnchor + duration(id) - 1 : latestAnchor - 1);
+      });
+    } else {
+      lf = earliestFinish.get(id)!;
+    }
+    latestFinish.set(id, lf);
+    latestStart.set(id, lf - duration(id) + 1);
+  });
+
+  tasks.forEach(task => {
+    const id = task.id;
+    const totalFloat = latestStart.get(id)! - earliestStart.get(id)!;
+    result.tasks.set(id, {
+      taskId: id,
+      earliestStart: scale.toDate(earliestStart.get(id)!),
+      earliestFinish: scale.toDate(earliestFinish.get(id)!),
+      latestStart: scale.toDate(latestStart.get(id)!),
+      latestFinish: scale.toDate(latestFinish.get(id)!),
+      totalFloat,
+      isCritical: acyclic.has(id) && totalFloat <= 0,
+    });
+  });
+
+  // クリティカルな依存線: 両端がクリティカルで、その依存関係が後続タスクの開始を決めているもの
+  tasks.forEach(task => {
+    if (!result.tasks.get(task.id)!.isCritical) return;
+    predecessors.get(task.id)!.forEach(predId => {
+      const requiredStart = getRequiredStartDay(linkOf(task.id, predId), earliestStart.get(predId)!, earliestFinish.get(predId)!, duration(task.id));
+      if (result.tasks.get(predId)!.isCritical && requiredStart === earliestStart.get(task.id)) {
+        result.criticalDependencies.add(getDependencyKey(predId, task.id));
+      }
+    });
+  });
+
+  result.criticalPath = order
+    .filter(id => result.tasks.get(id)!.isCritical)
+    .sort((a, b) => earliestStart.get(a)! - earliestStart.get(b)!);
+  result.projectStart = scale.toDate(projectStart);
+  result.projectEnd = scale.toDate(projectEnd);
+  return result;
+};
+
+export interface TaskDateUpdate {
+  taskId: string;
+  newStartDate: string;
+  newEndDate: string;
+}
+
+export interface DependencyViolation {
+  dependencyId: string; // 先行タスク
+  taskId: string;       // 後続タスク（依存関係の種類とラグの制約を満たしていない）
+}
+
+/**
+ * 日付変更を適用したタスク一覧を返す
+ */
+export const applyDateUpdates = (tasks: Task[], updates: TaskDateUpdate[]): Task[] => {
+  const updateById = new Map(updates.map(update => [update.taskId, update]));
+  return tasks.map(task => {
+    const update = updateById.get(task.id);
+    return update ? { ...task, startDate: update.newStartDate, endDate: update.newEndDate } : task;
+  });
+};
+
+/**
+ * 日付変更に合わせて後続タスクを後ろ倒しにし、依存関係（種類とラグ）の制約を保つ
+ * 変更されたタスクから（推移的に）依存されているタスクのみを対象とし、期間（カレンダーを渡した場合は稼働日数）は維持する
+ * 前倒しはしない。戻り値は追加で移動が必要なタスクの変更のみ（updates 自体は含まない）
+ */
+export const propagateDateChanges = (tasks: Task[], updates: TaskDateUpdate[], calendar?: WorkingCalendar): TaskDateUpdate[] => {
+  if (updates.length === 0) return [];
+
+  const updatedTasks = applyDateUpdates(tasks, updates);
+  const taskById = new Map(updatedTasks.map(task => [task.id, task]));
+  const fixedIds = new Set(updates.map(update => update.taskId));
+
+  const successors = new Map<string, string[]>();
+  updatedTasks.forEach(task => successors.set(task.id, []));
+  updatedTasks.forEach(task => {
+    (task.dependencies || []).forEach(depId => {
+      if (successors.has(depId) && depId !== task.id) successors.get(depId)!.push(task.id);
+    });
+  });
+
+  // 変更されたタスクの下流にあるタスクを収集
+  const affected = new Set<string>();
+  const queue = [...fixedIds];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    (successors.get(id) || []).forEach(succId => {
+      if (!affected.has(succId) && !fixedIds.has(succId)) {
+        affected.add(succId);
+        queue.push(succId);
+      }
+    });
+  }
+
+  const predecessors = (task: Task) => (task.dependencies || []).filter(depId => taskById.has(depId) && depId !== task.id);
+  const { order, acyclic } = getTopologicalOrder(
+    updatedTasks,
+    new Map(updatedTasks.map(task => [task.id, predecessors(task)])),
+    successors
+  );
+
+  const scale = createDayScale(calendar);
+  const result: TaskDateUpdate[] = [];
+  order.forEach(id => {
+    if (!affected.has(id) || !acyclic.has(id)) return;
+    const task = taskById.get(id)!;
+    const start = scale.toStart(task.startDate);
+    const duration = getScaledDuration(scale, task);
+    const requiredStart = Math.max(start, ...predecessors(task).map(depId => {
+      const dep = taskById.get(depId)!;
+      return getRequiredStartDay(getDependencyLink(task, depId), scale.toStart(dep.startDate), scale.toFinish(dep.endDate), duration);
+    }));
+    if (requiredStart === start) return;
+
+    const moved = {
+      ...task,
+      startDate: scale.toDate(requiredStart),
+      endDate: scale.toDate(requiredStart + duration - 1),
+    };
+    taskById.set(id, moved);
+    result.push({ taskId: id, newStartDate: moved.startDate, newEndDate: moved.endDate });
+  });
+  return result;
+};
+
+/**
+ * 種類とラグの制約を満たしていない依存関係（FS・ラグ0 なら先行タスクの終了日以前に開始しているもの）を列挙する
+ * taskIds を指定すると、そのいずれかが関わる依存関係のみを対象にする
+ */
+export const findDependencyViolations = (tasks: Task[], taskIds?: Set<string>, calendar?: WorkingCalendar): DependencyViolation[] => {
+  const taskById = new Map(tasks.map(task => [task.id, task]));
+  const scale = createDayScale(calendar);
+  const violations: DependencyViolation[] = [];
+  tasks.forEach(task => {
+    (task.dependencies || []).forEach(depId => {
+      const dep = taskById.get(depId);
+      if (!dep || depId === task.id) return;
+      if (taskIds && !taskIds.has(task.id) && !taskIds.has(depId)) return;
+      const start = scale.toStart(task.startDate);
+      if (getRequiredStartDay(getDependencyLink(task, depId), scale.toStart(dep.startDate), scale.toFinish(dep.endDate), getScaledDuration(scale, task)) > start) {
+        violations.push({ dependencyId: depId, taskId: task.id });
+      }
+    });
+  });
+  return violations;
+};
+
+export interface DependencyStartConstraint {
+  dependencyId: string;
+  requiredStartDate: string; // 依存関係（種類とラグ）を満たす最も早い開始日（カレンダーを渡した場合は稼働日）
+}
+
+/**
+ * 編集中のタスクについて、依存先ごとに満たすべき最も早い開始日を返す（存在しない依存先は除く）
+ * FF・SF は終了日の制約を、現在の期間を保ったまま開始日に換算する
+ */
+export const getDependencyStartConstraints = (
+  task: Pick<Task, 'startDate' | 'endDate' | 'dependencies' | 'dependencyLinks'>,
+  tasks: Task[],
+  calendar?: WorkingCalendar
+): DependencyStartConstraint[] => {
+  const taskById = new Map(tasks.map(t => [t.id, t]));
+  const scale = createDayScale(calendar);
+  const duration = getScaledDuration(scale, task);
+  return (task.dependencies || []).flatMap(depId => {
+    const dep = taskById.get(depId);
+    if (!dep) return [];
+    const requiredStart = getRequiredStartDay(getDependencyLink(task, depId), scale.toStart(dep.startDate), scale.toFinish(dep.endDate), duration);
+    return [{ dependencyId: depId, requiredStartDate: scale.toDate(requiredStart) }];
+  });
+};
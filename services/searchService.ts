@@ -0,0 +1,193 @@
+import { Task, TaskPriority, TaskStatus, TeamMember } from '../types';
+import { PRIORITY_TEXT_JP, STATUS_TEXT_JP } from '../constants';
+import { getTodayDateString } from './dateService';
+import { isValidDateString } from './validationService';
+
+/**
+ * タスクの検索クエリを解析し、タスクが条件に合うかを判定するサービス
+ * 例: status:"In Progress" priority:high due:<2026-11-01 tag:backend "login page"
+ * 条件はすべて AND。先頭に - を付けると否定（-tag:blocked）。キーのない語句はタスク名と説明から探す
+ */
+
+export type SearchDateOperator = '<' | '<=' | '>' | '>=' | '=';
+
+export type SearchFilter =
+  | { field: 'status'; value: TaskStatus; negated: boolean }
+  | { field: 'priority'; value: TaskPriority; negated: boolean }
+  | { field: 'tag' | 'assignee'; value: string; negated: boolean }
+  | { field: 'due' | 'start'; operator: SearchDateOperator; date: string; negated: boolean }
+  | { field: 'is'; value: 'milestone' | 'overdue'; negated: boolean };
+
+export interface SearchTerm {
+  text: string; // 小文字にした語句（引用符で囲んだ語句は空白を含む）
+  negated: boolean;
+}
+
+export interface SearchQuery {
+  terms: SearchTerm[];
+  filters: SearchFilter[];
+  errors: string[]; // 解釈できなかった条件（その条件は無視する）
+}
+
+interface QueryToken {
+  key?: string;
+  value: string;
+  negated: boolean;
+}
+
+const FILTER_KEYS = ['status', 'priority', 'due', 'start', 'tag', 'assignee', 'is'];
+const DATE_OPERATORS: SearchDateOperator[] = ['<=', '>=', '<', '>', '='];
+const IS_VALUES = ['milestone', 'overdue'] as const;
+
+// 大文字・小文字と空白を無視して比べる（"in progress"・"InProgress" を同じとみなす）
+const toKey = (value: string): string => value.toLowerCase().replace(/\s+/g, '');
+
+const findEnumValue = <T extends string>(value: string, values: T[], japaneseText: Record<T, string>): T | undefined =>
+  values.find(v => toKey(v) === toKey(value) || japaneseText[v] === value);
+
+/**
+ * クエリを「キー:値」と語句に分ける。値と語句は "..." で囲むと空白を含められる
+ */
+const tokenize = (query: string): QueryToken[] => {
+  const tokens: QueryToken[] = [];
+  const pattern = /(-?)(?:([A-Za-z]+):)?(?:"([^"]*)"?|(\S+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query)) !== null) {
+    const [, minus, key, quoted, bare] = match;
+    tokens.push({ ...(key ? { key } : {}), value: quoted ?? bare ?? '', negated: minus === '-' });
+  }
+  return tokens;
+};
+
+const parseDateFilter = (field: 'due' | 'start', value: string, negated: boolean): SearchFilter | string => {
+  const operator = DATE_OPERATORS.find(op => value.startsWith(op)) ?? '=';
+  const rawDate = value.slice(value.startsWith(operator) ? operator.length : 0);
+  const date = rawDate.toLowerCase() === 'today' ? getTodayDateString() : rawDate;
+  if (!isValidDateString(date)) return `${field}: の日付は YYYY-MM-DD 形式か today で指定してください（${value}）`;
+  return { field, operator, date, negated };
+};
+
+const parseFilter = ({ key, value, negated }: QueryToken & { key: string }): SearchFilter | string => {
+  switch (key) {
+    case 'status': {
+      const status = findEnumValue(value, Object.values(TaskStatus), STATUS_TEXT_JP);
+      return status ? { field: 'status', value: status, negated } : `status: には ${Object.values(TaskStatus).join(' / ')} を指定してください（${value}）`;
+    }
+    case 'priority': {
+      const priority = findEnumValue(value, Object.values(TaskPriority), PRIORITY_TEXT_JP);
+      return priority ? { field: 'priority', value: priority, negated } : `priority: には ${Object.values(TaskPriority).join(' / ')} を指定してください（${value}）`;
+    }
+    case 'tag':
+    case 'assignee':
+      return value ? { field: key, value, negated } : `${key}: の値がありません`;
+    case 'due':
+    case 'start':
+      return parseDateFilter(key, value, negated);
+    case 'is': {
+      const isValue = IS_VALUES.find(v => v === value.toLowerCase());
+      return isValue ? { field: 'is', value: isValue, negated } : `is: には ${IS_VALUES.join(' / ')} を指定してください（${value}）`;
+    }
+    default:
+      return `${key}: は使えない条件です`;
+  }
+};
+
+/**
+ * 検索クエリを条件と語句に解析する
+ */
+export const parseSearchQuery = (query: string): SearchQuery => {
+  const result: SearchQuery = { terms: [], filters: [], errors: [] };
+  tokenize(query).forEach(token => {
+    const key = token.key?.toLowerCase();
+    if (!key || !FILTER_KEYS.includes(key)) {
+      // 条件のキーでない「xxx:」（URL など）は語句として探す
+      const text = token.key ? `${token.key}:${token.value}` : token.value;
+      if (text.trim()) result.terms.push({ text: text.toLowerCase(), negated: token.negated });
+      return;
+    }
+    const filter = parseFilter({ ...token, key });
+    if (typeof filter === 'string') result.errors.push(filter);
+    else result.filters.push(filter);
+  });
+  return result;
+};
+
+/**
+ * 条件も語句もない（すべてのタスクが合う）クエリかどうか
+ */
+export const isEmptySearchQuery = (query: SearchQuery): boolean =>
+  query.terms.length === 0 && query.filters.length === 0;
+
+const compareDates = (date: string, operator: SearchDateOperator, target: string): boolean => {
+  switch (operator) {
+    case '<': return date < target;
+    case '<=': return date <= target;
+    case '>': return date > target;
+    case '>=': return date >= target;
+    default: return date === target;
+  }
+};
+
+const matchesFilter = (task: Task, filter: SearchFilter, team: TeamMember[]): boolean => {
+  switch (filter.field) {
+    case 'status':
+      return task.status === filter.value;
+    case 'priority':
+      return task.priority === filter.value;
+    case 'tag':
+      return (task.tags ?? []).some(tag => tag.toLowerCase() === filter.value.toLowerCase());
+    case 'assignee': {
+      // メンバーの ID または名前（部分一致）で指定できる
+      const value = filter.value.toLowerCase();
+      return (task.assignees ?? []).some(id => id.toLowerCase() === value
+        || !!team.find(member => member.id === id)?.name.toLowerCase().includes(value));
+    }
+    case 'due':
+      return compareDates(task.endDate, filter.operator, filter.date);
+    case 'start':
+      return compareDates(task.startDate, filter.operator, filter.date);
+    case 'is':
+      return filter.value === 'milestone'
+        ? !!task.milestone
+        : task.status !== TaskStatus.COMPLETED && task.endDate < getTodayDateString();
+  }
+};
+
+/**
+ * タスクが検索クエリのすべての条件と語句に合うかどうか
+ */
+export const matchesSearchQuery = (task: Task, query: SearchQuery, team: TeamMember[] = []): boolean => {
+  const text = `${task.name}\n${task.description ?? ''}`.toLowerCase();
+  return query.terms.every(term => text.includes(term.text) !== term.negated)
+    && query.filters.every(filter => matchesFilter(task, filter, team) !== filter.negated);
+};
+
+export interface HighlightSegment {
+  text: string;
+  isMatch: boolean;
+}
+
+/**
+ * テキストを検索語句（否定していないもの）に一致する部分とそれ以外に分ける（大文字・小文字は区別しない）
+ */
+export const splitByHighlights = (text: string, terms: SearchTerm[]): HighlightSegment[] => {
+  const needles = terms.filter(term => !term.negated && term.text).map(term => term.text);
+  if (needles.length === 0 || !text) return [{ text, isMatch: false }];
+
+  // 一致する範囲に印を付け、重なった範囲はまとめる
+  const lower = text.toLowerCase();
+  const marked = new Array<boolean>(text.length).fill(false);
+  needles.forEach(needle => {
+    for (let index = lower.indexOf(needle); index !== -1; index = lower.indexOf(needle, index + 1)) {
+      marked.fill(true, index, index + needle.length);
+    }
+  });
+
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.isMatch === marked[i]) last.text += text[i];
+    else segments.push({ text: text[i], isMatch: marked[i] });
+  }
+  return segments;
+};
@@ -0,0 +1,267 @@
+import { Task, SplitViewConfig, ViewMode, WorkingCalendar, CustomFieldDefinition, TeamMember, SavedView } from '../types';
+import { parseTasksFromYaml } from './yamlService';
+
+/**
+ * プロジェクト（タスク・分割ビュー設定・各種設定）の永続化を抽象化するサービス
+ * IndexedDB が使える環境では IndexedDB に、使えない環境では localStorage に保存する
+ */
+
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
+
+export interface ProjectSettings {
+  currentView?: ViewMode;
+  autoStatusFromProgress?: boolean; // 進捗率からステータスを自動で決める（未設定の場合は有効）
+  workingCalendar?: WorkingCalendar; // 稼働日カレンダー（未設定の場合は土日と日本の祝日を休みとする）
+  customFields?: CustomFieldDefinition[]; // プロジェクト独自の項目（見積もり・チケットURLなど）の定義
+  team?: TeamMember[]; // タスクの担当者として選べるチームの名簿
+  tagColors?: Record<string, string>; // タグごとの色（設定していないタグはタグ名から決めた色）
+  savedViews?: SavedView[]; // 名前を付けて保存した一覧・ガントチャートの表示条件
+  defaultViewId?: string; // プロジェクトを開いたときに使う保存ビュー（未設定の場合は既定の表示条件）
+}
+
+export interface ProjectData {
+  meta: ProjectMeta;
+  tasks: Task[];
+  splitViewConfig?: SplitViewConfig;
+  settings: ProjectSettings;
+}
+
+export interface StorageBackend {
+  listProjects(): Promise<ProjectMeta[]>;
+  loadProject(projectId: string): Promise<ProjectData | null>;
+  saveProject(project: ProjectData): Promise<void>;
+  deleteProject(projectId: string): Promise<void>;
+  getActiveProjectId(): Promise<string | null>;
+  setActiveProjectId(projectId: string): Promise<void>;
+}
+
+// 旧形式（単一プロジェクト）の localStorage キー
+const LEGACY_TASKS_KEY = 'tasksYaml';
+const LEGACY_SPLIT_VIEW_KEY = 'splitViewConfig';
+const LEGACY_BACKUP_KEY = 'tasksYaml.backup';
+
+export const DEFAULT_PROJECT_NAME = 'デフォルトプロジェクト';
+
+const sortByCreatedAt = (projects: ProjectMeta[]): ProjectMeta[] =>
+  [...projects].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+/**
+ * 新しいプロジェクトのデータを作成する
+ */
+export const createProjectData = (name: string, tasks: Task[] = [], splitViewConfig?: SplitViewConfig): ProjectData => {
+  const now = new Date().toISOString();
+  return {
+    meta: { id: `project-${crypto.randomUUID()}`, name, createdAt: now, updatedAt: now },
+    tasks,
+    ...(splitViewConfig ? { splitViewConfig } : {}),
+    settings: {},
+  };
+};
+
+/**
+ * localStorage に保存する実装（プロジェクトごとに1キー）
+ */
+export class LocalStorageBackend implements StorageBackend {
+  private static readonly INDEX_KEY = 'projects';
+  private static readonly ACTIVE_KEY = 'activeProjectId';
+  private static readonly PROJECT_KEY_PREFIX = 'project:';
+
+  private readIndex(): ProjectMeta[] {
+    const stored = localStorage.getItem(LocalStorageBackend.INDEX_KEY);
+    if (!stored) return [];
+    try {
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+      console.error('Failed to parse project index:', e);
+      return [];
+    }
+  }
+
+  private writeIndex(projects: ProjectMeta[]): void {
+    localStorage.setItem(LocalStorageBackend.INDEX_KEY, JSON.stringify(projects));
+  }
+
+  async listProjects(): Promise<ProjectMeta[]> {
+    return sortByCreatedAt(this.readIndex());
+  }
+
+  async loadProject(projectId: string): Promise<ProjectData | null> {
+    const stored = localStorage.getItem(LocalStorageBackend.PROJECT_KEY_PREFIX + projectId);
+    if (!stored) return null;
+    try {
+      return JSON.parse(stored) as ProjectData;
+    } catch (e) {
+      console.error(`Failed to parse project ${projectId}:`, e);
+      return null;
+    }
+  }
+
+  async saveProject(project: ProjectData): Promise<void> {
+    localStorage.setItem(LocalStorageBackend.PROJECT_KEY_PREFIX + project.meta.id, JSON.stringify(project));
+    const index = this.readIndex().filter(meta => meta.id !== project.meta.id);
+    this.writeIndex([...index, project.meta]);
+  }
+
+  async deleteProject(projectId: string): Promise<void> {
+    localStorage.removeItem(LocalStorageBackend.PROJECT_KEY_PREFIX + projectId);
+    this.writeIndex(this.readIndex().filter(meta => meta.id !== projectId));
+  }
+
+  async getActiveProjectId(): Promise<string | null> {
+    return localStorage.getItem(LocalStorageBackend.ACTIVE_KEY);
+  }
+
+  async setActiveProjectId(projectId: string): Promise<void> {
+    localStorage.setItem(LocalStorageBackend.ACTIVE_KEY, projectId);
+  }
+}
+
+/**
+ * IndexedDB に保存する実装（容量の大きいプロジェクト向け）
+ */
+export class IndexedDbBackend implements StorageBackend {
+  private static readonly DB_NAME = 'ai-todo-app';
+  private static readonly DB_VERSION = 1;
+  private static readonly PROJECT_STORE = 'projects';
+  private static readonly META_STORE = 'meta';
+  private static readonly ACTIVE_KEY = 'activeProjectId';
+
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(IndexedDbBackend.DB_NAME, IndexedDbBackend.DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(IndexedDbBackend.PROJECT_STORE)) {
+            db.createObjectStore(IndexedDbBackend.PROJECT_STORE, { keyPath: 'meta.id' });
+          }
+          if (!db.objectStoreNames.contains(IndexedDbBackend.META_STORE)) {
+            db.createObjectStore(IndexedDbBackend.META_STORE);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(storeName: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async listProjects(): Promise<ProjectMeta[]> {
+    const projects = await this.run<ProjectData[]>(IndexedDbBackend.PROJECT_STORE, 'readonly', store => store.getAll());
+    return sortByCreatedAt(projects.map(project => project.meta));
+  }
+
+  async loadProject(projectId: string): Promise<ProjectData | null> {
+    const project = await this.run<ProjectData | undefined>(IndexedDbBackend.PROJECT_STORE, 'readonly', store => store.get(projectId));
+    return project || null;
+  }
+
+  async saveProject(project: ProjectData): Promise<void> {
+    await this.run(IndexedDbBackend.PROJECT_STORE, 'readwrite', store => store.put(project));
+  }
+
+  async deleteProject(projectId: string): Promise<void> {
+    await this.run(IndexedDbBackend.PROJECT_STORE, 'readwrite', store => store.delete(projectId));
+  }
+
+  async getActiveProjectId(): Promise<string | null> {
+    const id = await this.run<string | undefined>(IndexedDbBackend.META_STORE, 'readonly', store => store.get(IndexedDbBackend.ACTIVE_KEY));
+    return id || null;
+  }
+
+  async setActiveProjectId(projectId: string): Promise<void> {
+    await this.run(IndexedDbBackend.META_STORE, 'readwrite', store => store.put(projectId, IndexedDbBackend.ACTIVE_KEY));
+  }
+}
+
+/**
+ * 実行環境で使える保存先を選ぶ
+ */
+export const createStorageBackend = (): StorageBackend =>
+  typeof indexedDB !== 'undefined' ? new IndexedDbBackend() : new LocalStorageBackend();
+
+export interface ProjectLoadResult {
+  project: ProjectData;
+  warning?: string; // 旧データを取り込めなかった場合など、利用者に知らせる内容
+}
+
+/**
+ * 旧形式の localStorage['tasksYaml'] があれば、デフォルトプロジェクトとして取り込む
+ * プロジェクトが既に存在する場合は何もしない
+ * YAMLを読み込めない場合は空のプロジェクトを作り、元のYAMLを tasksYaml.backup に退避する
+ */
+export const migrateLegacyData = async (storage: StorageBackend): Promise<ProjectLoadResult | null> => {
+  const legacyYaml = localStorage.getItem(LEGACY_TASKS_KEY);
+  if (legacyYaml === null) return null;
+  if ((await storage.listProjects()).length > 0) return null;
+
+  let tasks: Task[] = [];
+  let warning: string | undefined;
+  try {
+    // 既存データに循環が含まれていても取り込み、画面側で警告を表示する
+    tasks = parseTasksFromYaml(legacyYaml, { allowCycles: true });
+  } catch (e) {
+    localStorage.setItem(LEGACY_BACKUP_KEY, legacyYaml);
+    warning = `保存されていたタスクを読み込めなかったため、空のプロジェクトを作成しました（元のYAMLは localStorage['${LEGACY_BACKUP_KEY}'] に退避しました）: ${(e as Error).message}`;
+  }
+
+  let splitViewConfig: SplitViewConfig | undefined;
+  const legacySplitConfig = localStorage.getItem(LEGACY_SPLIT_VIEW_KEY);
+  if (legacySplitConfig) {
+    try {
+      splitViewConfig = JSON.parse(legacySplitConfig);
+    } catch (e) {
+      console.error('Failed to parse stored split view config:', e);
+    }
+  }
+
+  const project = createProjectData(DEFAULT_PROJECT_NAME, tasks, splitViewConfig);
+  await storage.saveProject(project);
+  await storage.setActiveProjectId(project.meta.id);
+  localStorage.removeItem(LEGACY_TASKS_KEY);
+  localStorage.removeItem(LEGACY_SPLIT_VIEW_KEY);
+  return { project, warning };
+};
+
+/**
+ * 起動時に開くプロジェクトを決める（旧データの移行、プロジェクトがなければ初期タスクで作成）
+ */
+export const loadActiveProject = async (storage: StorageBackend, initialTasks: () => Task[]): Promise<ProjectLoadResult> => {
+  const migrated = await migrateLegacyData(storage);
+  if (migrated) return migrated;
+
+  const activeId = await storage.getActiveProjectId();
+  const active = activeId ? await storage.loadProject(activeId) : null;
+  if (active) return { project: active };
+
+  const [first] = await storage.listProjects();
+  const fallback = first ? await storage.loadProject(first.id) : null;
+  if (fallback) {
+    await storage.setActiveProjectId(fallback.meta.id);
+    return { project: fallback };
+  }
+
+  const project = createProjectData(DEFAULT_PROJECT_NAME, initialTasks());
+  await storage.saveProject(project);
+  await storage.setActiveProjectId(project.meta.id);
+  return { project };
+};
@@ -0,0 +1,163 @@
+import { Task, SplitViewConfig } from '../types';
+import { ProjectMeta, ProjectSettings } from './storageService';
+import { diffTaskFields } from './taskDiffService';
+
+/**
+ * 同じアプリを開いている別タブとの間で変更を通知し合い、タスクをマージするサービス
+ * BroadcastChannel が使えない環境では localStorage の storage イベントで代用する
+ */
+
+export type SyncMessage =
+  | {
+      kind: 'project-updated';
+      sourceTabId: string;
+      timestamp: number;
+      meta: ProjectMeta;
+      tasks: Task[];
+      settings: ProjectSettings;
+      splitViewConfig?: SplitViewConfig;
+    }
+  | {
+      kind: 'projects-changed'; // プロジェクトの作成・削除
+      sourceTabId: string;
+      timestamp: number;
+    };
+
+export interface SyncChannel {
+  post: (message: SyncMessage) => void;
+  close: () => void;
+}
+
+export interface TaskConflict {
+  taskId: string;
+  taskName: string;
+  winner: 'local' | 'remote';
+  localTask?: Task;  // このタブの版（削除した場合は undefined）
+  remoteTask?: Task; // 他のタブの版（削除された場合は undefined）
+}
+
+export interface TaskMergeResult {
+  tasks: Task[];
+  conflicts: TaskConflict[];
+}
+
+const CHANNEL_NAME = 'ai-todo-app-sync';
+const STORAGE_EVENT_KEY = 'ai-todo-app-sync';
+
+/**
+ * 他のタブとの通信路を開く。自分が送ったメッセージは受け取らない
+ */
+export const openSyncChannel = (tabId: string, onMessage: (message: SyncMessage) => void): SyncChannel => {
+  const handle = (message: SyncMessage | null) => {
+    if (message && message.sourceTabId !== tabId) onMessage(message);
+  };
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => handle(event.data);
+    return {
+      post: message => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_EVENT_KEY || !event.newValue) return;
+    try {
+      handle(JSON.parse(event.newValue));
+    } catch (e) {
+      console.error('Failed to parse sync message:', e);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    post: message => localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify(message)),
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+};
+
+/**
+ * 同時に行われた変更のどちらを優先するかを決める（どのタブで判定しても同じ結果になる）
+ * 後から行われた変更を優先し、同時刻の場合はタブIDの大きい方を優先する
+ */
+export const shouldRemoteWin = (localTimestamp: number, localTabId: string, remoteTimestamp: number, remoteTabId: string): boolean =>
+  remoteTimestamp !== localTimestamp ? remoteTimestamp > localTimestamp : remoteTabId > localTabId;
+
+const isSameTask = (a: Task | undefined, b: Task | undefined): boolean => {
+  if (!a || !b) return a === b;
+  return diffTaskFields(a, b).length === 0;
+};
+
+/**
+ * 共通の基準（最後に同期した状態）をもとに、このタブと他のタブのタスクを3方向マージする
+ * 片方だけが変更したタスクはその変更を取り込み、両方が変更したタスクは衝突として remoteWins に従って解決する
+ * 並び順は他のタブに従い、このタブだけで追加したタスクは末尾に加える
+ */
+export const mergeRemoteTasks = (base: Task[], local: Task[], remote: Task[], remoteWins: boolean): TaskMergeResult => {
+  const baseById = new Map(base.map(task => [task.id, task]));
+  const localById = new Map(local.map(task => [task.id, task]));
+  const remoteById = new Map(remote.map(task => [task.id, task]));
+  const conflicts: TaskConflict[] = [];
+
+  const resolve = (taskId: string): Task | undefined => {
+    const baseTask = baseById.get(taskId);
+    const localTask = localById.get(taskId);
+    const remoteTask = remoteById.get(taskId);
+
+    if (isSameTask(localTask, remoteTask)) return localTask;
+    if (isSameTask(localTask, baseTask)) return remoteTask;  // 他のタブだけが変更
+    if (isSameTask(remoteTask, baseTask)) return localTask;  // このタブだけが変更
+
+    const winner = remoteWins ? 'remote' : 'local';
+    conflicts.push({
+      taskId,
+      taskName: (localTask || remoteTask || baseTask)!.name,
+      winner,
+      localTask,
+      remoteTask,
+    });
+    return winner === 'remote' ? remoteTask : localTask;
+  };
+
+  const ids = [
+    ...remote.map(task => task.id),
+    ...local.map(task => task.id).filter(id => !remoteById.has(id)),
+  ];
+  const tasks = ids
+    .map(resolve)
+    .filter((task): task is Task => task !== undefined);
+
+  return { tasks, conflicts };
+};
+
+const isSameSettingValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * プロジェクトの設定を項目（チーム・独自項目・稼働日カレンダーなど）ごとに3方向マージする
+ * 両方が同じ項目を変更した場合は remoteWins に従う。表示中のビューはタブごとの状態なので、このタブの値を残す
+ */
+export const mergeRemoteSettings = (base: ProjectSettings, local: ProjectSettings, remote: ProjectSettings, remoteWins: boolean): ProjectSettings => {
+  const keys = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)] as (keyof ProjectSettings)[]);
+  const merged: Record<string, unknown> = {};
+  keys.forEach(key => {
+    const value = key === 'currentView' || isSameSettingValue(remote[key], base[key])
+      ? local[key]
+      : isSameSettingValue(local[key], base[key]) || remoteWins ? remote[key] : local[key];
+    if (value !== undefined) merged[key] = value;
+  });
+  return merged as ProjectSettings;
+};
+
+/**
+ * 他のタブと共有する設定（表示中のビュー以外）が同じ内容かどうかを判定する
+ */
+export const isSameSettings = (a: ProjectSettings, b: ProjectSettings): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof ProjectSettings)[]);
+  return [...keys].every(key => key === 'currentView' || isSameSettingValue(a[key], b[key]));
+};
+
+/**
+ * タスク一覧が同じ内容かどうか（並び順も含めて）を判定する
+ */
+export const isSameTaskList = (a: Task[], b: Task[]): boolean =>
+  a.length === b.length && a.every((task, i) => task.id === b[i].id && isSameTask(task, b[i]));
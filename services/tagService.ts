@@ -0,0 +1,68 @@
+import { Task } from '../types';
+import { TAG_COLORS } from '../constants';
+
+/**
+ * タスクのタグ（自由に付けられるラベル）とプロジェクトのタグの色を扱うサービス
+ */
+
+export type TagMatchMode = 'all' | 'any'; // all: すべてのタグを持つ（AND）、any: いずれかのタグを持つ（OR）
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * タグの前後の空白を除き、空のタグと重複を取り除く（順序は保つ）
+ */
+export const normalizeTags = (tags: string[]): string[] =>
+  [...new Set(tags.map(tag => tag.trim()).filter(Boolean))];
+
+/**
+ * タグを差し替えたタスクを返す（タグがなくなれば tags を取り除く）
+ */
+export const withTags = (task: Task, tags: string[]): Task => {
+  const { tags: _tags, ...rest } = task;
+  const normalized = normalizeTags(tags);
+  return normalized.length > 0 ? { ...rest, tags: normalized } : rest;
+};
+
+/**
+ * タスクで使われているタグの一覧（名前順）
+ */
+export const getAllTags = (tasks: Pick<Task, 'tags'>[]): string[] =>
+  [...new Set(tasks.flatMap(task => task.tags ?? []))].sort((a, b) => a.localeCompare(b));
+
+/**
+ * 保存されているタグの色から、不正な色と空のタグ名を取り除く
+ */
+export const normalizeTagColors = (tagColors?: Record<string, string>): Record<string, string> =>
+  Object.fromEntries(Object.entries(tagColors ?? {})
+    .map(([tag, color]) => [tag.trim(), color] as const)
+    .filter(([tag, color]) => tag !== '' && typeof color === 'string' && COLOR_PATTERN.test(color)));
+
+/**
+ * タグの色（設定がなければタグ名から決めた色。同じタグは常に同じ色になる）
+ */
+export const getTagColor = (tag: string, tagColors: Record<string, string> = {}): string => {
+  if (tagColors[tag]) return tagColors[tag];
+  let hash = 0;
+  for (const char of tag) hash = (hash * 31 + char.codePointAt(0)!) >>> 0;
+  return TAG_COLORS[hash % TAG_COLORS.length];
+};
+
+/**
+ * タグでの絞り込みに合うかどうか（絞り込むタグがなければ常に合う）
+ */
+export const matchesTagFilter = (task: Pick<Task, 'tags'>, filterTags: string[], mode: TagMatchMode): boolean => {
+  if (filterTags.length === 0) return true;
+  const tags = task.tags ?? [];
+  return mode === 'all' ? filterTags.every(tag => tags.includes(tag)) : filterTags.some(tag => tags.includes(tag));
+};
+
+/**
+ * 入力中の文字を含むタグの候補（前方一致を先に、付けているタグは除く。大文字・小文字は区別しない）
+ */
+export const suggestTags = (input: string, allTags: string[], selectedTags: string[], limit: number = 8): string[] => {
+  const query = input.trim().toLowerCase();
+  const candidates = allTags.filter(tag => !selectedTags.includes(tag) && tag.toLowerCase().includes(query));
+  const prefixMatches = candidates.filter(tag => tag.toLowerCase().startsWith(query));
+  return [...prefixMatches, ...candidates.filter(tag => !prefixMatches.includes(tag))].slice(0, limit);
+};
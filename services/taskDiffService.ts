@@ -0,0 +1,112 @@
+import { Task } from '../types';
+import { withDependencies } from './dependencyService';
+
+/**
+ * 現在のタスク一覧とAIの提案との差分を求め、選択された変更だけをマージするサービス
+ */
+
+export type TaskChangeType = 'added' | 'removed' | 'modified';
+
+export interface TaskFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface TaskChange {
+  type: TaskChangeType;
+  taskId: string;
+  before?: Task; // added の場合は undefined
+  after?: Task;  // removed の場合は undefined
+  fieldChanges: TaskFieldChange[];
+}
+
+const isSameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * 2つのタスクのフィールド単位の差分を求める（キーの順序は before → after の出現順）
+ */
+export const diffTaskFields = (before: Task, after: Task): TaskFieldChange[] => {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return fields
+    .filter(field => field !== 'id')
+    .filter(field => !isSameValue(before[field as keyof Task], after[field as keyof Task]))
+    .map(field => ({ field, before: before[field as keyof Task], after: after[field as keyof Task] }));
+};
+
+/**
+ * タスク一覧の差分を求める
+ * 結果は提案側の順序で並べ、削除されたタスクは末尾に元の順序で追加する
+ */
+export const diffTasks = (current: Task[], proposed: Task[]): TaskChange[] => {
+  const currentById = new Map(current.map(task => [task.id, task]));
+  const proposedIds = new Set(proposed.map(task => task.id));
+  const changes: TaskChange[] = [];
+
+  proposed.forEach(task => {
+    const before = currentById.get(task.id);
+    if (!before) {
+      changes.push({ type: 'added', taskId: task.id, after: task, fieldChanges: [] });
+      return;
+    }
+    const fieldChanges = diffTaskFields(before, task);
+    if (fieldChanges.length > 0) {
+      changes.push({ type: 'modified', taskId: task.id, before, after: task, fieldChanges });
+    }
+  });
+
+  current.forEach(task => {
+    if (!proposedIds.has(task.id)) {
+      changes.push({ type: 'removed', taskId: task.id, before: task, fieldChanges: [] });
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * 承認された変更だけを現在のタスク一覧に適用する
+ * 並び順は提案に従い、却下された削除のタスクは元の直前のタスクの後ろに残す
+ * マージ後に存在しないタスクへの依存関係と親の参照は取り除く
+ */
+export const mergeTaskChanges = (current: Task[], proposed: Task[], acceptedTaskIds: Set<string>): Task[] => {
+  const changeById = new Map(diffTasks(current, proposed).map(change => [change.taskId, change]));
+  const isAccepted = (taskId: string) => acceptedTaskIds.has(taskId);
+
+  const merged: Task[] = [];
+  proposed.forEach(task => {
+    const change = changeById.get(task.id);
+    if (!change) {
+      merged.push(current.find(t => t.id === task.id)!);
+    } else if (change.type === 'added') {
+      if (isAccepted(task.id)) merged.push(task);
+    } else if (change.type === 'modified') {
+      merged.push(isAccepted(task.id) ? task : change.before!);
+    }
+  });
+
+  // 削除を却下したタスクを、元の一覧で直前にあったタスクの後ろへ戻す
+  current.forEach((task, index) => {
+    const change = changeById.get(task.id);
+    if (change?.type !== 'removed' || isAccepted(task.id)) return;
+    const previousIds = current.slice(0, index).map(t => t.id);
+    let insertAt = 0;
+    for (let i = previousIds.length - 1; i >= 0; i--) {
+      const position = merged.findIndex(t => t.id === previousIds[i]);
+      if (position !== -1) {
+        insertAt = position + 1;
+        break;
+      }
+    }
+    merged.splice(insertAt, 0, task);
+  });
+
+  const mergedIds = new Set(merged.map(task => task.id));
+  return merged.map(task => {
+    const dependencies = (task.dependencies || []).filter(depId => mergedIds.has(depId));
+    const hasMissingParent = !!task.parentId && !mergedIds.has(task.parentId);
+    if (dependencies.length === (task.dependencies || []).length && !hasMissingParent) return task;
+    const { parentId, ...rest } = withDependencies(task, dependencies);
+    return { ...rest, ...(hasMissingParent ? {} : { parentId }) };
+  });
+};
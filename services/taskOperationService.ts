@@ -0,0 +1,297 @@
+import { Task, TaskStatus, TaskPriority, DependencyLink, DependencyType, CustomFieldValue } from '../types';
+import { isValidDateString, validateCustomFieldValue } from './validationService';
+import { DEFAULT_TASK_STATUS, DEFAULT_TASK_PRIORITY } from '../constants';
+import { getDescendantIds, removeTaskWithSubtree } from './hierarchyService';
+import { DEFAULT_DEPENDENCY_LINK, formatDependencyLink, getDependencyLink, isDefaultDependencyLink, withDependencies } from './dependencyService';
+import { addDays } from './dateService';
+import { isEmptyCustomFieldValue, mergeCustomFieldValues } from './customFieldService';
+import { normalizeTags, withTags } from './tagService';
+import { withAssignees } from './teamService';
+
+/**
+ * AIが提案するタスク操作（createTask / updateTask / deleteTask / addDependency / shiftDates）の
+ * 型定義・引数の検証・ローカルでの適用（リデューサー）を提供するサービス
+ */
+
+export type TaskOperationType = 'createTask' | 'updateTask' | 'deleteTask' | 'addDependency' | 'shiftDates';
+
+export type TaskFieldUpdates = Partial<Omit<Task, 'id'>>;
+
+export type TaskOperation =
+  | { type: 'createTask'; task: Task }
+  | { type: 'updateTask'; taskId: string; fields: TaskFieldUpdates }
+  | { type: 'deleteTask'; taskId: string }
+  | { type: 'addDependency'; taskId: string; dependsOn: string; link?: DependencyLink }
+  | { type: 'shiftDates'; taskIds: string[]; days: number };
+
+/**
+ * 操作の引数が不正、または適用できない場合の例外
+ */
+export class TaskOperationError extends Error {
+  readonly operationIndex?: number;
+
+  constructor(message: string, operationIndex?: number) {
+    super(operationIndex !== undefined ? `Operation #${operationIndex + 1}: ${message}` : message);
+    this.name = 'TaskOperationError';
+    this.operationIndex = operationIndex;
+  }
+}
+
+const STATUS_VALUES = Object.values(TaskStatus) as string[];
+const PRIORITY_VALUES = Object.values(TaskPriority) as string[];
+const DEPENDENCY_TYPE_VALUES = Object.values(DependencyType) as string[];
+const UPDATABLE_FIELDS = ['name', 'description', 'status', 'priority', 'startDate', 'endDate', 'dependencies', 'parentId', 'progress', 'milestone', 'customFields', 'assignees', 'tags'];
+
+const requireString = (args: Record<string, unknown>, key: string): string => {
+  const value = args[key];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new TaskOperationError(`"${key}" must be a non-empty string.`);
+  }
+  return value.trim();
+};
+
+/**
+ * カスタムフィールドの値の更新を検証する（空文字・null は値を消す指定として空文字に揃える）
+ * 定義に照らした種類の検証は、適用後のタスク一覧を validateTasks で検証するときに行う
+ */
+const validateCustomFieldUpdates = (value: unknown): Record<string, CustomFieldValue> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new TaskOperationError('customFields must be a mapping of field ids to values.');
+  }
+  const updates: Record<string, CustomFieldValue> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([fieldId, raw]) => {
+    if (isEmptyCustomFieldValue(raw)) {
+      updates[fieldId] = '';
+      return;
+    }
+    const result = validateCustomFieldValue(fieldId, raw);
+    if (result.error) throw new TaskOperationError(result.error);
+    updates[fieldId] = result.value!;
+  });
+  return updates;
+};
+
+/**
+ * フィールド更新の値を Task の型に照らして検証する
+ */
+const validateFieldUpdates = (fields: Record<string, unknown>): TaskFieldUpdates => {
+  const updates: Record<string, unknown> = {};
+  Object.entries(fields).forEach(([field, value]) => {
+    if (value === undefined || value === null) return;
+    if (!UPDATABLE_FIELDS.includes(field)) {
+      throw new TaskOperationError(`Field "${field}" cannot be updated.`);
+    }
+    if (field === 'status' && !STATUS_VALUES.includes(value as string)) {
+      throw new TaskOperationError(`status "${value}" is invalid. Expected one of: ${STATUS_VALUES.join(', ')}.`);
+    }
+    if (field === 'priority' && !PRIORITY_VALUES.includes(value as string)) {
+      throw new TaskOperationError(`priority "${value}" is invalid. Expected one of: ${PRIORITY_VALUES.join(', ')}.`);
+    }
+    if ((field === 'startDate' || field === 'endDate') && !isValidDateString(value)) {
+      throw new TaskOperationError(`${field} "${value}" must be a valid date in YYYY-MM-DD format.`);
+    }
+    if (field === 'progress' && (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 100)) {
+      throw new TaskOperationError(`progress "${value}" must be a number between 0 and 100.`);
+    }
+    if (field === 'milestone' && typeof value !== 'boolean') {
+      throw new TaskOperationError('milestone must be true or false.');
+    }
+    if (field === 'dependencies' && (!Array.isArray(value) || value.some(id => typeof id !== 'string'))) {
+      throw new TaskOperationError('dependencies must be a list of task IDs.');
+    }
+    if (field === 'assignees' && (!Array.isArray(value) || value.some(id => typeof id !== 'string'))) {
+      throw new TaskOperationError('assignees must be a list of team member ids.');
+    }
+    if (field === 'tags' && (!Array.isArray(value) || value.some(tag => typeof tag !== 'string'))) {
+      throw new TaskOperationError('tags must be a list of strings.');
+    }
+    if ((field === 'name' || field === 'description' || field === 'parentId') && typeof value !== 'string') {
+      throw new TaskOperationError(`${field} must be a string.`);
+    }
+    if (field === 'customFields') {
+      updates[field] = validateCustomFieldUpdates(value);
+      return;
+    }
+    if (field === 'tags') {
+      updates[field] = normalizeTags(value as string[]);
+      return;
+    }
+    updates[field] = value;
+  });
+  return updates as TaskFieldUpdates;
+};
+
+/**
+ * AIの関数呼び出し（関数名と引数）を検証して TaskOperation に変換する
+ * createTask の ID は省略された場合ローカルで採番する
+ */
+export const parseTaskOperation = (name: string | undefined, args: Record<string, unknown> = {}): TaskOperation => {
+  switch (name) {
+    case 'createTask': {
+      const { id, ...rest } = args;
+      const fields = validateFieldUpdates({ dependencies: [], ...rest });
+      const startDate = requireString(args, 'startDate');
+      const task: Task = {
+        // 同じ一連の操作の中で参照できるよう、AIが指定したIDがあればそれを使う
+        id: typeof id === 'string' && id.trim() !== '' ? id.trim() : `task-${crypto.randomUUID()}`,
+        name: requireString(args, 'name'),
+        ...(fields.description ? { description: fields.description } : {}),
+        status: fields.status || DEFAULT_TASK_STATUS,
+        priority: fields.priority || DEFAULT_TASK_PRIORITY,
+        startDate,
+        // マイルストーンは開始日の1日のみ
+        endDate: fields.milestone ? startDate : requireString(args, 'endDate'),
+        ...(fields.milestone ? { milestone: true } : {}),
+        ...(fields.progress !== undefined ? { progress: fields.progress } : {}),
+        dependencies: fields.dependencies || [],
+        ...(fields.parentId ? { parentId: fields.parentId } : {}),
+      };
+      const customFields = fields.customFields && mergeCustomFieldValues(undefined, fields.customFields);
+      if (customFields) task.customFields = customFields;
+      const assigned = fields.assignees ? withAssignees(task, fields.assignees) : task;
+      return { type: 'createTask', task: fields.tags ? withTags(assigned, fields.tags) : assigned };
+    }
+    case 'updateTask': {
+      const { taskId: _taskId, ...fields } = args;
+      const updates = validateFieldUpdates(fields);
+      if (Object.keys(updates).length === 0) {
+        throw new TaskOperationError('updateTask requires at least one field to change.');
+      }
+      return { type: 'updateTask', taskId: requireString(args, 'taskId'), fields: updates };
+    }
+    case 'deleteTask':
+      return { type: 'deleteTask', taskId: requireString(args, 'taskId') };
+    case 'addDependency': {
+      const { dependencyType = DependencyType.FINISH_TO_START, lag = 0 } = args;
+      if (!DEPENDENCY_TYPE_VALUES.includes(dependencyType as string)) {
+        throw new TaskOperationError(`dependencyType "${dependencyType}" is invalid. Expected one of: ${DEPENDENCY_TYPE_VALUES.join(', ')}.`);
+      }
+      if (typeof lag !== 'number' || !Number.isInteger(lag)) {
+        throw new TaskOperationError('addDependency requires "lag" to be an integer.');
+      }
+      const link: DependencyLink = { type: dependencyType as DependencyType, lag };
+      return {
+        type: 'addDependency',
+        taskId: requireString(args, 'taskId'),
+        dependsOn: requireString(args, 'dependsOn'),
+        ...(isDefaultDependencyLink(link) ? {} : { link }),
+      };
+    }
+    case 'shiftDates': {
+      const { taskIds, days } = args;
+      if (!Array.isArray(taskIds) || taskIds.length === 0 || taskIds.some(id => typeof id !== 'string')) {
+        throw new TaskOperationError('shiftDates requires a non-empty list of taskIds.');
+      }
+      if (typeof days !== 'number' || !Number.isInteger(days)) {
+        throw new TaskOperationError('shiftDates requires "days" to be an integer.');
+      }
+      return { type: 'shiftDates', taskIds: taskIds as string[], days };
+    }
+    default:
+      throw new TaskOperationError(`Unknown operation "${name}".`);
+  }
+};
+
+const requireTask = (tasks: Task[], taskId: string): Task => {
+  const task = tasks.find(t => t.id === taskId);
+  if (!task) throw new TaskOperationError(`Task "${taskId}" does not exist.`);
+  return task;
+};
+
+/**
+ * 1つの操作をタスク一覧に適用する（リデューサー）
+ */
+export const applyTaskOperation = (tasks: Task[], operation: TaskOperation): Task[] => {
+  switch (operation.type) {
+    case 'createTask':
+      if (tasks.some(task => task.id === operation.task.id)) {
+        throw new TaskOperationError(`Task "${operation.task.id}" already exists.`);
+      }
+      return [...tasks, operation.task];
+    case 'updateTask':
+      requireTask(tasks, operation.taskId);
+      if (operation.fields.parentId && requireTask(tasks, operation.fields.parentId).milestone) {
+        throw new TaskOperationError(`Milestone "${operation.fields.parentId}" cannot have subtasks.`);
+      }
+      return tasks.map(task => {
+        if (task.id !== operation.taskId) return task;
+        // 依存先を差し替えた場合は、外れた依存先の種類とラグも取り除く
+        const updated = operation.fields.dependencies
+          ? withDependencies({ ...task, ...operation.fields }, operation.fields.dependencies)
+          : { ...task, ...operation.fields };
+        // parentId に空文字を指定するとトップレベルに戻す
+        if (!updated.parentId) delete updated.parentId;
+        // カスタムフィールドは指定された項目だけを書き換える（空の値は項目を消す）
+        if (operation.fields.customFields) {
+          const customFields = mergeCustomFieldValues(task.customFields, operation.fields.customFields);
+          if (customFields) updated.customFields = customFields;
+          else delete updated.customFields;
+        }
+        if (updated.milestone) {
+          // マイルストーンは1日のみ（終了日だけが指定された場合はその日に移動する）
+          const date = operation.fields.startDate || operation.fields.endDate || updated.startDate;
+          updated.startDate = date;
+          updated.endDate = date;
+        } else {
+          delete updated.milestone;
+        }
+        // 担当者とタグは指定されたリストで置き換える（空のリストは担当者・タグなし）
+        const assigned = operation.fields.assignees ? withAssignees(updated, operation.fields.assignees) : updated;
+        return operation.fields.tags ? withTags(assigned, operation.fields.tags) : assigned;
+      });
+    case 'deleteTask':
+      requireTask(tasks, operation.taskId);
+      // サブタスクもまとめて削除する
+      return removeTaskWithSubtree(tasks, operation.taskId);
+    case 'addDependency': {
+      const task = requireTask(tasks, operation.taskId);
+      requireTask(tasks, operation.dependsOn);
+      const link = operation.link || DEFAULT_DEPENDENCY_LINK;
+      const current = getDependencyLink(task, operation.dependsOn);
+      if (task.dependencies.includes(operation.dependsOn) && current.type === link.type && current.lag === link.lag) return tasks;
+      // 既にある依存関係に対しては種類とラグだけを更新する
+      const dependencies = task.dependencies.includes(operation.dependsOn) ? task.dependencies : [...task.dependencies, operation.dependsOn];
+      const links = { ...task.dependencyLinks, [operation.dependsOn]: link };
+      return tasks.map(t => (t.id === operation.taskId ? withDependencies(t, dependencies, links) : t));
+    }
+    case 'shiftDates': {
+      operation.taskIds.forEach(taskId => requireTask(tasks, taskId));
+      // サマリータスクを移動する場合はサブタスクも一緒に移動する
+      const targets = new Set(operation.taskIds.flatMap(taskId => [taskId, ...getDescendantIds(tasks, taskId)]));
+      return tasks.map(task => (targets.has(task.id)
+        ? { ...task, startDate: addDays(task.startDate, operation.days), endDate: addDays(task.endDate, operation.days) }
+        : task));
+    }
+  }
+};
+
+/**
+ * 操作を順に適用する。いずれかが失敗した場合は何も適用せずに TaskOperationError を投げる
+ */
+export const applyTaskOperations = (tasks: Task[], operations: TaskOperation[]): Task[] =>
+  operations.reduce((current, operation, index) => {
+    try {
+      return applyTaskOperation(current, operation);
+    } catch (error) {
+      throw new TaskOperationError((error as Error).message, index);
+    }
+  }, tasks);
+
+/**
+ * 操作を監査用の日本語の説明文にする
+ */
+export const describeTaskOperation = (operation: TaskOperation, tasks: Task[]): string => {
+  const nameOf = (taskId: string) => tasks.find(task => task.id === taskId)?.name || taskId;
+  switch (operation.type) {
+    case 'createTask':
+      return `タスク「${operation.task.name}」を作成（${operation.task.startDate} 〜 ${operation.task.endDate}）`;
+    case 'updateTask':
+      return `タスク「${nameOf(operation.taskId)}」の ${Object.keys(operation.fields).join(', ')} を更新`;
+    case 'deleteTask':
+      return `タスク「${nameOf(operation.taskId)}」を削除`;
+    case 'addDependency':
+      return `タスク「${nameOf(operation.taskId)}」を「${nameOf(operation.dependsOn)}」に依存させる${operation.link ? `（${formatDependencyLink(operation.link)}）` : ''}`;
+    case 'shiftDates':
+      return `${operation.taskIds.map(id => `「${nameOf(id)}」`).join('')}の日程を${Math.abs(operation.days)}日${operation.days >= 0 ? '後ろ倒し' : '前倒し'}`;
+  }
+};
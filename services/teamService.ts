@@ -0,0 +1,90 @@
+import { Task, TeamMember } from '../types';
+import { MEMBER_COLORS } from '../constants';
+
+/**
+ * プロジェクトのチームの名簿と、タスクの担当者を扱うサービス
+ */
+
+// 名簿にない担当者（名簿から削除された、または YAML で直接書かれた ID）の表示色
+const UNKNOWN_MEMBER_COLOR = '#64748b';
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * 保存されている名簿を整える（ID の重複は最初のメンバーを使い、色と稼働率に既定値を補う）
+ */
+export const normalizeTeam = (team?: TeamMember[]): TeamMember[] => {
+  const seen = new Set<string>();
+  return (team ?? []).filter(member => {
+    if (!member || typeof member.id !== 'string' || member.id.trim() === '' || seen.has(member.id)) return false;
+    seen.add(member.id);
+    return true;
+  }).map((member, index) => {
+    const capacity = typeof member.capacity === 'number' && Number.isFinite(member.capacity)
+      ? Math.min(1, Math.max(0, member.capacity))
+      : 1;
+    return {
+      id: member.id,
+      name: member.name?.trim() || member.id,
+      color: COLOR_PATTERN.test(member.color) ? member.color : MEMBER_COLORS[index % MEMBER_COLORS.length],
+      // 全日（1）の場合は省略する
+      ...(capacity < 1 ? { capacity } : {}),
+    };
+  });
+};
+
+/**
+ * 名前から YAML に書きやすいメンバー ID を作る（例: "Aiko Tanaka" → "aiko-tanaka"）
+ * 英数字を含まない名前は member-<番号> にし、既存の ID と重ならないよう番号を付ける
+ */
+export const createMemberId = (name: string, team: TeamMember[]): string => {
+  const base = name.toLowerCase().match(/[a-z0-9]+/g)?.join('-') || 'member';
+  const ids = new Set(team.map(member => member.id));
+  if (base !== 'member' && !ids.has(base)) return base;
+  let suffix = base === 'member' ? 1 : 2;
+  while (ids.has(`${base}-${suffix}`)) suffix++;
+  return `${base}-${suffix}`;
+};
+
+/**
+ * 名簿に追加するメンバーを作る（色は追加した順に割り当てる）
+ */
+export const createTeamMember = (name: string, team: TeamMember[]): TeamMember => ({
+  id: createMemberId(name, team),
+  name: name.trim(),
+  color: MEMBER_COLORS[team.length % MEMBER_COLORS.length],
+});
+
+/**
+ * アバターに表示する頭文字（"Aiko Tanaka" → "AT"、"田中 愛子" → "田"）
+ */
+export const getMemberInitials = (name: string): string => {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  const isLatin = /^[A-Za-z]/.test(words[0]);
+  if (isLatin && words.length > 1) return (words[0][0] + words[1][0]).toUpperCase();
+  return Array.from(words[0])[0].toUpperCase();
+};
+
+/**
+ * タスクの担当者を名簿のメンバーとして返す（名簿にない ID は ID を名前とした仮のメンバーにする）
+ */
+export const getTaskAssignees = (task: Pick<Task, 'assignees'>, team: TeamMember[]): TeamMember[] =>
+  (task.assignees ?? []).map(id => team.find(member => member.id === id) || { id, name: id, color: UNKNOWN_MEMBER_COLOR });
+
+/**
+ * 担当者を差し替えたタスクを返す（担当者がいなくなれば assignees を取り除く）
+ */
+export const withAssignees = (task: Task, assignees: string[]): Task => {
+  const { assignees: _assignees, ...rest } = task;
+  const unique = [...new Set(assignees)];
+  return unique.length > 0 ? { ...rest, assignees: unique } : rest;
+};
+
+/**
+ * 名簿から外したメンバーを、すべてのタスクの担当者から取り除く（変更のないタスクは同じオブジェクトのまま）
+ */
+export const removeAssigneeFromTasks = (tasks: Task[], memberId: string): Task[] =>
+  tasks.map(task => (task.assignees?.includes(memberId)
+    ? withAssignees(task, task.assignees.filter(id => id !== memberId))
+    : task));
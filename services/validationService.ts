@@ -0,0 +1,442 @@
+import { Task, TaskStatus, TaskPriority, DependencyLink, DependencyType, CustomFieldDefinition, CustomFieldValue, TeamMember } from '../types';
+import { findDependencyCycles, formatCyclePath, withDependencies } from './dependencyService';
+import { findParentCycles } from './hierarchyService';
+import { isEmptyCustomFieldValue } from './customFieldService';
+import { normalizeTags } from './tagService';
+
+/**
+ * タスク定義（YAML由来の未検証データ）を Task 型のスキーマに照らして検証するサービス
+ */
+
+export interface TaskValidationError {
+  message: string;
+  taskIndex?: number; // 配列内のインデックス（0始まり）
+  taskId?: string;
+  field?: string;
+  line?: number;   // YAML上の行番号（1始まり）
+  column?: number; // YAML上の列番号（1始まり）
+}
+
+export interface TaskValidationResult {
+  tasks: Task[];
+  errors: TaskValidationError[];
+  warnings: TaskValidationError[]; // 適用を妨げない問題（名簿にない担当者など）
+}
+
+export interface TaskValidationOptions {
+  allowCycles?: boolean; // true の場合、依存関係の循環をエラーとして扱わない
+  customFields?: CustomFieldDefinition[]; // 指定した項目は customFields の値を定義の種類に照らして検証する
+  team?: TeamMember[]; // 指定すると名簿にない assignees を警告する（ID はそのまま残す。名簿が空なら警告しない）
+}
+
+interface YamlPosition {
+  line: number;
+  column: number;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const URL_PATTERN = /^https?:\/\/\S+$/i;
+const TASK_STATUSES = Object.values(TaskStatus) as string[];
+const TASK_PRIORITIES = Object.values(TaskPriority) as string[];
+const DEPENDENCY_TYPES = Object.values(DependencyType) as string[];
+
+const quoteList = (values: string[]): string => values.map(v => `"${v}"`).join(', ');
+
+/**
+ * YYYY-MM-DD 形式かつ実在する日付かどうかを判定
+ */
+export const isValidDateString = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+/**
+ * dependencies の要素から依存先のIDを取り出す
+ * 要素はタスクID（従来の形式）または { id, type, lag } のマッピング
+ */
+const getDependencyEntryId = (dep: unknown): string | undefined => {
+  if (typeof dep === 'string' || typeof dep === 'number') return String(dep);
+  if (dep && typeof dep === 'object' && !Array.isArray(dep)) {
+    const id = (dep as Record<string, unknown>).id;
+    if (typeof id === 'string' || typeof id === 'number') return String(id);
+  }
+  return undefined;
+};
+
+/**
+ * 引用符なしの日付（js-yaml が Date として解釈したもの）を YYYY-MM-DD 文字列に戻す
+ */
+const normalizeDateValue = (value: unknown): unknown =>
+  value instanceof Date && !isNaN(value.getTime()) ? value.toISOString().split('T')[0] : value;
+
+/**
+ * カスタムフィールドの値を検証し、正規化した値を返す（空の値は value なし＝未設定）
+ * definition がない項目（定義が削除された項目など）は、文字列・数値・文字列のリストであればそのまま残す
+ */
+export const validateCustomFieldValue = (
+  fieldId: string,
+  raw: unknown,
+  definition?: CustomFieldDefinition
+): { value?: CustomFieldValue; error?: string } => {
+  const value = normalizeDateValue(raw);
+  if (isEmptyCustomFieldValue(value)) return {};
+  const subject = `Custom field "${fieldId}"`;
+  const got = `(got ${JSON.stringify(value)})`;
+  const options = definition?.options ?? [];
+  const isOption = (option: unknown) => typeof option === 'string' && (options.length === 0 || options.includes(option));
+
+  switch (definition?.type) {
+    case undefined:
+      if (typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value))) return { value };
+      if (Array.isArray(value) && value.every(item => typeof item === 'string')) return { value };
+      return { error: `${subject} must be a string, a number or a list of strings ${got}.` };
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? { value } : { error: `${subject} must be a number ${got}.` };
+    case 'date':
+      return isValidDateString(value) ? { value } : { error: `${subject} must be a valid date in YYYY-MM-DD format ${got}.` };
+    case 'url':
+      return typeof value === 'string' && URL_PATTERN.test(value.trim())
+        ? { value: value.trim() }
+        : { error: `${subject} must be a URL starting with http:// or https:// ${got}.` };
+    case 'select':
+      return isOption(value) ? { value: value as string } : { error: `${subject} must be one of ${quoteList(options)} ${got}.` };
+    case 'multiSelect': {
+      // 選択肢が1つだけの場合はリストでなくてもよい
+      const values = typeof value === 'string' ? [value] : value;
+      return Array.isArray(values) && values.every(isOption)
+        ? { value: [...new Set(values as string[])] }
+        : { error: `${subject} must be a list of ${options.length > 0 ? quoteList(options) : 'strings'} ${got}.` };
+    }
+    default:
+      return typeof value === 'string' || typeof value === 'number' ? { value: String(value) } : { error: `${subject} must be text ${got}.` };
+  }
+};
+
+/**
+ * カスタムフィールドの定義の変更（選択肢の削除など）で不正になった値をタスクから取り除く
+ * 複数選択は残っている選択肢だけを残す。変更のないタスクは同じオブジェクトのまま返す
+ */
+export const removeInvalidCustomFieldValues = (tasks: Task[], definitions: CustomFieldDefinition[]): Task[] =>
+  tasks.map(task => {
+    if (!task.customFields) return task;
+    let changed = false;
+    const customFields: Record<string, CustomFieldValue> = {};
+    Object.entries(task.customFields).forEach(([fieldId, raw]) => {
+      const definition = definitions.find(field => field.id === fieldId);
+      const { value, error } = validateCustomFieldValue(fieldId, raw, definition);
+      if (!error) {
+        if (value !== undefined) customFields[fieldId] = raw;
+        return;
+      }
+      changed = true;
+      if (definition?.type === 'multiSelect' && Array.isArray(raw)) {
+        const kept = raw.filter(option => definition.options?.includes(option));
+        if (kept.length > 0) customFields[fieldId] = kept;
+      }
+    });
+    if (!changed) return task;
+    const { customFields: _removed, ...rest } = task;
+    return Object.keys(customFields).length > 0 ? { ...rest, customFields } : rest;
+  });
+
+/**
+ * YAML文字列からトップレベル配列の各要素・各フィールドの位置を推定する
+ * （ブロック形式のシーケンスのみ対応。フロー形式の場合は位置なし）
+ */
+const createPositionLocator = (yaml?: string) => {
+  if (!yaml) {
+    return (_index: number, _field?: string): YamlPosition | undefined => undefined;
+  }
+
+  const lines = yaml.split(/\r?\n/);
+  const itemPattern = /^(\s*)-(\s+|$)/;
+
+  let topLevelIndent = Infinity;
+  lines.forEach(line => {
+    const match = line.match(itemPattern);
+    if (match) topLevelIndent = Math.min(topLevelIndent, match[1].length);
+  });
+
+  const itemStarts: number[] = [];
+  lines.forEach((line, i) => {
+    const match = line.match(itemPattern);
+    if (match && match[1].length === topLevelIndent) itemStarts.push(i);
+  });
+
+  return (index: number, field?: string): YamlPosition | undefined => {
+    const start = itemStarts[index];
+    if (start === undefined) return undefined;
+    const end = index + 1 < itemStarts.length ? itemStarts[index + 1] : lines.length;
+
+    if (field) {
+      const escaped = field.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const fieldPattern = new RegExp(`^(\\s*(?:-\\s+)?)["']?${escaped}["']?\\s*:`);
+      for (let i = start; i < end; i++) {
+        const match = lines[i].match(fieldPattern);
+        if (match) return { line: i + 1, column: match[1].length + 1 };
+      }
+    }
+    return { line: start + 1, column: topLevelIndent + 1 };
+  };
+};
+
+/**
+ * パース済みのYAMLデータを検証し、正規化されたタスク一覧（エラーのない要素のみ）とエラー一覧を返す
+ * sourceYaml を渡すと、各エラーにYAML上の行・列が付与される
+ */
+export const validateTasks = (data: unknown, sourceYaml?: string, options: TaskValidationOptions = {}): TaskValidationResult => {
+  const locate = createPositionLocator(sourceYaml);
+  const errors: TaskValidationError[] = [];
+  const warnings: TaskValidationError[] = [];
+
+  if (data === null || data === undefined) {
+    return { tasks: [], errors, warnings };
+  }
+  if (!Array.isArray(data)) {
+    errors.push({ message: 'Top-level YAML must be a list of tasks.', line: 1, column: 1 });
+    return { tasks: [], errors, warnings };
+  }
+
+  const tasks: Task[] = [];
+  const seenIds = new Map<string, number>();
+
+  data.forEach((raw, index) => {
+    const taskErrors: TaskValidationError[] = [];
+    const taskWarnings: TaskValidationError[] = [];
+    const addError = (message: string, field?: string) => {
+      taskErrors.push({ message, taskIndex: index, field, ...locate(index, field) });
+    };
+    const addWarning = (message: string, field?: string) => {
+      taskWarnings.push({ message, taskIndex: index, field, ...locate(index, field) });
+    };
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      addError(`Task #${index + 1} must be a mapping of fields.`);
+      errors.push(...taskErrors);
+      return;
+    }
+    const entry = raw as Record<string, unknown>;
+
+    if (typeof entry.id !== 'string' && typeof entry.id !== 'number') {
+      addError('id is required and must be a string.', 'id');
+    } else {
+      const id = String(entry.id);
+      if (seenIds.has(id)) {
+        addError(`Duplicate id "${id}" (also used by task #${seenIds.get(id)! + 1}).`, 'id');
+      } else {
+        seenIds.set(id, index);
+      }
+    }
+
+    if (typeof entry.name !== 'string' || !entry.name.trim()) {
+      addError('name is required and must be a non-empty string.', 'name');
+    }
+
+    if (entry.description !== undefined && entry.description !== null && typeof entry.description !== 'string') {
+      addError('description must be a string.', 'description');
+    }
+
+    if (!TASK_STATUSES.includes(entry.status as string)) {
+      addError(`status must be one of ${quoteList(TASK_STATUSES)} (got ${JSON.stringify(entry.status)}).`, 'status');
+    }
+
+    if (!TASK_PRIORITIES.includes(entry.priority as string)) {
+      addError(`priority must be one of ${quoteList(TASK_PRIORITIES)} (got ${JSON.stringify(entry.priority)}).`, 'priority');
+    }
+
+    const isMilestone = entry.milestone === true;
+    if (entry.milestone !== undefined && entry.milestone !== null && typeof entry.milestone !== 'boolean') {
+      addError(`milestone must be true or false (got ${JSON.stringify(entry.milestone)}).`, 'milestone');
+    }
+
+    const startDate = normalizeDateValue(entry.startDate);
+    // マイルストーンは endDate を省略でき、その場合は startDate と同じ日付になる
+    const endDate = isMilestone && (entry.endDate === undefined || entry.endDate === null)
+      ? startDate
+      : normalizeDateValue(entry.endDate);
+    const startValid = isValidDateString(startDate);
+    const endValid = isValidDateString(endDate);
+    if (!startValid) {
+      addError(`startDate must be a valid date in YYYY-MM-DD format (got ${JSON.stringify(startDate)}).`, 'startDate');
+    }
+    if (!endValid) {
+      addError(`endDate must be a valid date in YYYY-MM-DD format (got ${JSON.stringify(endDate)}).`, 'endDate');
+    }
+    if (startValid && endValid && endDate < startDate) {
+      addError(`endDate (${endDate}) must not be before startDate (${startDate}).`, 'endDate');
+    } else if (startValid && endValid && isMilestone && endDate !== startDate) {
+      addError(`A milestone must have the same startDate and endDate (got ${startDate} and ${endDate}).`, 'endDate');
+    }
+
+    let dependencies: string[] = [];
+    const dependencyLinks: Record<string, DependencyLink> = {};
+    if (entry.dependencies !== undefined && entry.dependencies !== null) {
+      if (!Array.isArray(entry.dependencies) || entry.dependencies.some(dep => getDependencyEntryId(dep) === undefined)) {
+        addError('dependencies must be a list of task ids or mappings of id, type and lag.', 'dependencies');
+      } else {
+        dependencies = entry.dependencies.map(dep => getDependencyEntryId(dep)!);
+        entry.dependencies.forEach(dep => {
+          if (typeof dep !== 'object') return;
+          const { id, type = DependencyType.FINISH_TO_START, lag = 0 } = dep as Record<string, unknown>;
+          if (!DEPENDENCY_TYPES.includes(type as string)) {
+            addError(`Dependency type must be one of ${quoteList(DEPENDENCY_TYPES)} (got ${JSON.stringify(type)}).`, 'dependencies');
+          } else if (typeof lag !== 'number' || !Number.isInteger(lag)) {
+            addError(`Dependency lag must be a whole number of days (got ${JSON.stringify(lag)}).`, 'dependencies');
+          } else {
+            dependencyLinks[String(id)] = { type: type as DependencyType, lag };
+          }
+        });
+      }
+    }
+
+    const hasProgress = entry.progress !== undefined && entry.progress !== null;
+    if (hasProgress && (typeof entry.progress !== 'number' || !Number.isFinite(entry.progress) || entry.progress < 0 || entry.progress > 100)) {
+      addError(`progress must be a number between 0 and 100 (got ${JSON.stringify(entry.progress)}).`, 'progress');
+    }
+
+    const hasParent = entry.parentId !== undefined && entry.parentId !== null && entry.parentId !== '';
+    if (hasParent && typeof entry.parentId !== 'string' && typeof entry.parentId !== 'number') {
+      addError('parentId must be a task id.', 'parentId');
+    }
+
+    let assignees: string[] = [];
+    if (entry.assignees !== undefined && entry.assignees !== null) {
+      if (!Array.isArray(entry.assignees) || entry.assignees.some(id => typeof id !== 'string' && typeof id !== 'number')) {
+        addError('assignees must be a list of team member ids.', 'assignees');
+      } else {
+        assignees = [...new Set(entry.assignees.map(String))];
+        // 名簿から外れたメンバーの担当も失わないよう、ID のまま残して警告にとどめる
+        assignees
+          .filter(id => options.team?.length && !options.team.some(member => member.id === id))
+          .forEach(id => addWarning(`Assignee "${id}" is not a member of the team; the id is kept as is.`, 'assignees'));
+      }
+    }
+
+    let tags: string[] = [];
+    if (entry.tags !== undefined && entry.tags !== null) {
+      if (!Array.isArray(entry.tags) || entry.tags.some(tag => typeof tag !== 'string' && typeof tag !== 'number')) {
+        addError('tags must be a list of strings.', 'tags');
+      } else {
+        tags = normalizeTags(entry.tags.map(String));
+      }
+    }
+
+    const customFields: Record<string, CustomFieldValue> = {};
+    if (entry.customFields !== undefined && entry.customFields !== null) {
+      if (typeof entry.customFields !== 'object' || Array.isArray(entry.customFields)) {
+        addError('customFields must be a mapping of field ids to values.', 'customFields');
+      } else {
+        Object.entries(entry.customFields as Record<string, unknown>).forEach(([fieldId, raw]) => {
+          const definition = options.customFields?.find(field => field.id === fieldId);
+          const { value, error } = validateCustomFieldValue(fieldId, raw, definition);
+          if (error) addError(error, 'customFields');
+          else if (value !== undefined) customFields[fieldId] = value;
+        });
+      }
+    }
+
+    const taskId = typeof entry.id === 'string' || typeof entry.id === 'number' ? String(entry.id) : undefined;
+    [...taskErrors, ...taskWarnings].forEach(error => { error.taskId = taskId; });
+    errors.push(...taskErrors);
+    warnings.push(...taskWarnings);
+
+    if (taskErrors.length === 0) {
+      tasks.push(withDependencies({
+        id: taskId!,
+        name: entry.name as string,
+        ...(typeof entry.description === 'string' ? { description: entry.description } : {}),
+        status: entry.status as TaskStatus,
+        priority: entry.priority as TaskPriority,
+        startDate: startDate as string,
+        endDate: endDate as string,
+        ...(isMilestone ? { milestone: true } : {}),
+        ...(hasProgress ? { progress: entry.progress as number } : {}),
+        dependencies,
+        ...(hasParent ? { parentId: String(entry.parentId) } : {}),
+        ...(Object.keys(customFields).length > 0 ? { customFields } : {}),
+        ...(assignees.length > 0 ? { assignees } : {}),
+        ...(tags.length > 0 ? { tags } : {}),
+      }, dependencies, dependencyLinks));
+    }
+  });
+
+  // 存在しない親・自分自身を親にしているタスクを検出
+  data.forEach((raw, index) => {
+    if (!raw || typeof raw !== 'object') return;
+    const entry = raw as Record<string, unknown>;
+    if (typeof entry.parentId !== 'string' && typeof entry.parentId !== 'number') return;
+    if (entry.parentId === '') return;
+    const taskId = entry.id !== undefined ? String(entry.id) : undefined;
+    const parentId = String(entry.parentId);
+    if (parentId === taskId) {
+      errors.push({ message: `Task "${taskId}" cannot be its own parent.`, taskIndex: index, taskId, field: 'parentId', ...locate(index, 'parentId') });
+    } else if (!seenIds.has(parentId)) {
+      errors.push({ message: `parentId "${parentId}" does not match any task id.`, taskIndex: index, taskId, field: 'parentId', ...locate(index, 'parentId') });
+    }
+  });
+
+  // マイルストーンは期間を持たないため、サブタスクを持てない
+  const milestoneIds = new Set(tasks.filter(task => task.milestone).map(task => task.id));
+  data.forEach((raw, index) => {
+    if (!raw || typeof raw !== 'object') return;
+    const entry = raw as Record<string, unknown>;
+    if ((typeof entry.parentId !== 'string' && typeof entry.parentId !== 'number') || !milestoneIds.has(String(entry.parentId))) return;
+    const taskId = entry.id !== undefined ? String(entry.id) : undefined;
+    errors.push({ message: `Milestone "${entry.parentId}" cannot have subtasks.`, taskIndex: index, taskId, field: 'parentId', ...locate(index, 'parentId') });
+  });
+
+  // 親子関係の循環を検出（自分自身を親にしている場合は上で個別に報告済み）
+  findParentCycles(tasks).filter(cycle => cycle.length > 2).forEach(cycle => {
+    const index = data.findIndex(raw => raw && String((raw as Record<string, unknown>).id) === cycle[0]);
+    errors.push({
+      message: `Circular parent relationship: ${formatCyclePath(cycle, tasks)}.`,
+      taskIndex: index,
+      taskId: cycle[0],
+      field: 'parentId',
+      ...locate(index, 'parentId'),
+    });
+  });
+
+  // 存在しないタスクへの依存（ダングリング参照）を検出
+  data.forEach((raw, index) => {
+    if (!raw || typeof raw !== 'object' || !Array.isArray((raw as Record<string, unknown>).dependencies)) return;
+    const entry = raw as Record<string, unknown>;
+    const taskId = entry.id !== undefined ? String(entry.id) : undefined;
+    (entry.dependencies as unknown[]).forEach(dep => {
+      const depId = getDependencyEntryId(dep);
+      if (depId === undefined) return;
+      if (depId === taskId) {
+        errors.push({ message: `Task "${taskId}" cannot depend on itself.`, taskIndex: index, taskId, field: 'dependencies', ...locate(index, 'dependencies') });
+      } else if (!seenIds.has(depId)) {
+        errors.push({ message: `Dependency "${depId}" does not match any task id.`, taskIndex: index, taskId, field: 'dependencies', ...locate(index, 'dependencies') });
+      }
+    });
+  });
+
+  // 依存関係の循環を検出（自己依存は上で個別に報告済み）
+  if (!options.allowCycles) {
+    findDependencyCycles(tasks).filter(cycle => cycle.length > 2).forEach(cycle => {
+      const index = data.findIndex(raw => raw && String((raw as Record<string, unknown>).id) === cycle[0]);
+      errors.push({
+        message: `Circular dependency: ${formatCyclePath(cycle, tasks)}.`,
+        taskIndex: index,
+        taskId: cycle[0],
+        field: 'dependencies',
+        ...locate(index, 'dependencies'),
+      });
+    });
+  }
+
+  return { tasks, errors, warnings };
+};
+
+/**
+ * 検証エラーを表示用の1行テキストに整形
+ */
+export const formatValidationError = (error: TaskValidationError): string => {
+  const location = error.line !== undefined ? `Line ${error.line}, column ${error.column ?? 1}: ` : '';
+  const subject = error.taskId ? `[${error.taskId}] ` : error.taskIndex !== undefined ? `[#${error.taskIndex + 1}] ` : '';
+  return `${location}${subject}${error.message}`;
+};
@@ -0,0 +1,228 @@
+import {
+  CustomFieldDefinition,
+  GanttViewMode,
+  SavedView,
+  Task,
+  TaskFilters,
+  TaskGroupBy,
+  TaskPriority,
+  TaskSortKey,
+  TaskStatus,
+  TaskViewState,
+  TeamMember
+} from '../types';
+import { PRIORITY_TEXT_JP, STATUS_TEXT_JP } from '../constants';
+import { compareCustomFieldValues, matchesCustomFieldFilter } from './customFieldService';
+import { getEndOfMonth, getEndOfWeek, getStartOfMonth, getStartOfWeek, getTodayDateString } from './dateService';
+import { getAllTags, matchesTagFilter, normalizeTags } from './tagService';
+
+/**
+ * タスクの一覧とガントチャートの表示条件（絞り込み・並べ替え・グループ化・ガントの表示単位とズーム）と、
+ * 表示条件に名前を付けてプロジェクトに保存したもの（保存ビュー）を扱うサービス
+ */
+
+export interface TaskGroup {
+  key: string; // グループの値（担当者なし・タグなしは空文字）
+  label: string;
+  tasks: Task[];
+}
+
+export const BUILT_IN_SORT_KEYS: TaskSortKey[] = ['startDate', 'endDate', 'priority', 'status'];
+
+export const GROUP_BY_LABELS: Record<TaskGroupBy, string> = {
+  none: 'なし',
+  status: 'ステータス',
+  priority: '優先度',
+  assignee: '担当者',
+  tag: 'タグ',
+};
+
+export const MIN_GANTT_ZOOM = 0.3;
+export const MAX_GANTT_ZOOM = 3;
+
+export const DEFAULT_TASK_FILTERS: TaskFilters = {
+  status: 'all',
+  priority: 'all',
+  dateRange: 'all',
+  customFieldId: '',
+  customFieldValue: '',
+  assignee: 'all',
+  tags: [],
+  tagMatch: 'any',
+};
+
+export const DEFAULT_VIEW_STATE: TaskViewState = {
+  filters: DEFAULT_TASK_FILTERS,
+  sortKey: 'startDate',
+  sortOrder: 'asc',
+  groupBy: 'none',
+  ganttViewMode: 'day',
+  ganttZoom: 1,
+};
+
+const DATE_RANGES: TaskFilters['dateRange'][] = ['all', 'today', 'thisWeek', 'thisMonth'];
+const GANTT_VIEW_MODES: GanttViewMode[] = ['day', 'week', 'month'];
+
+const pick = <T>(value: unknown, values: readonly T[], fallback: T): T =>
+  (values.includes(value as T) ? (value as T) : fallback);
+
+const isSortKey = (value: unknown): value is TaskSortKey =>
+  typeof value === 'string' && (BUILT_IN_SORT_KEYS.includes(value as TaskSortKey) || (value.startsWith('custom:') && value.length > 'custom:'.length));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * 保存されている表示条件（型を信頼できないデータ）の欠けた項目を既定値で補い、不正な値を既定値に戻す
+ */
+export const normalizeViewState = (value: unknown): TaskViewState => {
+  const state = isRecord(value) ? value : {};
+  const filters = isRecord(state.filters) ? state.filters : {};
+  const zoom = Number(state.ganttZoom);
+  return {
+    filters: {
+      status: pick(filters.status, ['all', ...Object.values(TaskStatus)], 'all'),
+      priority: pick(filters.priority, ['all', ...Object.values(TaskPriority)], 'all'),
+      dateRange: pick(filters.dateRange, DATE_RANGES, 'all'),
+      customFieldId: typeof filters.customFieldId === 'string' ? filters.customFieldId : '',
+      customFieldValue: typeof filters.customFieldId === 'string' && typeof filters.customFieldValue === 'string' ? filters.customFieldValue : '',
+      assignee: typeof filters.assignee === 'string' && filters.assignee !== '' ? filters.assignee : 'all',
+      tags: Array.isArray(filters.tags) ? normalizeTags(filters.tags.filter((tag): tag is string => typeof tag === 'string')) : [],
+      tagMatch: pick(filters.tagMatch, ['all', 'any'] as const, 'any'),
+    },
+    sortKey: isSortKey(state.sortKey) ? state.sortKey : DEFAULT_VIEW_STATE.sortKey,
+    sortOrder: pick(state.sortOrder, ['asc', 'desc'] as const, 'asc'),
+    groupBy: pick(state.groupBy, Object.keys(GROUP_BY_LABELS) as TaskGroupBy[], 'none'),
+    ganttViewMode: pick(state.ganttViewMode, GANTT_VIEW_MODES, 'day'),
+    ganttZoom: state.ganttZoom !== undefined && Number.isFinite(zoom) ? Math.min(Math.max(zoom, MIN_GANTT_ZOOM), MAX_GANTT_ZOOM) : 1,
+  };
+};
+
+/**
+ * 保存されている保存ビューから、名前や ID のないものと ID の重複を取り除き、表示条件を補う
+ */
+export const normalizeSavedViews = (views?: SavedView[]): SavedView[] => {
+  const ids = new Set<string>();
+  return (Array.isArray(views) ? views : []).flatMap(view => {
+    if (!view || typeof view.id !== 'string' || !view.id || ids.has(view.id) || typeof view.name !== 'string' || !view.name.trim()) return [];
+    ids.add(view.id);
+    return [{ id: view.id, name: view.name.trim(), state: normalizeViewState(view.state) }];
+  });
+};
+
+/**
+ * 今の表示条件を名前を付けて保存ビューにする
+ */
+export const createSavedView = (name: string, state: TaskViewState): SavedView => ({
+  id: `view-${crypto.randomUUID()}`,
+  name: name.trim(),
+  state: normalizeViewState(state),
+});
+
+/**
+ * 2つの表示条件が同じかどうか（保存ビューから変更したかの判定に使う）
+ */
+export const isSameViewState = (a: TaskViewState, b: TaskViewState): boolean =>
+  JSON.stringify(normalizeViewState(a)) === JSON.stringify(normalizeViewState(b));
+
+/**
+ * 絞り込みの条件が1つでも設定されているかどうか
+ */
+export const hasActiveFilters = (filters: TaskFilters): boolean =>
+  JSON.stringify(normalizeViewState({ filters }).filters) !== JSON.stringify(DEFAULT_TASK_FILTERS);
+
+/**
+ * 既定に指定された保存ビュー（指定がない・見つからない場合は undefined）
+ */
+export const getDefaultSavedView = (views: SavedView[], defaultViewId?: string): SavedView | undefined =>
+  (defaultViewId ? views.find(view => view.id === defaultViewId) : undefined);
+
+/**
+ * タスクが絞り込みの条件にすべて合うかどうか（期間は開始日で判定し、週は日曜日始まり）
+ */
+export const matchesTaskFilters = (task: Task, filters: TaskFilters, customFields: CustomFieldDefinition[] = []): boolean => {
+  if (filters.status !== 'all' && task.status !== filters.status) return false;
+  if (filters.priority !== 'all' && task.priority !== filters.priority) return false;
+
+  // 定義が削除された項目での絞り込みは無視する
+  const filterField = customFields.find(field => field.id === filters.customFieldId);
+  if (filterField && !matchesCustomFieldFilter(filterField, task.customFields?.[filterField.id], filters.customFieldValue)) return false;
+
+  if (filters.assignee === 'unassigned' ? task.assignees?.length : filters.assignee !== 'all' && !task.assignees?.includes(filters.assignee)) return false;
+  if (!matchesTagFilter(task, filters.tags, filters.tagMatch)) return false;
+
+  if (filters.dateRange !== 'all') {
+    const today = getTodayDateString();
+    switch (filters.dateRange) {
+      case 'today':
+        return task.startDate === today;
+      case 'thisWeek':
+        return task.startDate >= getStartOfWeek(today, 0) && task.startDate <= getEndOfWeek(today, 0);
+      case 'thisMonth':
+        return task.startDate >= getStartOfMonth(today) && task.startDate <= getEndOfMonth(today);
+    }
+  }
+  return true;
+};
+
+const PRIORITY_ORDER: Record<TaskPriority, number> = { High: 3, Medium: 2, Low: 1 };
+const STATUS_ORDER: Record<TaskStatus, number> = { 'In Progress': 2, 'Not Started': 1, 'Completed': 0 };
+
+/**
+ * 並べ替えの比較関数。優先度は 高 > 中 > 低、ステータスは 進行中 > 未着手 > 完了 を大きいとみなす
+ * 定義が削除されたカスタムフィールドで並べ替えていた場合は元の順序のまま
+ */
+export const getTaskComparator = (
+  sortKey: TaskSortKey,
+  sortOrder: TaskViewState['sortOrder'],
+  customFields: CustomFieldDefinition[] = []
+) => (a: Task, b: Task): number => {
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  if (sortKey.startsWith('custom:')) {
+    const field = customFields.find(f => sortKey === `custom:${f.id}`);
+    return field ? direction * compareCustomFieldValues(field, a.customFields?.[field.id], b.customFields?.[field.id]) : 0;
+  }
+  const getValue = (task: Task): string | number => {
+    if (sortKey === 'priority') return PRIORITY_ORDER[task.priority];
+    if (sortKey === 'status') return STATUS_ORDER[task.status];
+    return sortKey === 'endDate' ? task.endDate : task.startDate;
+  };
+  const aValue = getValue(a);
+  const bValue = getValue(b);
+  if (aValue < bValue) return -direction;
+  if (aValue > bValue) return direction;
+  return 0;
+};
+
+/**
+ * タスクをグループに分ける（タスクの順序は保つ）。担当者とタグは複数のグループに入ることがある
+ * 空のグループは含めず、担当者なし・タグなしのグループは最後に置く
+ */
+export const groupTasks = (tasks: Task[], groupBy: TaskGroupBy, team: TeamMember[] = []): TaskGroup[] => {
+  const collect = (entries: Array<{ key: string; label: string }>, getKeys: (task: Task) => string[]): TaskGroup[] =>
+    entries
+      .map(({ key, label }) => ({ key, label, tasks: tasks.filter(task => getKeys(task).includes(key)) }))
+      .filter(group => group.tasks.length > 0);
+
+  switch (groupBy) {
+    case 'status':
+      return collect(Object.values(TaskStatus).map(status => ({ key: status, label: STATUS_TEXT_JP[status] })), task => [task.status]);
+    case 'priority':
+      return collect(Object.values(TaskPriority).map(priority => ({ key: priority, label: PRIORITY_TEXT_JP[priority] })), task => [task.priority]);
+    case 'assignee': {
+      // 名簿にない担当者は ID をそのまま表示する
+      const unknownIds = [...new Set(tasks.flatMap(task => task.assignees ?? []))].filter(id => !team.some(member => member.id === id));
+      return collect(
+        [...team.map(member => ({ key: member.id, label: member.name })), ...unknownIds.map(id => ({ key: id, label: id })), { key: '', label: '担当者なし' }],
+        task => (task.assignees?.length ? task.assignees : [''])
+      );
+    }
+    case 'tag':
+      return collect(
+        [...getAllTags(tasks).map(tag => ({ key: tag, label: tag })), { key: '', label: 'タグなし' }],
+        task => (task.tags?.length ? task.tags : [''])
+      );
+    default:
+      return tasks.length > 0 ? [{ key: '', label: '', tasks }] : [];
+  }
+};
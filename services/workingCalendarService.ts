@@ -0,0 +1,161 @@
+import { CalendarHoliday, WorkingCalendar } from '../types';
+import { fromDayNumber, getWeekday, toDateString, toDayNumber } from './dateService';
+
+/**
+ * プロジェクトの稼働日カレンダー（稼働曜日・祝日・休日の例外）を扱うサービス
+ * 期間は稼働日だけを数え、土日や祝日をまたいでも稼働日数が変わらないように日付を計算する
+ */
+
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendar = {
+  workWeek: [1, 2, 3, 4, 5],
+  useJapaneseHolidays: true,
+  holidays: [],
+  workingDays: [],
+};
+
+/**
+ * すべての日を稼働日とするカレンダー（稼働日カレンダーを使わない画面で暦日のまま期間を計算する）
+ */
+export const EVERY_DAY_CALENDAR: WorkingCalendar = {
+  workWeek: [],
+  useJapaneseHolidays: false,
+  holidays: [],
+  workingDays: [],
+};
+
+// 稼働日を探すときの上限（稼働日がほとんどないカレンダーでも必ず止まるようにする）
+const MAX_SEARCH_DAYS = 366 * 2;
+
+// month 月の第 n 月曜日
+const nthMonday = (year: number, month: number, n: number): string => {
+  const firstWeekday = getWeekday(toDateString(year, month, 1));
+  return toDateString(year, month, 1 + ((8 - firstWeekday) % 7) + (n - 1) * 7);
+};
+
+// 春分日・秋分日（1980〜2099年の近似式）
+const equinoxDay = (year: number, base: number): number =>
+  Math.floor(base + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+
+// 東京オリンピック・パラリンピックに伴い移動した祝日
+const MOVED_HOLIDAYS: Record<number, Record<string, string>> = {
+  2020: { 海の日: '2020-07-23', スポーツの日: '2020-07-24', 山の日: '2020-08-10' },
+  2021: { 海の日: '2021-07-22', スポーツの日: '2021-07-23', 山の日: '2021-08-08' },
+};
+
+const japaneseHolidayCache = new Map<number, CalendarHoliday[]>();
+
+/**
+ * 日本の国民の祝日（2020年以降の祝日法に基づく）。振替休日と国民の休日を含み、日付順に返す
+ */
+export const getJapaneseHolidays = (year: number): CalendarHoliday[] => {
+  const cached = japaneseHolidayCache.get(year);
+  if (cached) return cached;
+
+  const moved = MOVED_HOLIDAYS[year] || {};
+  const holidays = new Map<string, string>();
+  const add = (name: string, date: string) => holidays.set(moved[name] || date, name);
+  add('元日', toDateString(year, 1, 1));
+  add('成人の日', nthMonday(year, 1, 2));
+  add('建国記念の日', toDateString(year, 2, 11));
+  add('天皇誕生日', toDateString(year, 2, 23));
+  add('春分の日', toDateString(year, 3, equinoxDay(year, 20.8431)));
+  add('昭和の日', toDateString(year, 4, 29));
+  add('憲法記念日', toDateString(year, 5, 3));
+  add('みどりの日', toDateString(year, 5, 4));
+  add('こどもの日', toDateString(year, 5, 5));
+  add('海の日', nthMonday(year, 7, 3));
+  add('山の日', toDateString(year, 8, 11));
+  add('敬老の日', nthMonday(year, 9, 3));
+  add('秋分の日', toDateString(year, 9, equinoxDay(year, 23.2488)));
+  add('スポーツの日', nthMonday(year, 10, 2));
+  add('文化の日', toDateString(year, 11, 3));
+  add('勤労感謝の日', toDateString(year, 11, 23));
+
+  const holidayDays = new Set([...holidays.keys()].map(toDayNumber));
+  const extra = new Map<string, string>();
+  holidayDays.forEach(dayNumber => {
+    // 国民の休日: 前日と翌日が祝日に挟まれた日（日曜日を除く）
+    if (holidayDays.has(dayNumber + 2) && !holidayDays.has(dayNumber + 1) && getWeekday(fromDayNumber(dayNumber + 1)) !== 0) {
+      extra.set(fromDayNumber(dayNumber + 1), '国民の休日');
+    }
+    // 振替休日: 祝日が日曜日に当たる場合、その後の最初の祝日でない日
+    if (getWeekday(fromDayNumber(dayNumber)) === 0) {
+      let substitute = dayNumber + 1;
+      while (holidayDays.has(substitute)) substitute++;
+      extra.set(fromDayNumber(substitute), '振替休日');
+    }
+  });
+  extra.forEach((name, date) => holidays.set(date, name));
+
+  const result = [...holidays.entries()]
+    .map(([date, name]) => ({ date, name }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  japaneseHolidayCache.set(year, result);
+  return result;
+};
+
+/**
+ * 保存されている設定（古いデータでは一部または全部が未設定）に既定値を補う
+ */
+export const normalizeWorkingCalendar = (calendar?: Partial<WorkingCalendar>): WorkingCalendar => ({
+  workWeek: calendar?.workWeek ?? DEFAULT_WORKING_CALENDAR.workWeek,
+  useJapaneseHolidays: calendar?.useJapaneseHolidays ?? DEFAULT_WORKING_CALENDAR.useJapaneseHolidays,
+  holidays: calendar?.holidays ?? [],
+  workingDays: calendar?.workingDays ?? [],
+});
+
+/**
+ * 休みの日の名前（祝日名、または「休日」）。稼働日なら null
+ */
+export const getNonWorkingDayName = (date: string, calendar: WorkingCalendar): string | null => {
+  if (calendar.workingDays.includes(date)) return null;
+  const holiday = calendar.holidays.find(h => h.date === date)
+    || (calendar.useJapaneseHolidays ? getJapaneseHolidays(Number(date.slice(0, 4))).find(h => h.date === date) : undefined);
+  if (holiday) return holiday.name;
+  // 稼働曜日が1つもない設定では曜日による休みを設けない
+  if (calendar.workWeek.length > 0 && !calendar.workWeek.includes(getWeekday(date))) return '休日';
+  return null;
+};
+
+export const isWorkingDay = (date: string, calendar: WorkingCalendar): boolean =>
+  getNonWorkingDayName(date, calendar) === null;
+
+/**
+ * 開始日から終了日までの稼働日数（両端を含む）
+ */
+export const countWorkingDays = (startDate: string, endDate: string, calendar: WorkingCalendar): number => {
+  let count = 0;
+  for (let day = toDayNumber(startDate); day <= toDayNumber(endDate); day++) {
+    if (isWorkingDay(fromDayNumber(day), calendar)) count++;
+  }
+  return count;
+};
+
+/**
+ * date が休みなら direction の向き（1: 後ろ、-1: 前）で最も近い稼働日に寄せる
+ */
+export const snapToWorkingDay = (date: string, calendar: WorkingCalendar, direction: 1 | -1 = 1): string => {
+  let day = toDayNumber(date);
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++, day += direction) {
+    if (isWorkingDay(fromDayNumber(day), calendar)) return fromDayNumber(day);
+  }
+  return date;
+};
+
+/**
+ * date から days 稼働日後（負の値なら前）の稼働日を返す。days が 0 なら date を後ろの稼働日に寄せる
+ */
+export const addWorkingDays = (date: string, days: number, calendar: WorkingCalendar): string => {
+  const direction = days < 0 ? -1 : 1;
+  let current = snapToWorkingDay(date, calendar, direction);
+  for (let remaining = Math.abs(days); remaining > 0; remaining--) {
+    current = snapToWorkingDay(fromDayNumber(toDayNumber(current) + direction), calendar, direction);
+  }
+  return current;
+};
+
+/**
+ * 開始日（休みなら次の稼働日）から数えて workingDays 稼働日目の終了日を返す
+ */
+export const getEndDateForWorkingDays = (startDate: string, workingDays: number, calendar: WorkingCalendar): string =>
+  addWorkingDays(startDate, Math.max(1, workingDays) - 1, calendar);
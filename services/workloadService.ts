@@ -0,0 +1,87 @@
+import { Task, TaskStatus, TeamMember, WorkingCalendar } from '../types';
+import { addDays, getStartOfWeek } from './dateService';
+import { hasChildTasks } from './hierarchyService';
+import { countWorkingDays } from './workingCalendarService';
+
+/**
+ * チームメンバーごとの週単位の負荷（担当タスクに割り当てられた稼働日数）を集計するサービス
+ * 週は月曜始まり。完了したタスク・マイルストーン・サマリータスク（作業はサブタスクで数える）は負荷に含めない
+ */
+
+export interface WeeklyWorkload {
+  weekStart: string; // 週の初日（月曜日）
+  allocatedDays: number; // 担当タスクの稼働日数の合計（並行するタスクはそれぞれ数える）
+  capacityDays: number; // その週の稼働日数 × 稼働率
+  taskIds: string[];
+  isOverAllocated: boolean;
+}
+
+export interface MemberWorkload {
+  member: TeamMember;
+  weeks: WeeklyWorkload[];
+}
+
+/**
+ * date を含む週から count 週分の週の初日
+ */
+export const getWeekStarts = (date: string, count: number): string[] => {
+  const first = getStartOfWeek(date);
+  return Array.from({ length: count }, (_, i) => addDays(first, i * 7));
+};
+
+/**
+ * 負荷として数えるタスク（未完了・期間がある・サブタスクを持たない）かどうか
+ */
+export const isWorkloadTask = (task: Task, tasks: Task[]): boolean =>
+  task.status !== TaskStatus.COMPLETED && !task.milestone && !hasChildTasks(tasks, task.id);
+
+/**
+ * 期間の稼働日数を週（週の初日）ごとに分けて返す（稼働日のない週は含めない）
+ */
+export const getWorkingDaysByWeek = (startDate: string, endDate: string, calendar: WorkingCalendar): Map<string, number> => {
+  const daysByWeek = new Map<string, number>();
+  for (let weekStart = getStartOfWeek(startDate); weekStart <= endDate; weekStart = addDays(weekStart, 7)) {
+    const weekEnd = addDays(weekStart, 6);
+    const from = startDate > weekStart ? startDate : weekStart;
+    const to = endDate < weekEnd ? endDate : weekEnd;
+    const days = countWorkingDays(from, to, calendar);
+    if (days > 0) daysByWeek.set(weekStart, days);
+  }
+  return daysByWeek;
+};
+
+/**
+ * メンバーがその週に稼働できる日数（週の稼働日数 × 稼働率）
+ */
+export const getWeeklyCapacity = (member: TeamMember, weekStart: string, calendar: WorkingCalendar): number =>
+  countWorkingDays(weekStart, addDays(weekStart, 6), calendar) * (member.capacity ?? 1);
+
+/**
+ * メンバーごとに、各週の割り当て稼働日数と稼働可能日数を求め、超過している週を示す
+ */
+export const calculateWorkload = (
+  tasks: Task[],
+  team: TeamMember[],
+  calendar: WorkingCalendar,
+  weekStarts: string[]
+): MemberWorkload[] => {
+  const workTasks = tasks
+    .filter(task => isWorkloadTask(task, tasks))
+    .map(task => ({ task, daysByWeek: getWorkingDaysByWeek(task.startDate, task.endDate, calendar) }));
+  return team.map(member => {
+    const assignedTasks = workTasks.filter(({ task }) => task.assignees?.includes(member.id));
+    const weeks = weekStarts.map(weekStart => {
+      let allocatedDays = 0;
+      const taskIds: string[] = [];
+      assignedTasks.forEach(({ task, daysByWeek }) => {
+        const days = daysByWeek.get(weekStart);
+        if (!days) return;
+        allocatedDays += days;
+        taskIds.push(task.id);
+      });
+      const capacityDays = getWeeklyCapacity(member, weekStart, calendar);
+      return { weekStart, allocatedDays, capacityDays, taskIds, isOverAllocated: allocatedDays > capacityDays };
+    });
+    return { member, weeks };
+  });
+};
@@ -1,27 +1,71 @@
 
 import { Task } from '../types';
+import { validateTasks, formatValidationError, TaskValidationError, TaskValidationOptions, TaskValidationResult } from './validationService';
 
-export const parseTasksFromYaml = (yamlString: string): Task[] => {
+/**
+ * YAMLの構文エラーまたはスキーマ違反を、位置情報付きのエラー一覧として保持する例外
+ */
+export class YamlValidationError extends Error {
+  readonly errors: TaskValidationError[];
+
+  constructor(errors: TaskValidationError[]) {
+    const summary = errors.slice(0, 3).map(formatValidationError).join('; ');
+    const rest = errors.length > 3 ? ` (+${errors.length - 3} more)` : '';
+    super(`Invalid YAML format: ${summary}${rest}`);
+    this.name = 'YamlValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * YAMLをパースしてスキーマ検証を行い、結果を例外なしで返す
+ */
+export const validateTasksYaml = (yamlString: string, options?: TaskValidationOptions): TaskValidationResult => {
+  let parsed: unknown;
   try {
-    const parsed = jsyaml.load(yamlString);
-    if (Array.isArray(parsed)) {
-      // Add basic validation if needed
-      return parsed.filter(task => task && task.id && task.name) as Task[];
-    }
-    return [];
+    parsed = jsyaml.load(yamlString);
   } catch (error) {
-    console.error("Error parsing YAML:", error);
-    // Consider re-throwing or returning a specific error state
-    throw new Error(`Invalid YAML format: ${(error as Error).message}`);
+    const mark = (error as { mark?: { line: number; column: number } }).mark;
+    const reason = (error as { reason?: string }).reason || (error as Error).message;
+    return {
+      tasks: [],
+      errors: [{
+        message: `YAML syntax error: ${reason}`,
+        ...(mark ? { line: mark.line + 1, column: mark.column + 1 } : {}),
+      }],
+      warnings: [],
+    };
+  }
+  return validateTasks(parsed, yamlString, options);
+};
+
+export const parseTasksFromYaml = (yamlString: string, options?: TaskValidationOptions): Task[] => {
+  const { tasks, errors } = validateTasksYaml(yamlString, options);
+  if (errors.length > 0) {
+    console.error("Error parsing YAML:", errors);
+    throw new YamlValidationError(errors);
   }
+  return tasks;
+};
+
+/**
+ * 種類やラグを持つ依存関係は dependencies の中に { id, type, lag } として書き出す
+ * （それ以外は従来どおりタスクIDの文字列）
+ */
+const toYamlTask = (task: Task) => {
+  if (!task.dependencyLinks) return task;
+  const { dependencyLinks, ...rest } = task;
+  return {
+    ...rest,
+    dependencies: task.dependencies.map(depId => (dependencyLinks[depId] ? { id: depId, ...dependencyLinks[depId] } : depId)),
+  };
 };
 
 export const stringifyTasksToYaml = (tasks: Task[]): string => {
   try {
-    return jsyaml.dump(tasks, { indent: 2 });
+    return jsyaml.dump(tasks.map(toYamlTask), { indent: 2 });
   } catch (error) {
     console.error("Error stringifying tasks to YAML:", error);
     return ''; // Or handle error appropriately
   }
 };
-    
\ No newline at end of file
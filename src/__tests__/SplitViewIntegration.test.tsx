@@ -5,7 +5,7 @@ import App from '../App';
 // Mock the Gemini service
 vi.mock('../services/geminiService', () => ({
   getAiTaskSummary: vi.fn().mockResolvedValue('Test summary'),
-  updateTasksViaAi: vi.fn().mockResolvedValue('tasks:\n- id: 1\n  name: Test Task')
+  getTaskOperationsViaAi: vi.fn().mockResolvedValue([])
 }));
 
 // Mock the calendar service
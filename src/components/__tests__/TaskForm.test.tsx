@@ -1,6 +1,7 @@
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { TaskForm } from '../../../components/TaskForm';
-import { Task, TaskStatus, TaskPriority } from '../../../types';
+import { DEFAULT_WORKING_CALENDAR } from '../../../services/workingCalendarService';
+import { Task, TaskStatus, TaskPriority, DependencyType } from '../../../types';
 
 describe('TaskForm', () => {
   const mockOnSubmit = vi.fn();
@@ -194,6 +195,36 @@ describe('TaskForm', () => {
     });
   });
 
+  test('依存関係のラグはマイナスの値も入力途中の文字列のまま入力できる', () => {
+    render(
+      <TaskForm 
+        onSubmit={mockOnSubmit}
+        onCancel={mockOnCancel}
+        allTasks={mockTasks}
+      />
+    );
+
+    fireEvent.click(screen.getByLabelText('Task 1'));
+    const lag = screen.getByLabelText('Task 1 との依存関係のラグ（日）');
+    fireEvent.change(lag, { target: { value: '-' } });
+    expect(lag).toHaveValue('-');
+    fireEvent.change(lag, { target: { value: '-2' } });
+    expect(lag).toHaveValue('-2');
+
+    // 数値として読めない入力は、フォーカスを外すと反映済みの値に戻す
+    fireEvent.change(lag, { target: { value: '-2x' } });
+    fireEvent.blur(lag);
+    expect(lag).toHaveValue('-2');
+
+    fireEvent.change(screen.getByLabelText('タスク名'), { target: { value: 'New Task' } });
+    fireEvent.click(screen.getByText('タスクを追加'));
+
+    expect(mockOnSubmit).toHaveBeenCalledWith(expect.objectContaining({
+      dependencies: ['task1'],
+      dependencyLinks: { task1: { type: DependencyType.FINISH_TO_START, lag: -2 } }
+    }));
+  });
+
   test('依存関係の検索が正しく動作する', () => {
     render(
       <TaskForm 
@@ -225,7 +256,7 @@ describe('TaskForm', () => {
   });
 
   test('編集時に自分自身が依存関係リストに表示されない', () => {
-    const existingTask = mockTasks[0];
+    const existingTask = mockTasks[1];
     
     render(
       <TaskForm 
@@ -236,9 +267,189 @@ describe('TaskForm', () => {
       />
     );
 
-    // Task 1 (自分自身) は表示されない
-    expect(screen.queryByText('Task 1')).not.toBeInTheDocument();
-    // Task 2 は表示される
-    expect(screen.getByText('Task 2')).toBeInTheDocument();
+    // Task 2 (自分自身) は表示されない
+    expect(screen.queryByText('Task 2')).not.toBeInTheDocument();
+    // Task 1 は表示される
+    expect(screen.getByText('Task 1')).toBeInTheDocument();
+  });
+
+  test('編集時に循環を生むタスクは依存関係リストに表示されない', () => {
+    // Task 2 は Task 1 に依存しているため、Task 1 が Task 2 に依存すると循環になる
+    render(
+      <TaskForm 
+        onSubmit={mockOnSubmit}
+        onCancel={mockOnCancel}
+        existingTask={mockTasks[0]}
+        allTasks={mockTasks}
+      />
+    );
+
+    expect(screen.queryByText('Task 2')).not.toBeInTheDocument();
+    expect(screen.getByText('一致するタスクが見つからないか、他のタスクがありません。')).toBeInTheDocument();
+  });
+
+  test('既存データの循環依存は警告表示され、解除するまで保存できない', async () => {
+    const alertSpy = vi.spyOn(window, 'alert').mockImplementation(() => {});
+    const cyclicTasks: Task[] = [
+      { ...mockTasks[0], dependencies: ['task2'] },
+      mockTasks[1]
+    ];
+
+    render(
+      <TaskForm 
+        onSubmit={mockOnSubmit}
+        onCancel={mockOnCancel}
+        existingTask={cyclicTasks[0]}
+        allTasks={cyclicTasks}
+      />
+    );
+
+    expect(screen.getByText('（循環）')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('変更を保存'));
+
+    await waitFor(() => {
+      expect(alertSpy).toHaveBeenCalledWith('依存関係が循環しています: Task 1 → Task 2 → Task 1');
+      expect(mockOnSubmit).not.toHaveBeenCalled();
+    });
+
+    alertSpy.mockRestore();
+  });
+
+  test('稼働日カレンダーを渡すと期間を稼働日数で表示し、休みの日を注意する', () => {
+    render(
+      <TaskForm 
+        onSubmit={mockOnSubmit}
+        onCancel={mockOnCancel}
+        existingTask={{ ...mockTasks[0], startDate: '2026-10-08', endDate: '2026-10-12' }}
+        allTasks={mockTasks}
+        workingCalendar={DEFAULT_WORKING_CALENDAR}
+      />
+    );
+
+    expect(screen.getByText(/期間: 2稼働日（5日間）/)).toBeInTheDocument();
+    expect(screen.getByText('⚠ 終了日は休み（スポーツの日）です')).toBeInTheDocument();
+  });
+
+  test('期間（稼働日）を入力すると終了日を、開始日を変えると期間を保ったまま終了日を合わせる', () => {
+    render(
+      <TaskForm 
+        onSubmit={mockOnSubmit}
+        onCancel={mockOnCancel}
+        existingTask={{ ...mockTasks[0], startDate: '2026-10-08', endDate: '2026-10-09' }}
+        allTasks={mockTasks}
+        workingCalendar={DEFAULT_WORKING_CALENDAR}
+      />
+    );
+
+    const duration = screen.getByLabelText('期間（稼働日）');
+    expect(duration).toHaveValue(2);
+
+    // 土日とスポーツの日（10-12）を除いて5稼働日
+    fireEvent.change(duration, { target: { value: '5' } });
+    expect(screen.getByLabelText('終了日')).toHaveValue('2026-10-15');
+
+    fireEvent.change(screen.getByLabelText('開始日'), { target: { value: '2026-10-13' } });
+    expect(screen.getByLabelText('終了日')).toHaveValue('2026-10-19');
+    expect(screen.getByLabelText('期間（稼働日）')).toHaveValue(5);
+  });
+
+  test('依存先の終了前に開始している場合は警告し、できるだけ早く開始する設定で開始日を決める', () => {
+    const predecessor: Task = { ...mockTasks[0], id: 'design', name: '設計', startDate: '2026-10-05', endDate: '2026-10-09' };
+    const successor: Task = { ...mockTasks[0], id: 'build', name: '実装', startDate: '2026-10-08', endDate: '2026-10-09', dependencies: ['design'] };
+
+    render(
+      <TaskForm 
+        onSubmit={mockOnSubmit}
+        onCancel={mockOnCancel}
+        existingTask={successor}
+        allTasks={[predecessor, successor]}
+        workingCalendar={DEFAULT_WORKING_CALENDAR}
+      />
+    );
+
+    // 10-10, 11 は土日、10-12 はスポーツの日のため、制約は次の稼働日 10-13 になる
+    expect(screen.getByText('⚠ 「設計」（FS）の制約により、2026-10-13 以降に開始する必要があります')).toBeInTheDocument();
+
+    // 10-13 に開始して2稼働日を保つ
+    fireEvent.click(screen.getByLabelText('依存先の後、できるだけ早く開始する（開始日を依存関係から自動で決める）'));
+    expect(screen.getByLabelText('開始日')).toHaveValue('2026-10-13');
+    expect(screen.getByLabelText('開始日')).toBeDisabled();
+    expect(screen.getByLabelText('終了日')).toHaveValue('2026-10-14');
+    expect(screen.queryByText(/の制約により/)).not.toBeInTheDocument();
+  });
+
+  test('カスタムフィールドを種類に合わせて入力し、定義のない項目の値も保つ', () => {
+    const existingTask: Task = { ...mockTasks[0], customFields: { estimate: 8, legacy: '旧項目' } };
+
+    render(
+      <TaskForm 
+        onSubmit={mockOnSubmit}
+        onCancel={mockOnCancel}
+        existingTask={existingTask}
+        allTasks={mockTasks}
+        customFields={[
+          { id: 'estimate', name: '見積もり（h）', type: 'number' },
+          { id: 'component', name: 'コンポーネント', type: 'select', options: ['UI', 'API'] },
+          { id: 'labels', name: 'ラベル', type: 'multiSelect', options: ['bug', 'infra'] }
+        ]}
+      />
+    );
+
+    expect(screen.getByLabelText('見積もり（h）')).toHaveValue(8);
+    fireEvent.change(screen.getByLabelText('見積もり（h）'), { target: { value: '' } });
+    fireEvent.change(screen.getByLabelText('コンポーネント'), { target: { value: 'API' } });
+    fireEvent.click(screen.getByLabelText('infra'));
+    fireEvent.click(screen.getByText('変更を保存'));
+
+    expect(mockOnSubmit).toHaveBeenCalledWith(expect.objectContaining({
+      customFields: { legacy: '旧項目', component: 'API', labels: ['infra'] }
+    }));
+  });
+
+  test('担当者を名簿から選び、名簿から外れた担当者も外せるようにする', () => {
+    const existingTask: Task = { ...mockTasks[0], assignees: ['former'] };
+
+    render(
+      <TaskForm 
+        onSubmit={mockOnSubmit}
+        onCancel={mockOnCancel}
+        existingTask={existingTask}
+        allTasks={mockTasks}
+        team={[
+          { id: 'aiko', name: 'Aiko Tanaka', color: '#0ea5e9' },
+          { id: 'ken', name: 'Ken Sato', color: '#f97316' }
+        ]}
+      />
+    );
+
+    expect(screen.getByRole('checkbox', { name: /former/ })).toBeChecked();
+    fireEvent.click(screen.getByRole('checkbox', { name: /Aiko Tanaka/ }));
+    fireEvent.click(screen.getByRole('checkbox', { name: /former/ }));
+    fireEvent.click(screen.getByText('変更を保存'));
+
+    expect(mockOnSubmit).toHaveBeenCalledWith(expect.objectContaining({ assignees: ['aiko'] }));
+  });
+
+  test('タグを既存のタグの候補から選ぶか、入力して Enter で追加する', () => {
+    const allTasks: Task[] = [...mockTasks, { ...mockTasks[0], id: 'tagged', tags: ['backend', 'blocked'] }];
+
+    render(
+      <TaskForm 
+        onSubmit={mockOnSubmit}
+        onCancel={mockOnCancel}
+        allTasks={allTasks}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText('タスク名'), { target: { value: 'API 実装' } });
+    const tagInput = screen.getByLabelText('タグ');
+    fireEvent.focus(tagInput);
+    fireEvent.change(tagInput, { target: { value: 'back' } });
+    fireEvent.mouseDown(screen.getByRole('option', { name: 'backend' }));
+    fireEvent.change(tagInput, { target: { value: 'customer-A' } });
+    fireEvent.keyDown(tagInput, { key: 'Enter' });
+    fireEvent.click(screen.getByText('タスクを追加'));
+
+    expect(mockOnSubmit).toHaveBeenCalledWith(expect.objectContaining({ tags: ['backend', 'customer-A'] }));
   });
-});
\ No newline at end of file
+});
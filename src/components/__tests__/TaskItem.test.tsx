@@ -189,4 +189,20 @@ describe('TaskItem', () => {
     const calendarButton = screen.getByText('📅 カレンダー');
     expect(calendarButton).toHaveAttribute('title', 'Google Calendarにエクスポート');
   });
+
+  test('検索語句に一致する名前と説明の部分が強調表示される', () => {
+    const { container } = render(
+      <TaskItem
+        task={mockTask}
+        onEdit={mockOnEdit}
+        onDelete={mockOnDelete}
+        allTasks={mockAllTasks}
+        highlightTerms={[{ text: 'テスト', negated: false }, { text: '説明', negated: true }]}
+      />
+    );
+
+    const marks = Array.from(container.querySelectorAll('mark')).map(mark => mark.textContent);
+    expect(marks).toEqual(['テスト', 'テスト']);
+    expect(container.querySelector('h3')).toHaveTextContent('テストタスク');
+  });
 });
\ No newline at end of file
@@ -2,9 +2,13 @@ import { vi } from 'vitest';
 import { 
   exportTaskToGoogleCalendar,
   exportMultipleTasksToGoogleCalendar,
-  getGoogleCalendarUrlForTask 
+  getGoogleCalendarUrlForTask,
+  generateIcs,
+  parseIcs,
+  applyImportedTask
 } from '../../../services/calendarService';
-import { Task, TaskStatus, TaskPriority } from '../../../types';
+import { Task, TaskStatus, TaskPriority, DependencyType } from '../../../types';
+import { getLocalTimeZone } from '../../../services/dateService';
 
 describe('calendarService', () => {
   const mockTask: Task = {
@@ -49,7 +53,7 @@ describe('calendarService', () => {
       expect(url).toContain('https://calendar.google.com/calendar/render');
       expect(url).toContain('action=TEMPLATE');
       expect(url).toContain('text='); // タイトルパラメータが存在
-      expect(url).toContain('ctz=Asia');
+      expect(url).toContain(`ctz=${encodeURIComponent(getLocalTimeZone())}`);
       
       // デコードしてタイトルを確認
       const decodedUrl = decodeURIComponent(url);
@@ -76,8 +80,14 @@ describe('calendarService', () => {
       
       const url = getGoogleCalendarUrlForTask(sameDayTask);
       
-      // 同じ日の場合は時間付きフォーマット（YYYYMMDDTHHMMSS）
-      expect(url).toContain('20240115T');
+      // 同じ日の場合は時間付きフォーマット（YYYYMMDDTHHMMSS）。時刻は ctz のタイムゾーンで 9:00〜18:00
+      expect(url).toContain('dates=20240115T090000%2F20240115T180000');
+    });
+
+    it('マイルストーンは同じ日でも終日イベントとして生成される', () => {
+      const url = getGoogleCalendarUrlForTask({ ...mockTask, startDate: '2024-01-15', endDate: '2024-01-15', milestone: true });
+
+      expect(url).toContain('dates=20240115%2F20240116');
     });
 
     it('異なる日のタスクは期間イベントとして生成される', () => {
@@ -199,4 +209,163 @@ describe('calendarService', () => {
       expect(decodedUrl).toContain('優先度:+High');
     });
   });
-});
\ No newline at end of file
+
+  describe('generateIcs', () => {
+    it('終日の VEVENT を生成し、DTEND は終了日の翌日にする', () => {
+      const ics = generateIcs([mockTask], mockTasks);
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+      expect(ics).toContain('UID:task1@ai-todo-app');
+      expect(ics).toContain('DTSTART;VALUE=DATE:20240101');
+      expect(ics).toContain('DTEND;VALUE=DATE:20240201');
+      expect(ics).toContain('PRIORITY:1');
+      expect(ics).toContain('RELATED-TO;RELTYPE=DEPENDS-ON:task2@ai-todo-app');
+      expect(ics).toContain('DESCRIPTION:テストの説明\\n\\n依存関係: タスク2');
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+
+    it('VTODO ではステータスと期限を対応する値にする', () => {
+      const ics = generateIcs([{ ...mockTask, status: TaskStatus.COMPLETED }], mockTasks, { component: 'VTODO' });
+
+      expect(ics).toContain('BEGIN:VTODO');
+      expect(ics).toContain('DUE;VALUE=DATE:20240131');
+      expect(ics).toContain('STATUS:COMPLETED');
+      expect(ics).toContain('PERCENT-COMPLETE:100');
+    });
+
+    it('マイルストーンは VTODO を指定しても終日の VEVENT として書き出し、読み込むと元に戻る', () => {
+      const milestone: Task = { ...mockTasks[1], description: 'リリース', milestone: true };
+      const ics = generateIcs([milestone], mockTasks, { component: 'VTODO' });
+
+      expect(ics).toContain('BEGIN:VEVENT');
+      expect(ics).not.toContain('BEGIN:VTODO');
+      expect(ics).toContain('DTEND;VALUE=DATE:20240116');
+      expect(ics).toContain('X-AI-TODO-MILESTONE:TRUE');
+      expect(parseIcs(ics).tasks).toEqual([milestone]);
+    });
+
+    it('依存関係の種類とラグを RELATED-TO のパラメータとして書き出し、読み込むと元に戻る', () => {
+      const linked: Task = { ...mockTask, dependencyLinks: { task2: { type: DependencyType.START_TO_START, lag: -2 } } };
+      const ics = generateIcs([linked, mockTasks[1]], mockTasks);
+
+      expect(ics).toContain('RELATED-TO;RELTYPE=DEPENDS-ON;X-AI-TODO-TYPE=SS;X-AI-TODO-LAG=-2:');
+      expect(parseIcs(ics).tasks[0].dependencyLinks).toEqual(linked.dependencyLinks);
+    });
+
+    it('特殊文字をエスケープし、長い行を75オクテット以内で折り返す', () => {
+      const ics = generateIcs([{ ...mockTask, name: 'a,b;c\\d', description: 'あ'.repeat(60) }]);
+
+      expect(ics).toContain('SUMMARY:a\\,b\\;c\\\\d');
+      ics.split('\r\n').forEach(line => {
+        expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+      });
+    });
+  });
+
+  describe('parseIcs', () => {
+    it('書き出した内容を元のタスクに戻せる', () => {
+      const longTask: Task = { ...mockTask, name: 'a,b;c\\d', description: '長い説明'.repeat(30) };
+      const { description: _description, ...taskWithoutDescription } = mockTasks[1];
+
+      (['VEVENT', 'VTODO'] as const).forEach(component => {
+        const { tasks, errors } = parseIcs(generateIcs([longTask, mockTasks[1]], [longTask, mockTasks[1]], { component }));
+
+        expect(errors).toEqual([]);
+        expect(tasks).toEqual([longTask, taskWithoutDescription]);
+      });
+    });
+
+    it('他のアプリで作られた予定のステータスと優先度を読み替える', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VTODO',
+        'UID:abc-123',
+        'SUMMARY:外部の',
+        '  ToDo',
+        'DTSTART:20240301T090000Z',
+        'DUE:20240305T180000Z',
+        'STATUS:IN-PROCESS',
+        'PRIORITY:7',
+        'END:VTODO',
+        'BEGIN:VEVENT',
+        'SUMMARY:開始日なし',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\n');
+
+      const { tasks, errors } = parseIcs(ics);
+
+      expect(tasks).toEqual([{
+        id: 'abc-123',
+        name: '外部の ToDo',
+        status: TaskStatus.IN_PROGRESS,
+        priority: TaskPriority.LOW,
+        startDate: '2024-03-01',
+        endDate: '2024-03-05',
+        dependencies: []
+      }]);
+      expect(errors).toEqual(['VEVENT #2: DTSTART is missing or invalid.']);
+    });
+
+    it('アラーム（VALARM）の中のプロパティはタスクに含めない', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:with-alarm',
+        'DTSTART;VALUE=DATE:20261019',
+        'DTEND;VALUE=DATE:20261021',
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        'TRIGGER:-PT15M',
+        'DESCRIPTION:15分前のリマインダー',
+        'END:VALARM',
+        'SUMMARY:アラーム付きの予定',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      const { tasks, errors } = parseIcs(ics);
+
+      expect(errors).toEqual([]);
+      expect(tasks).toEqual([{
+        id: 'with-alarm',
+        name: 'アラーム付きの予定',
+        status: TaskStatus.NOT_STARTED,
+        priority: TaskPriority.MEDIUM,
+        startDate: '2026-10-19',
+        endDate: '2026-10-20',
+        dependencies: []
+      }]);
+    });
+  });
+
+  describe('applyImportedTask', () => {
+    const existing: Task = {
+      ...mockTask,
+      parentId: 'summary',
+      progress: 40,
+      assignees: ['aiko'],
+      tags: ['backend'],
+      customFields: { estimate: 3 },
+      dependencyLinks: { task2: { type: DependencyType.START_TO_START, lag: 1 } },
+    };
+
+    it('自分で書き出した .ics を取り込み直しても、.ics に含まれない項目と進捗率を失わない', () => {
+      (['VEVENT', 'VTODO'] as const).forEach(component => {
+        const [imported] = parseIcs(generateIcs([existing], mockTasks, { component })).tasks;
+        expect(applyImportedTask(existing, imported)).toEqual(existing);
+      });
+    });
+
+    it('.ics 側で変更された内容は反映する', () => {
+      const edited = { ...existing, name: '名前を変更', endDate: '2024-02-10', description: undefined, dependencies: [], dependencyLinks: undefined };
+      const [imported] = parseIcs(generateIcs([edited], mockTasks, { component: 'VTODO' })).tasks;
+
+      const updated = applyImportedTask(existing, imported);
+
+      expect(updated).toMatchObject({ name: '名前を変更', endDate: '2024-02-10', dependencies: [], parentId: 'summary', tags: ['backend'] });
+      expect(updated.description).toBeUndefined();
+      expect(updated.dependencyLinks).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  normalizeCustomFieldDefinitions,
+  mergeCustomFieldValues,
+  formatCustomFieldValue,
+  compareCustomFieldValues,
+  matchesCustomFieldFilter,
+  isValidCustomFieldId
+} from '../../../services/customFieldService';
+import { CustomFieldDefinition } from '../../../types';
+
+describe('customFieldService', () => {
+  const estimate: CustomFieldDefinition = { id: 'estimate', name: '見積もり（h）', type: 'number' };
+  const component: CustomFieldDefinition = { id: 'component', name: 'コンポーネント', type: 'select', options: ['UI', 'API'] };
+  const labels: CustomFieldDefinition = { id: 'labels', name: 'ラベル', type: 'multiSelect', options: ['bug', 'infra'] };
+  const assignee: CustomFieldDefinition = { id: 'assignee', name: '担当者', type: 'text' };
+
+  it('YAML のキーとして使える形式のキーだけを受け付ける', () => {
+    expect(isValidCustomFieldId('ticket_url')).toBe(true);
+    expect(isValidCustomFieldId('1st')).toBe(false);
+    expect(isValidCustomFieldId('ticket url')).toBe(false);
+  });
+
+  it('不正な定義や重複したキーを取り除き、選択肢を整える', () => {
+    const fields = normalizeCustomFieldDefinitions([
+      { id: 'component', name: ' コンポーネント ', type: 'select', options: ['UI', ' API ', '', 'UI'] },
+      { id: 'component', name: '重複', type: 'text' },
+      { id: 'bad key', name: '不正', type: 'text' },
+      { id: 'unknown', name: '不明', type: 'color' as CustomFieldDefinition['type'] },
+      { id: 'estimate', name: '', type: 'number', options: ['1'] }
+    ]);
+
+    expect(fields).toEqual([
+      { id: 'component', name: 'コンポーネント', type: 'select', options: ['UI', 'API'] },
+      { id: 'estimate', name: 'estimate', type: 'number' }
+    ]);
+    expect(normalizeCustomFieldDefinitions(undefined)).toEqual([]);
+  });
+
+  it('値の変更を反映し、空の値は項目ごと取り除く', () => {
+    expect(mergeCustomFieldValues({ estimate: 8, assignee: '佐藤' }, { assignee: '', labels: ['bug'] }))
+      .toEqual({ estimate: 8, labels: ['bug'] });
+    expect(mergeCustomFieldValues({ labels: ['bug'] }, { labels: [] })).toBeUndefined();
+  });
+
+  it('数値は大小で並べ、未設定は最も小さい値として扱う', () => {
+    expect(compareCustomFieldValues(estimate, 10, 9)).toBeGreaterThan(0);
+    expect(compareCustomFieldValues(estimate, undefined, 1)).toBeLessThan(0);
+    expect(compareCustomFieldValues(estimate, undefined, undefined)).toBe(0);
+    expect(compareCustomFieldValues(assignee, '鈴木', '佐藤')).toBe('鈴木'.localeCompare('佐藤', 'ja'));
+  });
+
+  it('選択肢は完全一致、それ以外は部分一致で絞り込む', () => {
+    expect(matchesCustomFieldFilter(component, 'UI', 'UI')).toBe(true);
+    expect(matchesCustomFieldFilter(component, 'API', 'UI')).toBe(false);
+    expect(matchesCustomFieldFilter(labels, ['bug', 'infra'], 'infra')).toBe(true);
+    expect(matchesCustomFieldFilter(assignee, 'Sato Taro', 'sato')).toBe(true);
+    expect(matchesCustomFieldFilter(assignee, undefined, 'sato')).toBe(false);
+    expect(matchesCustomFieldFilter(assignee, undefined, '')).toBe(true);
+    expect(formatCustomFieldValue(['bug', 'infra'])).toBe('bug, infra');
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  toDayNumber,
+  fromDayNumber,
+  addDays,
+  addMonths,
+  diffDays,
+  diffMonths,
+  getWeekday,
+  getStartOfWeek,
+  getEndOfWeek,
+  getStartOfMonth,
+  getEndOfMonth,
+  getIsoWeek,
+  formatDate,
+  getTodayDateString
+} from '../../../services/dateService';
+
+// 実行環境のタイムゾーンに左右されないことを、npm run test:tz で複数の TZ を指定して確かめる
+describe('dateService', () => {
+  it('日付と日番号を相互に変換する', () => {
+    expect(toDayNumber('1970-01-01')).toBe(0);
+    expect(fromDayNumber(toDayNumber('2026-10-19'))).toBe('2026-10-19');
+  });
+
+  it('月末・年末・うるう日・夏時間の切り替えをまたいで日数を加減する', () => {
+    expect(addDays('2026-10-31', 1)).toBe('2026-11-01');
+    expect(addDays('2026-12-31', 1)).toBe('2027-01-01');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+    expect(addDays('2026-03-07', 2)).toBe('2026-03-09');
+    expect(diffDays('2026-10-01', '2026-10-19')).toBe(18);
+    expect(diffDays('2026-10-19', '2026-10-01')).toBe(-18);
+    expect(diffDays('2026-03-01', '2026-04-01')).toBe(31);
+  });
+
+  it('月単位で加減し、存在しない日は月末にする', () => {
+    expect(addMonths('2026-01-31', 1)).toBe('2026-02-28');
+    expect(addMonths('2024-01-31', 1)).toBe('2024-02-29');
+    expect(addMonths('2026-11-15', 3)).toBe('2027-02-15');
+    expect(addMonths('2026-01-15', -1)).toBe('2025-12-15');
+    expect(diffMonths('2025-12-31', '2026-02-01')).toBe(2);
+  });
+
+  it('曜日と週・月の境界を返す', () => {
+    expect(getWeekday('2026-10-18')).toBe(0);
+    expect(getWeekday('2026-10-19')).toBe(1);
+    expect(getWeekday('1969-12-31')).toBe(3);
+    expect(getStartOfWeek('2026-10-18')).toBe('2026-10-12');
+    expect(getEndOfWeek('2026-10-18')).toBe('2026-10-18');
+    expect(getStartOfWeek('2026-10-18', 0)).toBe('2026-10-18');
+    expect(getEndOfWeek('2026-10-21', 0)).toBe('2026-10-24');
+    expect(getStartOfMonth('2026-02-14')).toBe('2026-02-01');
+    expect(getEndOfMonth('2024-02-14')).toBe('2024-02-29');
+  });
+
+  it('ISO 8601 の週番号を年またぎも含めて返す', () => {
+    expect(getIsoWeek('2026-10-19')).toEqual({ year: 2026, week: 43 });
+    expect(getIsoWeek('2027-01-01')).toEqual({ year: 2026, week: 53 });
+    expect(getIsoWeek('2024-12-30')).toEqual({ year: 2025, week: 1 });
+    expect(getIsoWeek('2021-01-03')).toEqual({ year: 2020, week: 53 });
+  });
+
+  it('表示用の文字列は暦日のままロケールに合わせて整形する', () => {
+    expect(formatDate('2026-10-01', { year: 'numeric', month: 'numeric', day: 'numeric' }, 'ja-JP')).toBe('2026/10/1');
+    expect(formatDate('2026-10-01', { month: 'short', day: 'numeric' }, 'en-US')).toBe('Oct 1');
+    expect(formatDate('2026-01-01', { weekday: 'short' }, 'ja-JP')).toBe('木');
+  });
+
+  it('今日の日付は実行環境のタイムゾーンの暦日で返す', () => {
+    expect(getTodayDateString(new Date(2026, 0, 5, 23, 30))).toBe('2026-01-05');
+    expect(getTodayDateString(new Date(2026, 0, 6, 0, 15))).toBe('2026-01-06');
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  findDependencyCycles,
+  getTasksInCycles,
+  getTransitiveDependents,
+  wouldCreateCycle,
+  formatCyclePath,
+  getDependencyAnchors,
+  getDependencyTypeForAnchors,
+  formatDependencyLink,
+  withDependencies
+} from '../../../services/dependencyService';
+import { Task, TaskStatus, TaskPriority, DependencyType } from '../../../types';
+
+describe('dependencyService', () => {
+  const node = (id: string, dependencies: string[] = []) => ({ id, name: `タスク${id}`, dependencies });
+
+  describe('findDependencyCycles', () => {
+    it('循環がない場合は空配列を返す', () => {
+      const tasks = [node('1'), node('2', ['1']), node('3', ['1', '2'])];
+      expect(findDependencyCycles(tasks)).toEqual([]);
+    });
+
+    it('2タスク間の循環を閉路として返す', () => {
+      const tasks = [node('1', ['2']), node('2', ['1'])];
+      expect(findDependencyCycles(tasks)).toEqual([['1', '2', '1']]);
+    });
+
+    it('3タスク以上の循環と自己依存を検出する', () => {
+      const tasks = [node('1', ['3']), node('2', ['1']), node('3', ['2']), node('4', ['4']), node('5', ['1'])];
+      expect(findDependencyCycles(tasks)).toEqual([
+        ['1', '3', '2', '1'],
+        ['4', '4']
+      ]);
+    });
+
+    it('存在しないタスクへの依存は無視する', () => {
+      expect(findDependencyCycles([node('1', ['missing'])])).toEqual([]);
+    });
+  });
+
+  describe('getTasksInCycles', () => {
+    it('循環に含まれるタスクのみを返す', () => {
+      const tasks = [node('1', ['2']), node('2', ['1']), node('3', ['1'])];
+      expect(getTasksInCycles(tasks)).toEqual(new Set(['1', '2']));
+    });
+  });
+
+  describe('getTransitiveDependents', () => {
+    it('直接・間接に依存しているタスクを返す', () => {
+      const tasks = [node('1'), node('2', ['1']), node('3', ['2']), node('4')];
+      expect(getTransitiveDependents(tasks, '1')).toEqual(new Set(['2', '3']));
+      expect(getTransitiveDependents(tasks, '4')).toEqual(new Set());
+    });
+  });
+
+  describe('wouldCreateCycle', () => {
+    const tasks = [node('1'), node('2', ['1']), node('3', ['2']), node('4')];
+
+    it('依存元（後続タスク）を依存先にすると循環になる', () => {
+      expect(wouldCreateCycle(tasks, '1', '3')).toBe(true);
+      expect(wouldCreateCycle(tasks, '1', '1')).toBe(true);
+    });
+
+    it('無関係なタスクや先行タスクは循環にならない', () => {
+      expect(wouldCreateCycle(tasks, '3', '1')).toBe(false);
+      expect(wouldCreateCycle(tasks, '1', '4')).toBe(false);
+    });
+  });
+
+  describe('formatCyclePath', () => {
+    it('タスク名の矢印表記に変換する', () => {
+      const tasks = [node('1', ['2']), node('2', ['1'])];
+      expect(formatCyclePath(['1', '2', '1'], tasks)).toBe('タスク1 → タスク2 → タスク1');
+    });
+  });
+
+  describe('依存関係の種類とラグ', () => {
+    it('種類ごとに結ぶ端を返し、ラグ付きで短く表記する', () => {
+      expect(getDependencyAnchors(DependencyType.FINISH_TO_START)).toEqual({ from: 'finish', to: 'start' });
+      expect(getDependencyAnchors(DependencyType.START_TO_FINISH)).toEqual({ from: 'start', to: 'finish' });
+      Object.values(DependencyType).forEach(type => {
+        const { from, to } = getDependencyAnchors(type);
+        expect(getDependencyTypeForAnchors(from, to)).toBe(type);
+      });
+      expect(formatDependencyLink({ type: DependencyType.START_TO_START, lag: 2 })).toBe('SS+2日');
+      expect(formatDependencyLink({ type: DependencyType.FINISH_TO_FINISH, lag: -1 })).toBe('FF-1日');
+      expect(formatDependencyLink({ type: DependencyType.FINISH_TO_START, lag: 0 })).toBe('FS');
+    });
+
+    it('withDependencies は残った依存先の既定値以外の種類とラグだけを保持する', () => {
+      const task: Task = {
+        id: '3',
+        name: 'タスク3',
+        status: TaskStatus.NOT_STARTED,
+        priority: TaskPriority.MEDIUM,
+        startDate: '2026-10-01',
+        endDate: '2026-10-03',
+        dependencies: ['1', '2'],
+        dependencyLinks: { '1': { type: DependencyType.START_TO_START, lag: 1 }, '2': { type: DependencyType.FINISH_TO_FINISH, lag: 0 } }
+      };
+
+      expect(withDependencies(task, ['1']).dependencyLinks).toEqual({ '1': { type: DependencyType.START_TO_START, lag: 1 } });
+      expect(withDependencies(task, ['2'], { '2': { type: DependencyType.FINISH_TO_START, lag: 0 } })).not.toHaveProperty('dependencyLinks');
+    });
+  });
+});
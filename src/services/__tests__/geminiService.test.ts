@@ -1,10 +1,12 @@
 import { vi } from 'vitest';
-import { getAiTaskSummary, updateTasksViaAi } from '../../../services/geminiService';
+import { getAiTaskSummary, getTaskOperationsViaAi } from '../../../services/geminiService';
 import { Task, TaskStatus, TaskPriority } from '../../../types';
 
 // GoogleGenAIをモック
 const mockGenerateContent = vi.fn();
 vi.mock('@google/genai', () => ({
+  Type: { OBJECT: 'OBJECT', STRING: 'STRING', NUMBER: 'NUMBER', INTEGER: 'INTEGER', ARRAY: 'ARRAY' },
+  FunctionCallingConfigMode: { ANY: 'ANY', AUTO: 'AUTO' },
   GoogleGenAI: vi.fn().mockImplementation(() => ({
     models: {
       generateContent: mockGenerateContent
@@ -80,41 +82,104 @@ describe('geminiService', () => {
     });
   });
 
-  describe('updateTasksViaAi', () => {
+  describe('getTaskOperationsViaAi', () => {
     it('APIキーが設定されていない場合、エラーを投げる', async () => {
       vi.stubGlobal('process', {
         env: {}
       });
       
-      await expect(updateTasksViaAi('yaml content', 'instruction')).rejects.toThrow('API Key not configured. Cannot update tasks via AI.');
+      await expect(getTaskOperationsViaAi(mockTasks, 'instruction')).rejects.toThrow('API Key not configured. Cannot update tasks via AI.');
     });
 
-    it('正常なYAMLレスポンスを返す', async () => {
-      const mockResponse = {
-        text: '```yaml\ntasks:\n  - id: 1\n    name: Updated Task\n```'
-      };
-      
-      mockGenerateContent.mockResolvedValue(mockResponse);
+    it('関数呼び出しを検証済みの操作一覧に変換する', async () => {
+      mockGenerateContent.mockResolvedValue({
+        functionCalls: [
+          { name: 'updateTask', args: { taskId: '1', status: 'Completed' } },
+          { name: 'shiftDates', args: { taskIds: ['2'], days: 7 } }
+        ]
+      });
+
+      const result = await getTaskOperationsViaAi(mockTasks, '1を完了にして2を1週間後ろへ');
 
-      const result = await updateTasksViaAi('original yaml', 'update instruction');
-      expect(result).toBe('tasks:\n  - id: 1\n    name: Updated Task');
+      expect(result).toEqual([
+        { type: 'updateTask', taskId: '1', fields: { status: TaskStatus.COMPLETED } },
+        { type: 'shiftDates', taskIds: ['2'], days: 7 }
+      ]);
     });
 
-    it('YAMLフェンスなしのレスポンスを処理する', async () => {
-      const mockResponse = {
-        text: 'tasks:\n  - id: 1\n    name: Direct YAML'
-      };
-      
-      mockGenerateContent.mockResolvedValue(mockResponse);
+    it('タスク操作の関数定義を渡し、変更が不要なら関数を呼ばずに答えられるようにする', async () => {
+      mockGenerateContent.mockResolvedValue({ functionCalls: [] });
+
+      await getTaskOperationsViaAi(mockTasks, 'instruction');
+
+      const request = mockGenerateContent.mock.calls[0][0];
+      const names = request.config.tools[0].functionDeclarations.map((declaration: { name: string }) => declaration.name);
+      expect(names).toEqual(['createTask', 'updateTask', 'deleteTask', 'addDependency', 'shiftDates']);
+      expect(request.config.toolConfig.functionCallingConfig.mode).toBe('AUTO');
+      expect(request.contents).toContain('"id":"2"');
+    });
+
+    it('カスタムフィールドの定義を関数定義とシステム指示に含める', async () => {
+      mockGenerateContent.mockResolvedValue({ functionCalls: [] });
+
+      await getTaskOperationsViaAi(mockTasks, 'instruction', {
+        customFields: [
+          { id: 'estimate', name: 'Estimate (h)', type: 'number' },
+          { id: 'component', name: 'Component', type: 'select', options: ['UI', 'API'] }
+        ]
+      });
+
+      const request = mockGenerateContent.mock.calls[0][0];
+      const updateTask = request.config.tools[0].functionDeclarations.find((declaration: { name: string }) => declaration.name === 'updateTask');
+      expect(updateTask.parameters.properties.customFields.properties).toEqual({
+        estimate: { type: 'NUMBER', description: 'Estimate (h).' },
+        component: { type: 'STRING', description: 'Component.', enum: ['UI', 'API'] }
+      });
+      expect(request.config.systemInstruction).toContain('- component: Component (select; options: UI, API)');
+    });
+
+    it('チームの名簿を渡すと、名前で指定された担当者をIDで割り当てられるようにする', async () => {
+      mockGenerateContent.mockResolvedValue({
+        functionCalls: [{ name: 'updateTask', args: { taskId: '1', assignees: ['aiko'] } }]
+      });
+
+      const result = await getTaskOperationsViaAi(mockTasks, 'デザインのタスクをAikoに割り当てて', {
+        team: [{ id: 'aiko', name: 'Aiko Tanaka', color: '#0ea5e9' }]
+      });
+
+      const request = mockGenerateContent.mock.calls[0][0];
+      const updateTask = request.config.tools[0].functionDeclarations.find((declaration: { name: string }) => declaration.name === 'updateTask');
+      expect(updateTask.parameters.properties.assignees.items.enum).toEqual(['aiko']);
+      expect(request.config.systemInstruction).toContain('- aiko: Aiko Tanaka');
+      expect(result).toEqual([{ type: 'updateTask', taskId: '1', fields: { assignees: ['aiko'] } }]);
+    });
+
+    it('タグを付け外しする指示を、タグの一覧を置き換える updateTask として受け取る', async () => {
+      mockGenerateContent.mockResolvedValue({
+        functionCalls: [{ name: 'updateTask', args: { taskId: '1', tags: ['backend', ' blocked '] } }]
+      });
+
+      const result = await getTaskOperationsViaAi(mockTasks, 'タスク1に backend と blocked のタグを付けて');
+
+      const request = mockGenerateContent.mock.calls[0][0];
+      const updateTask = request.config.tools[0].functionDeclarations.find((declaration: { name: string }) => declaration.name === 'updateTask');
+      expect(updateTask.parameters.properties.tags.type).toBe('ARRAY');
+      expect(request.config.systemInstruction).toContain('pass the task\'s full updated list');
+      expect(result).toEqual([{ type: 'updateTask', taskId: '1', fields: { tags: ['backend', 'blocked'] } }]);
+    });
+
+    it('型に合わない引数の操作はエラーにする', async () => {
+      mockGenerateContent.mockResolvedValue({
+        functionCalls: [{ name: 'updateTask', args: { taskId: '1', priority: 'Urgent' } }]
+      });
 
-      const result = await updateTasksViaAi('original yaml', 'update instruction');
-      expect(result).toBe('tasks:\n  - id: 1\n    name: Direct YAML');
+      await expect(getTaskOperationsViaAi(mockTasks, 'instruction')).rejects.toThrow('Operation #1: priority "Urgent" is invalid');
     });
 
     it('エラーが発生した場合、エラーを投げる', async () => {
       mockGenerateContent.mockRejectedValue(new Error('API Error'));
 
-      await expect(updateTasksViaAi('yaml content', 'instruction')).rejects.toThrow('AI update failed: API Error');
+      await expect(getTaskOperationsViaAi(mockTasks, 'instruction')).rejects.toThrow('AI update failed: API Error');
     });
   });
 
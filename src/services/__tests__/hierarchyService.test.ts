@@ -0,0 +1,117 @@
+import {
+  flattenTaskTree,
+  getDescendantIds,
+  getAncestorIds,
+  wouldCreateParentCycle,
+  findParentCycles,
+  getRollupProgress,
+  rollupSummaryTasks,
+  removeTaskWithSubtree
+} from '../../../services/hierarchyService';
+import { Task, TaskStatus } from '../../../types';
+import { createTask } from '../../test/taskFactory';
+
+describe('hierarchyService', () => {
+
+  // epic ─┬─ a ─── a1
+  //       └─ b
+  // other
+  const tasks = [
+    createTask('epic'),
+    createTask('other', { dependencies: ['a1'] }),
+    createTask('a', { parentId: 'epic' }),
+    createTask('b', { parentId: 'epic', startDate: '2026-10-10', endDate: '2026-10-12', status: TaskStatus.COMPLETED }),
+    createTask('a1', { parentId: 'a', startDate: '2026-09-28', endDate: '2026-10-02', status: TaskStatus.IN_PROGRESS }),
+  ];
+
+  describe('flattenTaskTree', () => {
+    it('親の直後に子を並べ、深さと子の有無を返す', () => {
+      const rows = flattenTaskTree(tasks);
+
+      expect(rows.map(row => [row.task.id, row.depth, row.hasChildren])).toEqual([
+        ['epic', 0, true],
+        ['a', 1, true],
+        ['a1', 2, false],
+        ['b', 1, false],
+        ['other', 0, false],
+      ]);
+    });
+
+    it('折りたたんだタスクの子孫を省略し、兄弟の中で並べ替える', () => {
+      const byIdDesc = (x: Task, y: Task) => y.id.localeCompare(x.id);
+      const rows = flattenTaskTree(tasks, new Set(['a']), byIdDesc);
+
+      expect(rows.map(row => row.task.id)).toEqual(['other', 'epic', 'b', 'a']);
+    });
+
+    it('存在しない親や循環した親を持つタスクもルートとして表示する', () => {
+      const rows = flattenTaskTree([
+        createTask('orphan', { parentId: 'missing' }),
+        createTask('x', { parentId: 'y' }),
+        createTask('y', { parentId: 'x' }),
+      ]);
+
+      expect(rows.map(row => row.task.id)).toEqual(['orphan', 'x', 'y']);
+    });
+  });
+
+  describe('親子関係の探索', () => {
+    it('子孫と祖先を返す', () => {
+      expect([...getDescendantIds(tasks, 'epic')].sort()).toEqual(['a', 'a1', 'b']);
+      expect(getAncestorIds(tasks, 'a1')).toEqual(['a', 'epic']);
+    });
+
+    it('自分自身や子孫を親にすると循環になる', () => {
+      expect(wouldCreateParentCycle(tasks, 'epic', 'a1')).toBe(true);
+      expect(wouldCreateParentCycle(tasks, 'epic', 'epic')).toBe(true);
+      expect(wouldCreateParentCycle(tasks, 'a1', 'b')).toBe(false);
+    });
+
+    it('親子関係の循環を検出する', () => {
+      const cycles = findParentCycles([
+        createTask('x', { parentId: 'y' }),
+        createTask('y', { parentId: 'x' }),
+        createTask('z', { parentId: 'x' }),
+      ]);
+
+      expect(cycles).toEqual([['x', 'y', 'x']]);
+    });
+  });
+
+  describe('集計', () => {
+    it('末端のサブタスクのステータスから進捗率を求める', () => {
+      // a1: 進行中(50%)、b: 完了(100%)
+      expect(getRollupProgress(tasks, 'epic')).toBe(75);
+      expect(getRollupProgress(tasks, 'b')).toBe(100);
+    });
+
+    it('サマリータスクの日付とステータスを子から集計し、変更のないタスクはそのまま返す', () => {
+      const rolledUp = rollupSummaryTasks(tasks);
+      const byId = new Map(rolledUp.map(task => [task.id, task]));
+
+      expect(byId.get('a')).toMatchObject({ startDate: '2026-09-28', endDate: '2026-10-02', status: TaskStatus.IN_PROGRESS });
+      expect(byId.get('epic')).toMatchObject({ startDate: '2026-09-28', endDate: '2026-10-12', status: TaskStatus.IN_PROGRESS });
+      expect(byId.get('other')).toBe(tasks[1]);
+      expect(rollupSummaryTasks(rolledUp)).toEqual(rolledUp);
+    });
+
+    it('すべての子が完了したサマリータスクは完了になる', () => {
+      const rolledUp = rollupSummaryTasks([
+        createTask('p', { status: TaskStatus.IN_PROGRESS }),
+        createTask('c', { parentId: 'p', status: TaskStatus.COMPLETED }),
+      ]);
+
+      expect(rolledUp[0].status).toBe(TaskStatus.COMPLETED);
+    });
+  });
+
+  describe('removeTaskWithSubtree', () => {
+    it('子孫もまとめて削除し、削除したタスクへの依存関係を外す', () => {
+      const remaining = removeTaskWithSubtree(tasks, 'a');
+
+      expect(remaining.map(task => task.id)).toEqual(['epic', 'other', 'b']);
+      expect(remaining.find(task => task.id === 'other')?.dependencies).toEqual([]);
+      expect(remaining[0]).toBe(tasks[0]);
+    });
+  });
+});
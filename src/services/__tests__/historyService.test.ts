@@ -0,0 +1,81 @@
+import {
+  createHistory,
+  recordHistory,
+  undoHistory,
+  redoHistory,
+  loadHistory,
+  saveHistory
+} from '../../../services/historyService';
+import { Task } from '../../../types';
+import { createTask } from '../../test/taskFactory';
+
+describe('historyService', () => {
+  const v0: Task[] = [];
+  const v1 = [createTask('1', { name: '設計' })];
+  const v2 = [...v1, createTask('2', { name: '実装' })];
+
+  beforeEach(() => {
+    sessionStorage.clear();
+  });
+
+  it('操作を記録し、上限を超えた古い履歴を削除する', () => {
+    let history = createHistory();
+    history = recordHistory(history, 'Add task \'設計\'', v0, v1, 2);
+    history = recordHistory(history, 'Add task \'実装\'', v1, v2, 2);
+    history = recordHistory(history, 'Reorder tasks', v2, [...v2].reverse(), 2);
+
+    expect(history.past.map(entry => entry.label)).toEqual(['Add task \'実装\'', 'Reorder tasks']);
+    expect(history.future).toEqual([]);
+  });
+
+  it('元に戻すと直前の状態を返し、やり直しスタックに積む', () => {
+    const history = recordHistory(recordHistory(createHistory(), 'a', v0, v1), 'b', v1, v2);
+
+    const result = undoHistory(history)!;
+
+    expect(result.entry.label).toBe('b');
+    expect(result.entry.before).toEqual(v1);
+    expect(result.history.past).toHaveLength(1);
+    expect(result.history.future.map(entry => entry.label)).toEqual(['b']);
+  });
+
+  it('やり直すと取り消した操作の変更後の状態を返す', () => {
+    const history = recordHistory(createHistory(), 'a', v0, v1);
+    const undone = undoHistory(history)!;
+
+    const result = redoHistory(undone.history)!;
+
+    expect(result.entry.after).toEqual(v1);
+    expect(result.history.past.map(entry => entry.label)).toEqual(['a']);
+    expect(result.history.future).toEqual([]);
+  });
+
+  it('履歴が空のときは null を返す', () => {
+    expect(undoHistory(createHistory())).toBeNull();
+    expect(redoHistory(createHistory())).toBeNull();
+  });
+
+  it('取り消し後に新しい操作を記録するとやり直しスタックは破棄される', () => {
+    const undone = undoHistory(recordHistory(createHistory(), 'a', v0, v1))!;
+
+    const history = recordHistory(undone.history, 'c', v0, v2);
+
+    expect(history.future).toEqual([]);
+    expect(history.past.map(entry => entry.label)).toEqual(['c']);
+  });
+
+  it('sessionStorage に保存した履歴を復元する', () => {
+    const history = recordHistory(createHistory(), 'AI update: \'move design to next week\'', v0, v1);
+    saveHistory(history);
+
+    expect(loadHistory()).toEqual(history);
+  });
+
+  it('保存された履歴が壊れている場合は空の履歴を返す', () => {
+    sessionStorage.setItem('taskHistory', '{broken');
+    const spy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(loadHistory()).toEqual(createHistory());
+    spy.mockRestore();
+  });
+});
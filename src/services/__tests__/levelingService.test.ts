@@ -0,0 +1,63 @@
+import { levelResources } from '../../../services/levelingService';
+import { Task, TaskStatus, TaskPriority, TeamMember, WorkingCalendar } from '../../../types';
+import { createTask } from '../../test/taskFactory';
+
+describe('levelingService', () => {
+  // 土日休み・祝日なし（2026-06-01 は月曜日）
+  const calendar: WorkingCalendar = { workWeek: [1, 2, 3, 4, 5], useJapaneseHolidays: false, holidays: [], workingDays: [] };
+  const aiko: TeamMember = { id: 'aiko', name: 'Aiko', color: '#0ea5e9' };
+  const ken: TeamMember = { id: 'ken', name: 'Ken', color: '#f97316', capacity: 0.2 };
+
+  // 既定でメンバー aiko が担当するタスク
+  const assignedTask = (id: string, startDate: string, endDate: string, overrides: Partial<Task> = {}): Task =>
+    createTask(id, { startDate, endDate, assignees: ['aiko'], ...overrides });
+
+  it('超過がなければ日付を変えない', () => {
+    const tasks = [
+      assignedTask('1', '2026-06-01', '2026-06-02'),
+      assignedTask('2', '2026-06-03', '2026-06-05'),
+      assignedTask('3', '2026-06-01', '2026-06-05', { assignees: ['ken'], status: TaskStatus.COMPLETED })
+    ];
+    expect(levelResources(tasks, [aiko, ken], calendar)).toEqual({ updates: [], unresolvedTaskIds: [] });
+  });
+
+  it('優先度の低いタスクから後ろ倒しにし、稼働日数を保つ', () => {
+    const tasks = [
+      assignedTask('low', '2026-06-01', '2026-06-03', { priority: TaskPriority.LOW }),
+      assignedTask('medium', '2026-06-01', '2026-06-05'),
+      assignedTask('high', '2026-06-01', '2026-06-05', { priority: TaskPriority.HIGH })
+    ];
+    const { updates, unresolvedTaskIds } = levelResources(tasks, [aiko], calendar);
+    expect(updates).toEqual([
+      { taskId: 'low', newStartDate: '2026-06-15', newEndDate: '2026-06-17' },
+      { taskId: 'medium', newStartDate: '2026-06-08', newEndDate: '2026-06-12' }
+    ]);
+    expect(unresolvedTaskIds).toEqual([]);
+  });
+
+  it('依存先の後に置き、後ろ倒しになった依存先の後続も休みの日を避けて動かす', () => {
+    const tasks = [
+      assignedTask('parallel', '2026-06-01', '2026-06-05'),
+      assignedTask('first', '2026-06-01', '2026-06-02', { priority: TaskPriority.LOW }),
+      assignedTask('second', '2026-06-03', '2026-06-05', { priority: TaskPriority.HIGH, dependencies: ['first'] }),
+      assignedTask('review', '2026-06-08', '2026-06-08', { assignees: undefined, milestone: true, dependencies: ['second'] })
+    ];
+    expect(levelResources(tasks, [aiko], calendar).updates).toEqual([
+      { taskId: 'first', newStartDate: '2026-06-08', newEndDate: '2026-06-09' },
+      { taskId: 'second', newStartDate: '2026-06-10', newEndDate: '2026-06-12' },
+      { taskId: 'review', newStartDate: '2026-06-15', newEndDate: '2026-06-15' }
+    ]);
+  });
+
+  it('着手済みのタスクは動かさずに負荷に数え、解消できないタスクは依存関係だけを満たす日に置く', () => {
+    const tasks = [
+      assignedTask('doing', '2026-06-01', '2026-06-05', { status: TaskStatus.IN_PROGRESS, priority: TaskPriority.LOW }),
+      assignedTask('next', '2026-06-04', '2026-06-05', { priority: TaskPriority.HIGH }),
+      // 稼働率 20%（週1日）では3日のタスクはどこに置いても収まらない
+      assignedTask('ken-task', '2026-06-01', '2026-06-03', { assignees: ['ken'] })
+    ];
+    const { updates, unresolvedTaskIds } = levelResources(tasks, [aiko, ken], calendar);
+    expect(updates).toEqual([{ taskId: 'next', newStartDate: '2026-06-08', newEndDate: '2026-06-09' }]);
+    expect(unresolvedTaskIds).toEqual(['ken-task']);
+  });
+});
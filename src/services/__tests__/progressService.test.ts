@@ -0,0 +1,52 @@
+import { clampProgress, getTaskProgress, deriveStatusFromProgress, applyProgress } from '../../../services/progressService';
+import { getRollupProgress } from '../../../services/hierarchyService';
+import { TaskStatus } from '../../../types';
+import { createTask } from '../../test/taskFactory';
+
+describe('progressService', () => {
+
+  describe('clampProgress', () => {
+    it('0〜100 の整数に丸める', () => {
+      expect(clampProgress(42.6)).toBe(43);
+      expect(clampProgress(-10)).toBe(0);
+      expect(clampProgress(150)).toBe(100);
+      expect(clampProgress(NaN)).toBe(0);
+    });
+  });
+
+  describe('getTaskProgress', () => {
+    it('進捗率が設定されていればそれを返し、未設定ならステータスから推定する', () => {
+      expect(getTaskProgress(createTask('1', { progress: 30 }))).toBe(30);
+      expect(getTaskProgress(createTask('1', { progress: 0, status: TaskStatus.IN_PROGRESS }))).toBe(0);
+      expect(getTaskProgress(createTask('1'))).toBe(0);
+      expect(getTaskProgress(createTask('1', { status: TaskStatus.IN_PROGRESS }))).toBe(50);
+      expect(getTaskProgress(createTask('1', { status: TaskStatus.COMPLETED }))).toBe(100);
+    });
+  });
+
+  describe('deriveStatusFromProgress / applyProgress', () => {
+    it('進捗率からステータスを決める', () => {
+      expect(deriveStatusFromProgress(0)).toBe(TaskStatus.NOT_STARTED);
+      expect(deriveStatusFromProgress(1)).toBe(TaskStatus.IN_PROGRESS);
+      expect(deriveStatusFromProgress(100)).toBe(TaskStatus.COMPLETED);
+    });
+
+    it('deriveStatus が true の場合のみステータスも更新する', () => {
+      const task = createTask('1');
+
+      expect(applyProgress(task, 100, true)).toMatchObject({ progress: 100, status: TaskStatus.COMPLETED });
+      expect(applyProgress(task, 100, false)).toMatchObject({ progress: 100, status: TaskStatus.NOT_STARTED });
+      expect(applyProgress(task, 120.4, false).progress).toBe(100);
+    });
+  });
+
+  it('サマリータスクの進捗は末端タスクの進捗率の平均になる', () => {
+    const tasks = [
+      createTask('p'),
+      createTask('c1', { parentId: 'p', progress: 20 }),
+      createTask('c2', { parentId: 'p', status: TaskStatus.COMPLETED }),
+    ];
+
+    expect(getRollupProgress(tasks, 'p')).toBe(60);
+  });
+});
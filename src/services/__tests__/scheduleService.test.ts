@@ -0,0 +1,269 @@
+import {
+  analyzeSchedule,
+  getDependencyKey,
+  propagateDateChanges,
+  findDependencyViolations,
+  applyDateUpdates,
+  getDurationDays,
+  getDependencyStartConstraints
+} from '../../../services/scheduleService';
+import { Task, DependencyType, WorkingCalendar } from '../../../types';
+import { createTask } from '../../test/taskFactory';
+
+describe('scheduleService', () => {
+  const scheduledTask = (id: string, startDate: string, endDate: string, dependencies: string[] = []): Task =>
+    createTask(id, { startDate, endDate, dependencies });
+
+  describe('analyzeSchedule', () => {
+    it('タスクがない場合は空の解析結果を返す', () => {
+      const analysis = analyzeSchedule([]);
+      expect(analysis.tasks.size).toBe(0);
+      expect(analysis.criticalPath).toEqual([]);
+      expect(analysis.projectEnd).toBeNull();
+    });
+
+    it('直列のタスクはすべてクリティカルになる', () => {
+      const tasks = [
+        scheduledTask('1', '2026-10-01', '2026-10-02'),
+        scheduledTask('2', '2026-10-03', '2026-10-05', ['1']),
+        scheduledTask('3', '2026-10-06', '2026-10-06', ['2'])
+      ];
+
+      const analysis = analyzeSchedule(tasks);
+
+      expect(analysis.criticalPath).toEqual(['1', '2', '3']);
+      expect(analysis.projectStart).toBe('2026-10-01');
+      expect(analysis.projectEnd).toBe('2026-10-06');
+      expect(analysis.criticalDependencies).toEqual(new Set([getDependencyKey('1', '2'), getDependencyKey('2', '3')]));
+      tasks.forEach(task => expect(analysis.tasks.get(task.id)!.totalFloat).toBe(0));
+    });
+
+    it('並行する短いタスクにはフロートが生じる', () => {
+      const tasks = [
+        scheduledTask('start', '2026-10-01', '2026-10-01'),
+        scheduledTask('long', '2026-10-02', '2026-10-06', ['start']),
+        scheduledTask('short', '2026-10-02', '2026-10-03', ['start']),
+        scheduledTask('end', '2026-10-07', '2026-10-07', ['long', 'short'])
+      ];
+
+      const analysis = analyzeSchedule(tasks);
+      const short = analysis.tasks.get('short')!;
+
+      expect(analysis.criticalPath).toEqual(['start', 'long', 'end']);
+      expect(short.isCritical).toBe(false);
+      expect(short.totalFloat).toBe(3);
+      expect(short.earliestStart).toBe('2026-10-02');
+      expect(short.latestStart).toBe('2026-10-05');
+      expect(short.latestFinish).toBe('2026-10-06');
+      expect(analysis.criticalDependencies.has(getDependencyKey('short', 'end'))).toBe(false);
+    });
+
+    it('先行タスクの終了前に始まるタスクは最早開始日が後ろにずれる', () => {
+      const tasks = [
+        scheduledTask('1', '2026-10-01', '2026-10-05'),
+        scheduledTask('2', '2026-10-03', '2026-10-04', ['1'])
+      ];
+
+      const info = analyzeSchedule(tasks).tasks.get('2')!;
+
+      expect(info.earliestStart).toBe('2026-10-06');
+      expect(info.earliestFinish).toBe('2026-10-07');
+    });
+
+    it('独立したタスクはプロジェクト終了日までのフロートを持つ', () => {
+      const tasks = [
+        scheduledTask('1', '2026-10-01', '2026-10-10'),
+        scheduledTask('2', '2026-10-01', '2026-10-02')
+      ];
+
+      const analysis = analyzeSchedule(tasks);
+
+      expect(analysis.criticalPath).toEqual(['1']);
+      expect(analysis.tasks.get('2')!.totalFloat).toBe(8);
+    });
+
+    it('循環に含まれるタスクは非クリティカルとして扱い、例外を投げない', () => {
+      const tasks = [
+        scheduledTask('1', '2026-10-01', '2026-10-02', ['2']),
+        scheduledTask('2', '2026-10-03', '2026-10-04', ['1']),
+        scheduledTask('3', '2026-10-01', '2026-10-10')
+      ];
+
+      const analysis = analyzeSchedule(tasks);
+
+      expect(analysis.tasks.get('1')!.isCritical).toBe(false);
+      expect(analysis.tasks.get('2')!.isCritical).toBe(false);
+      expect(analysis.criticalPath).toEqual(['3']);
+    });
+  });
+
+  describe('propagateDateChanges', () => {
+    const tasks = [
+      scheduledTask('1', '2026-10-01', '2026-10-02'),
+      scheduledTask('2', '2026-10-03', '2026-10-05', ['1']),
+      scheduledTask('3', '2026-10-06', '2026-10-06', ['2']),
+      scheduledTask('4', '2026-10-20', '2026-10-21', ['1']),
+      scheduledTask('5', '2026-10-01', '2026-10-03')
+    ];
+
+    it('後続タスクを期間を保ったまま連鎖的に後ろ倒しにする', () => {
+      const cascade = propagateDateChanges(tasks, [
+        { taskId: '1', newStartDate: '2026-10-03', newEndDate: '2026-10-04' }
+      ]);
+
+      expect(cascade).toEqual([
+        { taskId: '2', newStartDate: '2026-10-05', newEndDate: '2026-10-07' },
+        { taskId: '3', newStartDate: '2026-10-08', newEndDate: '2026-10-08' }
+      ]);
+    });
+
+    it('余裕のある後続タスクや無関係なタスクは動かさない', () => {
+      const cascade = propagateDateChanges(tasks, [
+        { taskId: '1', newStartDate: '2026-10-03', newEndDate: '2026-10-04' }
+      ]);
+
+      expect(cascade.map(update => update.taskId)).not.toContain('4');
+      expect(cascade.map(update => update.taskId)).not.toContain('5');
+    });
+
+    it('前倒しの場合は後続タスクを動かさない', () => {
+      expect(propagateDateChanges(tasks, [
+        { taskId: '1', newStartDate: '2026-09-28', newEndDate: '2026-09-29' }
+      ])).toEqual([]);
+    });
+
+    it('変更対象として指定されたタスク自体は動かさない', () => {
+      const cascade = propagateDateChanges(tasks, [
+        { taskId: '1', newStartDate: '2026-10-03', newEndDate: '2026-10-04' },
+        { taskId: '2', newStartDate: '2026-10-04', newEndDate: '2026-10-06' }
+      ]);
+
+      expect(cascade).toEqual([
+        { taskId: '3', newStartDate: '2026-10-07', newEndDate: '2026-10-07' }
+      ]);
+    });
+  });
+
+  describe('findDependencyViolations', () => {
+    it('先行タスクの終了日以前に開始する依存関係を検出する', () => {
+      const tasks = applyDateUpdates([
+        scheduledTask('1', '2026-10-01', '2026-10-02'),
+        scheduledTask('2', '2026-10-03', '2026-10-05', ['1']),
+        scheduledTask('3', '2026-10-01', '2026-10-01')
+      ], [{ taskId: '1', newStartDate: '2026-10-02', newEndDate: '2026-10-03' }]);
+
+      expect(findDependencyViolations(tasks)).toEqual([{ dependencyId: '1', taskId: '2' }]);
+      expect(findDependencyViolations(tasks, new Set(['3']))).toEqual([]);
+    });
+  });
+
+  describe('getDurationDays', () => {
+    it('開始日と終了日を含む日数を返す', () => {
+      expect(getDurationDays('2026-10-01', '2026-10-01')).toBe(1);
+      expect(getDurationDays('2026-10-30', '2026-11-02')).toBe(4);
+    });
+  });
+
+  describe('依存関係の種類とラグ', () => {
+    const withLink = (task: Task, depId: string, type: DependencyType, lag: number): Task =>
+      ({ ...task, dependencyLinks: { [depId]: { type, lag } } });
+
+    const base = scheduledTask('1', '2026-10-01', '2026-10-04');
+    const tasks = [
+      base,
+      withLink(scheduledTask('ss', '2026-10-01', '2026-10-02', ['1']), '1', DependencyType.START_TO_START, 2),
+      withLink(scheduledTask('ff', '2026-10-01', '2026-10-02', ['1']), '1', DependencyType.FINISH_TO_FINISH, 0),
+      withLink(scheduledTask('lead', '2026-10-01', '2026-10-03', ['1']), '1', DependencyType.FINISH_TO_START, -1),
+      withLink(scheduledTask('sf', '2026-09-25', '2026-09-26', ['1']), '1', DependencyType.START_TO_FINISH, 0)
+    ];
+
+    it('種類ごとの端とラグから最早日程を求める', () => {
+      const analysis = analyzeSchedule(tasks);
+      const earliest = (id: string) => [analysis.tasks.get(id)!.earliestStart, analysis.tasks.get(id)!.earliestFinish];
+
+      expect(earliest('ss')).toEqual(['2026-10-03', '2026-10-04']);
+      expect(earliest('ff')).toEqual(['2026-10-03', '2026-10-04']);
+      expect(earliest('lead')).toEqual(['2026-10-04', '2026-10-06']);
+      expect(earliest('sf')).toEqual(['2026-09-29', '2026-09-30']);
+      expect(analysis.criticalDependencies.has(getDependencyKey('1', 'lead'))).toBe(true);
+      expect(analysis.tasks.get('1')!.latestFinish).toBe('2026-10-04');
+    });
+
+    it('開始-開始の後続タスクは先行タスクの開始日の移動に合わせて後ろ倒しにする', () => {
+      const cascade = propagateDateChanges([base, tasks[1]], [
+        { taskId: '1', newStartDate: '2026-10-02', newEndDate: '2026-10-05' }
+      ]);
+
+      expect(cascade).toEqual([{ taskId: 'ss', newStartDate: '2026-10-04', newEndDate: '2026-10-05' }]);
+    });
+
+    it('終了-終了の制約違反を検出する', () => {
+      const ff = withLink(scheduledTask('ff', '2026-10-01', '2026-10-03', ['1']), '1', DependencyType.FINISH_TO_FINISH, 0);
+
+      expect(findDependencyViolations([base, ff])).toEqual([{ dependencyId: '1', taskId: 'ff' }]);
+      expect(findDependencyViolations([base, { ...ff, endDate: '2026-10-04' }])).toEqual([]);
+    });
+
+    it('編集中のタスクについて依存先ごとに満たすべき開始日を返す', () => {
+      const draft = withLink(scheduledTask('draft', '2026-10-01', '2026-10-03', ['1', 'missing']), '1', DependencyType.FINISH_TO_FINISH, 1);
+
+      // 先行タスクの終了（10-04）+ ラグ1日 = 10-05 に終了するには、3日間のタスクは 10-03 に開始する
+      expect(getDependencyStartConstraints(draft, [base])).toEqual([{ dependencyId: '1', requiredStartDate: '2026-10-03' }]);
+      expect(getDependencyStartConstraints({ ...draft, dependencyLinks: undefined }, [base]))
+        .toEqual([{ dependencyId: '1', requiredStartDate: '2026-10-05' }]);
+    });
+  });
+
+  describe('稼働日カレンダー', () => {
+    // 土日が休み（2026-10-17・18 が週末）
+    const calendar: WorkingCalendar = { workWeek: [1, 2, 3, 4, 5], useJapaneseHolidays: false, holidays: [], workingDays: [] };
+    const withLag = (task: Task, depId: string, lag: number, type = DependencyType.FINISH_TO_START): Task =>
+      ({ ...task, dependencyLinks: { [depId]: { type, lag } } });
+
+    it('後続タスクを週末明けに置き、ラグとフロートを稼働日で数える', () => {
+      const tasks = [
+        scheduledTask('a', '2026-10-14', '2026-10-16'),
+        withLag(scheduledTask('b', '2026-10-14', '2026-10-15', ['a']), 'a', 1),
+        scheduledTask('c', '2026-10-14', '2026-10-23')
+      ];
+      const analysis = analyzeSchedule(tasks, calendar);
+      const b = analysis.tasks.get('b')!;
+
+      // 金曜日に終わる先行タスク + ラグ1稼働日 → 火曜日に開始し、2稼働日で水曜日に終わる
+      expect([b.earliestStart, b.earliestFinish]).toEqual(['2026-10-20', '2026-10-21']);
+      expect([b.latestStart, b.latestFinish]).toEqual(['2026-10-22', '2026-10-23']);
+      expect(b.totalFloat).toBe(2);
+      expect(analysis.tasks.get('a')!).toMatchObject({ latestFinish: '2026-10-20', totalFloat: 2 });
+      expect(analysis.criticalPath).toEqual(['c']);
+      expect(analysis.projectEnd).toBe('2026-10-23');
+    });
+
+    it('後ろ倒しでは週末を飛ばし、稼働日数を保つ', () => {
+      const tasks = [
+        scheduledTask('a', '2026-10-14', '2026-10-15'),
+        scheduledTask('b', '2026-10-16', '2026-10-19', ['a'])
+      ];
+      const cascade = propagateDateChanges(tasks, [
+        { taskId: 'a', newStartDate: '2026-10-15', newEndDate: '2026-10-16' }
+      ], calendar);
+
+      expect(cascade).toEqual([{ taskId: 'b', newStartDate: '2026-10-19', newEndDate: '2026-10-20' }]);
+    });
+
+    it('週末に開始するタスクは週明けに開始するものとして制約違反を判定する', () => {
+      const a = scheduledTask('a', '2026-10-14', '2026-10-16');
+
+      expect(findDependencyViolations([a, scheduledTask('b', '2026-10-17', '2026-10-19', ['a'])], undefined, calendar)).toEqual([]);
+      expect(findDependencyViolations([a, withLag(scheduledTask('b', '2026-10-19', '2026-10-20', ['a']), 'a', 1)], undefined, calendar))
+        .toEqual([{ dependencyId: 'a', taskId: 'b' }]);
+    });
+
+    it('終了-終了の制約から稼働日で数えた開始日を返す', () => {
+      const a = scheduledTask('a', '2026-10-14', '2026-10-20');
+      const draft = withLag(scheduledTask('draft', '2026-10-14', '2026-10-16', ['a']), 'a', 0, DependencyType.FINISH_TO_FINISH);
+
+      // 火曜日に終わるには、3稼働日のタスクは金曜日に開始する
+      expect(getDependencyStartConstraints(draft, [a], calendar)).toEqual([{ dependencyId: 'a', requiredStartDate: '2026-10-16' }]);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  parseSearchQuery,
+  isEmptySearchQuery,
+  matchesSearchQuery,
+  splitByHighlights
+} from '../../../services/searchService';
+import { Task, TaskStatus, TaskPriority, TeamMember } from '../../../types';
+
+describe('searchService', () => {
+  const task: Task = {
+    id: 'task-1',
+    name: 'Login page の実装',
+    description: 'OAuth でログインする',
+    status: TaskStatus.IN_PROGRESS,
+    priority: TaskPriority.HIGH,
+    startDate: '2026-10-01',
+    endDate: '2026-10-20',
+    dependencies: [],
+    tags: ['backend', 'auth'],
+    assignees: ['aiko']
+  };
+  const team: TeamMember[] = [{ id: 'aiko', name: 'Aiko Tanaka', color: '#0ea5e9' }];
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('条件・引用符で囲んだ語句・キーのない語句に分ける', () => {
+    const query = parseSearchQuery('status:"In Progress" priority:high due:<2026-11-01 tag:backend "login page"');
+    expect(query.errors).toEqual([]);
+    expect(query.terms).toEqual([{ text: 'login page', negated: false }]);
+    expect(query.filters).toEqual([
+      { field: 'status', value: TaskStatus.IN_PROGRESS, negated: false },
+      { field: 'priority', value: TaskPriority.HIGH, negated: false },
+      { field: 'due', operator: '<', date: '2026-11-01', negated: false },
+      { field: 'tag', value: 'backend', negated: false }
+    ]);
+  });
+
+  it('ステータスと優先度は大文字・小文字と空白を無視し、日本語の表記も受け付ける', () => {
+    expect(parseSearchQuery('status:inprogress').filters[0]).toMatchObject({ value: TaskStatus.IN_PROGRESS });
+    expect(parseSearchQuery('status:完了 priority:低').filters.map(f => ('value' in f ? f.value : undefined)))
+      .toEqual([TaskStatus.COMPLETED, TaskPriority.LOW]);
+  });
+
+  it('- を付けた条件と語句は否定になる', () => {
+    const query = parseSearchQuery('-tag:blocked -draft');
+    expect(query.filters).toEqual([{ field: 'tag', value: 'blocked', negated: true }]);
+    expect(query.terms).toEqual([{ text: 'draft', negated: true }]);
+  });
+
+  it('日付の比較演算子を省くと一致、today は今日の日付になる', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 19, 12));
+    expect(parseSearchQuery('start:2026-10-01 due:>=today').filters).toEqual([
+      { field: 'start', operator: '=', date: '2026-10-01', negated: false },
+      { field: 'due', operator: '>=', date: '2026-10-19', negated: false }
+    ]);
+  });
+
+  it('解釈できない条件はエラーにして無視し、条件のキーでない「xxx:」は語句として扱う', () => {
+    const query = parseSearchQuery('status:done due:<11/01 is:late https://example.com');
+    expect(query.filters).toEqual([]);
+    expect(query.errors).toHaveLength(3);
+    expect(query.errors[0]).toContain('status:');
+    expect(query.terms).toEqual([{ text: 'https://example.com', negated: false }]);
+  });
+
+  it('空のクエリは何も絞り込まない', () => {
+    const query = parseSearchQuery('   ');
+    expect(isEmptySearchQuery(query)).toBe(true);
+    expect(matchesSearchQuery(task, query)).toBe(true);
+  });
+
+  it('語句は名前と説明から大文字・小文字を区別せずに探し、すべての条件に合うタスクだけが一致する', () => {
+    expect(matchesSearchQuery(task, parseSearchQuery('status:"In Progress" priority:high due:<2026-11-01 tag:backend "login page"'))).toBe(true);
+    expect(matchesSearchQuery(task, parseSearchQuery('oauth'))).toBe(true);
+    expect(matchesSearchQuery(task, parseSearchQuery('login signup'))).toBe(false);
+    expect(matchesSearchQuery(task, parseSearchQuery('due:<2026-10-20'))).toBe(false);
+    expect(matchesSearchQuery(task, parseSearchQuery('-tag:auth'))).toBe(false);
+    expect(matchesSearchQuery(task, parseSearchQuery('tag:Backend -oauth2'))).toBe(true);
+  });
+
+  it('担当者はメンバーの ID か名前の一部で指定できる', () => {
+    expect(matchesSearchQuery(task, parseSearchQuery('assignee:aiko'))).toBe(true);
+    expect(matchesSearchQuery(task, parseSearchQuery('assignee:tanaka'), team)).toBe(true);
+    expect(matchesSearchQuery(task, parseSearchQuery('assignee:tanaka'))).toBe(false);
+  });
+
+  it('is:overdue は完了していない期限切れのタスク、is:milestone はマイルストーンに一致する', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 25, 12));
+    const overdue = parseSearchQuery('is:overdue');
+    expect(matchesSearchQuery(task, overdue)).toBe(true);
+    expect(matchesSearchQuery({ ...task, status: TaskStatus.COMPLETED }, overdue)).toBe(false);
+    expect(matchesSearchQuery(task, parseSearchQuery('is:milestone'))).toBe(false);
+    expect(matchesSearchQuery({ ...task, milestone: true }, parseSearchQuery('is:milestone'))).toBe(true);
+  });
+
+  it('否定していない語句に一致する部分を分け、重なった範囲はまとめる', () => {
+    const { terms } = parseSearchQuery('page "login p" -login');
+    expect(splitByHighlights('Login page と Page 2', terms)).toEqual([
+      { text: 'Login page', isMatch: true },
+      { text: ' と ', isMatch: false },
+      { text: 'Page', isMatch: true },
+      { text: ' 2', isMatch: false }
+    ]);
+    expect(splitByHighlights('なし', [])).toEqual([{ text: 'なし', isMatch: false }]);
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  LocalStorageBackend,
+  createProjectData,
+  migrateLegacyData,
+  loadActiveProject,
+  DEFAULT_PROJECT_NAME
+} from '../../../services/storageService';
+import { Task, TaskStatus, TaskPriority } from '../../../types';
+
+describe('storageService', () => {
+  const task: Task = {
+    id: 'task-1',
+    name: '設計',
+    status: TaskStatus.NOT_STARTED,
+    priority: TaskPriority.HIGH,
+    startDate: '2026-10-01',
+    endDate: '2026-10-03',
+    dependencies: []
+  };
+
+  let store: Map<string, string>;
+
+  beforeEach(() => {
+    // 実際に値を保持する localStorage と、JSON を読める jsyaml に差し替える（YAML は JSON の上位互換）
+    store = new Map();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+      removeItem: (key: string) => store.delete(key),
+      clear: () => store.clear(),
+    });
+    vi.stubGlobal('jsyaml', { load: (yaml: string) => JSON.parse(yaml) });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('LocalStorageBackend', () => {
+    it('複数のプロジェクトを保存・一覧・読み込みできる', async () => {
+      const storage = new LocalStorageBackend();
+      const first = { ...createProjectData('A', [task]), meta: { ...createProjectData('A').meta, id: 'a', createdAt: '2026-01-01T00:00:00.000Z' } };
+      const second = { ...createProjectData('B'), meta: { ...createProjectData('B').meta, id: 'b', createdAt: '2026-02-01T00:00:00.000Z' } };
+
+      await storage.saveProject(second);
+      await storage.saveProject(first);
+
+      expect((await storage.listProjects()).map(meta => meta.name)).toEqual(['A', 'B']);
+      expect((await storage.loadProject('a'))?.tasks).toEqual([task]);
+      expect(await storage.loadProject('missing')).toBeNull();
+    });
+
+    it('上書き保存しても一覧は重複しない', async () => {
+      const storage = new LocalStorageBackend();
+      const project = createProjectData('A');
+
+      await storage.saveProject(project);
+      await storage.saveProject({ ...project, meta: { ...project.meta, name: 'A2' } });
+
+      expect((await storage.listProjects()).map(meta => meta.name)).toEqual(['A2']);
+    });
+
+    it('プロジェクトを削除できる', async () => {
+      const storage = new LocalStorageBackend();
+      const project = createProjectData('A');
+      await storage.saveProject(project);
+
+      await storage.deleteProject(project.meta.id);
+
+      expect(await storage.listProjects()).toEqual([]);
+      expect(await storage.loadProject(project.meta.id)).toBeNull();
+    });
+
+    it('アクティブなプロジェクトIDを保存する', async () => {
+      const storage = new LocalStorageBackend();
+      expect(await storage.getActiveProjectId()).toBeNull();
+
+      await storage.setActiveProjectId('a');
+
+      expect(await storage.getActiveProjectId()).toBe('a');
+    });
+  });
+
+  describe('migrateLegacyData', () => {
+    it('旧形式の tasksYaml と分割ビュー設定をデフォルトプロジェクトに取り込む', async () => {
+      const splitViewConfig = { leftPane: 'list', rightPane: 'ai', splitDirection: 'horizontal', leftSize: 30, rightSize: 70 };
+      store.set('tasksYaml', JSON.stringify([task]));
+      store.set('splitViewConfig', JSON.stringify(splitViewConfig));
+      const storage = new LocalStorageBackend();
+
+      const result = await migrateLegacyData(storage);
+
+      expect(result?.warning).toBeUndefined();
+      expect(result?.project.meta.name).toBe(DEFAULT_PROJECT_NAME);
+      expect(result?.project.tasks).toEqual([task]);
+      expect(result?.project.splitViewConfig).toEqual(splitViewConfig);
+      expect(await storage.getActiveProjectId()).toBe(result?.project.meta.id);
+      expect(store.has('tasksYaml')).toBe(false);
+      expect(store.has('splitViewConfig')).toBe(false);
+    });
+
+    it('読み込めない旧データは退避して空のプロジェクトを作る', async () => {
+      store.set('tasksYaml', '[{"id": "task-1"}]');
+      const storage = new LocalStorageBackend();
+
+      const result = await migrateLegacyData(storage);
+
+      expect(result?.project.tasks).toEqual([]);
+      expect(result?.warning).toContain('tasksYaml.backup');
+      expect(store.get('tasksYaml.backup')).toBe('[{"id": "task-1"}]');
+    });
+
+    it('プロジェクトが既にある場合や旧データがない場合は何もしない', async () => {
+      const storage = new LocalStorageBackend();
+      expect(await migrateLegacyData(storage)).toBeNull();
+
+      await storage.saveProject(createProjectData('A'));
+      store.set('tasksYaml', JSON.stringify([task]));
+
+      expect(await migrateLegacyData(storage)).toBeNull();
+      expect(store.has('tasksYaml')).toBe(true);
+    });
+  });
+
+  describe('loadActiveProject', () => {
+    it('プロジェクトがなければ初期タスクでデフォルトプロジェクトを作る', async () => {
+      const storage = new LocalStorageBackend();
+
+      const { project } = await loadActiveProject(storage, () => [task]);
+
+      expect(project.tasks).toEqual([task]);
+      expect(await storage.getActiveProjectId()).toBe(project.meta.id);
+    });
+
+    it('アクティブなプロジェクトを開く', async () => {
+      const storage = new LocalStorageBackend();
+      const a = createProjectData('A');
+      const b = createProjectData('B', [task]);
+      await storage.saveProject(a);
+      await storage.saveProject(b);
+      await storage.setActiveProjectId(b.meta.id);
+
+      const { project } = await loadActiveProject(storage, () => []);
+
+      expect(project.meta.name).toBe('B');
+    });
+  });
+});
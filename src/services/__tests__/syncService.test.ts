@@ -0,0 +1,158 @@
+import { mergeRemoteTasks, mergeRemoteSettings, shouldRemoteWin, isSameTaskList, isSameSettings, openSyncChannel, SyncMessage } from '../../../services/syncService';
+import { TaskStatus, TaskPriority } from '../../../types';
+import { createTask } from '../../test/taskFactory';
+
+describe('syncService', () => {
+
+  const base = [createTask('1'), createTask('2'), createTask('3')];
+
+  describe('mergeRemoteTasks', () => {
+    it('別々のタスクへの変更は両方取り込む', () => {
+      const local = [createTask('1', { status: TaskStatus.COMPLETED }), createTask('2'), createTask('3')];
+      const remote = [createTask('1'), createTask('2', { priority: TaskPriority.HIGH }), createTask('3')];
+
+      const { tasks, conflicts } = mergeRemoteTasks(base, local, remote, true);
+
+      expect(conflicts).toEqual([]);
+      expect(tasks[0].status).toBe(TaskStatus.COMPLETED);
+      expect(tasks[1].priority).toBe(TaskPriority.HIGH);
+    });
+
+    it('追加と削除を両方向に反映する', () => {
+      const local = [...base, createTask('4')];
+      const remote = [createTask('1'), createTask('2')];
+
+      const { tasks, conflicts } = mergeRemoteTasks(base, local, remote, true);
+
+      expect(conflicts).toEqual([]);
+      expect(tasks.map(task => task.id)).toEqual(['1', '2', '4']);
+    });
+
+    it('同じタスクを両方で変更した場合は衝突として勝った方の版を採用する', () => {
+      const local = [createTask('1', { name: 'このタブ' }), createTask('2'), createTask('3')];
+      const remote = [createTask('1', { name: '別タブ' }), createTask('2'), createTask('3')];
+
+      const remoteWon = mergeRemoteTasks(base, local, remote, true);
+      expect(remoteWon.tasks[0].name).toBe('別タブ');
+      expect(remoteWon.conflicts).toEqual([
+        { taskId: '1', taskName: 'このタブ', winner: 'remote', localTask: local[0], remoteTask: remote[0] }
+      ]);
+
+      const localWon = mergeRemoteTasks(base, local, remote, false);
+      expect(localWon.tasks[0].name).toBe('このタブ');
+      expect(localWon.conflicts[0].winner).toBe('local');
+    });
+
+    it('一方が変更し他方が削除したタスクも衝突として扱う', () => {
+      const local = [createTask('1', { status: TaskStatus.IN_PROGRESS }), createTask('2'), createTask('3')];
+      const remote = [createTask('2'), createTask('3')];
+
+      const { tasks, conflicts } = mergeRemoteTasks(base, local, remote, false);
+
+      expect(tasks.map(task => task.id)).toEqual(['2', '3', '1']);
+      expect(conflicts[0]).toMatchObject({ taskId: '1', winner: 'local', remoteTask: undefined });
+    });
+
+    it('2つのタブで同時に別々のタスクを変更しても、通知を受け取り合った後は両方の変更が残る', () => {
+      // 各タブの基準は、他のタブから受け取ったときのマージ結果にだけ進める（自分の保存では進めない）
+      const tabA = { base, tasks: [createTask('1', { status: TaskStatus.COMPLETED }), createTask('2'), createTask('3')] };
+      const tabB = { base, tasks: [createTask('1'), createTask('2', { priority: TaskPriority.HIGH }), createTask('3')] };
+      const sentByA = tabA.tasks;
+      const sentByB = tabB.tasks;
+
+      const receive = (tab: { base: typeof base; tasks: typeof base }, remote: typeof base, remoteWins: boolean) => {
+        const result = mergeRemoteTasks(tab.base, tab.tasks, remote, remoteWins);
+        tab.base = result.tasks;
+        tab.tasks = result.tasks;
+        return result;
+      };
+      const mergedByA = receive(tabA, sentByB, true);
+      const mergedByB = receive(tabB, sentByA, false);
+
+      expect(mergedByA.conflicts).toEqual([]);
+      expect(mergedByB.conflicts).toEqual([]);
+      for (const tab of [tabA, tabB]) {
+        expect(tab.tasks[0].status).toBe(TaskStatus.COMPLETED);
+        expect(tab.tasks[1].priority).toBe(TaskPriority.HIGH);
+      }
+
+      // マージ結果をそれぞれ通知し合っても、変更は失われない
+      receive(tabA, mergedByB.tasks, true);
+      receive(tabB, mergedByA.tasks, false);
+      expect(isSameTaskList(tabA.tasks, tabB.tasks)).toBe(true);
+      expect(tabA.tasks[0].status).toBe(TaskStatus.COMPLETED);
+      expect(tabA.tasks[1].priority).toBe(TaskPriority.HIGH);
+    });
+
+    it('同じ変更は衝突にしない', () => {
+      const edited = [createTask('1', { name: '同じ' }), createTask('2'), createTask('3')];
+      const { conflicts } = mergeRemoteTasks(base, edited, edited.map(task => ({ ...task })), true);
+      expect(conflicts).toEqual([]);
+    });
+  });
+
+  describe('mergeRemoteSettings', () => {
+    const baseSettings = { currentView: 'list' as const, team: [{ id: 'u1', name: '佐藤', color: '#3366cc' }], tagColors: { bug: '#ff0000' } };
+
+    it('別々の項目への変更は両方取り込み、表示中のビューはこのタブの値を残す', () => {
+      const local = { ...baseSettings, currentView: 'gantt' as const, tagColors: { bug: '#00ff00' } };
+      const remote = { ...baseSettings, currentView: 'ai' as const, team: [...baseSettings.team, { id: 'u2', name: '鈴木', color: '#cc6633' }] };
+
+      const merged = mergeRemoteSettings(baseSettings, local, remote, true);
+
+      expect(merged.currentView).toBe('gantt');
+      expect(merged.tagColors).toEqual({ bug: '#00ff00' });
+      expect(merged.team!.map(member => member.id)).toEqual(['u1', 'u2']);
+    });
+
+    it('同じ項目を両方で変更した場合は勝った方の値を採用し、削除も反映する', () => {
+      const local = { ...baseSettings, tagColors: { bug: '#00ff00' } };
+      const remote = { ...baseSettings, tagColors: { bug: '#0000ff' } };
+
+      expect(mergeRemoteSettings(baseSettings, local, remote, true).tagColors).toEqual({ bug: '#0000ff' });
+      expect(mergeRemoteSettings(baseSettings, local, remote, false).tagColors).toEqual({ bug: '#00ff00' });
+      expect(mergeRemoteSettings(baseSettings, baseSettings, { currentView: 'list' }, true)).toEqual({ currentView: 'list' });
+    });
+  });
+
+  describe('isSameSettings', () => {
+    it('表示中のビューの違いは無視する', () => {
+      expect(isSameSettings({ currentView: 'list', tagColors: { bug: '#ff0000' } }, { currentView: 'gantt', tagColors: { bug: '#ff0000' } })).toBe(true);
+      expect(isSameSettings({ tagColors: { bug: '#ff0000' } }, {})).toBe(false);
+    });
+  });
+
+  describe('shouldRemoteWin', () => {
+    it('後から行われた変更を優先し、同時刻はタブIDで決める', () => {
+      expect(shouldRemoteWin(100, 'a', 200, 'b')).toBe(true);
+      expect(shouldRemoteWin(300, 'a', 200, 'b')).toBe(false);
+      expect(shouldRemoteWin(100, 'a', 100, 'b')).toBe(true);
+      expect(shouldRemoteWin(100, 'b', 100, 'a')).toBe(false);
+    });
+  });
+
+  describe('isSameTaskList', () => {
+    it('内容と並び順が同じ場合のみ true を返す', () => {
+      expect(isSameTaskList(base, base.map(task => ({ ...task })))).toBe(true);
+      expect(isSameTaskList(base, [...base].reverse())).toBe(false);
+      expect(isSameTaskList(base, [createTask('1', { name: 'x' }), createTask('2'), createTask('3')])).toBe(false);
+    });
+  });
+
+  describe('openSyncChannel', () => {
+    it('他のタブが送ったメッセージだけを受け取る', async () => {
+      const receivedA: SyncMessage[] = [];
+      const receivedB: SyncMessage[] = [];
+      const tabA = openSyncChannel('tab-a', message => receivedA.push(message));
+      const tabB = openSyncChannel('tab-b', message => receivedB.push(message));
+
+      tabA.post({ kind: 'projects-changed', sourceTabId: 'tab-a', timestamp: 1 });
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(receivedA).toEqual([]);
+      expect(receivedB).toEqual([{ kind: 'projects-changed', sourceTabId: 'tab-a', timestamp: 1 }]);
+      tabA.close();
+      tabB.close();
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  normalizeTags,
+  withTags,
+  getAllTags,
+  normalizeTagColors,
+  getTagColor,
+  matchesTagFilter,
+  suggestTags
+} from '../../../services/tagService';
+import { TAG_COLORS } from '../../../constants';
+import { Task, TaskStatus, TaskPriority } from '../../../types';
+
+describe('tagService', () => {
+  const task: Task = {
+    id: 'task-1',
+    name: 'API 設計',
+    status: TaskStatus.NOT_STARTED,
+    priority: TaskPriority.MEDIUM,
+    startDate: '2026-10-01',
+    endDate: '2026-10-03',
+    dependencies: []
+  };
+
+  it('タグの空白・空のタグ・重複を取り除き、順序を保つ', () => {
+    expect(normalizeTags([' backend ', '', 'blocked', 'backend'])).toEqual(['backend', 'blocked']);
+  });
+
+  it('タグを差し替え、なくなれば tags を取り除く', () => {
+    expect(withTags(task, ['backend', ' backend']).tags).toEqual(['backend']);
+    expect(withTags({ ...task, tags: ['backend'] }, [' '])).not.toHaveProperty('tags');
+  });
+
+  it('使われているタグを名前順に重複なく集める', () => {
+    expect(getAllTags([{ tags: ['blocked', 'backend'] }, {}, { tags: ['backend', 'customer-A'] }]))
+      .toEqual(['backend', 'blocked', 'customer-A']);
+  });
+
+  it('設定した色を優先し、設定がなければタグ名から常に同じ色を決める', () => {
+    expect(normalizeTagColors({ backend: '#123456', ' ': '#000000', blocked: 'red' })).toEqual({ backend: '#123456' });
+    expect(getTagColor('backend', { backend: '#123456' })).toBe('#123456');
+    expect(TAG_COLORS).toContain(getTagColor('blocked'));
+    expect(getTagColor('blocked')).toBe(getTagColor('blocked', { backend: '#123456' }));
+  });
+
+  it('複数のタグを AND・OR で絞り込む', () => {
+    const tagged = { tags: ['backend', 'blocked'] };
+    expect(matchesTagFilter(tagged, [], 'all')).toBe(true);
+    expect(matchesTagFilter(tagged, ['backend', 'customer-A'], 'any')).toBe(true);
+    expect(matchesTagFilter(tagged, ['backend', 'customer-A'], 'all')).toBe(false);
+    expect(matchesTagFilter(tagged, ['backend', 'blocked'], 'all')).toBe(true);
+    expect(matchesTagFilter({}, ['backend'], 'any')).toBe(false);
+  });
+
+  it('入力中の文字を含むタグを前方一致から順に候補にし、付けているタグは除く', () => {
+    const allTags = ['backend', 'blocked', 'customer-A', 'feedback'];
+    expect(suggestTags('B', allTags, [])).toEqual(['backend', 'blocked', 'feedback']);
+    expect(suggestTags('back', allTags, ['backend'])).toEqual(['feedback']);
+    expect(suggestTags('', allTags, ['blocked'], 2)).toEqual(['backend', 'customer-A']);
+  });
+});
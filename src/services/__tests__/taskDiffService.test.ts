@@ -0,0 +1,83 @@
+import { diffTasks, diffTaskFields, mergeTaskChanges } from '../../../services/taskDiffService';
+import { TaskStatus } from '../../../types';
+import { findDependencyCycles } from '../../../services/dependencyService';
+import { createTask } from '../../test/taskFactory';
+
+describe('taskDiffService', () => {
+
+  const current = [createTask('1'), createTask('2', { dependencies: ['1'] }), createTask('3')];
+
+  describe('diffTaskFields', () => {
+    it('変更されたフィールドだけを変更前後の値付きで返す', () => {
+      const changes = diffTaskFields(createTask('1'), createTask('1', { status: TaskStatus.COMPLETED, dependencies: ['2'] }));
+
+      expect(changes).toEqual([
+        { field: 'status', before: TaskStatus.NOT_STARTED, after: TaskStatus.COMPLETED },
+        { field: 'dependencies', before: [], after: ['2'] }
+      ]);
+    });
+
+    it('片方にしかないフィールドも差分として扱う', () => {
+      const changes = diffTaskFields(createTask('1'), createTask('1', { description: '追加の説明' }));
+      expect(changes).toEqual([{ field: 'description', before: undefined, after: '追加の説明' }]);
+    });
+  });
+
+  describe('diffTasks', () => {
+    it('追加・削除・変更を検出する', () => {
+      const proposed = [
+        createTask('1', { endDate: '2026-10-05' }),
+        createTask('2', { dependencies: ['1'] }),
+        createTask('4')
+      ];
+
+      const changes = diffTasks(current, proposed);
+
+      expect(changes.map(change => [change.type, change.taskId])).toEqual([
+        ['modified', '1'],
+        ['added', '4'],
+        ['removed', '3']
+      ]);
+      expect(changes[0].fieldChanges).toEqual([{ field: 'endDate', before: '2026-10-03', after: '2026-10-05' }]);
+    });
+
+    it('変更がなければ空配列を返す', () => {
+      expect(diffTasks(current, current.map(task => ({ ...task })))).toEqual([]);
+    });
+  });
+
+  describe('mergeTaskChanges', () => {
+    const proposed = [
+      createTask('1', { name: '名前変更' }),
+      createTask('2', { dependencies: ['1', '4'] }),
+      createTask('4')
+    ];
+
+    it('すべて承認すると提案どおりになる', () => {
+      expect(mergeTaskChanges(current, proposed, new Set(['1', '2', '3', '4']))).toEqual(proposed);
+    });
+
+    it('却下した変更は元のまま残し、却下した削除は元の位置に戻す', () => {
+      const merged = mergeTaskChanges(current, proposed, new Set(['2', '4']));
+
+      expect(merged.map(task => task.id)).toEqual(['1', '2', '3', '4']);
+      expect(merged[0].name).toBe('タスク1');
+      expect(merged[1].dependencies).toEqual(['1', '4']);
+    });
+
+    it('却下された追加タスクへの依存関係は取り除く', () => {
+      const merged = mergeTaskChanges(current, proposed, new Set(['2']));
+
+      expect(merged.map(task => task.id)).toEqual(['1', '2', '3']);
+      expect(merged[1].dependencies).toEqual(['1']);
+    });
+
+    it('依存関係の付け替えを一部だけ承認すると循環することがある（適用前に検証が必要）', () => {
+      // 提案: 2 は 1 への依存をやめ、1 が 2 に依存する
+      const proposed = [createTask('1', { dependencies: ['2'] }), createTask('2'), createTask('3')];
+
+      expect(findDependencyCycles(mergeTaskChanges(current, proposed, new Set(['1', '2'])))).toEqual([]);
+      expect(findDependencyCycles(mergeTaskChanges(current, proposed, new Set(['1'])))).not.toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import {
+  parseTaskOperation,
+  applyTaskOperation,
+  applyTaskOperations,
+  describeTaskOperation,
+  TaskOperationError
+} from '../../../services/taskOperationService';
+import { Task, TaskStatus, TaskPriority, DependencyType } from '../../../types';
+
+describe('taskOperationService', () => {
+  const tasks: Task[] = [
+    {
+      id: '1',
+      name: '設計',
+      status: TaskStatus.IN_PROGRESS,
+      priority: TaskPriority.HIGH,
+      startDate: '2026-10-01',
+      endDate: '2026-10-03',
+      dependencies: []
+    },
+    {
+      id: '2',
+      name: '実装',
+      status: TaskStatus.NOT_STARTED,
+      priority: TaskPriority.MEDIUM,
+      startDate: '2026-10-04',
+      endDate: '2026-10-10',
+      dependencies: ['1']
+    }
+  ];
+
+  describe('parseTaskOperation', () => {
+    it('createTask は既定値を補い、IDを採番する', () => {
+      const operation = parseTaskOperation('createTask', { name: 'テスト', startDate: '2026-10-11', endDate: '2026-10-12' });
+
+      expect(operation.type).toBe('createTask');
+      if (operation.type !== 'createTask') return;
+      expect(operation.task).toMatchObject({
+        name: 'テスト',
+        status: TaskStatus.NOT_STARTED,
+        priority: TaskPriority.MEDIUM,
+        dependencies: []
+      });
+      expect(operation.task.id).toMatch(/^task-/);
+    });
+
+    it('createTask で指定されたIDを使う', () => {
+      const operation = parseTaskOperation('createTask', { id: 'task-new', name: 'テスト', startDate: '2026-10-11', endDate: '2026-10-12' });
+      expect(operation.type === 'createTask' && operation.task.id).toBe('task-new');
+    });
+
+    it('マイルストーンは終了日を省略でき、開始日の1日になる', () => {
+      const operation = parseTaskOperation('createTask', { name: 'リリース', startDate: '2026-10-20', milestone: true });
+
+      expect(operation.type === 'createTask' && operation.task).toMatchObject({ startDate: '2026-10-20', endDate: '2026-10-20', milestone: true });
+      expect(() => parseTaskOperation('createTask', { name: 'テスト', startDate: '2026-10-20' })).toThrow('"endDate" must be a non-empty string.');
+    });
+
+    it('updateTask は変更するフィールドだけを保持する', () => {
+      expect(parseTaskOperation('updateTask', { taskId: '1', status: 'Completed', description: null }))
+        .toEqual({ type: 'updateTask', taskId: '1', fields: { status: TaskStatus.COMPLETED } });
+    });
+
+    it('customFields は空の値を消去の指定として保持し、型に合わない値を拒否する', () => {
+      expect(parseTaskOperation('updateTask', { taskId: '1', customFields: { estimate: 8, assignee: null } }))
+        .toEqual({ type: 'updateTask', taskId: '1', fields: { customFields: { estimate: 8, assignee: '' } } });
+      expect(() => parseTaskOperation('updateTask', { taskId: '1', customFields: ['8'] })).toThrow('customFields must be a mapping');
+      expect(() => parseTaskOperation('updateTask', { taskId: '1', customFields: { estimate: { hours: 8 } } })).toThrow('Custom field "estimate"');
+    });
+
+    it('Task の型に合わない引数を拒否する', () => {
+      expect(() => parseTaskOperation('updateTask', { taskId: '1', startDate: '2026/10/01' })).toThrow(TaskOperationError);
+      expect(() => parseTaskOperation('updateTask', { taskId: '1', id: '9' })).toThrow('Field "id" cannot be updated.');
+      expect(() => parseTaskOperation('updateTask', { taskId: '1' })).toThrow('at least one field');
+      expect(() => parseTaskOperation('shiftDates', { taskIds: ['1'], days: 1.5 })).toThrow('integer');
+      expect(() => parseTaskOperation('renameProject', {})).toThrow('Unknown operation "renameProject".');
+    });
+
+    it('addDependency は既定値以外の種類とラグだけを保持する', () => {
+      expect(parseTaskOperation('addDependency', { taskId: '2', dependsOn: '1', dependencyType: 'FS', lag: 0 }))
+        .toEqual({ type: 'addDependency', taskId: '2', dependsOn: '1' });
+      expect(parseTaskOperation('addDependency', { taskId: '2', dependsOn: '1', dependencyType: 'SS', lag: 2 }))
+        .toEqual({ type: 'addDependency', taskId: '2', dependsOn: '1', link: { type: DependencyType.START_TO_START, lag: 2 } });
+      expect(() => parseTaskOperation('addDependency', { taskId: '2', dependsOn: '1', dependencyType: 'XX' })).toThrow(TaskOperationError);
+      expect(() => parseTaskOperation('addDependency', { taskId: '2', dependsOn: '1', lag: 0.5 })).toThrow('integer');
+    });
+  });
+
+  describe('applyTaskOperation', () => {
+    it('deleteTask は他タスクの依存関係からも取り除く', () => {
+      const result = applyTaskOperation(tasks, { type: 'deleteTask', taskId: '1' });
+
+      expect(result.map(task => task.id)).toEqual(['2']);
+      expect(result[0].dependencies).toEqual([]);
+    });
+
+    it('addDependency は重複を追加しない', () => {
+      expect(applyTaskOperation(tasks, { type: 'addDependency', taskId: '2', dependsOn: '1' })).toBe(tasks);
+      expect(applyTaskOperation(tasks, { type: 'addDependency', taskId: '1', dependsOn: '2' })[0].dependencies).toEqual(['2']);
+    });
+
+    it('既存の依存関係に addDependency すると種類とラグだけを更新する', () => {
+      const link = { type: DependencyType.FINISH_TO_FINISH, lag: 1 };
+      const result = applyTaskOperation(tasks, { type: 'addDependency', taskId: '2', dependsOn: '1', link });
+
+      expect(result[1]).toMatchObject({ dependencies: ['1'], dependencyLinks: { '1': link } });
+      expect(applyTaskOperation(result, { type: 'addDependency', taskId: '2', dependsOn: '1' })[1]).not.toHaveProperty('dependencyLinks');
+      expect(applyTaskOperation(result, { type: 'updateTask', taskId: '2', fields: { dependencies: [] } })[1]).not.toHaveProperty('dependencyLinks');
+    });
+
+    it('shiftDates は期間を保ったまま日付を移動する', () => {
+      const result = applyTaskOperation(tasks, { type: 'shiftDates', taskIds: ['2'], days: -3 });
+      expect(result[1]).toMatchObject({ startDate: '2026-10-01', endDate: '2026-10-07' });
+    });
+
+    it('サマリータスクの削除・移動はサブタスクにも適用する', () => {
+      const withSubtask = [...tasks, { ...tasks[1], id: '3', name: '単体テスト', parentId: '2', dependencies: [] }];
+
+      expect(applyTaskOperation(withSubtask, { type: 'deleteTask', taskId: '2' }).map(task => task.id)).toEqual(['1']);
+      expect(applyTaskOperation(withSubtask, { type: 'shiftDates', taskIds: ['2'], days: 1 })[2])
+        .toMatchObject({ startDate: '2026-10-05', endDate: '2026-10-11' });
+    });
+
+    it('updateTask で parentId に空文字を指定するとトップレベルに戻す', () => {
+      const withSubtask = [tasks[0], { ...tasks[1], parentId: '1' }];
+      const result = applyTaskOperation(withSubtask, { type: 'updateTask', taskId: '2', fields: { parentId: '' } });
+
+      expect(result[1]).not.toHaveProperty('parentId');
+      expect(() => applyTaskOperation(tasks, { type: 'updateTask', taskId: '2', fields: { parentId: '9' } })).toThrow('Task "9" does not exist.');
+    });
+
+    it('updateTask で担当者を差し替え、空のリストなら担当者を外す', () => {
+      const result = applyTaskOperation(tasks, { type: 'updateTask', taskId: '1', fields: { assignees: ['aiko', 'ken', 'aiko'] } });
+      expect(result[0].assignees).toEqual(['aiko', 'ken']);
+
+      const cleared = applyTaskOperation(result, { type: 'updateTask', taskId: '1', fields: { assignees: [] } });
+      expect(cleared[0]).not.toHaveProperty('assignees');
+      expect(() => parseTaskOperation('updateTask', { taskId: '1', assignees: 'aiko' })).toThrow('assignees must be a list of team member ids.');
+    });
+
+    it('createTask・updateTask でタグを付け、空のリストならタグを外す', () => {
+      const created = parseTaskOperation('createTask', { name: 'API 設計', startDate: '2026-10-20', endDate: '2026-10-21', tags: ['backend', ' backend '] });
+      expect(created.type === 'createTask' && created.task.tags).toEqual(['backend']);
+
+      const result = applyTaskOperation(tasks, { type: 'updateTask', taskId: '1', fields: { tags: ['blocked'] } });
+      expect(result[0].tags).toEqual(['blocked']);
+      expect(applyTaskOperation(result, { type: 'updateTask', taskId: '1', fields: { tags: [] } })[0]).not.toHaveProperty('tags');
+      expect(() => parseTaskOperation('updateTask', { taskId: '1', tags: 'blocked' })).toThrow('tags must be a list of strings.');
+    });
+
+    it('updateTask は指定されたカスタムフィールドだけを書き換え、空の値は取り除く', () => {
+      const withFields = [{ ...tasks[0], customFields: { estimate: 8, assignee: '佐藤' } }, tasks[1]];
+      const result = applyTaskOperation(withFields, { type: 'updateTask', taskId: '1', fields: { customFields: { assignee: '', component: 'UI' } } });
+      expect(result[0].customFields).toEqual({ estimate: 8, component: 'UI' });
+
+      const cleared = applyTaskOperation(result, { type: 'updateTask', taskId: '1', fields: { customFields: { estimate: '', component: '' } } });
+      expect(cleared[0]).not.toHaveProperty('customFields');
+    });
+
+    it('マイルストーンに変更すると1日にそろえ、サブタスクは持てない', () => {
+      const result = applyTaskOperation(tasks, { type: 'updateTask', taskId: '2', fields: { milestone: true, endDate: '2026-10-12' } });
+      expect(result[1]).toMatchObject({ startDate: '2026-10-12', endDate: '2026-10-12', milestone: true });
+
+      expect(() => applyTaskOperation(result, { type: 'updateTask', taskId: '1', fields: { parentId: '2' } }))
+        .toThrow('Milestone "2" cannot have subtasks.');
+      expect(applyTaskOperation(result, { type: 'updateTask', taskId: '2', fields: { milestone: false } })[1]).not.toHaveProperty('milestone');
+    });
+
+    it('存在しないタスクへの操作はエラーにする', () => {
+      expect(() => applyTaskOperation(tasks, { type: 'updateTask', taskId: '9', fields: { name: 'x' } })).toThrow('Task "9" does not exist.');
+    });
+  });
+
+  describe('applyTaskOperations', () => {
+    it('操作を順に適用し、作成したタスクを後続の操作で参照できる', () => {
+      const result = applyTaskOperations(tasks, [
+        parseTaskOperation('createTask', { id: 'task-test', name: 'テスト', startDate: '2026-10-11', endDate: '2026-10-12' }),
+        { type: 'addDependency', taskId: 'task-test', dependsOn: '2' },
+        { type: 'updateTask', taskId: '1', fields: { status: TaskStatus.COMPLETED } }
+      ]);
+
+      expect(result.map(task => task.id)).toEqual(['1', '2', 'task-test']);
+      expect(result[2].dependencies).toEqual(['2']);
+      expect(result[0].status).toBe(TaskStatus.COMPLETED);
+      expect(tasks[0].status).toBe(TaskStatus.IN_PROGRESS);
+    });
+
+    it('失敗した操作の番号をエラーに含める', () => {
+      expect(() => applyTaskOperations(tasks, [
+        { type: 'updateTask', taskId: '1', fields: { name: 'x' } },
+        { type: 'deleteTask', taskId: '9' }
+      ])).toThrow('Operation #2: Task "9" does not exist.');
+    });
+  });
+
+  describe('describeTaskOperation', () => {
+    it('操作をタスク名で説明する', () => {
+      expect(describeTaskOperation({ type: 'shiftDates', taskIds: ['2'], days: 7 }, tasks)).toBe('「実装」の日程を7日後ろ倒し');
+      expect(describeTaskOperation({ type: 'addDependency', taskId: '2', dependsOn: '1' }, tasks)).toBe('タスク「実装」を「設計」に依存させる');
+      expect(describeTaskOperation({ type: 'addDependency', taskId: '2', dependsOn: '1', link: { type: DependencyType.START_TO_START, lag: 2 } }, tasks))
+        .toBe('タスク「実装」を「設計」に依存させる（SS+2日）');
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  normalizeTeam,
+  createMemberId,
+  createTeamMember,
+  getMemberInitials,
+  getTaskAssignees,
+  withAssignees,
+  removeAssigneeFromTasks
+} from '../../../services/teamService';
+import { MEMBER_COLORS } from '../../../constants';
+import { Task, TeamMember } from '../../../types';
+import { createTask } from '../../test/taskFactory';
+
+describe('teamService', () => {
+  const aiko: TeamMember = { id: 'aiko', name: 'Aiko Tanaka', color: '#0ea5e9' };
+  const ken: TeamMember = { id: 'ken', name: '佐藤 健', color: '#f97316', capacity: 0.5 };
+
+  const assignedTask = (id: string, assignees?: string[]): Task => createTask(id, assignees ? { assignees } : {});
+
+  it('名簿の重複や不正なメンバーを取り除き、色と稼働率を整える', () => {
+    const team = normalizeTeam([
+      { id: 'aiko', name: ' Aiko Tanaka ', color: 'blue', capacity: 1.5 },
+      { id: 'aiko', name: '重複', color: '#000000' },
+      { id: '', name: 'ID なし', color: '#000000' },
+      { id: 'ken', name: '', color: '#f97316', capacity: 0.5 }
+    ]);
+    expect(team).toEqual([
+      { id: 'aiko', name: 'Aiko Tanaka', color: MEMBER_COLORS[0] },
+      { id: 'ken', name: 'ken', color: '#f97316', capacity: 0.5 }
+    ]);
+    expect(normalizeTeam(undefined)).toEqual([]);
+  });
+
+  it('名前から重ならないメンバー ID を作る', () => {
+    expect(createMemberId('Aiko Tanaka', [])).toBe('aiko-tanaka');
+    expect(createMemberId('Aiko', [aiko])).toBe('aiko-2');
+    expect(createMemberId('田中 愛子', [])).toBe('member-1');
+    expect(createMemberId('佐藤', [{ ...ken, id: 'member-1' }])).toBe('member-2');
+    expect(createTeamMember('  Ken Sato ', [aiko])).toEqual({ id: 'ken-sato', name: 'Ken Sato', color: MEMBER_COLORS[1] });
+  });
+
+  it('アバターに表示する頭文字を名前から求める', () => {
+    expect(getMemberInitials('Aiko Tanaka')).toBe('AT');
+    expect(getMemberInitials('aiko')).toBe('A');
+    expect(getMemberInitials('佐藤 健')).toBe('佐');
+    expect(getMemberInitials(' ')).toBe('?');
+  });
+
+  it('名簿にない担当者は ID を名前とした仮のメンバーとして返す', () => {
+    const assignees = getTaskAssignees(assignedTask('1', ['ken', 'former']), [aiko, ken]);
+    expect(assignees.map(member => member.name)).toEqual(['佐藤 健', 'former']);
+    expect(getTaskAssignees(assignedTask('2'), [aiko])).toEqual([]);
+  });
+
+  it('担当者の重複を除き、いなくなれば assignees を取り除く', () => {
+    expect(withAssignees(assignedTask('1'), ['aiko', 'aiko', 'ken']).assignees).toEqual(['aiko', 'ken']);
+    expect(withAssignees(assignedTask('1', ['aiko']), [])).not.toHaveProperty('assignees');
+  });
+
+  it('名簿から外したメンバーをすべてのタスクの担当者から取り除く', () => {
+    const tasks = [assignedTask('1', ['aiko', 'ken']), assignedTask('2', ['aiko']), assignedTask('3')];
+    const result = removeAssigneeFromTasks(tasks, 'aiko');
+    expect(result[0].assignees).toEqual(['ken']);
+    expect(result[1]).not.toHaveProperty('assignees');
+    expect(result[2]).toBe(tasks[2]);
+  });
+});
@@ -0,0 +1,312 @@
+import { validateTasks, formatValidationError, isValidDateString, removeInvalidCustomFieldValues } from '../../../services/validationService';
+import { TaskStatus, TaskPriority, CustomFieldDefinition } from '../../../types';
+import { createTask } from '../../test/taskFactory';
+
+describe('validationService', () => {
+  const validTask = {
+    id: 'task-1',
+    name: 'タスク1',
+    description: '説明',
+    status: 'Not Started',
+    priority: 'High',
+    startDate: '2026-10-01',
+    endDate: '2026-10-03',
+    dependencies: []
+  };
+
+  describe('isValidDateString', () => {
+    it('YYYY-MM-DD形式の実在する日付を受け付ける', () => {
+      expect(isValidDateString('2026-10-01')).toBe(true);
+      expect(isValidDateString('2024-02-29')).toBe(true);
+    });
+
+    it('不正な形式や存在しない日付を拒否する', () => {
+      expect(isValidDateString('2026/10/01')).toBe(false);
+      expect(isValidDateString('2026-02-30')).toBe(false);
+      expect(isValidDateString(20261001)).toBe(false);
+    });
+  });
+
+  describe('validateTasks', () => {
+    it('正しいタスクはエラーなしで正規化される', () => {
+      const { tasks, errors } = validateTasks([validTask, { ...validTask, id: 'task-2', dependencies: ['task-1'] }]);
+
+      expect(errors).toEqual([]);
+      expect(tasks).toHaveLength(2);
+      expect(tasks[0].status).toBe(TaskStatus.NOT_STARTED);
+      expect(tasks[0].priority).toBe(TaskPriority.HIGH);
+      expect(tasks[1].dependencies).toEqual(['task-1']);
+    });
+
+    it('dependencies が省略された場合は空配列として扱う', () => {
+      const { dependencies: _omitted, ...withoutDeps } = validTask;
+      const { tasks, errors } = validateTasks([withoutDeps]);
+
+      expect(errors).toEqual([]);
+      expect(tasks[0].dependencies).toEqual([]);
+    });
+
+    it('引用符なしの日付（Date オブジェクト）を文字列に戻す', () => {
+      const { tasks, errors } = validateTasks([{ ...validTask, startDate: new Date('2026-10-01T00:00:00Z') }]);
+
+      expect(errors).toEqual([]);
+      expect(tasks[0].startDate).toBe('2026-10-01');
+    });
+
+    it('空のYAML（null）は空のタスク一覧として扱う', () => {
+      expect(validateTasks(null)).toEqual({ tasks: [], errors: [], warnings: [] });
+    });
+
+    it('トップレベルが配列でない場合はエラーを返す', () => {
+      const { errors } = validateTasks({ tasks: [] });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toContain('list of tasks');
+    });
+
+    it('不正な status / priority を検出する', () => {
+      const { tasks, errors } = validateTasks([{ ...validTask, status: 'Done', priority: 'Urgent' }]);
+
+      expect(tasks).toHaveLength(0);
+      expect(errors.map(e => e.field)).toEqual(['status', 'priority']);
+      expect(errors[0].message).toContain('"Done"');
+    });
+
+    it('不正な日付形式と終了日 < 開始日を検出する', () => {
+      const { errors: formatErrors } = validateTasks([{ ...validTask, startDate: '2026/10/01' }]);
+      expect(formatErrors).toHaveLength(1);
+      expect(formatErrors[0].field).toBe('startDate');
+
+      const { errors: orderErrors } = validateTasks([{ ...validTask, startDate: '2026-10-05', endDate: '2026-10-01' }]);
+      expect(orderErrors).toHaveLength(1);
+      expect(orderErrors[0].field).toBe('endDate');
+    });
+
+    it('重複したIDを検出する', () => {
+      const { errors } = validateTasks([validTask, { ...validTask, name: '重複' }]);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({ taskIndex: 1, taskId: 'task-1', field: 'id' });
+    });
+
+    it('存在しないタスクへの依存と自己依存を検出する', () => {
+      const { errors } = validateTasks([
+        { ...validTask, dependencies: ['missing'] },
+        { ...validTask, id: 'task-2', dependencies: ['task-2'] }
+      ]);
+
+      expect(errors).toHaveLength(2);
+      expect(errors[0].message).toContain('"missing"');
+      expect(errors[1].message).toContain('cannot depend on itself');
+    });
+
+    it('依存関係は種類とラグを指定したマッピングでも書け、不正な種類やラグを検出する', () => {
+      const valid = validateTasks([validTask, { ...validTask, id: 'task-2', dependencies: [{ id: 'task-1', type: 'SS', lag: 2 }] }]);
+      expect(valid.errors).toEqual([]);
+      expect(valid.tasks[1]).toMatchObject({ dependencies: ['task-1'], dependencyLinks: { 'task-1': { type: 'SS', lag: 2 } } });
+
+      const { errors } = validateTasks([
+        validTask,
+        { ...validTask, id: 'task-2', dependencies: [{ id: 'task-1', type: 'XX' }] },
+        { ...validTask, id: 'task-3', dependencies: [{ id: 'task-1', lag: 1.5 }] }
+      ]);
+      expect(errors.map(error => error.message)).toEqual([
+        'Dependency type must be one of "FS", "SS", "FF", "SF" (got "XX").',
+        'Dependency lag must be a whole number of days (got 1.5).'
+      ]);
+    });
+
+    it('依存関係の循環をタスク名の経路付きで検出する', () => {
+      const { errors } = validateTasks([
+        { ...validTask, dependencies: ['task-2'] },
+        { ...validTask, id: 'task-2', name: 'タスク2', dependencies: ['task-1'] }
+      ]);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({ taskId: 'task-1', field: 'dependencies' });
+      expect(errors[0].message).toBe('Circular dependency: タスク1 → タスク2 → タスク1.');
+    });
+
+    it('parentId を保持し、存在しない親・自分自身・循環した親子関係を検出する', () => {
+      const valid = validateTasks([validTask, { ...validTask, id: 'task-2', parentId: 'task-1' }]);
+      expect(valid.errors).toEqual([]);
+      expect(valid.tasks[1].parentId).toBe('task-1');
+
+      const { errors } = validateTasks([
+        { ...validTask, parentId: 'missing' },
+        { ...validTask, id: 'task-2', parentId: 'task-2' },
+        { ...validTask, id: 'task-3', name: 'タスク3', parentId: 'task-4' },
+        { ...validTask, id: 'task-4', name: 'タスク4', parentId: 'task-3' }
+      ]);
+      expect(errors.map(error => error.message)).toEqual([
+        'parentId "missing" does not match any task id.',
+        'Task "task-2" cannot be its own parent.',
+        'Circular parent relationship: タスク3 → タスク4 → タスク3.'
+      ]);
+    });
+
+    it('マイルストーンは endDate を省略でき、開始日と異なる終了日やサブタスクはエラーにする', () => {
+      const { endDate: _endDate, ...withoutEndDate } = validTask;
+      const valid = validateTasks([{ ...withoutEndDate, milestone: true }]);
+      expect(valid.errors).toEqual([]);
+      expect(valid.tasks[0]).toMatchObject({ startDate: validTask.startDate, endDate: validTask.startDate, milestone: true });
+
+      const { errors } = validateTasks([
+        { ...validTask, milestone: true, startDate: '2026-10-01', endDate: '2026-10-02' },
+        { ...validTask, id: 'task-2', milestone: true, startDate: '2026-10-01', endDate: '2026-10-01' },
+        { ...validTask, id: 'task-3', startDate: '2026-10-01', endDate: '2026-10-01', parentId: 'task-2' }
+      ]);
+      expect(errors.map(error => error.message)).toEqual([
+        'A milestone must have the same startDate and endDate (got 2026-10-01 and 2026-10-02).',
+        'Milestone "task-2" cannot have subtasks.'
+      ]);
+    });
+
+    it('progress を保持し、0〜100 の数値以外はエラーにする', () => {
+      const valid = validateTasks([{ ...validTask, progress: 40 }]);
+      expect(valid.errors).toEqual([]);
+      expect(valid.tasks[0].progress).toBe(40);
+
+      const { errors } = validateTasks([{ ...validTask, progress: 120 }, { ...validTask, id: 'task-2', progress: '50' }]);
+      expect(errors.map(error => error.field)).toEqual(['progress', 'progress']);
+    });
+
+    it('customFields の値を定義の種類に照らして検証し、正規化する', () => {
+      const customFields = [
+        { id: 'estimate', name: '見積もり（h）', type: 'number' as const },
+        { id: 'due', name: '期限', type: 'date' as const },
+        { id: 'component', name: 'コンポーネント', type: 'select' as const, options: ['UI', 'API'] },
+        { id: 'labels', name: 'ラベル', type: 'multiSelect' as const, options: ['bug', 'infra'] },
+        { id: 'ticket', name: 'チケットURL', type: 'url' as const }
+      ];
+      const valid = validateTasks([{
+        ...validTask,
+        customFields: { estimate: 8, due: new Date('2026-10-30T00:00:00Z'), component: 'UI', labels: 'bug', ticket: 'https://example.com/T-1', note: '削除された項目', empty: '' }
+      }], undefined, { customFields });
+
+      expect(valid.errors).toEqual([]);
+      expect(valid.tasks[0].customFields).toEqual({
+        estimate: 8, due: '2026-10-30', component: 'UI', labels: ['bug'], ticket: 'https://example.com/T-1', note: '削除された項目'
+      });
+
+      const { errors } = validateTasks([{
+        ...validTask,
+        customFields: { estimate: '8h', due: '2026-13-01', component: 'DB', labels: ['bug', 'docs'], ticket: 'javascript:alert(1)' }
+      }, { ...validTask, id: 'task-2', customFields: ['UI'] }], undefined, { customFields });
+      expect(errors.map(error => error.message)).toEqual([
+        'Custom field "estimate" must be a number (got "8h").',
+        'Custom field "due" must be a valid date in YYYY-MM-DD format (got "2026-13-01").',
+        'Custom field "component" must be one of "UI", "API" (got "DB").',
+        'Custom field "labels" must be a list of "bug", "infra" (got ["bug","docs"]).',
+        'Custom field "ticket" must be a URL starting with http:// or https:// (got "javascript:alert(1)").',
+        'customFields must be a mapping of field ids to values.'
+      ]);
+      expect(errors.every(error => error.field === 'customFields')).toBe(true);
+    });
+
+    it('assignees は重複を除き、名簿にない担当者は ID のまま残して警告する', () => {
+      const team = [{ id: 'aiko', name: 'Aiko Tanaka', color: '#0ea5e9' }];
+      const valid = validateTasks([{ ...validTask, assignees: ['aiko', 'aiko'] }], undefined, { team });
+      expect(valid.errors).toEqual([]);
+      expect(valid.warnings).toEqual([]);
+      expect(valid.tasks[0].assignees).toEqual(['aiko']);
+
+      // 名簿を指定しない・名簿が空なら ID の形式だけを検証する
+      expect(validateTasks([{ ...validTask, assignees: ['someone'] }])).toMatchObject({ errors: [], warnings: [] });
+      expect(validateTasks([{ ...validTask, assignees: ['someone'] }], undefined, { team: [] })).toMatchObject({ errors: [], warnings: [] });
+
+      const { tasks, errors, warnings } = validateTasks([
+        { ...validTask, assignees: ['aiko', 'ken'] },
+        { ...validTask, id: 'task-2', assignees: 'aiko' }
+      ], undefined, { team });
+      expect(tasks[0].assignees).toEqual(['aiko', 'ken']);
+      expect(warnings).toEqual([expect.objectContaining({ message: 'Assignee "ken" is not a member of the team; the id is kept as is.', taskId: validTask.id, field: 'assignees' })]);
+      expect(errors.map(error => error.message)).toEqual(['assignees must be a list of team member ids.']);
+      expect(errors.every(error => error.field === 'assignees')).toBe(true);
+    });
+
+    it('tags は空白・空のタグ・重複を取り除き、文字列のリストでなければエラーにする', () => {
+      const valid = validateTasks([{ ...validTask, tags: [' backend', 'backend', '', 2026] }]);
+      expect(valid.errors).toEqual([]);
+      expect(valid.tasks[0].tags).toEqual(['backend', '2026']);
+
+      const { errors } = validateTasks([{ ...validTask, tags: 'backend' }]);
+      expect(errors).toEqual([expect.objectContaining({ message: 'tags must be a list of strings.', field: 'tags' })]);
+    });
+
+    it('allowCycles を指定すると循環をエラーにしない', () => {
+      const { tasks, errors } = validateTasks([
+        { ...validTask, dependencies: ['task-2'] },
+        { ...validTask, id: 'task-2', dependencies: ['task-1'] }
+      ], undefined, { allowCycles: true });
+
+      expect(errors).toEqual([]);
+      expect(tasks).toHaveLength(2);
+    });
+
+    it('YAMLソースを渡すとエラーに行と列が付与される', () => {
+      const yaml = [
+        '- id: "task-1"',
+        '  name: "タスク1"',
+        '  status: "Not Started"',
+        '  priority: "High"',
+        '  startDate: "2026-10-01"',
+        '  endDate: "2026-10-03"',
+        '  dependencies: []',
+        '- id: "task-2"',
+        '  name: "タスク2"',
+        '  status: "Done"',
+        '  priority: "Low"',
+        '  startDate: "2026/10/01"',
+        '  endDate: "2026-10-03"',
+        '  dependencies: ["task-9"]',
+      ].join('\n');
+      const data = [
+        { ...validTask },
+        { ...validTask, id: 'task-2', status: 'Done', priority: 'Low', startDate: '2026/10/01', dependencies: ['task-9'] }
+      ];
+
+      const { errors } = validateTasks(data, yaml);
+
+      expect(errors.find(e => e.field === 'status')).toMatchObject({ line: 10, column: 3 });
+      expect(errors.find(e => e.field === 'startDate')).toMatchObject({ line: 12, column: 3 });
+      expect(errors.find(e => e.field === 'dependencies')).toMatchObject({ line: 14, column: 3 });
+    });
+
+    it('先頭行のフィールドは "- " の後ろの列を指す', () => {
+      const yaml = '- id: 1\n  name: ""\n';
+      const { errors } = validateTasks([{ ...validTask, id: 1, name: '' }], yaml);
+
+      expect(errors.find(e => e.field === 'name')).toMatchObject({ line: 2, column: 3 });
+    });
+  });
+
+  describe('removeInvalidCustomFieldValues', () => {
+    it('選択肢の削除で不正になった値を取り除き、複数選択は残っている選択肢だけを残す', () => {
+      const definitions: CustomFieldDefinition[] = [
+        { id: 'component', name: 'コンポーネント', type: 'select', options: ['UI'] },
+        { id: 'labels', name: 'ラベル', type: 'multiSelect', options: ['bug'] }
+      ];
+      const unchanged = createTask('1', { customFields: { component: 'UI', labels: ['bug'], note: '削除された項目' } });
+      const tasks = [
+        unchanged,
+        createTask('2', { customFields: { component: 'API', labels: ['bug', 'infra'] } }),
+        createTask('3', { customFields: { component: 'API', labels: ['infra'] } })
+      ];
+
+      const [first, second, third] = removeInvalidCustomFieldValues(tasks, definitions);
+      expect(first).toBe(unchanged);
+      expect(second.customFields).toEqual({ labels: ['bug'] });
+      expect(third).not.toHaveProperty('customFields');
+      // 取り除いた後のタスクはそのまま検証を通る
+      expect(validateTasks([second, third], undefined, { customFields: definitions }).errors).toEqual([]);
+    });
+  });
+
+  describe('formatValidationError', () => {
+    it('位置とタスクIDを含む1行の文字列に整形する', () => {
+      expect(formatValidationError({ message: 'status is invalid', taskId: 'task-1', line: 3, column: 3 }))
+        .toBe('Line 3, column 3: [task-1] status is invalid');
+      expect(formatValidationError({ message: 'broken', taskIndex: 0 })).toBe('[#1] broken');
+    });
+  });
+});
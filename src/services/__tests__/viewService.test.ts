@@ -0,0 +1,107 @@
+import {
+  DEFAULT_VIEW_STATE,
+  normalizeViewState,
+  normalizeSavedViews,
+  createSavedView,
+  isSameViewState,
+  hasActiveFilters,
+  getDefaultSavedView,
+  matchesTaskFilters,
+  getTaskComparator,
+  groupTasks
+} from '../../../services/viewService';
+import { CustomFieldDefinition, SavedView, Task, TaskPriority, TaskViewState, TeamMember } from '../../../types';
+import { createTask } from '../../test/taskFactory';
+
+describe('viewService', () => {
+  const team: TeamMember[] = [{ id: 'aiko', name: 'Aiko Tanaka', color: '#0ea5e9' }];
+  const estimate: CustomFieldDefinition = { id: 'estimate', name: '見積もり', type: 'number' };
+
+  it('保存されている表示条件の欠けた項目を既定値で補い、不正な値を既定値に戻す', () => {
+    const state = normalizeViewState({
+      filters: { status: 'Done', tags: [' backend ', 3, 'backend'] },
+      sortKey: 'unknown',
+      groupBy: 'tag',
+      ganttViewMode: 'week',
+      ganttZoom: 10
+    });
+    expect(state.filters).toEqual({ ...DEFAULT_VIEW_STATE.filters, tags: ['backend'] });
+    expect(state).toMatchObject({ sortKey: 'startDate', sortOrder: 'asc', groupBy: 'tag', ganttViewMode: 'week', ganttZoom: 3 });
+    expect(normalizeViewState(undefined)).toEqual(DEFAULT_VIEW_STATE);
+    expect(normalizeViewState({ sortKey: 'custom:estimate' }).sortKey).toBe('custom:estimate');
+  });
+
+  it('名前や ID のない保存ビューと重複した ID を取り除く', () => {
+    const views = normalizeSavedViews([
+      { id: 'view-1', name: ' 今週の作業 ', state: { groupBy: 'status' } },
+      { id: 'view-1', name: '重複', state: DEFAULT_VIEW_STATE },
+      { id: '', name: 'ID なし', state: DEFAULT_VIEW_STATE },
+      { id: 'view-2', name: ' ', state: DEFAULT_VIEW_STATE }
+    ] as SavedView[]);
+    expect(views).toEqual([{ id: 'view-1', name: '今週の作業', state: { ...DEFAULT_VIEW_STATE, groupBy: 'status' } }]);
+    expect(normalizeSavedViews(undefined)).toEqual([]);
+  });
+
+  it('今の表示条件を名前を付けて保存し、既定の保存ビューを引ける', () => {
+    const state: TaskViewState = { ...DEFAULT_VIEW_STATE, sortKey: 'priority', sortOrder: 'desc' };
+    const view = createSavedView(' 優先度順 ', state);
+    expect(view.id).toMatch(/^view-/);
+    expect(view).toMatchObject({ name: '優先度順', state });
+    expect(getDefaultSavedView([view], view.id)).toBe(view);
+    expect(getDefaultSavedView([view], 'missing')).toBeUndefined();
+    expect(getDefaultSavedView([view])).toBeUndefined();
+  });
+
+  it('表示条件の変更と絞り込みの有無を判定する', () => {
+    const filtered = { ...DEFAULT_VIEW_STATE, filters: { ...DEFAULT_VIEW_STATE.filters, tags: ['backend'] } };
+    expect(isSameViewState(DEFAULT_VIEW_STATE, { ...DEFAULT_VIEW_STATE })).toBe(true);
+    expect(isSameViewState(DEFAULT_VIEW_STATE, { ...DEFAULT_VIEW_STATE, ganttZoom: 1.2 })).toBe(false);
+    expect(hasActiveFilters(DEFAULT_VIEW_STATE.filters)).toBe(false);
+    expect(hasActiveFilters(filtered.filters)).toBe(true);
+  });
+
+  it('絞り込みの条件にすべて合うタスクだけが一致する', () => {
+    const task = createTask('a', { priority: TaskPriority.HIGH, assignees: ['aiko'], tags: ['backend'], customFields: { estimate: 8 } });
+    const filters = DEFAULT_VIEW_STATE.filters;
+    expect(matchesTaskFilters(task, { ...filters, priority: TaskPriority.HIGH, assignee: 'aiko', tags: ['backend', 'ui'] })).toBe(true);
+    expect(matchesTaskFilters(task, { ...filters, tags: ['backend', 'ui'], tagMatch: 'all' })).toBe(false);
+    expect(matchesTaskFilters(task, { ...filters, assignee: 'unassigned' })).toBe(false);
+    expect(matchesTaskFilters(task, { ...filters, customFieldId: 'estimate', customFieldValue: '8' }, [estimate])).toBe(true);
+    expect(matchesTaskFilters(task, { ...filters, customFieldId: 'estimate', customFieldValue: '5' }, [estimate])).toBe(false);
+    // 定義が削除された項目での絞り込みは無視する
+    expect(matchesTaskFilters(task, { ...filters, customFieldId: 'estimate', customFieldValue: '5' })).toBe(true);
+  });
+
+  it('並べ替えの条件で比較し、削除されたカスタムフィールドでは順序を変えない', () => {
+    const tasks = [
+      createTask('low', { priority: TaskPriority.LOW, customFields: { estimate: 3 } }),
+      createTask('high', { priority: TaskPriority.HIGH, customFields: { estimate: 1 } }),
+      createTask('medium', { priority: TaskPriority.MEDIUM, customFields: { estimate: 2 } })
+    ];
+    const ids = (sorted: Task[]) => sorted.map(task => task.id);
+    expect(ids([...tasks].sort(getTaskComparator('priority', 'desc')))).toEqual(['high', 'medium', 'low']);
+    expect(ids([...tasks].sort(getTaskComparator('custom:estimate', 'asc', [estimate])))).toEqual(['high', 'medium', 'low']);
+    expect(ids([...tasks].sort(getTaskComparator('custom:estimate', 'asc')))).toEqual(['low', 'high', 'medium']);
+  });
+
+  it('担当者とタグでグループ化し、担当者なし・タグなしは最後に置く', () => {
+    const tasks = [
+      createTask('a', { assignees: ['aiko', 'ghost'], tags: ['ui', 'backend'] }),
+      createTask('b'),
+      createTask('c', { assignees: ['aiko'], tags: ['backend'] })
+    ];
+    const summarize = (groups: ReturnType<typeof groupTasks>) => groups.map(group => [group.label, group.tasks.map(task => task.id)]);
+    expect(summarize(groupTasks(tasks, 'assignee', team))).toEqual([
+      ['Aiko Tanaka', ['a', 'c']],
+      ['ghost', ['a']],
+      ['担当者なし', ['b']]
+    ]);
+    expect(summarize(groupTasks(tasks, 'tag'))).toEqual([
+      ['backend', ['a', 'c']],
+      ['ui', ['a']],
+      ['タグなし', ['b']]
+    ]);
+    expect(summarize(groupTasks(tasks, 'status'))).toEqual([['未着手', ['a', 'b', 'c']]]);
+    expect(groupTasks([], 'none')).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  DEFAULT_WORKING_CALENDAR,
+  getJapaneseHolidays,
+  normalizeWorkingCalendar,
+  getNonWorkingDayName,
+  isWorkingDay,
+  countWorkingDays,
+  snapToWorkingDay,
+  addWorkingDays,
+  getEndDateForWorkingDays
+} from '../../../services/workingCalendarService';
+import { WorkingCalendar } from '../../../types';
+
+describe('workingCalendarService', () => {
+  const calendar = DEFAULT_WORKING_CALENDAR;
+
+  describe('getJapaneseHolidays', () => {
+    it('ハッピーマンデー・春分/秋分・振替休日・国民の休日を含めて日付順に返す', () => {
+      expect(getJapaneseHolidays(2026)).toEqual([
+        { date: '2026-01-01', name: '元日' },
+        { date: '2026-01-12', name: '成人の日' },
+        { date: '2026-02-11', name: '建国記念の日' },
+        { date: '2026-02-23', name: '天皇誕生日' },
+        { date: '2026-03-20', name: '春分の日' },
+        { date: '2026-04-29', name: '昭和の日' },
+        { date: '2026-05-03', name: '憲法記念日' },
+        { date: '2026-05-04', name: 'みどりの日' },
+        { date: '2026-05-05', name: 'こどもの日' },
+        { date: '2026-05-06', name: '振替休日' },
+        { date: '2026-07-20', name: '海の日' },
+        { date: '2026-08-11', name: '山の日' },
+        { date: '2026-09-21', name: '敬老の日' },
+        { date: '2026-09-22', name: '国民の休日' },
+        { date: '2026-09-23', name: '秋分の日' },
+        { date: '2026-10-12', name: 'スポーツの日' },
+        { date: '2026-11-03', name: '文化の日' },
+        { date: '2026-11-23', name: '勤労感謝の日' },
+      ]);
+    });
+
+    it('東京オリンピックに伴って移動した祝日を反映する', () => {
+      const holidays = getJapaneseHolidays(2021);
+      expect(holidays).toContainEqual({ date: '2021-07-23', name: 'スポーツの日' });
+      expect(holidays).toContainEqual({ date: '2021-08-09', name: '振替休日' });
+      expect(holidays.some(h => h.date === '2021-10-11')).toBe(false);
+    });
+  });
+
+  describe('稼働日の判定', () => {
+    it('土日と祝日を休みとし、名前を返す', () => {
+      expect(getNonWorkingDayName('2026-10-12', calendar)).toBe('スポーツの日');
+      expect(getNonWorkingDayName('2026-10-17', calendar)).toBe('休日');
+      expect(isWorkingDay('2026-10-13', calendar)).toBe(true);
+    });
+
+    it('プロジェクト独自の休日と、休みの日に稼働する例外を反映する', () => {
+      const custom: WorkingCalendar = {
+        workWeek: [1, 2, 3, 4, 5, 6],
+        useJapaneseHolidays: false,
+        holidays: [{ date: '2026-10-14', name: '創立記念日' }],
+        workingDays: ['2026-10-18'],
+      };
+
+      expect(getNonWorkingDayName('2026-10-14', custom)).toBe('創立記念日');
+      expect(isWorkingDay('2026-10-12', custom)).toBe(true);
+      expect(isWorkingDay('2026-10-17', custom)).toBe(true);
+      expect(isWorkingDay('2026-10-18', custom)).toBe(true);
+    });
+
+    it('未設定の項目には既定値を補う', () => {
+      expect(normalizeWorkingCalendar(undefined)).toEqual(DEFAULT_WORKING_CALENDAR);
+      expect(normalizeWorkingCalendar({ workWeek: [0, 6] })).toEqual({ ...DEFAULT_WORKING_CALENDAR, workWeek: [0, 6] });
+    });
+  });
+
+  describe('稼働日の計算', () => {
+    it('土日と祝日を除いて稼働日数を数える', () => {
+      // 2026-10-08(木)〜10-14(水): 10-10,11 は土日、10-12 はスポーツの日
+      expect(countWorkingDays('2026-10-08', '2026-10-14', calendar)).toBe(4);
+      expect(countWorkingDays('2026-10-10', '2026-10-11', calendar)).toBe(0);
+    });
+
+    it('休みの日を指定した向きの稼働日に寄せる', () => {
+      expect(snapToWorkingDay('2026-10-10', calendar)).toBe('2026-10-13');
+      expect(snapToWorkingDay('2026-10-10', calendar, -1)).toBe('2026-10-09');
+      expect(snapToWorkingDay('2026-10-13', calendar)).toBe('2026-10-13');
+    });
+
+    it('稼働日単位で日付を進め、期間から終了日を求める', () => {
+      expect(addWorkingDays('2026-10-09', 1, calendar)).toBe('2026-10-13');
+      expect(addWorkingDays('2026-10-13', -1, calendar)).toBe('2026-10-09');
+      // 5稼働日のタスクは週末と祝日をまたいでも5稼働日のまま
+      expect(getEndDateForWorkingDays('2026-10-08', 5, calendar)).toBe('2026-10-15');
+      expect(getEndDateForWorkingDays('2026-10-10', 1, calendar)).toBe('2026-10-13');
+    });
+
+    it('稼働曜日がないカレンダーでもすべての日を稼働日として扱い、止まる', () => {
+      const empty: WorkingCalendar = { workWeek: [], useJapaneseHolidays: false, holidays: [], workingDays: [] };
+      expect(addWorkingDays('2026-10-10', 2, empty)).toBe('2026-10-12');
+    });
+  });
+});
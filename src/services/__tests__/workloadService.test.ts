@@ -0,0 +1,52 @@
+import { calculateWorkload, getWeekStarts, isWorkloadTask } from '../../../services/workloadService';
+import { Task, TaskStatus, TeamMember, WorkingCalendar } from '../../../types';
+import { createTask } from '../../test/taskFactory';
+
+describe('workloadService', () => {
+  // 土日休み・祝日なし
+  const calendar: WorkingCalendar = { workWeek: [1, 2, 3, 4, 5], useJapaneseHolidays: false, holidays: [], workingDays: [] };
+  const aiko: TeamMember = { id: 'aiko', name: 'Aiko', color: '#0ea5e9' };
+  const ken: TeamMember = { id: 'ken', name: 'Ken', color: '#f97316', capacity: 0.5 };
+
+  const scheduledTask = (id: string, startDate: string, endDate: string, overrides: Partial<Task> = {}): Task =>
+    createTask(id, { startDate, endDate, ...overrides });
+
+  it('月曜始まりの週の初日を並べる', () => {
+    expect(getWeekStarts('2026-06-04', 3)).toEqual(['2026-06-01', '2026-06-08', '2026-06-15']);
+  });
+
+  it('完了したタスク・マイルストーン・サブタスクを持つタスクは負荷に数えない', () => {
+    const parent = scheduledTask('p', '2026-06-01', '2026-06-05');
+    const child = scheduledTask('c', '2026-06-01', '2026-06-05', { parentId: 'p' });
+    const tasks = [
+      parent,
+      child,
+      scheduledTask('done', '2026-06-01', '2026-06-05', { status: TaskStatus.COMPLETED }),
+      scheduledTask('m', '2026-06-05', '2026-06-05', { milestone: true })
+    ];
+    expect(tasks.map(task => isWorkloadTask(task, tasks))).toEqual([false, true, false, false]);
+  });
+
+  it('週ごとに担当タスクの稼働日数を合計し、稼働可能日数を超えた週を示す', () => {
+    const tasks = [
+      // 6/3(水)〜6/9(火): 第1週に3日、第2週に2日
+      scheduledTask('1', '2026-06-03', '2026-06-09', { assignees: ['aiko'] }),
+      // 第1週に並行して5日
+      scheduledTask('2', '2026-06-01', '2026-06-05', { assignees: ['aiko', 'ken'] })
+    ];
+    const [aikoLoad, kenLoad] = calculateWorkload(tasks, [aiko, ken], calendar, getWeekStarts('2026-06-01', 2));
+
+    expect(aikoLoad.weeks[0]).toEqual({ weekStart: '2026-06-01', allocatedDays: 8, capacityDays: 5, taskIds: ['1', '2'], isOverAllocated: true });
+    expect(aikoLoad.weeks[1]).toMatchObject({ allocatedDays: 2, capacityDays: 5, taskIds: ['1'], isOverAllocated: false });
+    // 稼働率 50% なら週 2.5 日まで
+    expect(kenLoad.weeks[0]).toMatchObject({ allocatedDays: 5, capacityDays: 2.5, isOverAllocated: true });
+    expect(kenLoad.weeks[1]).toMatchObject({ allocatedDays: 0, taskIds: [], isOverAllocated: false });
+  });
+
+  it('休みの日に重なる部分は負荷に数えない', () => {
+    const withHoliday: WorkingCalendar = { ...calendar, holidays: [{ date: '2026-06-02', name: '創立記念日' }] };
+    const tasks = [scheduledTask('1', '2026-06-05', '2026-06-07', { assignees: ['aiko'] }), scheduledTask('2', '2026-06-01', '2026-06-02', { assignees: ['aiko'] })];
+    const [aikoLoad] = calculateWorkload(tasks, [aiko], withHoliday, ['2026-06-01']);
+    expect(aikoLoad.weeks[0]).toMatchObject({ allocatedDays: 2, capacityDays: 4 });
+  });
+});
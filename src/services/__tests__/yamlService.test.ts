@@ -0,0 +1,45 @@
+import { parseTasksFromYaml, stringifyTasksToYaml } from '../../../services/yamlService';
+import { Task, TaskStatus, TaskPriority, DependencyType } from '../../../types';
+
+describe('yamlService', () => {
+  beforeEach(() => {
+    // JSON を読み書きする jsyaml に差し替える（YAML は JSON の上位互換）
+    vi.stubGlobal('jsyaml', {
+      load: (yaml: string) => JSON.parse(yaml),
+      dump: (value: unknown) => JSON.stringify(value),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('タグ・担当者・依存関係の種類を書き出して読み戻せる', () => {
+    const tasks: Task[] = [
+      {
+        id: 'task-1',
+        name: 'API 設計',
+        status: TaskStatus.NOT_STARTED,
+        priority: TaskPriority.HIGH,
+        startDate: '2026-10-01',
+        endDate: '2026-10-03',
+        dependencies: [],
+        assignees: ['aiko'],
+        tags: ['backend', 'customer-A']
+      },
+      {
+        id: 'task-2',
+        name: '実装',
+        status: TaskStatus.NOT_STARTED,
+        priority: TaskPriority.MEDIUM,
+        startDate: '2026-10-02',
+        endDate: '2026-10-08',
+        dependencies: ['task-1'],
+        dependencyLinks: { 'task-1': { type: DependencyType.START_TO_START, lag: 1 } },
+        tags: ['blocked']
+      }
+    ];
+
+    expect(parseTasksFromYaml(stringifyTasksToYaml(tasks))).toEqual(tasks);
+  });
+});
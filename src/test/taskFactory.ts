@@ -0,0 +1,15 @@
+import { Task, TaskStatus, TaskPriority } from '../../types';
+
+/**
+ * テスト用のタスクを作る（未着手・優先度中・2026-10-01〜03・依存関係なし。overrides で上書きする）
+ */
+export const createTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  name: `タスク${id}`,
+  status: TaskStatus.NOT_STARTED,
+  priority: TaskPriority.MEDIUM,
+  startDate: '2026-10-01',
+  endDate: '2026-10-03',
+  dependencies: [],
+  ...overrides
+});
@@ -11,6 +11,18 @@ export enum TaskPriority {
   LOW = 'Low',
 }
 
+export enum DependencyType {
+  FINISH_TO_START = 'FS',  // Starts after the dependency finishes
+  START_TO_START = 'SS',   // Starts no earlier than the dependency starts
+  FINISH_TO_FINISH = 'FF', // Finishes no earlier than the dependency finishes
+  START_TO_FINISH = 'SF',  // Finishes no earlier than the dependency starts
+}
+
+export interface DependencyLink {
+  type: DependencyType;
+  lag: number; // Days added after the dependency's anchor date. Negative values are lead time
+}
+
 export interface Task {
   id: string;
   name: string;
@@ -19,10 +31,48 @@ export interface Task {
   priority: TaskPriority;
   startDate: string; // YYYY-MM-DD
   endDate: string;   // YYYY-MM-DD
+  milestone?: boolean; // Single-date marker such as a release or review gate (endDate equals startDate)
+  progress?: number; // Percent complete (0-100). Estimated from status when omitted
   dependencies: string[]; // Array of task IDs this task depends on
+  dependencyLinks?: Record<string, DependencyLink>; // Type and lag keyed by dependency ID. Unlisted dependencies are FS with no lag
+  parentId?: string; // ID of the parent task (summary task) when this is a subtask
+  customFields?: Record<string, CustomFieldValue>; // Values of project-defined custom fields keyed by field ID
+  assignees?: string[]; // IDs of the team members responsible for the task
+  tags?: string[]; // Free-form labels (e.g. "backend", "blocked", "customer-A")
+}
+
+export interface TeamMember {
+  id: string; // Key used in Task.assignees and in YAML (e.g. "aiko")
+  name: string;
+  color: string; // Avatar background color (#rrggbb)
+  capacity?: number; // Share of each working day available to the project (0-1). Full time when omitted
 }
 
-export type ViewMode = 'list' | 'gantt' | 'ai' | 'split-list-gantt' | 'split-list-ai' | 'split-gantt-ai';
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multiSelect' | 'url';
+
+// Dates are YYYY-MM-DD strings and multi-select values are lists of options
+export type CustomFieldValue = string | number | string[];
+
+export interface CustomFieldDefinition {
+  id: string; // Key used in Task.customFields and in YAML (e.g. "estimate")
+  name: string; // Display name (e.g. "見積もり（h）")
+  type: CustomFieldType;
+  options?: string[]; // Choices for select and multiSelect fields
+}
+
+export interface CalendarHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export interface WorkingCalendar {
+  workWeek: number[]; // Working weekdays (0 = Sunday ... 6 = Saturday)
+  useJapaneseHolidays: boolean; // Treat Japanese national holidays as non-working days
+  holidays: CalendarHoliday[]; // Project-specific non-working days (e.g. company holidays)
+  workingDays: string[]; // Exceptions: dates worked even though they fall on a weekend or holiday (YYYY-MM-DD)
+}
+
+export type ViewMode = 'list' | 'gantt' | 'ai' | 'workload' | 'split-list-gantt' | 'split-list-ai' | 'split-gantt-ai';
 
 export interface SplitViewConfig {
   leftPane: 'list' | 'gantt' | 'ai';
@@ -32,6 +82,39 @@ export interface SplitViewConfig {
   rightSize: number; // Percentage (0-100)
 }
 
+export type TaskSortKey = 'startDate' | 'endDate' | 'priority' | 'status' | `custom:${string}`; // custom:<custom field id>
+
+export type TaskGroupBy = 'none' | 'status' | 'priority' | 'assignee' | 'tag';
+
+export type GanttViewMode = 'day' | 'week' | 'month';
+
+export interface TaskFilters {
+  status: TaskStatus | 'all';
+  priority: TaskPriority | 'all';
+  dateRange: 'all' | 'today' | 'thisWeek' | 'thisMonth'; // Compared with the start date
+  customFieldId: string; // Custom field used for filtering ('' = none)
+  customFieldValue: string;
+  assignee: string; // 'all', 'unassigned' or a team member id
+  tags: string[]; // Tags to filter by (empty = no tag filter)
+  tagMatch: 'all' | 'any'; // all = every selected tag (AND), any = at least one (OR)
+}
+
+// How the task list and the Gantt chart show tasks
+export interface TaskViewState {
+  filters: TaskFilters;
+  sortKey: TaskSortKey;
+  sortOrder: 'asc' | 'desc';
+  groupBy: TaskGroupBy; // Task list only; the Gantt chart keeps the task hierarchy
+  ganttViewMode: GanttViewMode;
+  ganttZoom: number; // Multiplier of the unit width (0.3-3)
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  state: TaskViewState;
+}
+
 // For Gemini Search Grounding (if used)
 export interface WebGroundingChunk {
   web: {